@@ -0,0 +1,41 @@
+import { HttpError } from '../errors.js';
+import { getSubscription } from '../billing/subscriptions.js';
+import { removeStorageFiles } from '../storage.js';
+
+/**
+ * Account deletion
+ *
+ * Deleting the auth user removes everything in the database through the
+ * `ON DELETE CASCADE` foreign keys. Before that, a paid subscription is
+ * ended with the billing provider so the user is not charged again, and the
+ * user's uploads (ad media, logos) are removed from storage, which the
+ * cascade does not reach.
+ */
+
+const cancelPaidSubscription = async ({ supabase, billingProvider, userId }) => {
+  const subscription = await getSubscription(supabase, userId);
+  if (!subscription?.provider_subscription_id) return;
+
+  if (!billingProvider) {
+    throw new HttpError(503, 'Your subscription cannot be cancelled right now, please try again later');
+  }
+  await billingProvider.cancelSubscription(subscription.provider_subscription_id);
+};
+
+const removeStorageObjects = async ({ supabase, userId }) => {
+  const { data: objects, error } = await supabase.rpc('get_user_storage_objects', { p_user_id: userId });
+  if (error) throw error;
+
+  await removeStorageFiles(supabase, objects || []);
+  return (objects || []).length;
+};
+
+export const deleteAccount = async ({ supabase, billingProvider, userId }) => {
+  await cancelPaidSubscription({ supabase, billingProvider, userId });
+  const removedFiles = await removeStorageObjects({ supabase, userId });
+
+  const { error } = await supabase.auth.admin.deleteUser(userId);
+  if (error) throw error;
+
+  return { removedFiles };
+};
@@ -0,0 +1,75 @@
+import { HttpError } from '../errors.js';
+
+/**
+ * Phone verification
+ *
+ * A six digit code is created by `create_verification_code` and sent to the
+ * phone by SMS, entering it calls `verify_code`, which adds the number to
+ * `verified_phones`. Both functions are only available to the service role,
+ * the code never reaches the browser. Attempts per number are limited by the
+ * database, too many lock the number for a while. So are sends: one code a
+ * minute per user and per number, and a daily cap for each.
+ */
+
+// Numbers are normalized to E.164 in the browser (src/lib/phone.ts)
+const E164 = /^\+[1-9]\d{7,14}$/;
+const CODE = /^\d{6}$/;
+
+export const parsePhone = (value) => {
+  const phone = typeof value === 'string' ? value.trim() : '';
+  if (!E164.test(phone)) {
+    throw new HttpError(400, 'Enter the phone number in international format, for example +15551234567');
+  }
+  return phone;
+};
+
+// The database raises these when a number had too many attempts or codes
+const toHttpError = (error) => {
+  const message = error?.message || '';
+  if (/too many verification attempts/i.test(message)) {
+    return new HttpError(429, 'Too many verification attempts, please try again later');
+  }
+  if (/too many verification codes requested/i.test(message)) {
+    return new HttpError(429, message);
+  }
+  return error;
+};
+
+export const sendPhoneVerification = async ({ supabase, smsProvider, userId, phone }) => {
+  const { data: code, error } = await supabase.rpc('create_verification_code', {
+    user_id: userId,
+    type: 'phone',
+    identifier: phone
+  });
+
+  if (error) throw toHttpError(error);
+
+  try {
+    await smsProvider.send({
+      to: phone,
+      body: `Your verification code is ${code}. It expires in 15 minutes.`
+    });
+  } catch (sendError) {
+    console.error('Verification SMS error:', sendError);
+    throw new HttpError(502, 'The verification code could not be sent to this number');
+  }
+};
+
+export const confirmPhoneVerification = async ({ supabase, userId, phone, code }) => {
+  const value = typeof code === 'string' ? code.trim() : '';
+  if (!CODE.test(value)) {
+    throw new HttpError(400, 'Enter the 6 digit code');
+  }
+
+  const { data: verified, error } = await supabase.rpc('verify_code', {
+    user_id: userId,
+    verification_code: value,
+    type: 'phone',
+    identifier: phone
+  });
+
+  if (error) throw toHttpError(error);
+  if (!verified) {
+    throw new HttpError(400, 'The code is wrong or has expired');
+  }
+};
@@ -0,0 +1,40 @@
+import { startIntervalWorker } from '../worker.js';
+import { STORAGE_REMOVE_BATCH, removeStorageFiles } from '../storage.js';
+
+/**
+ * Ad media cleanup
+ *
+ * Every tick it prunes old revisions of ad designs (prune_ad_design_revisions),
+ * then claims queued uploads that no design or remaining revision references
+ * anymore (claim_ad_media_removals) and removes them from storage. Files are
+ * only queued when a revision or design goes away, so media an older revision
+ * still points to is kept until that revision is pruned.
+ */
+
+export const startAdMediaCleanup = ({
+  supabase,
+  intervalMs = 3600000,
+  keepRevisions = 50
+}) => {
+  const cleanUp = async () => {
+    const { data: pruned, error: pruneError } = await supabase.rpc('prune_ad_design_revisions', {
+      p_keep: keepRevisions
+    });
+    if (pruneError) throw pruneError;
+    if (pruned > 0) {
+      console.log(`Ad media cleanup pruned ${pruned} old revisions`);
+    }
+
+    const { data: files, error } = await supabase.rpc('claim_ad_media_removals', {
+      p_limit: STORAGE_REMOVE_BATCH * 5
+    });
+    if (error) throw error;
+
+    if (files?.length) {
+      await removeStorageFiles(supabase, files);
+      console.log(`Ad media cleanup removed ${files.length} unused files`);
+    }
+  };
+
+  return startIntervalWorker({ name: 'Ad media cleanup', intervalMs, run: cleanUp });
+};
@@ -0,0 +1,25 @@
+import { startIntervalWorker } from '../worker.js';
+
+/**
+ * A/B test auto promotion
+ *
+ * Every tick it promotes the winning variant of each ad space that has auto
+ * promote on (promote_ad_test_winners). A variant wins once every live
+ * variant has the ad space's minimum views and it leads the runner-up at 95%
+ * confidence. The decision is made in the database, so running more than one
+ * server is safe.
+ */
+export const startAdVariantPromotion = ({
+  supabase,
+  intervalMs = 900000
+}) => {
+  const promoteWinners = async () => {
+    const { data: promoted, error } = await supabase.rpc('promote_ad_test_winners');
+    if (error) throw error;
+    if (promoted > 0) {
+      console.log(`A/B test winners promoted for ${promoted} ad spaces`);
+    }
+  };
+
+  return startIntervalWorker({ name: 'A/B test promotion', intervalMs, run: promoteWinners });
+};
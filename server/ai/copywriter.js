@@ -0,0 +1,169 @@
+import { HttpError } from '../errors.js';
+import { countSegments } from '../../shared/smsTemplate.js';
+
+/**
+ * Copywriting assistant
+ *
+ * Writes short copy variants from a brief (business name, offer and tone):
+ *   ad:  { headline, subheadline } for the text layers of an ad
+ *   sms: { text, encoding, units, segments } for an SMS campaign
+ *
+ * SMS copy has a budget of segments and optionally characters. The model is
+ * told the budget, typographic quotes and dashes it likes to use are replaced
+ * with their GSM-7 equivalents (they would otherwise switch the message to
+ * UCS-2 and shrink a segment to 70 characters) and any variant still over the
+ * budget is dropped.
+ */
+
+export const COPY_TONES = ['friendly', 'professional', 'playful', 'urgent', 'luxury'];
+
+const MAX_VARIANTS = 5;
+const MAX_SMS_SEGMENTS = 3;
+const MAX_HEADLINE_LENGTH = 60;
+const MAX_SUBHEADLINE_LENGTH = 120;
+
+const GSM_REPLACEMENTS = [
+  [/[\u2018\u2019\u201A\u2032]/g, "'"],
+  [/[\u201C\u201D\u201E\u2033]/g, '"'],
+  [/[\u2013\u2014\u2212]/g, '-'],
+  [/\u2026/g, '...'],
+  [/\u00A0/g, ' ']
+];
+
+const toGsm = (text) => GSM_REPLACEMENTS.reduce((value, [pattern, replacement]) => value.replace(pattern, replacement), text);
+
+const cleanText = (value, maxLength) => {
+  if (typeof value !== 'string') return '';
+  const text = toGsm(value).replace(/\s+/g, ' ').trim();
+  return maxLength ? text.slice(0, maxLength).trim() : text;
+};
+
+const toInteger = (value, min, max, fallback) => {
+  if (value === undefined || value === null || value === '') return fallback;
+  const number = Number(value);
+  return Number.isInteger(number) && number >= min && number <= max ? number : null;
+};
+
+// Validate a request body, throws a 400 before any usage is counted
+export const parseCopyRequest = (body = {}) => {
+  const kind = body.kind;
+  if (kind !== 'ad' && kind !== 'sms') {
+    throw new HttpError(400, 'Copy kind must be "ad" or "sms"');
+  }
+
+  const offer = cleanText(body.offer);
+  if (!offer) {
+    throw new HttpError(400, 'Describe the offer or message to write about');
+  }
+  if (offer.length > 500) {
+    throw new HttpError(400, 'The offer must be 500 characters or less');
+  }
+
+  const businessName = cleanText(body.businessName);
+  if (businessName.length > 100) {
+    throw new HttpError(400, 'The business name must be 100 characters or less');
+  }
+
+  const tone = body.tone || 'friendly';
+  if (!COPY_TONES.includes(tone)) {
+    throw new HttpError(400, `Tone must be one of: ${COPY_TONES.join(', ')}`);
+  }
+
+  const count = toInteger(body.count, 1, MAX_VARIANTS, 3);
+  if (count === null) {
+    throw new HttpError(400, `Ask for 1 to ${MAX_VARIANTS} variants`);
+  }
+
+  const brief = { kind, offer, businessName, tone, count };
+  if (kind === 'ad') return brief;
+
+  const maxSegments = toInteger(body.maxSegments, 1, MAX_SMS_SEGMENTS, 1);
+  if (maxSegments === null) {
+    throw new HttpError(400, `The SMS budget must be 1 to ${MAX_SMS_SEGMENTS} segments`);
+  }
+
+  const segmentChars = maxSegments === 1 ? 160 : maxSegments * 153;
+  const maxChars = toInteger(body.maxChars, 20, segmentChars, segmentChars);
+  if (maxChars === null) {
+    throw new HttpError(400, `The character budget must be 20 to ${segmentChars} for ${maxSegments} segment(s)`);
+  }
+
+  return { ...brief, maxSegments, maxChars };
+};
+
+const buildPrompt = (brief) => {
+  const lines = [
+    `Write ${brief.count} different ${brief.kind === 'ad' ? 'ad headlines' : 'SMS marketing messages'} in a ${brief.tone} tone.`,
+    brief.businessName ? `Business: ${brief.businessName}` : 'Business: a local business',
+    `Offer: ${brief.offer}`
+  ];
+
+  if (brief.kind === 'ad') {
+    lines.push(
+      `Each variant has a headline of at most ${MAX_HEADLINE_LENGTH} characters and a subheadline of at most ${MAX_SUBHEADLINE_LENGTH} characters.`,
+      'Reply with JSON: {"variants":[{"headline":"...","subheadline":"..."}]}'
+    );
+  } else {
+    lines.push(
+      `Each message must be at most ${brief.maxChars} characters including spaces.`,
+      'Use plain text only: no emoji, no typographic quotes, no placeholders like {{name}}.',
+      'Reply with JSON: {"variants":[{"text":"..."}]}'
+    );
+  }
+
+  return lines.join('\n');
+};
+
+const SYSTEM_PROMPT = 'You are a copywriter for small businesses. You write short, clear marketing copy '
+  + 'that makes one concrete offer. Never invent prices, dates or discounts that are not in the brief. '
+  + 'Always reply with a single JSON object.';
+
+const parseVariants = (reply) => {
+  try {
+    // Some models wrap JSON in a markdown code fence
+    const json = String(reply).replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, '');
+    const parsed = JSON.parse(json);
+    if (Array.isArray(parsed?.variants)) return parsed.variants;
+  } catch {
+    // Fall through to the error below
+  }
+  throw new HttpError(502, 'The copy assistant returned an unexpected response, please try again');
+};
+
+const unique = (variants, key) => variants.filter(
+  (variant, index) => variants.findIndex((other) => key(other) === key(variant)) === index
+);
+
+// Ask the provider for copy, resolves with the variants that fit the brief
+export const generateCopy = async ({ provider, brief }) => {
+  const reply = await provider.complete({ system: SYSTEM_PROMPT, prompt: buildPrompt(brief) });
+  const variants = parseVariants(reply);
+
+  if (brief.kind === 'ad') {
+    const ads = variants
+      .map((variant) => ({
+        headline: cleanText(variant?.headline, MAX_HEADLINE_LENGTH),
+        subheadline: cleanText(variant?.subheadline, MAX_SUBHEADLINE_LENGTH)
+      }))
+      .filter((variant) => variant.headline);
+
+    const result = unique(ads, (variant) => variant.headline.toLowerCase()).slice(0, brief.count);
+    if (result.length === 0) {
+      throw new HttpError(502, 'The copy assistant did not return any headlines, please try again');
+    }
+    return result;
+  }
+
+  const messages = variants
+    .map((variant) => cleanText(variant?.text))
+    .filter(Boolean)
+    .map((text) => ({ text, ...countSegments(text) }))
+    .filter((message) => message.segments <= brief.maxSegments && message.text.length <= brief.maxChars)
+    .map(({ text, encoding, units, segments }) => ({ text, encoding, units, segments }));
+
+  const result = unique(messages, (message) => message.text.toLowerCase()).slice(0, brief.count);
+  if (result.length === 0) {
+    throw new HttpError(502, 'None of the suggestions fit the SMS budget, try a shorter offer or a larger budget');
+  }
+  return result;
+};
@@ -0,0 +1,80 @@
+/**
+ * Copywriting model providers
+ *
+ * `complete({ system, prompt })` resolves with the model's raw text. Prompts,
+ * JSON parsing and length limits live in copywriter.js, so a provider only
+ * has to get a reply back.
+ *
+ * AI_PROVIDER picks openai or fake. The fake answers every brief with the
+ * same three variants, so the copy assistant works without an API key.
+ */
+
+// OpenAI provider, wraps the client created in server/index.js
+export const createOpenAiProvider = (client, model = 'gpt-4o-mini') => {
+  if (!client) {
+    throw new Error('OPENAI_API_KEY is required for the openai AI provider');
+  }
+
+  return {
+    name: 'openai',
+    async complete({ system, prompt }) {
+      const completion = await client.chat.completions.create({
+        model,
+        temperature: 0.8,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: system },
+          { role: 'user', content: prompt }
+        ]
+      });
+      return completion.choices[0]?.message?.content || '';
+    }
+  };
+};
+
+const FAKE_VARIANTS = [
+  {
+    headline: 'Fresh deals this week',
+    subheadline: 'Stop by and see what is new in store',
+    text: 'Fresh deals this week! Stop by and see what is new in store.'
+  },
+  {
+    headline: 'Made for you',
+    subheadline: 'Friendly service and great prices every day',
+    text: 'Great prices every day. Show this text at the counter to save.'
+  },
+  {
+    headline: 'Do not miss out',
+    subheadline: 'This offer ends soon, come in today',
+    text: 'This offer ends soon, come in today!'
+  }
+];
+
+// Fake provider for local development and tests, `reply` overrides the canned answer
+export const createFakeProvider = ({ reply } = {}) => {
+  const requests = [];
+
+  return {
+    name: 'fake',
+    requests,
+    async complete({ system, prompt }) {
+      requests.push({ system, prompt });
+      console.log(`[ai:fake] ${prompt.split('\n')[0]}`);
+      return reply ? reply({ system, prompt }) : JSON.stringify({ variants: FAKE_VARIANTS });
+    }
+  };
+};
+
+// OpenAI when an API key is configured, the fake otherwise
+export const createCopyProvider = ({ openaiClient, env = process.env }) => {
+  const name = env.AI_PROVIDER || (openaiClient ? 'openai' : 'fake');
+
+  switch (name) {
+    case 'openai':
+      return createOpenAiProvider(openaiClient, env.OPENAI_MODEL);
+    case 'fake':
+      return createFakeProvider();
+    default:
+      throw new Error(`Unknown AI provider: ${name}`);
+  }
+};
@@ -0,0 +1,23 @@
+import { HttpError, sendError } from './errors.js';
+
+// Require a Supabase access token, the signed in user ends up on req.user
+export const requireUser = (supabase) => async (req, res, next) => {
+  try {
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice(7) : null;
+
+    if (!token) {
+      throw new HttpError(401, 'Missing access token');
+    }
+
+    const { data, error } = await supabase.auth.getUser(token);
+    if (error || !data?.user) {
+      throw new HttpError(401, 'Invalid or expired access token');
+    }
+
+    req.user = data.user;
+    next();
+  } catch (error) {
+    sendError(res, error, 'Error verifying access token');
+  }
+};
@@ -0,0 +1,79 @@
+import express from 'express';
+import { handleBillingEvent } from './subscriptions.js';
+
+/**
+ * Hosted checkout page for the mock billing provider
+ *
+ * Stands in for the provider's checkout so upgrades can be tried locally
+ * without a payment account. Paying creates a mock subscription and applies
+ * its event like a webhook would, cancelling goes back to the app. Ending a
+ * subscription simulates the end of a cancelled plan's paid period.
+ */
+
+const page = (session) => `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>Mock checkout</title>
+    <style>
+      body { font-family: system-ui, sans-serif; max-width: 420px; margin: 64px auto; padding: 0 16px; color: #111827; }
+      button { padding: 10px 16px; border-radius: 6px; border: 1px solid #d1d5db; background: #fff; cursor: pointer; }
+      button[value="pay"] { background: #2563eb; border-color: #2563eb; color: #fff; }
+    </style>
+  </head>
+  <body>
+    <h1>Pro plan</h1>
+    <p>This is the mock billing provider, no card is charged.</p>
+    <form method="post" action="${session.id}">
+      <button type="submit" name="action" value="pay">Pay $29/month</button>
+      <button type="submit" name="action" value="cancel">Cancel</button>
+    </form>
+  </body>
+</html>`;
+
+export const createMockCheckoutRouter = ({ supabase, provider }) => {
+  const router = express.Router();
+
+  router.get('/checkout/:id', (req, res) => {
+    const session = provider.sessions.get(req.params.id);
+    if (!session || session.status !== 'open') {
+      return res.status(404).type('text/plain').send('Checkout session not found');
+    }
+    res.type('html').send(page(session));
+  });
+
+  router.post('/checkout/:id', express.urlencoded({ extended: false }), async (req, res) => {
+    const session = provider.sessions.get(req.params.id);
+    if (!session || session.status !== 'open') {
+      return res.status(404).type('text/plain').send('Checkout session not found');
+    }
+
+    if (req.body.action !== 'pay') {
+      session.status = 'expired';
+      return res.redirect(session.cancelUrl);
+    }
+
+    try {
+      const event = await provider.completeCheckout(session.id);
+      await handleBillingEvent({ supabase, provider, event });
+      res.redirect(session.successUrl);
+    } catch (error) {
+      console.error('Mock checkout error:', error);
+      res.status(500).type('text/plain').send('Mock checkout failed');
+    }
+  });
+
+  router.post('/subscriptions/:id/end', async (req, res) => {
+    try {
+      const event = await provider.endSubscription(req.params.id);
+      const result = await handleBillingEvent({ supabase, provider, event });
+      res.json(result);
+    } catch (error) {
+      console.error('Mock subscription end error:', error);
+      res.status(404).json({ error: error.message });
+    }
+  });
+
+  return router;
+};
@@ -0,0 +1,261 @@
+import crypto from 'crypto';
+
+/**
+ * Billing providers
+ *
+ * Stripe and the mock both implement:
+ *   name: string
+ *   createCheckoutSession({ userId, email, customerId, successUrl, cancelUrl }): Promise<{ id, url }>
+ *   setCancelAtPeriodEnd(subscriptionId, cancel): Promise<Subscription>
+ *   cancelSubscription(subscriptionId): Promise<Subscription>
+ * Stripe also implements:
+ *   parseWebhook({ rawBody, headers }): Promise<BillingEvent | null>
+ *
+ * Card details are only ever entered on the provider's hosted checkout page,
+ * the server sees customer and subscription IDs. parseWebhook() throws when
+ * the signature does not match and resolves with null for events billing
+ * does not care about. Everything else is turned into:
+ *   { id, type: 'subscription.updated' | 'subscription.deleted', subscription }
+ *   subscription: { id, customerId, userId, status, currentPeriodEnd, cancelAtPeriodEnd }
+ * where status is one of the `user_subscriptions` statuses.
+ *
+ * BILLING_PROVIDER picks stripe or mock, stripe is used when
+ * STRIPE_SECRET_KEY is set. The mock has to be chosen explicitly: its checkout
+ * page is served by the Express server (/api/billing/mock/checkout/:id) and
+ * paying there applies the subscription directly. It has no webhook, events
+ * are never accepted from outside the server.
+ */
+
+const STRIPE_API = 'https://api.stripe.com/v1';
+
+// Stripe signs webhooks with a timestamp, older events are rejected
+const STRIPE_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const STRIPE_STATUSES = {
+  active: 'active',
+  trialing: 'active',
+  past_due: 'past_due',
+  unpaid: 'past_due',
+  canceled: 'cancelled',
+  incomplete_expired: 'expired'
+};
+
+// Stripe takes form encoded bodies, nested keys use brackets
+const toForm = (params, prefix = '', form = new URLSearchParams()) => {
+  Object.entries(params).forEach(([key, value]) => {
+    if (value === undefined || value === null) return;
+    const name = prefix ? `${prefix}[${key}]` : key;
+    if (typeof value === 'object') {
+      toForm(value, name, form);
+    } else {
+      form.append(name, String(value));
+    }
+  });
+  return form;
+};
+
+const toStripeSubscription = (subscription) => {
+  // Newer API versions moved the billing period onto the subscription items
+  const periodEnd = subscription.current_period_end ?? subscription.items?.data?.[0]?.current_period_end;
+
+  return {
+    id: subscription.id,
+    customerId: subscription.customer,
+    userId: subscription.metadata?.user_id || null,
+    status: STRIPE_STATUSES[subscription.status] || null,
+    currentPeriodEnd: periodEnd ? new Date(periodEnd * 1000).toISOString() : null,
+    cancelAtPeriodEnd: Boolean(subscription.cancel_at_period_end)
+  };
+};
+
+// Stripe provider, talks to the REST API so no SDK is needed
+export const createStripeProvider = ({ secretKey, priceId, webhookSecret }) => {
+  if (!secretKey || !priceId) {
+    throw new Error('STRIPE_SECRET_KEY and STRIPE_PRICE_ID are required for the stripe billing provider');
+  }
+  if (!webhookSecret) {
+    throw new Error('STRIPE_WEBHOOK_SECRET is required for the stripe billing provider');
+  }
+
+  const request = async (method, path, params) => {
+    const response = await fetch(`${STRIPE_API}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: params ? toForm(params) : undefined
+    });
+    const body = await response.json();
+    if (!response.ok) {
+      throw new Error(`Stripe ${method} ${path} failed: ${body?.error?.message || response.status}`);
+    }
+    return body;
+  };
+
+  const verifySignature = (rawBody, header) => {
+    const parts = Object.fromEntries(
+      String(header || '').split(',').map((part) => part.split('=')).filter((part) => part.length === 2)
+    );
+    const timestamp = Number(parts.t);
+    if (!timestamp || !parts.v1) return false;
+    if (Math.abs(Date.now() / 1000 - timestamp) > STRIPE_SIGNATURE_TOLERANCE_SECONDS) return false;
+
+    const expected = crypto
+      .createHmac('sha256', webhookSecret)
+      .update(`${timestamp}.${rawBody}`)
+      .digest('hex');
+    return parts.v1.length === expected.length
+      && crypto.timingSafeEqual(Buffer.from(parts.v1), Buffer.from(expected));
+  };
+
+  return {
+    name: 'stripe',
+    async createCheckoutSession({ userId, email, customerId, successUrl, cancelUrl }) {
+      const session = await request('POST', '/checkout/sessions', {
+        mode: 'subscription',
+        line_items: { 0: { price: priceId, quantity: 1 } },
+        client_reference_id: userId,
+        customer: customerId || undefined,
+        customer_email: customerId ? undefined : email,
+        subscription_data: { metadata: { user_id: userId } },
+        success_url: successUrl,
+        cancel_url: cancelUrl
+      });
+      return { id: session.id, url: session.url };
+    },
+    async setCancelAtPeriodEnd(subscriptionId, cancel) {
+      const subscription = await request('POST', `/subscriptions/${subscriptionId}`, {
+        cancel_at_period_end: cancel
+      });
+      return toStripeSubscription(subscription);
+    },
+    // Ends the subscription right away, used when the account is deleted
+    async cancelSubscription(subscriptionId) {
+      return toStripeSubscription(await request('DELETE', `/subscriptions/${subscriptionId}`));
+    },
+    async parseWebhook({ rawBody, headers }) {
+      if (!verifySignature(rawBody, headers['stripe-signature'])) {
+        throw new Error('Invalid Stripe signature');
+      }
+
+      const event = JSON.parse(rawBody);
+      const object = event.data?.object;
+
+      switch (event.type) {
+        case 'checkout.session.completed': {
+          if (object.mode !== 'subscription' || !object.subscription) return null;
+          // The session only has the subscription ID, fetch it for the status and period
+          const subscription = toStripeSubscription(await request('GET', `/subscriptions/${object.subscription}`));
+          return {
+            id: event.id,
+            type: 'subscription.updated',
+            subscription: { ...subscription, userId: subscription.userId || object.client_reference_id }
+          };
+        }
+        case 'customer.subscription.created':
+        case 'customer.subscription.updated':
+          return { id: event.id, type: 'subscription.updated', subscription: toStripeSubscription(object) };
+        case 'customer.subscription.deleted':
+          return { id: event.id, type: 'subscription.deleted', subscription: toStripeSubscription(object) };
+        default:
+          return null;
+      }
+    }
+  };
+};
+
+// Mock provider for local development and tests
+export const createMockBillingProvider = ({ baseUrl = '', periodDays = 30 } = {}) => {
+  const sessions = new Map();
+  const subscriptions = new Map();
+  const events = [];
+
+  const emit = (type, subscription) => {
+    const event = { id: `evt_mock_${events.length + 1}`, type, subscription: { ...subscription } };
+    events.push(event);
+    return event;
+  };
+
+  return {
+    name: 'mock',
+    sessions,
+    subscriptions,
+    events,
+    async createCheckoutSession({ userId, customerId, successUrl, cancelUrl }) {
+      const id = `cs_mock_${crypto.randomUUID()}`;
+      sessions.set(id, { id, userId, customerId, successUrl, cancelUrl, status: 'open' });
+      return { id, url: `${baseUrl}/api/billing/mock/checkout/${id}` };
+    },
+    async setCancelAtPeriodEnd(subscriptionId, cancel) {
+      const subscription = subscriptions.get(subscriptionId);
+      if (!subscription) {
+        throw new Error(`Mock subscription ${subscriptionId} not found`);
+      }
+      subscription.cancelAtPeriodEnd = cancel;
+      return { ...subscription };
+    },
+    async cancelSubscription(subscriptionId) {
+      const subscription = subscriptions.get(subscriptionId);
+      if (!subscription) {
+        throw new Error(`Mock subscription ${subscriptionId} not found`);
+      }
+      subscription.status = 'cancelled';
+      subscriptions.delete(subscriptionId);
+      return { ...subscription };
+    },
+    // The mock checkout page calls this when the user pays, resolves with the webhook event
+    async completeCheckout(sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session || session.status !== 'open') {
+        throw new Error(`Mock checkout session ${sessionId} is not open`);
+      }
+      session.status = 'complete';
+
+      const subscription = {
+        id: `sub_mock_${crypto.randomUUID()}`,
+        customerId: session.customerId || `cus_mock_${session.userId}`,
+        userId: session.userId,
+        status: 'active',
+        currentPeriodEnd: new Date(Date.now() + periodDays * 24 * 60 * 60 * 1000).toISOString(),
+        cancelAtPeriodEnd: false
+      };
+      subscriptions.set(subscription.id, subscription);
+      return emit('subscription.updated', subscription);
+    },
+    // Ends a subscription as if its period ran out, resolves with the webhook event
+    async endSubscription(subscriptionId) {
+      const subscription = subscriptions.get(subscriptionId);
+      if (!subscription) {
+        throw new Error(`Mock subscription ${subscriptionId} not found`);
+      }
+      subscription.status = 'cancelled';
+      subscriptions.delete(subscriptionId);
+      return emit('subscription.deleted', subscription);
+    }
+  };
+};
+
+// Null when billing is not configured, subscriptions then stay as they are
+export const createBillingProvider = ({ env = process.env } = {}) => {
+  const name = env.BILLING_PROVIDER || (env.STRIPE_SECRET_KEY ? 'stripe' : null);
+
+  switch (name) {
+    case null:
+      return null;
+    case 'stripe':
+      return createStripeProvider({
+        secretKey: env.STRIPE_SECRET_KEY,
+        priceId: env.STRIPE_PRICE_ID,
+        webhookSecret: env.STRIPE_WEBHOOK_SECRET
+      });
+    case 'mock':
+      // Anyone could upgrade themselves for free through the mock checkout
+      if (env.NODE_ENV === 'production') {
+        throw new Error('The mock billing provider cannot be used in production');
+      }
+      return createMockBillingProvider();
+    default:
+      throw new Error(`Unknown billing provider: ${name}`);
+  }
+};
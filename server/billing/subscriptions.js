@@ -0,0 +1,177 @@
+import { HttpError } from '../errors.js';
+
+/**
+ * Subscriptions
+ *
+ * `user_subscriptions` is only ever written here, with the service role:
+ *   - checkout: the user is sent to the provider's hosted checkout page
+ *   - webhook events (see providers.js) set the tier, status, period end and
+ *     cancel flag. An active or past due subscription keeps the Pro tier, a
+ *     subscription that ended moves the user back to Free
+ *   - cancel/resume: cancelling keeps Pro until the end of the paid period,
+ *     the provider then ends the subscription and its webhook downgrades the
+ *     user. Resuming before then keeps the plan
+ *
+ * Providers can deliver an event more than once, processed event IDs are
+ * kept in `billing_events` and repeats are skipped. Deleting an account ends
+ * its subscription right away, events that arrive after the user is gone are
+ * recorded and otherwise ignored.
+ */
+
+// Free plans never expire, same as create_user_profile
+const FREE_PERIOD_END = () => new Date(Date.now() + 100 * 365 * 24 * 60 * 60 * 1000).toISOString();
+
+const getTierId = async (supabase, name) => {
+  const { data, error } = await supabase
+    .from('subscription_tiers')
+    .select('id')
+    .eq('name', name)
+    .single();
+
+  if (error) throw error;
+  return data.id;
+};
+
+export const getSubscription = async (supabase, userId) => {
+  const { data, error } = await supabase
+    .from('user_subscriptions')
+    .select('status, current_period_end, cancel_at_period_end, provider_customer_id, provider_subscription_id, tier_id ( name )')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Checkout page URL for the Pro plan
+export const startCheckout = async ({ supabase, provider, user, successUrl, cancelUrl }) => {
+  const subscription = await getSubscription(supabase, user.id);
+  if (subscription?.provider_subscription_id && subscription.status !== 'cancelled' && subscription.status !== 'expired') {
+    throw new HttpError(409, 'You already have a Pro subscription');
+  }
+
+  return provider.createCheckoutSession({
+    userId: user.id,
+    email: user.email,
+    customerId: subscription?.provider_customer_id || null,
+    successUrl,
+    cancelUrl
+  });
+};
+
+// Find whose subscription an event is about, metadata first, then the stored IDs
+const findUserId = async (supabase, subscription) => {
+  if (subscription.userId) return subscription.userId;
+
+  const filters = [`provider_subscription_id.eq.${subscription.id}`];
+  if (subscription.customerId) filters.push(`provider_customer_id.eq.${subscription.customerId}`);
+
+  const { data, error } = await supabase
+    .from('user_subscriptions')
+    .select('user_id')
+    .or(filters.join(','))
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.user_id || null;
+};
+
+const applySubscription = async ({ supabase, providerName, userId, subscription, ended }) => {
+  const isPaid = !ended && (subscription.status === 'active' || subscription.status === 'past_due');
+
+  const { error } = await supabase
+    .from('user_subscriptions')
+    .upsert({
+      user_id: userId,
+      tier_id: await getTierId(supabase, isPaid ? 'Pro' : 'Free'),
+      // Back on Free the account is active again, just without Pro features
+      status: isPaid ? subscription.status : 'active',
+      current_period_end: isPaid ? subscription.currentPeriodEnd || FREE_PERIOD_END() : FREE_PERIOD_END(),
+      cancel_at_period_end: isPaid && subscription.cancelAtPeriodEnd,
+      provider: providerName,
+      provider_customer_id: subscription.customerId,
+      provider_subscription_id: isPaid ? subscription.id : null,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'user_id' });
+
+  if (error) throw error;
+};
+
+const accountExists = async (supabase, userId) => {
+  const { data, error } = await supabase.auth.admin.getUserById(userId);
+  if (error && error.status !== 404) throw error;
+  return Boolean(data?.user);
+};
+
+const recordEvent = async (supabase, event, userId) => {
+  const { error } = await supabase
+    .from('billing_events')
+    .upsert({ id: event.id, type: event.type, user_id: userId }, { onConflict: 'id', ignoreDuplicates: true });
+
+  if (error) throw error;
+};
+
+// Apply a webhook event, resolves with what happened for logging
+export const handleBillingEvent = async ({ supabase, provider, event }) => {
+  const { data: seen, error: seenError } = await supabase
+    .from('billing_events')
+    .select('id')
+    .eq('id', event.id)
+    .maybeSingle();
+
+  if (seenError) throw seenError;
+  if (seen) return { status: 'duplicate' };
+
+  const { subscription } = event;
+  const userId = await findUserId(supabase, subscription);
+  if (!userId) {
+    throw new HttpError(400, `No user found for subscription ${subscription.id}`);
+  }
+  if (!await accountExists(supabase, userId)) {
+    await recordEvent(supabase, event, null);
+    return { status: 'ignored', userId };
+  }
+
+  // A stale event for an older subscription must not touch the current one,
+  // neither does a subscription still waiting for its first payment
+  const current = await getSubscription(supabase, userId);
+  const isOtherSubscription = current?.provider_subscription_id
+    && current.provider_subscription_id !== subscription.id;
+  const ended = event.type === 'subscription.deleted'
+    || subscription.status === 'cancelled' || subscription.status === 'expired';
+  const isApplied = !isOtherSubscription && (ended || Boolean(subscription.status));
+
+  if (isApplied) {
+    await applySubscription({ supabase, providerName: provider.name, userId, subscription, ended });
+  }
+
+  await recordEvent(supabase, event, userId);
+  return { status: isApplied ? 'applied' : 'ignored', userId };
+};
+
+// Cancel at the end of the paid period, or undo that
+export const setCancelAtPeriodEnd = async ({ supabase, provider, userId, cancel }) => {
+  const current = await getSubscription(supabase, userId);
+  if (!current?.provider_subscription_id) {
+    throw new HttpError(404, 'You do not have a paid subscription');
+  }
+
+  const subscription = await provider.setCancelAtPeriodEnd(current.provider_subscription_id, cancel);
+
+  // The webhook confirms this too, update now so the dashboard is current
+  const { error } = await supabase
+    .from('user_subscriptions')
+    .update({
+      cancel_at_period_end: subscription.cancelAtPeriodEnd,
+      current_period_end: subscription.currentPeriodEnd || current.current_period_end,
+      updated_at: new Date().toISOString()
+    })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return {
+    cancel_at_period_end: subscription.cancelAtPeriodEnd,
+    current_period_end: subscription.currentPeriodEnd || current.current_period_end
+  };
+};
@@ -0,0 +1,17 @@
+// Error with an HTTP status, route handlers turn these into JSON responses
+export class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+// Send an error as JSON, unexpected errors are logged and hidden behind a 500
+export const sendError = (res, error, fallbackMessage = 'Something went wrong') => {
+  if (error instanceof HttpError) {
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(fallbackMessage, error);
+  return res.status(500).json({ error: fallbackMessage });
+};
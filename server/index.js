@@ -5,6 +5,32 @@ import twilio from 'twilio';
 import dotenv from 'dotenv';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { requireUser } from './auth.js';
+import { HttpError, sendError } from './errors.js';
+import { createCopyProvider } from './ai/providers.js';
+import { generateCopy, parseCopyRequest } from './ai/copywriter.js';
+import { createBillingProvider } from './billing/providers.js';
+import { handleBillingEvent, setCancelAtPeriodEnd, startCheckout } from './billing/subscriptions.js';
+import { createMockCheckoutRouter } from './billing/mockCheckout.js';
+import { confirmPhoneVerification, parsePhone, sendPhoneVerification } from './account/phoneVerification.js';
+import { deleteAccount } from './account/deletion.js';
+import {
+  AD_RESOLUTION_HTTP_STATUS,
+  AD_RESOLUTION_MESSAGES,
+  redirectTarget,
+  resolveAd
+} from '../shared/adResolution.js';
+import { createSmsProvider } from './sms/providers.js';
+import { startCampaignSend, dispatchCampaign } from './sms/campaigns.js';
+import { startSmsScheduler } from './sms/scheduler.js';
+import { startAdMediaCleanup } from './ads/mediaCleanup.js';
+import { startAdVariantPromotion } from './ads/variantPromotion.js';
+import {
+  DEFAULT_REPLIES,
+  buildTwiml,
+  handleInboundMessage,
+  verifyTwilioSignature
+} from './sms/consent.js';
 
 // Setup
 const __filename = fileURLToPath(import.meta.url);
@@ -15,7 +41,12 @@ const app = express();
 const PORT = process.env.PORT || 3000;
 
 // Middleware
-app.use(express.json());
+// The raw body is kept for webhook signature checks
+app.use(express.json({
+  verify: (req, res, buf) => {
+    req.rawBody = buf.toString('utf8');
+  }
+}));
 app.use(express.static(path.join(__dirname, '../dist')));
 
 // CORS middleware
@@ -47,102 +78,305 @@ if (process.env.OPENAI_API_KEY) {
   });
 }
 
+// Copywriting provider (openai or fake, see server/ai/providers.js)
+const copyProvider = createCopyProvider({ openaiClient: openai });
+console.log(`Using ${copyProvider.name} AI provider`);
+
+// Billing provider (stripe or mock, see server/billing/providers.js), null when not configured
+const billingProvider = createBillingProvider();
+console.log(billingProvider ? `Using ${billingProvider.name} billing provider` : 'Billing is not configured');
+
 // Twilio client
 const twilioClient = process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN
   ? twilio(process.env.TWILIO_ACCOUNT_SID, process.env.TWILIO_AUTH_TOKEN)
   : null;
 
-// QR Code redirect endpoint
+// SMS provider (twilio or stub, see server/sms/providers.js)
+const smsProvider = createSmsProvider({ twilioClient });
+console.log(`Using ${smsProvider.name} SMS provider`);
+
+// Throttling for campaign sends, shared by manual sends and the scheduler
+const smsDispatchOptions = {
+  batchSize: Number(process.env.SMS_BATCH_SIZE) || 20,
+  batchDelayMs: Number(process.env.SMS_BATCH_DELAY_MS) || 1000
+};
+
+// Auth middleware for /api routes
+const requireAuth = requireUser(supabase);
+
+// Inbound SMS webhook checks. Unsigned replies change consent, so they are only
+// taken with the stub provider outside production
+const verifyInboundSms = process.env.TWILIO_AUTH_TOKEN
+  ? verifyTwilioSignature({
+    authToken: process.env.TWILIO_AUTH_TOKEN,
+    webhookUrl: process.env.SMS_INBOUND_WEBHOOK_URL
+  })
+  : (req, res, next) => (smsProvider.name === 'stub' && process.env.NODE_ENV !== 'production'
+    ? next()
+    : res.status(503).type('text/plain').send('Inbound SMS is not configured'));
+
+const requireBilling = (req, res, next) => (billingProvider
+  ? next()
+  : res.status(503).json({ error: 'Billing is not configured' }));
+
+if (billingProvider?.name === 'mock') {
+  app.use('/api/billing/mock', createMockCheckoutRouter({ supabase, provider: billingProvider }));
+}
+
+const smsReplies = {
+  ...DEFAULT_REPLIES,
+  help: process.env.SMS_HELP_MESSAGE || DEFAULT_REPLIES.help
+};
+
+// Visitor details recorded with scans
+const scanVisitor = (req) => ({
+  ip: req.ip || req.connection.remoteAddress,
+  agent: req.headers['user-agent'],
+  location: { country: req.headers['cf-ipcountry'] || 'unknown' }
+});
+
+// ?qr= and ?ad= from a public link, repeated parameters are ignored
+const adLookup = ({ qr, ad }) => ({
+  qrId: typeof qr === 'string' ? qr : null,
+  adSpaceId: typeof ad === 'string' ? ad : null
+});
+
+// Public ad lookup, for pages that render the ad themselves. Nothing is recorded.
+// `visitor` keeps a page's own visitor id on the same A/B variant
+app.get('/api/ads/resolve', async (req, res) => {
+  try {
+    const resolution = await resolveAd(supabase, {
+      ...adLookup(req.query),
+      visitor: {
+        ...scanVisitor(req),
+        id: typeof req.query.visitor === 'string' ? req.query.visitor : null
+      }
+    });
+    res.status(AD_RESOLUTION_HTTP_STATUS[resolution.status]).json(resolution);
+  } catch (error) {
+    sendError(res, error, 'Failed to resolve ad');
+  }
+});
+
+// QR Code redirect endpoint, ads without a redirect are shown on the View page
 app.get('/qr-redirect', async (req, res) => {
   try {
-    const { qr: qrId, ad: adSpaceId } = req.query;
+    const lookup = adLookup(req.query);
+    const resolution = await resolveAd(supabase, { ...lookup, record: 'redirect', visitor: scanVisitor(req) });
+    const target = redirectTarget(resolution, lookup);
 
-    if (!qrId && !adSpaceId) {
-      return res.status(400).json({ error: 'QR code ID or Ad Space ID is required' });
+    if (!target) {
+      return res.status(AD_RESOLUTION_HTTP_STATUS[resolution.status])
+        .json({ error: AD_RESOLUTION_MESSAGES[resolution.status] });
     }
 
-    let redirectUrl = null;
+    res.redirect(target);
+  } catch (error) {
+    console.error('QR redirect error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    if (qrId) {
-      // Get QR code data
-      const { data: qrCode, error: qrError } = await supabase
-        .from('qr_codes')
-        .select('url, ad_space_id')
-        .eq('id', qrId)
-        .single();
+// Dynamic QR code, records the scan and redirects to the code's current destination
+app.get('/q/:code', async (req, res) => {
+  try {
+    const visitor = scanVisitor(req);
+    const { data: target, error } = await supabase
+      .rpc('scan_qr_code', {
+        p_short_code: req.params.code,
+        p_ip: visitor.ip,
+        p_agent: visitor.agent,
+        p_location: visitor.location
+      })
+      .maybeSingle();
 
-      if (qrError) {
-        console.error('Error fetching QR code:', qrError);
-        return res.status(404).json({ error: 'QR code not found' });
-      }
+    if (error) throw error;
 
-      if (qrCode) {
-        redirectUrl = qrCode.url;
-        // Use the QR code's ad space if none was provided
-        if (!adSpaceId && qrCode.ad_space_id) {
-          adSpaceId = qrCode.ad_space_id;
-        }
+    if (target?.url) {
+      // Only web addresses are followed, never javascript: or other schemes
+      if (!/^https?:\/\//i.test(target.url)) {
+        return res.status(400).send('This QR code points to an address that cannot be opened');
       }
+      return res.redirect(target.url);
+    }
+    if (target?.ad_space_id) {
+      return res.redirect(`/view?ad=${target.ad_space_id}`);
     }
+    res.status(404).send('This QR code is no longer active');
+  } catch (error) {
+    console.error('QR redirect error:', error);
+    res.status(500).send('Internal server error');
+  }
+});
 
-    if (adSpaceId) {
-      // Get ad space data
-      const { data: adSpace, error: adError } = await supabase
-        .from('ad_spaces')
-        .select('content')
-        .eq('id', adSpaceId)
-        .single();
-
-      if (adError) {
-        console.error('Error fetching ad space:', adError);
-      } else if (adSpace?.content?.url) {
-        redirectUrl = adSpace.content.url;
-      }
+// Write ad or SMS copy variants, every request counts as one API call
+app.post('/api/ai/copy', requireAuth, async (req, res) => {
+  try {
+    const brief = parseCopyRequest(req.body);
+
+    const { data: allowed, error: limitError } = await supabase.rpc('check_usage_limits', {
+      user_id: req.user.id,
+      action: 'api_call'
+    });
+
+    if (limitError) throw limitError;
+    if (!allowed) {
+      throw new HttpError(429, 'You have used all AI assistant requests for this month');
     }
 
-    // Get location data from request
-    const location = {
-      ip: req.ip || req.connection.remoteAddress,
-      userAgent: req.headers['user-agent'],
-      country: req.headers['cf-ipcountry'] || 'unknown'
-    };
-
-    // Record the scan if it's a QR code
-    if (qrId) {
-      try {
-        await supabase.rpc('increment_qr_code_scans', {
-          qr_id: qrId,
-          ad_id: adSpaceId,
-          ip: location.ip,
-          agent: location.userAgent,
-          loc: location
-        });
-      } catch (error) {
-        console.error('Error recording QR scan:', error);
-      }
+    const variants = await generateCopy({ provider: copyProvider, brief });
+    res.json({ variants });
+  } catch (error) {
+    sendError(res, error, 'Error generating copy');
+  }
+});
+
+// Start a Pro checkout, the client is sent to the provider's hosted page
+app.post('/api/billing/checkout', requireAuth, requireBilling, async (req, res) => {
+  try {
+    const appUrl = process.env.APP_URL || req.headers.origin;
+    if (!appUrl) {
+      throw new HttpError(400, 'Unknown app URL, set APP_URL');
     }
 
-    // Increment ad space views
-    if (adSpaceId) {
-      try {
-        await supabase.rpc('increment_ad_space_views', {
-          space_id: adSpaceId
-        });
-      } catch (error) {
-        console.error('Error incrementing ad views:', error);
-      }
+    const session = await startCheckout({
+      supabase,
+      provider: billingProvider,
+      user: req.user,
+      successUrl: `${appUrl}/?billing=success`,
+      cancelUrl: `${appUrl}/?billing=cancelled`
+    });
+    res.json({ url: session.url });
+  } catch (error) {
+    sendError(res, error, 'Error starting checkout');
+  }
+});
+
+// Cancel Pro at the end of the paid period, the account then moves to Free
+app.post('/api/billing/cancel', requireAuth, requireBilling, async (req, res) => {
+  try {
+    res.json(await setCancelAtPeriodEnd({
+      supabase,
+      provider: billingProvider,
+      userId: req.user.id,
+      cancel: true
+    }));
+  } catch (error) {
+    sendError(res, error, 'Error cancelling subscription');
+  }
+});
+
+// Keep Pro after a cancellation, before the paid period ends
+app.post('/api/billing/resume', requireAuth, requireBilling, async (req, res) => {
+  try {
+    res.json(await setCancelAtPeriodEnd({
+      supabase,
+      provider: billingProvider,
+      userId: req.user.id,
+      cancel: false
+    }));
+  } catch (error) {
+    sendError(res, error, 'Error resuming subscription');
+  }
+});
+
+// Billing webhook, where Stripe upgrades and downgrades subscriptions. The mock
+// applies its events from its own checkout page, so it gets no webhook that
+// anyone could post unsigned events to
+if (billingProvider?.name !== 'mock') {
+  app.post('/api/billing/webhook', requireBilling, async (req, res) => {
+    let event;
+    try {
+      event = await billingProvider.parseWebhook({ rawBody: req.rawBody || '', headers: req.headers });
+    } catch (error) {
+      console.error('Billing webhook rejected:', error.message);
+      return res.status(400).json({ error: 'Invalid webhook' });
     }
 
-    if (!redirectUrl) {
-      return res.status(404).json({ error: 'No redirect URL found' });
+    if (!event) {
+      return res.json({ received: true });
     }
 
-    // Redirect to the destination URL
-    res.redirect(redirectUrl);
+    try {
+      const result = await handleBillingEvent({ supabase, provider: billingProvider, event });
+      console.log(`Billing event ${event.id} (${event.type}): ${result.status}`);
+      res.json({ received: true });
+    } catch (error) {
+      sendError(res, error, 'Error handling billing event');
+    }
+  });
+}
 
+// Text a verification code to the user's phone
+app.post('/api/account/phone/verification', requireAuth, async (req, res) => {
+  try {
+    const phone = parsePhone(req.body?.phone);
+    await sendPhoneVerification({ supabase, smsProvider, userId: req.user.id, phone });
+    res.status(202).json({ phone });
   } catch (error) {
-    console.error('QR redirect error:', error);
-    res.status(500).json({ error: 'Internal server error' });
+    sendError(res, error, 'Error sending verification code');
+  }
+});
+
+// Check the code, the phone is then listed in verified_phones
+app.post('/api/account/phone/verify', requireAuth, async (req, res) => {
+  try {
+    const phone = parsePhone(req.body?.phone);
+    await confirmPhoneVerification({ supabase, userId: req.user.id, phone, code: req.body?.code });
+    res.json({ phone, verified: true });
+  } catch (error) {
+    sendError(res, error, 'Error verifying phone');
+  }
+});
+
+// Delete the signed in user's account, their data and uploads
+app.delete('/api/account', requireAuth, async (req, res) => {
+  try {
+    const result = await deleteAccount({ supabase, billingProvider, userId: req.user.id });
+    console.log(`Account ${req.user.id} deleted, ${result.removedFiles} files removed`);
+    res.json({ deleted: true });
+  } catch (error) {
+    sendError(res, error, 'Error deleting account');
+  }
+});
+
+// Send an SMS campaign now, messages go out in the background in throttled batches
+app.post('/api/sms/campaigns/:id/send', requireAuth, async (req, res) => {
+  try {
+    const campaign = await startCampaignSend({
+      supabase,
+      campaignId: req.params.id,
+      userId: req.user.id
+    });
+
+    dispatchCampaign({ supabase, provider: smsProvider, campaign, ...smsDispatchOptions })
+      .then((summary) => {
+        console.log(`SMS campaign ${campaign.id} finished: ${summary.sent} sent, ${summary.failed} failed`);
+      })
+      .catch((error) => {
+        console.error(`Error sending SMS campaign ${campaign.id}:`, error);
+      });
+
+    res.status(202).json({ id: campaign.id, status: campaign.status });
+  } catch (error) {
+    sendError(res, error, 'Error sending SMS campaign');
+  }
+});
+
+// Inbound SMS webhook (Twilio), handles STOP/START/HELP replies
+app.post('/api/sms/inbound', express.urlencoded({ extended: false }), verifyInboundSms, async (req, res) => {
+  try {
+    const reply = await handleInboundMessage({
+      supabase,
+      from: req.body.From,
+      body: req.body.Body,
+      messageSid: req.body.MessageSid,
+      replies: smsReplies
+    });
+
+    res.type('text/xml').send(buildTwiml(reply));
+  } catch (error) {
+    sendError(res, error, 'Error handling inbound SMS');
   }
 });
 
@@ -151,4 +385,31 @@ app.get('/qr-redirect', async (req, res) => {
 // Start server
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
+
+  // Send scheduled SMS campaigns, SMS_SCHEDULER=off disables it on this instance
+  if (process.env.SMS_SCHEDULER !== 'off') {
+    startSmsScheduler({
+      supabase,
+      provider: smsProvider,
+      intervalMs: Number(process.env.SMS_SCHEDULER_INTERVAL_MS) || 30000,
+      ...smsDispatchOptions
+    });
+  }
+
+  // Prune old ad revisions and their unused media, AD_MEDIA_CLEANUP=off disables it on this instance
+  if (process.env.AD_MEDIA_CLEANUP !== 'off') {
+    startAdMediaCleanup({
+      supabase,
+      intervalMs: Number(process.env.AD_MEDIA_CLEANUP_INTERVAL_MS) || 3600000,
+      keepRevisions: Number(process.env.AD_REVISIONS_KEEP) || 50
+    });
+  }
+
+  // Promote A/B test winners, AD_VARIANT_PROMOTION=off disables it on this instance
+  if (process.env.AD_VARIANT_PROMOTION !== 'off') {
+    startAdVariantPromotion({
+      supabase,
+      intervalMs: Number(process.env.AD_VARIANT_PROMOTION_INTERVAL_MS) || 900000
+    });
+  }
 });
\ No newline at end of file
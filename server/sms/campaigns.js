@@ -0,0 +1,263 @@
+import { HttpError } from '../errors.js';
+import {
+  buildTemplateValues,
+  countSegments,
+  findUnknownVariables,
+  renderTemplate
+} from '../../shared/smsTemplate.js';
+
+/**
+ * Campaign sending
+ *
+ * A send happens in three steps:
+ *   1. the campaign moves to `sending`, only draft and scheduled campaigns can
+ *   2. one `sms_messages` row is created per group member (unique per contact),
+ *      with the template rendered for that contact. Unknown variables fail the
+ *      whole campaign, a contact missing a value gets a failed message
+ *   3. pending messages are claimed in batches (pending -> sending), counted
+ *      with check_usage_limits and handed to the provider, the result is
+ *      written back to the message row
+ * The campaign ends up `sent` when at least one message went out, otherwise `failed`.
+ *
+ * A message is only handed to the provider after it was atomically claimed
+ * from `pending`, so a campaign can be resumed after a restart without texting
+ * anyone twice. Provider errors that are known to be safe to retry put the
+ * message back to `pending`, up to MAX_ATTEMPTS.
+ *
+ * Numbers that replied STOP (see consent.js) are failed with "Recipient opted
+ * out" when a batch is claimed, so they are never handed to the provider.
+ */
+
+const LIMIT_REACHED = 'SMS limit reached for this billing period';
+const MAX_ATTEMPTS = 3;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Rate limited or provider side errors, the message was not accepted
+const isRetryable = (error) => error?.status === 429 || error?.status >= 500;
+
+// Move a campaign to sending, returns null when it is not in a sendable state
+const startCampaign = async (supabase, campaignId, userId) => {
+  const { data, error } = await supabase
+    .from('sms_campaigns')
+    .update({ status: 'sending', heartbeat_at: new Date().toISOString() })
+    .eq('id', campaignId)
+    .eq('user_id', userId)
+    .in('status', ['draft', 'scheduled'])
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Create a pending message for every contact in the campaign's group
+export const prepareMessages = async (supabase, campaign) => {
+  if (!campaign.group_id) {
+    throw new HttpError(400, 'Campaign has no recipient group');
+  }
+
+  const custom = campaign.variables || {};
+  const unknown = findUnknownVariables(campaign.content, Object.keys(custom));
+  if (unknown.length > 0) {
+    throw new HttpError(400, `Unknown template variables: ${unknown.join(', ')}`);
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('business_name')
+    .eq('id', campaign.user_id)
+    .maybeSingle();
+
+  if (profileError) throw profileError;
+
+  const { data: members, error } = await supabase
+    .from('group_contacts')
+    .select('contact_id, contacts ( id, name, phone, email, user_id )')
+    .eq('group_id', campaign.group_id);
+
+  if (error) throw error;
+
+  const rows = (members || [])
+    .map((member) => member.contacts)
+    .filter((contact) => contact && contact.user_id === campaign.user_id && contact.phone)
+    .map((contact) => {
+      const values = buildTemplateValues({ profile: profile || {}, contact, custom });
+      const { text, missing } = renderTemplate(campaign.content, values);
+      return {
+        campaign_id: campaign.id,
+        user_id: campaign.user_id,
+        contact_id: contact.id,
+        to_number: contact.phone,
+        content: text,
+        segments: countSegments(text).segments,
+        status: missing.length > 0 ? 'failed' : 'pending',
+        error: missing.length > 0 ? `Missing values for ${missing.join(', ')}` : null
+      };
+    });
+
+  if (rows.length === 0) {
+    return 0;
+  }
+
+  const { error: insertError } = await supabase
+    .from('sms_messages')
+    .upsert(rows, { onConflict: 'campaign_id,contact_id', ignoreDuplicates: true });
+
+  if (insertError) throw insertError;
+  return rows.length;
+};
+
+// Send a claimed message, usage is counted on the first attempt only
+export const deliverMessage = async ({ supabase, provider, message }) => {
+  if (message.attempts <= 1) {
+    const { data: allowed, error: limitError } = await supabase.rpc('check_usage_limits', {
+      user_id: message.user_id,
+      action: 'send_sms'
+    });
+
+    if (limitError) throw limitError;
+
+    if (!allowed) {
+      await supabase
+        .from('sms_messages')
+        .update({ status: 'failed', error: LIMIT_REACHED })
+        .eq('id', message.id);
+      return { status: 'failed', error: LIMIT_REACHED, limitReached: true };
+    }
+  }
+
+  try {
+    const result = await provider.send({ to: message.to_number, body: message.content });
+    await supabase
+      .from('sms_messages')
+      .update({ status: 'sent', external_id: result.id, error: null, sent_at: new Date().toISOString() })
+      .eq('id', message.id);
+    return { status: 'sent' };
+  } catch (sendError) {
+    const reason = sendError?.message || 'Provider rejected the message';
+    const retry = isRetryable(sendError) && message.attempts < MAX_ATTEMPTS;
+    await supabase
+      .from('sms_messages')
+      .update({ status: retry ? 'pending' : 'failed', error: reason })
+      .eq('id', message.id);
+    return { status: retry ? 'pending' : 'failed', error: reason };
+  }
+};
+
+// Write the final status and counts back to the campaign
+export const finishCampaign = async (supabase, campaignId) => {
+  const { data: messages, error } = await supabase
+    .from('sms_messages')
+    .select('status')
+    .eq('campaign_id', campaignId);
+
+  if (error) throw error;
+
+  const summary = {
+    total: messages?.length || 0,
+    sent: messages?.filter((message) => message.status === 'sent').length || 0,
+    failed: messages?.filter((message) => message.status === 'failed').length || 0
+  };
+
+  const { error: updateError } = await supabase
+    .from('sms_campaigns')
+    .update({
+      status: summary.sent > 0 ? 'sent' : 'failed',
+      recipients: summary.total,
+      sent_date: new Date().toISOString()
+    })
+    .eq('id', campaignId);
+
+  if (updateError) throw updateError;
+  return summary;
+};
+
+// Send every pending message of a campaign that is already `sending`
+export const dispatchCampaign = async ({
+  supabase,
+  provider,
+  campaign,
+  batchSize = 20,
+  batchDelayMs = 1000
+}) => {
+  try {
+    await prepareMessages(supabase, campaign);
+
+    for (;;) {
+      const { data: batch, error } = await supabase.rpc('claim_sms_messages', {
+        p_campaign_id: campaign.id,
+        p_limit: batchSize
+      });
+
+      if (error) throw error;
+      if (!batch || batch.length === 0) break;
+
+      let limitReached = false;
+      for (const message of batch) {
+        const result = await deliverMessage({ supabase, provider, message });
+        if (result.limitReached) {
+          limitReached = true;
+          break;
+        }
+      }
+
+      if (limitReached) {
+        // Everything left would hit the same limit, including the rest of this batch
+        await supabase
+          .from('sms_messages')
+          .update({ status: 'failed', error: LIMIT_REACHED })
+          .eq('campaign_id', campaign.id)
+          .in('status', ['pending', 'sending']);
+        break;
+      }
+
+      if (batchDelayMs > 0) {
+        await sleep(batchDelayMs);
+      }
+    }
+
+    return await finishCampaign(supabase, campaign.id);
+  } catch (error) {
+    // Bad campaigns fail for good, anything else stays `sending` and is
+    // resumed by the scheduler once its heartbeat goes stale
+    if (error instanceof HttpError) {
+      await supabase
+        .from('sms_campaigns')
+        .update({ status: 'failed' })
+        .eq('id', campaign.id);
+    }
+    throw error;
+  }
+};
+
+// Move a draft or scheduled campaign to sending, the caller dispatches it
+export const startCampaignSend = async ({ supabase, campaignId, userId }) => {
+  const { data: canSendSms, error: entitlementError } = await supabase.rpc('has_entitlement', {
+    p_user_id: userId,
+    p_flag: 'sms'
+  });
+
+  if (entitlementError) throw entitlementError;
+  if (!canSendSms) {
+    throw new HttpError(403, 'SMS campaigns are available on the Pro plan');
+  }
+
+  const campaign = await startCampaign(supabase, campaignId, userId);
+
+  if (!campaign) {
+    const { data: existing } = await supabase
+      .from('sms_campaigns')
+      .select('status')
+      .eq('id', campaignId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!existing) {
+      throw new HttpError(404, 'Campaign not found');
+    }
+    throw new HttpError(409, `Campaign is already ${existing.status}`);
+  }
+
+  return campaign;
+};
@@ -0,0 +1,108 @@
+import twilio from 'twilio';
+import { HttpError } from '../errors.js';
+
+/**
+ * Inbound SMS and consent
+ *
+ * Replies to campaign messages arrive on a Twilio webhook. A reply that is
+ * only an opt out, opt in or help keyword is recorded in `sms_consent_events`
+ * and answered, anything else is ignored. Numbers whose latest opt out/opt in
+ * event is an opt out are never texted again (see claim_sms_messages).
+ */
+
+// Standard carrier keywords (CTIA), matched against the whole message
+const KEYWORDS = {
+  opt_out: ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'OPTOUT', 'REVOKE'],
+  opt_in: ['START', 'UNSTOP', 'YES', 'SUBSCRIBE', 'OPTIN'],
+  help: ['HELP', 'INFO']
+};
+
+export const DEFAULT_REPLIES = {
+  opt_out: 'You have been unsubscribed and will not receive any more messages. Reply START to resubscribe.',
+  opt_in: 'You have been resubscribed to messages. Reply STOP to unsubscribe, HELP for help.',
+  help: 'Reply STOP to unsubscribe or START to resubscribe. Msg & data rates may apply.'
+};
+
+/**
+ * Consent event for a message body, null when it is not a keyword
+ */
+export const parseConsentKeyword = (body) => {
+  const keyword = (body || '').trim().toUpperCase().replace(/[^A-Z]/g, '');
+  const event = Object.keys(KEYWORDS).find((name) => KEYWORDS[name].includes(keyword));
+  return event ? { event, keyword } : null;
+};
+
+const escapeXml = (value) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * TwiML response, with a reply message when there is one
+ */
+export const buildTwiml = (reply) =>
+  reply
+    ? `<?xml version="1.0" encoding="UTF-8"?><Response><Message>${escapeXml(reply)}</Message></Response>`
+    : '<?xml version="1.0" encoding="UTF-8"?><Response></Response>';
+
+/**
+ * Check the X-Twilio-Signature header, `webhookUrl` is the public URL Twilio
+ * was configured with (proxies change the host and protocol Express sees)
+ */
+export const verifyTwilioSignature = ({ authToken, webhookUrl }) => (req, res, next) => {
+  const url = webhookUrl || `${req.protocol}://${req.get('host')}${req.originalUrl}`;
+  const signature = req.get('X-Twilio-Signature');
+
+  if (!signature || !twilio.validateRequest(authToken, signature, url, req.body || {})) {
+    return res.status(403).type('text/plain').send('Invalid signature');
+  }
+  next();
+};
+
+// The business that most recently texted this number, for the dashboard
+const findLastSender = async (supabase, phone) => {
+  const { data, error } = await supabase
+    .from('sms_messages')
+    .select('user_id')
+    .eq('to_number', phone)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.user_id || null;
+};
+
+/**
+ * Record a keyword reply, returns the reply to send back (null for other messages)
+ */
+export const handleInboundMessage = async ({ supabase, from, body, messageSid, replies = DEFAULT_REPLIES }) => {
+  if (!from) {
+    throw new HttpError(400, 'Missing sender number');
+  }
+
+  const match = parseConsentKeyword(body);
+  if (!match) {
+    return null;
+  }
+
+  const userId = await findLastSender(supabase, from);
+
+  const { error } = await supabase
+    .from('sms_consent_events')
+    .upsert(
+      {
+        phone: from,
+        event: match.event,
+        keyword: match.keyword,
+        body,
+        source: 'inbound_sms',
+        user_id: userId,
+        message_sid: messageSid || null
+      },
+      { onConflict: 'message_sid', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+
+  console.log(`SMS consent: ${match.event} recorded${messageSid ? ` for message ${messageSid}` : ''}`);
+  return replies[match.event];
+};
@@ -0,0 +1,63 @@
+/**
+ * SMS providers
+ *
+ * Campaign dispatch, opt-out replies and phone verification all send through
+ * `send({ to, body })`, which resolves with the provider's message id and
+ * throws when the message is rejected, so a failed number can be marked
+ * failed without stopping the rest of a campaign.
+ *
+ * SMS_PROVIDER picks twilio or stub. Without Twilio credentials the stub is
+ * used: it logs messages instead of sending them and can be told to reject
+ * numbers, which is how failed sends are tried out locally.
+ */
+
+// Twilio provider, wraps the client created in server/index.js
+export const createTwilioProvider = (client, from) => {
+  if (!client) {
+    throw new Error('Twilio credentials are required for the twilio SMS provider');
+  }
+  if (!from) {
+    throw new Error('TWILIO_PHONE_NUMBER is required for the twilio SMS provider');
+  }
+
+  return {
+    name: 'twilio',
+    async send({ to, body }) {
+      const message = await client.messages.create({ to, from, body });
+      return { id: message.sid };
+    }
+  };
+};
+
+// Stub provider for local development and tests
+export const createStubProvider = ({ failNumbers = [] } = {}) => {
+  const sent = [];
+
+  return {
+    name: 'stub',
+    sent,
+    async send({ to, body }) {
+      if (failNumbers.includes(to)) {
+        throw new Error(`Stub provider rejected ${to}`);
+      }
+      const id = `stub-${Date.now()}-${sent.length + 1}`;
+      sent.push({ id, to, body });
+      console.log(`[sms:stub] ${to}: ${body}`);
+      return { id };
+    }
+  };
+};
+
+// Twilio when credentials are configured, the stub otherwise
+export const createSmsProvider = ({ twilioClient, env = process.env }) => {
+  const name = env.SMS_PROVIDER || (twilioClient ? 'twilio' : 'stub');
+
+  switch (name) {
+    case 'twilio':
+      return createTwilioProvider(twilioClient, env.TWILIO_PHONE_NUMBER);
+    case 'stub':
+      return createStubProvider();
+    default:
+      throw new Error(`Unknown SMS provider: ${name}`);
+  }
+};
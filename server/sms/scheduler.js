@@ -0,0 +1,41 @@
+import { startIntervalWorker } from '../worker.js';
+import { dispatchCampaign } from './campaigns.js';
+
+/**
+ * Scheduled campaign dispatcher
+ *
+ * Every tick it fails messages left in `sending` by a dispatcher that went away,
+ * then claims due campaigns (claim_due_sms_campaigns) and sends them one at a
+ * time in throttled batches. Claiming is done in the database, so running more
+ * than one server is safe.
+ */
+export const startSmsScheduler = ({
+  supabase,
+  provider,
+  intervalMs = 30000,
+  batchSize = 20,
+  batchDelayMs = 1000
+}) => {
+  const dispatchDue = async () => {
+    const { data: released, error: releaseError } = await supabase.rpc('release_stale_sms_messages');
+    if (releaseError) throw releaseError;
+    if (released > 0) {
+      console.log(`SMS scheduler failed ${released} interrupted messages`);
+    }
+
+    const { data: campaigns, error } = await supabase.rpc('claim_due_sms_campaigns', { p_limit: 5 });
+    if (error) throw error;
+
+    for (const campaign of campaigns || []) {
+      try {
+        const summary = await dispatchCampaign({ supabase, provider, campaign, batchSize, batchDelayMs });
+        console.log(`SMS campaign ${campaign.id} finished: ${summary.sent} sent, ${summary.failed} failed`);
+      } catch (campaignError) {
+        console.error(`Error sending SMS campaign ${campaign.id}:`, campaignError);
+      }
+    }
+  };
+
+  // A slow campaign can outlast the interval, the worker doesn't start a second run
+  return startIntervalWorker({ name: 'SMS scheduler', intervalMs, run: dispatchDue });
+};
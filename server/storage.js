@@ -0,0 +1,23 @@
+// Storage removes at most this many files per request
+export const STORAGE_REMOVE_BATCH = 100;
+
+/**
+ * Remove files from storage, `files` are `{ bucket_id, name }` rows as
+ * returned by the storage lookups in the database
+ */
+export const removeStorageFiles = async (supabase, files) => {
+  const byBucket = new Map();
+  for (const file of files) {
+    byBucket.set(file.bucket_id, [...(byBucket.get(file.bucket_id) || []), file.name]);
+  }
+
+  for (const [bucket, names] of byBucket) {
+    for (let start = 0; start < names.length; start += STORAGE_REMOVE_BATCH) {
+      const { error } = await supabase.storage
+        .from(bucket)
+        .remove(names.slice(start, start + STORAGE_REMOVE_BATCH));
+
+      if (error) throw error;
+    }
+  }
+};
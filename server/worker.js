@@ -0,0 +1,29 @@
+/**
+ * Runs `run` now and then every `intervalMs`, for the background jobs started
+ * in server/index.js. A run that outlasts the interval is not overlapped by
+ * the next one, and a failed run is logged and retried on the next tick.
+ */
+export const startIntervalWorker = ({ name, intervalMs, run }) => {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+
+    try {
+      await run();
+    } catch (error) {
+      console.error(`${name} error:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, intervalMs);
+  tick();
+
+  return {
+    tick,
+    stop: () => clearInterval(timer)
+  };
+};
@@ -0,0 +1,64 @@
+export type AdResolutionStatus = 'ok' | 'invalid' | 'not_found' | 'unpublished' | 'ended';
+
+export type AdRecordMode = 'none' | 'visit' | 'redirect';
+
+export interface ResolvedAdSpace {
+  id: string;
+  title: string;
+  description: string | null;
+  content: {
+    url?: string;
+    headline?: string;
+    subheadline?: string;
+  };
+  theme: {
+    backgroundColor?: string;
+    textColor?: string;
+  };
+}
+
+export interface ResolvedAdDesign {
+  id: string;
+  name: string;
+  background: string | null;
+  image_url: string | null;
+  video_url: string | null;
+  content: {
+    redirectUrl?: string;
+    layers?: unknown;
+  };
+}
+
+export interface OfferEnded {
+  headline?: string;
+  message?: string;
+  url?: string;
+}
+
+export interface AdResolution {
+  status: AdResolutionStatus;
+  qr_code_id: string | null;
+  ad_space: ResolvedAdSpace | null;
+  design: ResolvedAdDesign | null;
+  offer_ended: OfferEnded | null;
+  redirect_url: string | null;
+}
+
+export interface AdLookup {
+  qrId?: string | null;
+  adSpaceId?: string | null;
+}
+
+export declare const AD_RESOLUTION_HTTP_STATUS: Record<AdResolutionStatus, number>;
+
+export declare const AD_RESOLUTION_MESSAGES: Record<Exclude<AdResolutionStatus, 'ok'>, string>;
+
+export declare const resolveAd: (
+  supabase: { rpc: (fn: string, args: Record<string, unknown>) => PromiseLike<{ data: unknown; error: unknown }> },
+  lookup: AdLookup & {
+    record?: AdRecordMode;
+    visitor?: { id?: string | null; ip?: string | null; agent?: string | null; location?: Record<string, unknown> };
+  }
+) => Promise<AdResolution>;
+
+export declare const redirectTarget: (resolution: AdResolution, lookup?: AdLookup) => string | null;
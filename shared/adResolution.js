@@ -0,0 +1,51 @@
+/**
+ * Public ad lookup, shared by the View page and the Express server
+ *
+ * All public entry points (the View page, the `/qr-redirect` pages and the
+ * `ad-space` and `qr-redirect` edge functions) go through the `resolve_ad`
+ * database function, so they agree on which ad a link shows, where it
+ * redirects and what gets counted. The result is
+ * `{ status, qr_code_id, ad_space, design, offer_ended, redirect_url }`.
+ */
+
+// Kept next to the edge functions, which cannot import from outside supabase/functions
+export { AD_RESOLUTION_HTTP_STATUS, AD_RESOLUTION_MESSAGES } from '../supabase/functions/_shared/adResolutionStatus.js';
+
+// Pages navigate to the redirect URL, anything but a web address could run script
+const webUrl = (url) => (typeof url === 'string' && /^https?:\/\//i.test(url) ? url : null);
+
+/**
+ * Resolve a QR code and/or ad space, see the `resolve_ad` migration for the
+ * record modes. `redirect_url` is only ever a web address
+ */
+export const resolveAd = async (supabase, { qrId, adSpaceId, record = 'none', visitor = {} }) => {
+  const { data, error } = await supabase.rpc('resolve_ad', {
+    p_qr_id: qrId || null,
+    p_ad_space_id: adSpaceId || null,
+    p_record: record,
+    p_ip: visitor.ip || null,
+    p_agent: visitor.agent || null,
+    p_location: visitor.location || {},
+    // Keeps a visitor on the same A/B variant, ip + user agent when not given
+    p_visitor: visitor.id || null
+  });
+
+  if (error) throw error;
+  return data?.redirect_url ? { ...data, redirect_url: webUrl(data.redirect_url) } : data;
+};
+
+/**
+ * Where a redirect page sends the visitor: the redirect URL if it is a web
+ * address, else the View page for an ad without one or an ended offer, null
+ * when there is nothing to show
+ */
+export const redirectTarget = (resolution, { qrId, adSpaceId } = {}) => {
+  const redirectUrl = webUrl(resolution.redirect_url);
+  if (redirectUrl) return redirectUrl;
+  if (resolution.status !== 'ok' && resolution.status !== 'ended') return null;
+
+  const params = new URLSearchParams();
+  if (qrId) params.set('qr', qrId);
+  if (adSpaceId) params.set('ad', adSpaceId);
+  return `/view?${params}`;
+};
@@ -0,0 +1,32 @@
+export type TemplateValues = Record<string, string | number | null | undefined>;
+
+export interface RenderResult {
+  text: string;
+  unknown: string[];
+  missing: string[];
+}
+
+export interface SegmentInfo {
+  encoding: 'GSM-7' | 'UCS-2';
+  units: number;
+  perSegment: number;
+  segments: number;
+}
+
+export declare const BUILT_IN_VARIABLES: string[];
+
+export declare const extractVariables: (template: string) => string[];
+
+export declare const buildTemplateValues: (sources?: {
+  profile?: { business_name?: string | null };
+  contact?: { name?: string | null; phone?: string | null; email?: string | null };
+  custom?: Record<string, string>;
+}) => TemplateValues;
+
+export declare const findUnknownVariables: (template: string, customNames?: string[]) => string[];
+
+export declare const renderTemplate: (template: string, values?: TemplateValues) => RenderResult;
+
+export declare const countSegments: (text: string) => SegmentInfo;
+
+export declare const findNonGsmCharacters: (text: string) => string[];
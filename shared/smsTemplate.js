@@ -0,0 +1,134 @@
+/**
+ * SMS template engine, shared by the dashboard and the Express server
+ *
+ * Templates use {{variable}} placeholders. Values come from the business
+ * profile, the contact being texted and any custom values saved on the
+ * campaign. A variable nobody provides is "unknown" (a typo or a value that
+ * was never filled in), a variable that is provided but empty for a contact
+ * is "missing" for that contact.
+ */
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+// Variables that are always available, custom campaign values can add more
+export const BUILT_IN_VARIABLES = [
+  'business_name',
+  'name',
+  'first_name',
+  'last_name',
+  'phone',
+  'email'
+];
+
+// GSM 03.38 basic character set
+const GSM_BASIC =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+
+// GSM 03.38 extension table, each of these takes two septets
+const GSM_EXTENDED = '^{}\\[~]|€\f';
+
+/**
+ * Unique variable names used in a template, in order of first use
+ */
+export const extractVariables = (template) => {
+  const names = [];
+  for (const match of (template || '').matchAll(VARIABLE_PATTERN)) {
+    if (!names.includes(match[1])) {
+      names.push(match[1]);
+    }
+  }
+  return names;
+};
+
+/**
+ * Values for one recipient
+ */
+export const buildTemplateValues = ({ profile = {}, contact = {}, custom = {} } = {}) => {
+  const name = (contact.name || '').trim();
+  const [firstName = '', ...rest] = name.split(/\s+/);
+
+  return {
+    ...custom,
+    business_name: profile.business_name || '',
+    name,
+    first_name: firstName,
+    last_name: rest.join(' '),
+    phone: contact.phone || '',
+    email: contact.email || ''
+  };
+};
+
+/**
+ * Variables in a template that nothing will ever provide
+ */
+export const findUnknownVariables = (template, customNames = []) =>
+  extractVariables(template).filter(
+    (name) => !BUILT_IN_VARIABLES.includes(name) && !customNames.includes(name)
+  );
+
+/**
+ * Fill a template, unknown and missing variables are left in place and reported
+ */
+export const renderTemplate = (template, values = {}) => {
+  const unknown = [];
+  const missing = [];
+
+  const text = (template || '').replace(VARIABLE_PATTERN, (placeholder, name) => {
+    if (!Object.hasOwn(values, name)) {
+      if (!unknown.includes(name)) unknown.push(name);
+      return placeholder;
+    }
+
+    const value = values[name] == null ? '' : String(values[name]).trim();
+    if (!value) {
+      if (!missing.includes(name)) missing.push(name);
+      return placeholder;
+    }
+    return value;
+  });
+
+  return { text, unknown, missing };
+};
+
+/**
+ * Encoding, length and segment count of a message as a carrier would bill it
+ */
+export const countSegments = (text) => {
+  const value = text || '';
+  const isGsm = [...value].every((char) => GSM_BASIC.includes(char) || GSM_EXTENDED.includes(char));
+
+  if (isGsm) {
+    const units = [...value].reduce((sum, char) => sum + (GSM_EXTENDED.includes(char) ? 2 : 1), 0);
+    const perSegment = units <= 160 ? 160 : 153;
+    return {
+      encoding: 'GSM-7',
+      units,
+      perSegment,
+      segments: units === 0 ? 0 : Math.ceil(units / perSegment)
+    };
+  }
+
+  // UCS-2 counts UTF-16 code units, so most emoji take two
+  const units = value.length;
+  const perSegment = units <= 70 ? 70 : 67;
+  return {
+    encoding: 'UCS-2',
+    units,
+    perSegment,
+    segments: units === 0 ? 0 : Math.ceil(units / perSegment)
+  };
+};
+
+/**
+ * Characters that force a message into UCS-2
+ */
+export const findNonGsmCharacters = (text) => {
+  const chars = [];
+  for (const char of text || '') {
+    if (!GSM_BASIC.includes(char) && !GSM_EXTENDED.includes(char) && !chars.includes(char)) {
+      chars.push(char);
+    }
+  }
+  return chars;
+};
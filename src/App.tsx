@@ -1,6 +1,7 @@
 import { useEffect } from 'react';
 import { Routes, Route, Navigate } from 'react-router-dom';
 import { useAuthStore } from './store/authStore';
+import { useEntitlementsStore } from './store/entitlementsStore';
 import { supabase } from './lib/supabase';
 
 // Layouts
@@ -13,7 +14,13 @@ import Register from './pages/auth/Register';
 import Dashboard from './pages/dashboard/Dashboard';
 import AdBuilder from './pages/dashboard/AdBuilder';
 import SmsManager from './pages/dashboard/SmsManager';
+import Analytics from './pages/dashboard/Analytics';
+import AdAnalytics from './pages/dashboard/AdAnalytics';
+import QrCodeGenerator from './pages/dashboard/QrCodeGenerator';
+import PrintDesigner from './pages/dashboard/PrintDesigner';
+import Settings from './pages/dashboard/Settings';
 import View from './pages/View';
+import QrRedirect from './pages/QrRedirect';
 import NotFound from './pages/NotFound';
 
 // Protected route component
@@ -28,7 +35,9 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
 };
 
 function App() {
-  const { setUser } = useAuthStore();
+  const { user, setUser } = useAuthStore();
+  const { load: loadEntitlements, clear: clearEntitlements } = useEntitlementsStore();
+  const userId = user?.id;
   
   useEffect(() => {
     // Check for existing session on app load
@@ -62,11 +71,18 @@ function App() {
     
     return () => subscription.unsubscribe();
   }, [setUser]);
+
+  // Plan and usage follow the signed in user
+  useEffect(() => {
+    clearEntitlements();
+    if (userId) loadEntitlements();
+  }, [userId, loadEntitlements, clearEntitlements]);
   
   return (
     <Routes>
       {/* Public view route */}
       <Route path="/view" element={<View />} />
+      <Route path="/q/:code" element={<QrRedirect />} />
       
       {/* Auth routes */}
       <Route element={<AuthLayout />}>
@@ -82,7 +98,12 @@ function App() {
       }>
         <Route path="/" element={<Dashboard />} />
         <Route path="/ad-builder" element={<AdBuilder />} />
+        <Route path="/ad-builder/:id/analytics" element={<AdAnalytics />} />
+        <Route path="/ad-builder/:id/print" element={<PrintDesigner />} />
+        <Route path="/qr-codes" element={<QrCodeGenerator />} />
         <Route path="/sms-manager" element={<SmsManager />} />
+        <Route path="/analytics" element={<Analytics />} />
+        <Route path="/settings" element={<Settings />} />
       </Route>
       
       {/* Fallback route */}
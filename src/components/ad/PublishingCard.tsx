@@ -0,0 +1,209 @@
+import { useEffect, useState } from 'react';
+import { Archive, ArchiveRestore, CalendarClock, Send } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getErrorMessage } from '../../lib/errors';
+import {
+  AdPublication,
+  PUBLICATION_STATUS_LABELS,
+  PUBLICATION_STATUS_STYLES,
+  cancelScheduledPublish,
+  publishAdDesign,
+  toDateTimeInput,
+  updatePublication
+} from '../../lib/adPublishing';
+import Card, { CardHeader, CardTitle, CardContent } from '../ui/Card';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+
+interface PublishingCardProps {
+  designId: string;
+  publication: AdPublication;
+  // Called after every change so the parent can reload the design
+  onChange: () => void;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+const PublishingCard = ({ designId, publication, onChange }: PublishingCardProps) => {
+  const [publishAt, setPublishAt] = useState('');
+  const [unpublishAt, setUnpublishAt] = useState(toDateTimeInput(publication.unpublish_at));
+  const [offerEnded, setOfferEnded] = useState(publication.offer_ended || {});
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUnpublishAt(toDateTimeInput(publication.unpublish_at));
+    setOfferEnded(publication.offer_ended || {});
+  }, [publication.unpublish_at, publication.offer_ended]);
+
+  const status = publication.publication_status;
+  const isArchived = status === 'archived';
+  const hasPendingSchedule = !!publication.scheduled_at && new Date(publication.scheduled_at).getTime() > Date.now();
+
+  const run = async (action: string, task: () => Promise<void>, success: string) => {
+    setBusyAction(action);
+    try {
+      await task();
+      toast.success(success);
+      onChange();
+    } catch (error) {
+      console.error(`Error (${action}):`, error);
+      toast.error(getErrorMessage(error, 'Failed to update publishing'));
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handlePublish = () => {
+    const date = publishAt ? new Date(publishAt) : null;
+    if (date && date.getTime() <= Date.now()) {
+      toast.error('Scheduled time must be in the future');
+      return;
+    }
+    run('publish', async () => {
+      await publishAdDesign(designId, date);
+      setPublishAt('');
+    }, date ? `Scheduled for ${formatDate(date.toISOString())}` : 'Ad published');
+  };
+
+  const handleSaveEnd = () => {
+    run('end', () => updatePublication(designId, {
+      unpublish_at: unpublishAt ? new Date(unpublishAt).toISOString() : null
+    }), unpublishAt ? 'End date saved' : 'End date removed');
+  };
+
+  const handleSaveOfferEnded = () => {
+    const url = offerEnded.url?.trim();
+    if (url && !/^https?:\/\/\S+$/i.test(url)) {
+      toast.error('Enter a link starting with http:// or https://');
+      return;
+    }
+    run('offer-ended', () => updatePublication(designId, {
+      offer_ended: {
+        headline: offerEnded.headline?.trim() || undefined,
+        message: offerEnded.message?.trim() || undefined,
+        url: url || undefined
+      }
+    }), 'Offer ended page saved');
+  };
+
+  const handleArchive = () => {
+    if (!isArchived && !window.confirm('Archive this ad? Scanners will see the offer ended page.')) return;
+    run('archive', () => updatePublication(designId, {
+      archived_at: isArchived ? null : new Date().toISOString()
+    }), isArchived ? 'Ad restored' : 'Ad archived');
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Publishing</CardTitle>
+        <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium ${PUBLICATION_STATUS_STYLES[status]}`}>
+          {PUBLICATION_STATUS_LABELS[status]}
+        </span>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-1 text-sm text-gray-600">
+          {publication.published_at && <p>Published {formatDate(publication.published_at)}</p>}
+          {hasPendingSchedule && <p>Saved changes go live {formatDate(publication.scheduled_at!)}</p>}
+          {publication.unpublish_at && <p>Offer ends {formatDate(publication.unpublish_at)}</p>}
+          {status === 'draft' && <p>Scanners don't see this ad until it is published.</p>}
+          {publication.has_unpublished_changes && status !== 'draft' && (
+            <p className="text-warning-700">The draft has changes that are not published yet.</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Input
+            label="Publish at (optional)"
+            id="publish-at"
+            type="datetime-local"
+            value={publishAt}
+            onChange={(e) => setPublishAt(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <Button
+              className="flex-1"
+              onClick={handlePublish}
+              isLoading={busyAction === 'publish'}
+              leftIcon={publishAt ? <CalendarClock size={16} /> : <Send size={16} />}
+            >
+              {publishAt ? 'Schedule' : 'Publish Now'}
+            </Button>
+            {hasPendingSchedule && (
+              <Button
+                variant="outline"
+                onClick={() => run('cancel', () => cancelScheduledPublish(designId), 'Scheduled publish cancelled')}
+                isLoading={busyAction === 'cancel'}
+              >
+                Cancel Schedule
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Input
+            label="Offer ends (optional)"
+            id="unpublish-at"
+            type="datetime-local"
+            value={unpublishAt}
+            onChange={(e) => setUnpublishAt(e.target.value)}
+          />
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={handleSaveEnd}
+            isLoading={busyAction === 'end'}
+            disabled={unpublishAt === toDateTimeInput(publication.unpublish_at)}
+          >
+            Save End Date
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-gray-700">Offer ended page</h3>
+          <Input
+            id="offer-ended-headline"
+            placeholder="This offer has ended"
+            value={offerEnded.headline || ''}
+            onChange={(e) => setOfferEnded({ ...offerEnded, headline: e.target.value })}
+          />
+          <textarea
+            id="offer-ended-message"
+            className="input min-h-[80px]"
+            placeholder="Thanks for your interest. Check back soon for new offers."
+            value={offerEnded.message || ''}
+            onChange={(e) => setOfferEnded({ ...offerEnded, message: e.target.value })}
+          />
+          <Input
+            id="offer-ended-url"
+            type="url"
+            placeholder="Link to your current offers (optional)"
+            value={offerEnded.url || ''}
+            onChange={(e) => setOfferEnded({ ...offerEnded, url: e.target.value })}
+          />
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={handleSaveOfferEnded}
+            isLoading={busyAction === 'offer-ended'}
+          >
+            Save Offer Ended Page
+          </Button>
+        </div>
+
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={handleArchive}
+          isLoading={busyAction === 'archive'}
+          leftIcon={isArchived ? <ArchiveRestore size={16} /> : <Archive size={16} />}
+        >
+          {isArchived ? 'Restore' : 'Archive'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PublishingCard;
@@ -0,0 +1,191 @@
+import { useCallback, useEffect, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getErrorMessage } from '../../lib/errors';
+import { useAuthStore } from '../../store/authStore';
+import { AdRevision, diffRevisions, getRevisions, restoreRevision } from '../../lib/adRevisions';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+
+interface RevisionHistoryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  designId: string;
+  // Called after a restore so the parent can reload the design
+  onRestored: () => void;
+}
+
+const ACTION_LABELS: Record<AdRevision['action'], string> = {
+  create: 'Created',
+  save: 'Saved',
+  restore: 'Restored'
+};
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+const RevisionHistory = ({ isOpen, onClose, designId, onRestored }: RevisionHistoryProps) => {
+  const { user } = useAuthStore();
+  const [revisions, setRevisions] = useState<AdRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = await getRevisions(designId);
+      setRevisions(data);
+      setSelectedId(data[0]?.id ?? null);
+      setCompareId(null);
+    } catch (error) {
+      console.error('Error loading revisions:', error);
+      toast.error(getErrorMessage(error, 'Failed to load version history'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [designId]);
+
+  useEffect(() => {
+    if (isOpen) loadRevisions();
+  }, [isOpen, loadRevisions]);
+
+  const selectedIndex = revisions.findIndex((revision) => revision.id === selectedId);
+  const selected = revisions[selectedIndex];
+  // Compare with the previous revision unless another one was picked
+  const compared = revisions.find((revision) => revision.id === compareId) ?? revisions[selectedIndex + 1];
+  const [older, newer] = selected && compared && compared.revision > selected.revision
+    ? [selected, compared]
+    : [compared, selected];
+  const changes = older && newer ? diffRevisions(older, newer) : [];
+
+  const describeAuthor = (revision: AdRevision) => {
+    if (!revision.changed_by) return 'Automatic';
+    return revision.changed_by === user?.id ? 'You' : 'Another user';
+  };
+
+  const handleRestore = async (revision: AdRevision) => {
+    if (!window.confirm(`Restore version ${revision.revision}? The draft is replaced, publish it to update the live ad.`)) return;
+
+    setRestoringId(revision.id);
+    try {
+      await restoreRevision(revision.id);
+      toast.success(`Version ${revision.revision} restored as the draft`);
+      onRestored();
+      await loadRevisions();
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      toast.error(getErrorMessage(error, 'Failed to restore version'));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Version History" size="xl">
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        </div>
+      ) : revisions.length === 0 ? (
+        <p className="text-sm text-gray-500 py-4">No versions recorded yet.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <ul className="space-y-2 max-h-[60vh] overflow-y-auto">
+            {revisions.map((revision, index) => (
+              <li
+                key={revision.id}
+                className={`border rounded-md p-3 cursor-pointer ${
+                  revision.id === selectedId ? 'border-primary-500 bg-primary-50' : 'hover:bg-gray-50'
+                }`}
+                onClick={() => {
+                  setSelectedId(revision.id);
+                  setCompareId(null);
+                }}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">
+                    Version {revision.revision}
+                    {index === 0 && <span className="ml-2 text-xs text-gray-500">(current draft)</span>}
+                  </span>
+                  <span className="text-xs text-gray-500">{formatDate(revision.created_at)}</span>
+                </div>
+                <p className="text-sm text-gray-600">
+                  {ACTION_LABELS[revision.action]}
+                  {revision.restored_from && ` from version ${revision.restored_from}`}
+                  {' by '}{describeAuthor(revision)}
+                </p>
+                {index > 0 && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="mt-2"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleRestore(revision);
+                    }}
+                    isLoading={restoringId === revision.id}
+                    disabled={!!restoringId}
+                    leftIcon={<RotateCcw size={14} />}
+                  >
+                    Restore
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="compare-revision" className="block text-sm font-medium text-gray-700 mb-1">
+                Compare version {selected?.revision} with
+              </label>
+              <select
+                id="compare-revision"
+                className="input"
+                value={compared?.id ?? ''}
+                onChange={(e) => setCompareId(e.target.value || null)}
+              >
+                {!compared && <option value="">Nothing to compare</option>}
+                {revisions
+                  .filter((revision) => revision.id !== selectedId)
+                  .map((revision) => (
+                    <option key={revision.id} value={revision.id}>
+                      Version {revision.revision} ({formatDate(revision.created_at)})
+                    </option>
+                  ))}
+              </select>
+            </div>
+
+            {older && newer && (
+              changes.length === 0 ? (
+                <p className="text-sm text-gray-500">No differences between these versions.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="py-1 pr-2 font-medium"></th>
+                      <th className="py-1 pr-2 font-medium">Version {older.revision}</th>
+                      <th className="py-1 font-medium">Version {newer.revision}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {changes.map((change) => (
+                      <tr key={change.label} className="border-t align-top">
+                        <td className="py-2 pr-2 font-medium text-gray-700">{change.label}</td>
+                        <td className="py-2 pr-2 break-all text-error-700">{change.before || '—'}</td>
+                        <td className="py-2 break-all text-success-700">{change.after || '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )
+            )}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default RevisionHistory;
@@ -0,0 +1,97 @@
+import { useMemo, useState } from 'react';
+import { Crown, Lock, Plus } from 'lucide-react';
+import { AdTemplate } from '../../lib/adTemplates';
+import { normalizeTextLayers } from '../../lib/textLayers';
+import TextLayerOverlay from './TextLayerOverlay';
+import Button from '../ui/Button';
+
+interface TemplatePickerProps {
+  templates: AdTemplate[];
+  isLoading: boolean;
+  isFreeTier: boolean;
+  // Called with null for a blank ad
+  onSelect: (template: AdTemplate | null) => void;
+  onUpgrade: () => void;
+}
+
+const TemplatePicker = ({ templates, isLoading, isFreeTier, onSelect, onUpgrade }: TemplatePickerProps) => {
+  const [category, setCategory] = useState<string | null>(null);
+
+  const categories = useMemo(
+    () => Array.from(new Set(templates.map((template) => template.category))),
+    [templates]
+  );
+  const visible = category ? templates.filter((template) => template.category === category) : templates;
+
+  return (
+    <div className="space-y-4">
+      {categories.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" variant={category === null ? 'primary' : 'outline'} onClick={() => setCategory(null)}>
+            All
+          </Button>
+          {categories.map((option) => (
+            <Button
+              key={option}
+              size="sm"
+              variant={category === option ? 'primary' : 'outline'}
+              onClick={() => setCategory(option)}
+            >
+              {option}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
+        <button
+          type="button"
+          className="aspect-[4/5] rounded-lg border-2 border-dashed border-gray-300 hover:border-primary-500 hover:bg-primary-50 flex flex-col items-center justify-center text-gray-600 transition-colors"
+          onClick={() => onSelect(null)}
+        >
+          <Plus size={32} className="mb-2" />
+          <span className="font-medium">Blank ad</span>
+          <span className="text-xs text-gray-500">Start from your own media</span>
+        </button>
+
+        {isLoading && templates.length === 0 && (
+          <div className="aspect-[4/5] rounded-lg bg-gray-100 animate-pulse" />
+        )}
+
+        {visible.map((template) => {
+          const isLocked = template.is_premium && isFreeTier;
+
+          return (
+            <div key={template.id} className="space-y-2">
+              <button
+                type="button"
+                className="relative block w-full aspect-[4/5] rounded-lg overflow-hidden shadow-sm hover:shadow-lg transition-shadow"
+                style={{ backgroundColor: template.background }}
+                onClick={() => (isLocked ? onUpgrade() : onSelect(template))}
+              >
+                {template.image_url && (
+                  <img src={template.image_url} alt="" className="absolute inset-0 w-full h-full object-cover" />
+                )}
+                <TextLayerOverlay layers={normalizeTextLayers(template.content?.layers)} />
+                {template.is_premium && (
+                  <span className="absolute top-2 right-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-white text-gray-800 shadow">
+                    {isLocked ? <Lock size={12} className="mr-1" /> : <Crown size={12} className="mr-1" />}
+                    Pro
+                  </span>
+                )}
+              </button>
+              <div>
+                <p className="text-sm font-medium">{template.name}</p>
+                <p className="text-xs text-gray-500">
+                  {isLocked ? 'Upgrade to Pro to use this template' : template.description}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TemplatePicker;
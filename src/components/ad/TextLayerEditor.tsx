@@ -0,0 +1,265 @@
+import { useEffect, useRef, useState } from 'react';
+import { DndContext, DragEndEvent, DragStartEvent } from '@dnd-kit/core';
+import { Plus, Trash2, Type } from 'lucide-react';
+import {
+  MAX_LAYER_FONT_SIZE,
+  MAX_TEXT_LAYERS,
+  MIN_LAYER_FONT_SIZE,
+  TextLayer,
+  createTextLayer,
+  moveTextLayer
+} from '../../lib/textLayers';
+import DraggableText from '../ui/DraggableText';
+import Button from '../ui/Button';
+import ColorSwatches from '../ui/ColorSwatches';
+
+interface TextLayerEditorProps {
+  mediaUrl: string;
+  isVideo: boolean;
+  background: string;
+  layers: TextLayer[];
+  onChange: (layers: TextLayer[]) => void;
+  // Brand colors from Settings, offered next to the text color picker
+  brandColors?: string[];
+}
+
+// Tallest the canvas gets, portrait media is narrowed to fit
+const MAX_CANVAS_HEIGHT = 480;
+
+const TextLayerEditor = ({ mediaUrl, isVideo, background, layers, onChange, brandColors = [] }: TextLayerEditorProps) => {
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const [ratio, setRatio] = useState(16 / 9);
+  const [canvasWidth, setCanvasWidth] = useState(0);
+  const [selectedId, setSelectedId] = useState<string | null>(layers[0]?.id || null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const observer = new ResizeObserver(([entry]) => setCanvasWidth(entry.contentRect.width));
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  const selected = layers.find((layer) => layer.id === selectedId) || null;
+  const canvasHeight = canvasWidth / ratio;
+
+  const updateLayer = (id: string, changes: Partial<TextLayer>) => {
+    onChange(layers.map((layer) => (layer.id === id ? { ...layer, ...changes } : layer)));
+  };
+
+  const handleAdd = () => {
+    const layer = createTextLayer(layers.length);
+    onChange([...layers, layer]);
+    setSelectedId(layer.id);
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(layers.filter((layer) => layer.id !== id));
+    setSelectedId(null);
+  };
+
+  const handleDragStart = ({ active }: DragStartEvent) => {
+    setSelectedId(String(active.id));
+  };
+
+  const handleDragEnd = ({ active, delta }: DragEndEvent) => {
+    if (!canvasWidth) return;
+    onChange(layers.map((layer) =>
+      layer.id === active.id ? moveTextLayer(layer, delta, { width: canvasWidth, height: canvasHeight }) : layer
+    ));
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="md:col-span-2">
+        <DndContext onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
+          <div
+            ref={canvasRef}
+            className="relative mx-auto overflow-hidden rounded-md border border-gray-200"
+            style={{
+              width: `min(100%, ${Math.round(MAX_CANVAS_HEIGHT * ratio)}px)`,
+              aspectRatio: ratio,
+              backgroundColor: background,
+            }}
+          >
+            {isVideo ? (
+              <video
+                src={mediaUrl}
+                className="absolute inset-0 w-full h-full object-contain"
+                muted
+                playsInline
+                onLoadedMetadata={(e) => {
+                  const { videoWidth, videoHeight } = e.currentTarget;
+                  if (videoWidth && videoHeight) setRatio(videoWidth / videoHeight);
+                }}
+              />
+            ) : (
+              <img
+                src={mediaUrl}
+                alt=""
+                className="absolute inset-0 w-full h-full object-contain"
+                draggable={false}
+                onLoad={(e) => {
+                  const { naturalWidth, naturalHeight } = e.currentTarget;
+                  if (naturalWidth && naturalHeight) setRatio(naturalWidth / naturalHeight);
+                }}
+              />
+            )}
+
+            {canvasWidth > 0 && layers.map((layer) => (
+              <div key={layer.id} className={`leading-tight whitespace-pre-line break-words ${layer.bold ? 'font-bold' : ''}`}>
+                <DraggableText
+                  id={layer.id}
+                  content={layer.text}
+                  position={{ x: layer.x * canvasWidth, y: layer.y * canvasHeight }}
+                  fontSize={layer.fontSize / 100 * canvasWidth}
+                  color={layer.color}
+                  align={layer.align}
+                  width={`${layer.width * 100}%`}
+                  isSelected={layer.id === selectedId}
+                  onClick={() => setSelectedId(layer.id)}
+                />
+              </div>
+            ))}
+          </div>
+        </DndContext>
+        <p className="mt-2 text-xs text-gray-500 text-center">
+          Drag text to place it. Text keeps its place on the picture on every screen size.
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium text-gray-700">Text Layers</h3>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleAdd}
+            disabled={layers.length >= MAX_TEXT_LAYERS}
+            leftIcon={<Plus size={14} />}
+          >
+            Add Text
+          </Button>
+        </div>
+
+        {layers.length === 0 ? (
+          <p className="text-sm text-gray-500">No text yet. Add a headline or an offer on top of your media.</p>
+        ) : (
+          <ul className="space-y-1">
+            {layers.map((layer) => (
+              <li key={layer.id}>
+                <button
+                  type="button"
+                  className={`w-full flex items-center px-3 py-2 rounded-md text-sm text-left ${
+                    layer.id === selectedId ? 'bg-primary-50 text-primary-700' : 'hover:bg-gray-50'
+                  }`}
+                  onClick={() => setSelectedId(layer.id)}
+                >
+                  <Type size={14} className="mr-2 shrink-0" />
+                  <span className="truncate">{layer.text || 'Empty text'}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {selected && (
+          <div className="space-y-4 border-t border-gray-200 pt-4">
+            <div className="space-y-2">
+              <label htmlFor="layer-text" className="block text-sm font-medium text-gray-700">Text</label>
+              <textarea
+                id="layer-text"
+                className="input min-h-[4rem]"
+                value={selected.text}
+                onChange={(e) => updateLayer(selected.id, { text: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="layer-size" className="block text-sm font-medium text-gray-700">Size</label>
+              <input
+                id="layer-size"
+                type="range"
+                min={MIN_LAYER_FONT_SIZE}
+                max={MAX_LAYER_FONT_SIZE}
+                step={0.5}
+                value={selected.fontSize}
+                onChange={(e) => updateLayer(selected.id, { fontSize: Number(e.target.value) })}
+                className="w-full"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <label htmlFor="layer-width" className="block text-sm font-medium text-gray-700">
+                Width ({Math.round(selected.width * 100)}%)
+              </label>
+              <input
+                id="layer-width"
+                type="range"
+                min={10}
+                max={100}
+                value={Math.round(selected.width * 100)}
+                onChange={(e) => updateLayer(selected.id, {
+                  width: Number(e.target.value) / 100,
+                  x: Math.min(selected.x, 1 - Number(e.target.value) / 100),
+                })}
+                className="w-full"
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-3">
+                <input
+                  type="color"
+                  value={selected.color}
+                  onChange={(e) => updateLayer(selected.id, { color: e.target.value })}
+                  className="h-8 w-12 cursor-pointer border-0"
+                  aria-label="Text color"
+                />
+                <ColorSwatches
+                  colors={brandColors}
+                  value={selected.color}
+                  onSelect={(color) => updateLayer(selected.id, { color })}
+                />
+                <label className="flex items-center text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={selected.bold}
+                    onChange={(e) => updateLayer(selected.id, { bold: e.target.checked })}
+                  />
+                  Bold
+                </label>
+              </div>
+              <div className="flex space-x-1">
+                {(['left', 'center', 'right'] as const).map((align) => (
+                  <Button
+                    key={align}
+                    size="sm"
+                    variant={selected.align === align ? 'primary' : 'outline'}
+                    onClick={() => updateLayer(selected.id, { align })}
+                  >
+                    {align.charAt(0).toUpperCase()}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <Button
+              size="sm"
+              variant="outline"
+              className="w-full text-error-500 hover:bg-error-50"
+              onClick={() => handleRemove(selected.id)}
+              leftIcon={<Trash2 size={14} />}
+            >
+              Remove Text
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TextLayerEditor;
@@ -0,0 +1,35 @@
+import { TextLayer } from '../../lib/textLayers';
+
+interface TextLayerOverlayProps {
+  layers: TextLayer[];
+}
+
+// Sized against the media box, place it inside a relative parent of the media's size
+const TextLayerOverlay = ({ layers }: TextLayerOverlayProps) => {
+  if (layers.length === 0) return null;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none" style={{ containerType: 'inline-size' }}>
+      {layers.map((layer) => (
+        <div
+          key={layer.id}
+          className="absolute p-2 leading-tight whitespace-pre-line break-words"
+          style={{
+            left: `${layer.x * 100}%`,
+            top: `${layer.y * 100}%`,
+            width: `${layer.width * 100}%`,
+            fontSize: `${layer.fontSize}cqw`,
+            color: layer.color,
+            textAlign: layer.align,
+            fontWeight: layer.bold ? 700 : 400,
+            textShadow: '0px 1px 2px rgba(0,0,0,0.3)',
+          }}
+        >
+          {layer.text}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TextLayerOverlay;
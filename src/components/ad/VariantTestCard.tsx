@@ -0,0 +1,290 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Copy, Trophy } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase } from '../../lib/supabase';
+import { getErrorMessage } from '../../lib/errors';
+import { useEntitlements } from '../../store/entitlementsStore';
+import {
+  PublicationStatus,
+  PUBLICATION_STATUS_LABELS,
+  PUBLICATION_STATUS_STYLES
+} from '../../lib/adPublishing';
+import {
+  AdVariantResult,
+  AdVariantTest,
+  addVariant,
+  clickThroughRate,
+  duplicateDesignAsVariant,
+  getVariantResults,
+  getVariantTest,
+  promoteVariant,
+  removeVariant,
+  setVariantWeight,
+  updateVariantTest
+} from '../../lib/adVariants';
+import Card, { CardHeader, CardTitle, CardDescription, CardContent } from '../ui/Card';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+
+interface VariantTestCardProps {
+  adSpaceId: string;
+}
+
+interface SpaceDesign {
+  id: string;
+  name: string;
+  publication_status: PublicationStatus;
+}
+
+const VariantTestCard = ({ adSpaceId }: VariantTestCardProps) => {
+  const { remaining, refresh: refreshEntitlements } = useEntitlements();
+  const [designs, setDesigns] = useState<SpaceDesign[]>([]);
+  const [shownDesignId, setShownDesignId] = useState<string | null>(null);
+  const [results, setResults] = useState<AdVariantResult[]>([]);
+  const [test, setTest] = useState<AdVariantTest | null>(null);
+  const [weights, setWeights] = useState<Record<string, string>>({});
+  const [minViews, setMinViews] = useState('');
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+
+  const loadTest = useCallback(async () => {
+    try {
+      const [{ data: spaceDesigns, error }, { data: space, error: spaceError }, variantResults, variantTest] =
+        await Promise.all([
+          supabase
+            .from('ad_designs')
+            .select('id, name, publication_status')
+            .eq('ad_space_id', adSpaceId)
+            .order('created_at', { ascending: true }),
+          supabase
+            .from('ad_spaces')
+            .select('design_id')
+            .eq('id', adSpaceId)
+            .single(),
+          getVariantResults(adSpaceId),
+          getVariantTest(adSpaceId)
+        ]);
+
+      if (error) throw error;
+      if (spaceError) throw spaceError;
+
+      setDesigns(spaceDesigns || []);
+      setShownDesignId(space.design_id);
+      setResults(variantResults);
+      setTest(variantTest);
+      setWeights(Object.fromEntries(variantResults.map((result) => [result.designId, String(result.weight)])));
+      setMinViews(String(variantTest.minViews));
+    } catch (error) {
+      console.error('Error loading A/B test:', error);
+      toast.error(getErrorMessage(error, 'Failed to load the A/B test'));
+    }
+  }, [adSpaceId]);
+
+  useEffect(() => {
+    loadTest();
+  }, [loadTest]);
+
+  const run = async (action: string, task: () => Promise<void>, success?: string) => {
+    setBusyAction(action);
+    try {
+      await task();
+      if (success) toast.success(success);
+      await loadTest();
+    } catch (error) {
+      console.error(`Error (${action}):`, error);
+      toast.error(getErrorMessage(error, 'Failed to update the A/B test'));
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const resultFor = (designId: string) => results.find((result) => result.designId === designId);
+  const liveWeight = results.filter((result) => result.isLive).reduce((sum, result) => sum + result.weight, 0);
+  const isRunning = results.filter((result) => result.isLive).length > 1;
+  const canDuplicate = remaining('ad_designs') !== 0;
+
+  const handleToggle = (design: SpaceDesign, inTest: boolean) => {
+    run(`toggle-${design.id}`, () => (
+      inTest ? addVariant(adSpaceId, design.id) : removeVariant(adSpaceId, design.id)
+    ));
+  };
+
+  const handleWeight = (designId: string) => {
+    const weight = Number(weights[designId]);
+    if (weight === resultFor(designId)?.weight) return;
+    if (!Number.isInteger(weight) || weight < 1 || weight > 100) {
+      toast.error('Weight must be a whole number from 1 to 100');
+      setWeights({ ...weights, [designId]: String(resultFor(designId)?.weight ?? 50) });
+      return;
+    }
+    run(`weight-${designId}`, () => setVariantWeight(adSpaceId, designId, weight));
+  };
+
+  const handleDuplicate = () => {
+    const source = designs.find((design) => design.id === shownDesignId) || designs[0];
+    if (!source) return;
+
+    run('duplicate', async () => {
+      const designId = await duplicateDesignAsVariant(source.id, `${source.name} (variant)`);
+      await addVariant(adSpaceId, designId);
+      refreshEntitlements();
+    }, 'Variant created. Edit and publish it in the Ad Builder to start showing it');
+  };
+
+  const handlePromote = (result: AdVariantResult) => {
+    if (!window.confirm(`Promote "${result.name}"? The test ends and every visitor sees this design.`)) return;
+    run(`promote-${result.designId}`, () => promoteVariant(adSpaceId, result.designId), `"${result.name}" promoted`);
+  };
+
+  const handleMinViews = () => {
+    const views = Number(minViews);
+    if (!test || views === test.minViews) return;
+    if (!Number.isInteger(views) || views < 10) {
+      toast.error('Minimum views must be a whole number of at least 10');
+      setMinViews(String(test.minViews));
+      return;
+    }
+    run('min-views', () => updateVariantTest(adSpaceId, { minViews: views }), 'Minimum views saved');
+  };
+
+  const handleAutoPromote = (autoPromote: boolean) => {
+    run('auto-promote', () => updateVariantTest(adSpaceId, { autoPromote }),
+      autoPromote ? 'The winner will be promoted automatically' : 'Auto promote turned off');
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex items-start justify-between">
+        <div>
+          <CardTitle>A/B test</CardTitle>
+          <CardDescription>
+            {isRunning && test?.startedAt
+              ? `Running since ${new Date(test.startedAt).toLocaleDateString()}. Each visitor always sees the same variant`
+              : 'Show several published designs behind this QR code and compare their click-through'}
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleDuplicate}
+          isLoading={busyAction === 'duplicate'}
+          disabled={!canDuplicate || designs.length === 0}
+          leftIcon={<Copy size={14} />}
+        >
+          New Variant
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-4 font-medium">In test</th>
+                <th className="py-2 pr-4 font-medium">Design</th>
+                <th className="py-2 pr-4 font-medium">Weight</th>
+                <th className="py-2 pr-4 font-medium">Traffic</th>
+                <th className="py-2 pr-4 font-medium">Views</th>
+                <th className="py-2 pr-4 font-medium">Clicks</th>
+                <th className="py-2 pr-4 font-medium">Click-through</th>
+                <th className="py-2 font-medium"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {designs.map((design) => {
+                const result = resultFor(design.id);
+                return (
+                  <tr key={design.id} className="border-t">
+                    <td className="py-2 pr-4">
+                      <input
+                        type="checkbox"
+                        checked={!!result}
+                        disabled={busyAction === `toggle-${design.id}`}
+                        onChange={(e) => handleToggle(design, e.target.checked)}
+                      />
+                    </td>
+                    <td className="py-2 pr-4">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{design.name}</span>
+                        <span className={`inline-block px-2 py-0.5 rounded-full text-xs ${PUBLICATION_STATUS_STYLES[design.publication_status]}`}>
+                          {PUBLICATION_STATUS_LABELS[design.publication_status]}
+                        </span>
+                        {result?.isWinner && (
+                          <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-success-100 text-success-700">
+                            <Trophy size={12} /> Winner
+                          </span>
+                        )}
+                      </div>
+                      {!result && design.id === shownDesignId && (
+                        <p className="text-xs text-gray-500">Shown when no variant is live</p>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {result && (
+                        <input
+                          type="number"
+                          min={1}
+                          max={100}
+                          className="input w-20"
+                          value={weights[design.id] ?? ''}
+                          onChange={(e) => setWeights({ ...weights, [design.id]: e.target.value })}
+                          onBlur={() => handleWeight(design.id)}
+                        />
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {result ? (result.isLive ? `${Math.round((result.weight / liveWeight) * 100)}%` : 'Not live') : ''}
+                    </td>
+                    <td className="py-2 pr-4">{result ? result.views.toLocaleString() : ''}</td>
+                    <td className="py-2 pr-4">{result ? result.clicks.toLocaleString() : ''}</td>
+                    <td className="py-2 pr-4">
+                      {result ? `${clickThroughRate(result.views, result.clicks).toFixed(1)}%` : ''}
+                    </td>
+                    <td className="py-2 text-right">
+                      {result?.isLive && isRunning && (
+                        <Button
+                          size="sm"
+                          variant={result.isWinner ? 'primary' : 'outline'}
+                          onClick={() => handlePromote(result)}
+                          isLoading={busyAction === `promote-${result.designId}`}
+                        >
+                          Promote
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div className="sm:w-48">
+            <Input
+              label="Minimum views per variant"
+              id="auto-promote-min-views"
+              type="number"
+              min={10}
+              value={minViews}
+              onChange={(e) => setMinViews(e.target.value)}
+              onBlur={handleMinViews}
+            />
+          </div>
+          <label className="flex items-center cursor-pointer pb-2">
+            <input
+              type="checkbox"
+              className="mr-3"
+              checked={!!test?.autoPromote}
+              disabled={busyAction === 'auto-promote'}
+              onChange={(e) => handleAutoPromote(e.target.checked)}
+            />
+            <span className="text-sm text-gray-700">
+              Promote the winner automatically once it leads with 95% confidence
+            </span>
+          </label>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VariantTestCard;
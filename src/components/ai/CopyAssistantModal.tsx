@@ -0,0 +1,194 @@
+import { useEffect, useState } from 'react';
+import { Sparkles } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getErrorMessage } from '../../lib/errors';
+import { useEntitlements } from '../../store/entitlementsStore';
+import {
+  AdCopy,
+  COPY_TONES,
+  CopyTone,
+  SmsCopy,
+  generateAdCopy,
+  generateSmsCopy,
+} from '../../lib/copywriter';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+
+type CopyAssistantModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  // Prefilled from the business profile, can be changed for this request
+  businessName: string;
+} & (
+  | { kind: 'ad'; onSelect: (copy: AdCopy) => void }
+  | { kind: 'sms'; onSelect: (copy: SmsCopy) => void }
+);
+
+const SEGMENT_BUDGETS = [
+  { segments: 1, label: '1 segment (160 characters)' },
+  { segments: 2, label: '2 segments (306 characters)' },
+  { segments: 3, label: '3 segments (459 characters)' },
+];
+
+const CopyAssistantModal = (props: CopyAssistantModalProps) => {
+  const { isOpen, onClose, kind } = props;
+  const [businessName, setBusinessName] = useState(props.businessName);
+  const [offer, setOffer] = useState('');
+  const [tone, setTone] = useState<CopyTone>('friendly');
+  const [maxSegments, setMaxSegments] = useState(1);
+  const [adVariants, setAdVariants] = useState<AdCopy[]>([]);
+  const [smsVariants, setSmsVariants] = useState<SmsCopy[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const { refresh: refreshEntitlements } = useEntitlements();
+
+  useEffect(() => {
+    setBusinessName(props.businessName);
+  }, [props.businessName]);
+
+  const handleGenerate = async () => {
+    if (!offer.trim()) {
+      toast.error('Describe your offer first');
+      return;
+    }
+
+    const brief = { businessName: businessName.trim(), offer: offer.trim(), tone };
+    setIsGenerating(true);
+    try {
+      if (kind === 'ad') {
+        setAdVariants(await generateAdCopy(brief));
+      } else {
+        setSmsVariants(await generateSmsCopy(brief, maxSegments));
+      }
+    } catch (error) {
+      console.error('Error generating copy:', error);
+      toast.error(getErrorMessage(error, 'Failed to generate copy'));
+    } finally {
+      setIsGenerating(false);
+      // Each request counts towards the monthly AI limit
+      refreshEntitlements();
+    }
+  };
+
+  const handleSelectAd = (copy: AdCopy) => {
+    if (props.kind === 'ad') props.onSelect(copy);
+    onClose();
+  };
+
+  const handleSelectSms = (copy: SmsCopy) => {
+    if (props.kind === 'sms') props.onSelect(copy);
+    onClose();
+  };
+
+  const variants = kind === 'ad' ? adVariants : smsVariants;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={kind === 'ad' ? 'Write Headlines' : 'Write an SMS'}
+      size="lg"
+    >
+      <div className="space-y-4">
+        <Input
+          label="Business Name"
+          id="copy-business-name"
+          value={businessName}
+          onChange={(e) => setBusinessName(e.target.value)}
+          placeholder="Corner Bakery"
+        />
+
+        <div className="space-y-2">
+          <label htmlFor="copy-offer" className="block text-sm font-medium text-gray-700">Offer</label>
+          <textarea
+            id="copy-offer"
+            className="input min-h-[80px]"
+            value={offer}
+            onChange={(e) => setOffer(e.target.value)}
+            maxLength={500}
+            placeholder="20% off all pastries this weekend"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label htmlFor="copy-tone" className="block text-sm font-medium text-gray-700">Tone</label>
+            <select
+              id="copy-tone"
+              className="input capitalize"
+              value={tone}
+              onChange={(e) => setTone(e.target.value as CopyTone)}
+            >
+              {COPY_TONES.map((option) => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+          </div>
+
+          {kind === 'sms' && (
+            <div className="space-y-2">
+              <label htmlFor="copy-budget" className="block text-sm font-medium text-gray-700">Length</label>
+              <select
+                id="copy-budget"
+                className="input"
+                value={maxSegments}
+                onChange={(e) => setMaxSegments(Number(e.target.value))}
+              >
+                {SEGMENT_BUDGETS.map((budget) => (
+                  <option key={budget.segments} value={budget.segments}>{budget.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-gray-500">Each request uses one of your monthly AI requests.</p>
+          <Button
+            onClick={handleGenerate}
+            isLoading={isGenerating}
+            leftIcon={<Sparkles size={16} />}
+          >
+            {variants.length > 0 ? 'Try Again' : 'Generate'}
+          </Button>
+        </div>
+
+        {kind === 'ad' && adVariants.length > 0 && (
+          <ul className="space-y-2 border-t border-gray-200 pt-4">
+            {adVariants.map((copy) => (
+              <li key={copy.headline} className="flex items-start justify-between gap-4 rounded-md border border-gray-200 p-3">
+                <div>
+                  <p className="font-semibold">{copy.headline}</p>
+                  {copy.subheadline && <p className="text-sm text-gray-600">{copy.subheadline}</p>}
+                </div>
+                <Button size="sm" variant="outline" onClick={() => handleSelectAd(copy)}>
+                  Use
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {kind === 'sms' && smsVariants.length > 0 && (
+          <ul className="space-y-2 border-t border-gray-200 pt-4">
+            {smsVariants.map((copy) => (
+              <li key={copy.text} className="flex items-start justify-between gap-4 rounded-md border border-gray-200 p-3">
+                <div>
+                  <p className="text-sm whitespace-pre-line">{copy.text}</p>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {copy.units} {copy.encoding} characters, {copy.segments} {copy.segments === 1 ? 'segment' : 'segments'}
+                  </p>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => handleSelectSms(copy)}>
+                  Use
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default CopyAssistantModal;
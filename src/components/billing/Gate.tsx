@@ -0,0 +1,91 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Lock } from 'lucide-react';
+import { FeatureFlag } from '../../lib/entitlements';
+import { useEntitlements } from '../../store/entitlementsStore';
+import Card, { CardContent } from '../ui/Card';
+import Button from '../ui/Button';
+
+const LOCKED_COPY: Record<FeatureFlag, { title: string; description: string }> = {
+  sms: {
+    title: 'SMS Feature Locked',
+    description: 'SMS messaging is only available with our Pro plan. Upgrade now to send campaigns to your contacts.',
+  },
+  custom_branding: {
+    title: 'Custom Branding Locked',
+    description: 'Your own logo and colors are only available with our Pro plan.',
+  },
+  premium_templates: {
+    title: 'Premium Templates Locked',
+    description: 'The full template library is only available with our Pro plan.',
+  },
+};
+
+interface UpgradeCardProps {
+  title: string;
+  description: string;
+}
+
+/**
+ * Locked feature notice with a way to upgrade
+ */
+export const UpgradeCard: React.FC<UpgradeCardProps> = ({ title, description }) => {
+  const navigate = useNavigate();
+
+  return (
+    <div className="min-h-[400px] flex items-center justify-center">
+      <Card className="max-w-md w-full text-center p-8">
+        <CardContent className="space-y-4">
+          <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto">
+            <Lock className="w-8 h-8 text-gray-400" />
+          </div>
+          <h2 className="text-2xl font-bold">{title}</h2>
+          <p className="text-gray-600">{description}</p>
+          <Button
+            variant="primary"
+            className="mt-4"
+            onClick={() => navigate('/')}
+          >
+            Upgrade to Pro
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+interface GateProps {
+  feature: FeatureFlag;
+  title?: string;
+  description?: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Shows its children only when the user's plan includes the feature,
+ * otherwise the upgrade card
+ */
+const Gate: React.FC<GateProps> = ({ feature, title, description, children }) => {
+  const { isLoading, hasFeature } = useEntitlements();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-[400px] flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!hasFeature(feature)) {
+    return (
+      <UpgradeCard
+        title={title ?? LOCKED_COPY[feature].title}
+        description={description ?? LOCKED_COPY[feature].description}
+      />
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default Gate;
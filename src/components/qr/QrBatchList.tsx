@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Download, Layers, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase } from '../../lib/supabase';
+import { getErrorMessage } from '../../lib/errors';
+import { getQrCodeShortUrl } from '../../lib/qrCodes';
+import { QR_EXPORT_FORMATS, QrExportFormat, downloadBlob, getQrExportFileName } from '../../lib/qrExport';
+import { BatchQrCode, QrCodeBatch, buildBatchZip, getBatchQrCodes } from '../../lib/qrBatches';
+import Card, { CardContent } from '../ui/Card';
+import Button from '../ui/Button';
+
+export interface QrBatchSummary extends QrCodeBatch {
+  code_count: number;
+}
+
+interface QrBatchListProps {
+  batches: QrBatchSummary[];
+  adSpaceTitle: (id: string | null) => string;
+  onDeleted: (batchId: string) => void;
+}
+
+const QrBatchList = ({ batches, adSpaceTitle, onDeleted }: QrBatchListProps) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [codes, setCodes] = useState<Record<string, BatchQrCode[]>>({});
+  const [format, setFormat] = useState<QrExportFormat>('png');
+  const [exporting, setExporting] = useState<{ batchId: string; done: number; total: number } | null>(null);
+
+  const loadCodes = async (batchId: string) => {
+    if (codes[batchId]) return codes[batchId];
+    const batchCodes = await getBatchQrCodes(batchId);
+    setCodes((prev) => ({ ...prev, [batchId]: batchCodes }));
+    return batchCodes;
+  };
+
+  const handleToggle = async (batchId: string) => {
+    if (expandedId === batchId) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(batchId);
+    try {
+      await loadCodes(batchId);
+    } catch (error) {
+      console.error('Error fetching batch codes:', error);
+      toast.error('Failed to load QR codes');
+    }
+  };
+
+  const handleDownload = async (batch: QrBatchSummary) => {
+    try {
+      const batchCodes = await loadCodes(batch.id);
+      setExporting({ batchId: batch.id, done: 0, total: batchCodes.length });
+
+      const zip = await buildBatchZip(batch, batchCodes, format, (done) =>
+        setExporting({ batchId: batch.id, done, total: batchCodes.length })
+      );
+      downloadBlob(zip, getQrExportFileName(batch.name, 'zip'));
+    } catch (error) {
+      console.error('Error exporting batch:', error);
+      toast.error(getErrorMessage(error, 'Failed to export QR codes'));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleDelete = async (batch: QrBatchSummary) => {
+    if (!window.confirm(`Delete "${batch.name}" and its ${batch.code_count} QR codes? Printed copies will stop working.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('qr_code_batches')
+        .delete()
+        .eq('id', batch.id);
+
+      if (error) throw error;
+
+      onDeleted(batch.id);
+      toast.success('Batch deleted');
+    } catch (error) {
+      console.error('Error deleting batch:', error);
+      toast.error('Failed to delete batch');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-end space-x-2 text-sm">
+        <label htmlFor="qr-batch-format" className="text-gray-600">Download as</label>
+        <select
+          id="qr-batch-format"
+          className="input w-auto"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as QrExportFormat)}
+        >
+          {QR_EXPORT_FORMATS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {batches.map((batch) => {
+        const isExpanded = expandedId === batch.id;
+        const isExporting = exporting?.batchId === batch.id;
+
+        return (
+          <Card key={batch.id} className="p-6">
+            <CardContent>
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                <button
+                  type="button"
+                  className="flex items-center text-left"
+                  onClick={() => handleToggle(batch.id)}
+                >
+                  {isExpanded ? <ChevronDown size={18} className="mr-2" /> : <ChevronRight size={18} className="mr-2" />}
+                  <Layers size={18} className="mr-2 text-gray-500" />
+                  <span>
+                    <span className="font-semibold">{batch.name}</span>
+                    <span className="block text-sm text-gray-600">
+                      {batch.code_count.toLocaleString()} codes opening {adSpaceTitle(batch.ad_space_id)}
+                      {' '}| {batch.tracking_prefix}-... | Created {new Date(batch.created_at).toLocaleDateString()}
+                    </span>
+                  </span>
+                </button>
+
+                <div className="flex space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleDownload(batch)}
+                    disabled={exporting !== null}
+                    isLoading={isExporting}
+                    leftIcon={<Download size={14} />}
+                  >
+                    {isExporting && exporting ? `${exporting.done} / ${exporting.total}` : 'Download ZIP'}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-error-500 hover:bg-error-50"
+                    onClick={() => handleDelete(batch)}
+                    leftIcon={<Trash2 size={14} />}
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </div>
+
+              {isExpanded && (
+                <div className="mt-4 overflow-x-auto max-h-96 overflow-y-auto">
+                  {!codes[batch.id] ? (
+                    <p className="text-sm text-gray-500 py-4 text-center">Loading...</p>
+                  ) : (
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500 border-b border-gray-200">
+                          <th className="py-2 pr-4 font-medium">Tracking ID</th>
+                          <th className="py-2 pr-4 font-medium">Label</th>
+                          <th className="py-2 pr-4 font-medium">Short URL</th>
+                          <th className="py-2 font-medium text-right">Scans</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {codes[batch.id].map((code) => (
+                          <tr key={code.id} className="border-b border-gray-100 last:border-0">
+                            <td className="py-2 pr-4 font-mono text-xs">{code.tracking_id}</td>
+                            <td className="py-2 pr-4">{code.name}</td>
+                            <td className="py-2 pr-4 text-gray-500 break-all">{getQrCodeShortUrl(code.short_code)}</td>
+                            <td className="py-2 text-right">{(code.scans || 0).toLocaleString()}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export default QrBatchList;
@@ -0,0 +1,281 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { twMerge } from 'tailwind-merge';
+import { FileSpreadsheet, Upload } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getErrorMessage } from '../../lib/errors';
+import { readSpreadsheet, SpreadsheetData } from '../../lib/spreadsheet';
+import { QrDesign, isBrandedQrDesign } from '../../lib/qrDesign';
+import {
+  MAX_BATCH_SIZE,
+  QrCodeBatch,
+  createQrCodeBatch,
+  detectLabelColumn,
+  parseLabelList,
+} from '../../lib/qrBatches';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+
+interface QrBatchModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  adSpaces: { id: string; title: string }[];
+  // The design in the editor, offered for the batch when it is branded
+  design: QrDesign;
+  // How many more codes the plan allows, null for no limit
+  remainingCodes: number | null;
+  onCreated: (batch: QrCodeBatch) => void;
+}
+
+type LabelSource = 'list' | 'file';
+
+const PREVIEW_ROWS = 5;
+
+const QrBatchModal = ({ isOpen, onClose, adSpaces, design, remainingCodes, onCreated }: QrBatchModalProps) => {
+  const [name, setName] = useState('');
+  const [adSpaceId, setAdSpaceId] = useState('');
+  const [trackingPrefix, setTrackingPrefix] = useState('');
+  const [source, setSource] = useState<LabelSource>('list');
+  const [labelText, setLabelText] = useState('');
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [labelColumn, setLabelColumn] = useState(0);
+  const [useDesign, setUseDesign] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const labels = useMemo(() => {
+    if (source === 'list') return parseLabelList(labelText);
+    return (sheet?.rows || []).map((row) => row[labelColumn]?.trim() || '').filter(Boolean);
+  }, [source, labelText, sheet, labelColumn]);
+
+  // Same rule as the database, shown so the IDs can be checked before printing
+  const previewPrefix = (trackingPrefix.trim() || name).toUpperCase().replace(/[^A-Z0-9]+/g, '').slice(0, 12) || 'QR';
+  const digits = Math.max(3, String(labels.length).length);
+  const canUseDesign = isBrandedQrDesign(design);
+
+  const onDrop = useCallback(async (files: File[]) => {
+    const file = files[0];
+    if (!file) return;
+
+    try {
+      const data = await readSpreadsheet(file);
+      setSheet(data);
+      setFileName(file.name);
+      setLabelColumn(detectLabelColumn(data.headers));
+    } catch (error) {
+      console.error('Error reading labels file:', error);
+      toast.error(getErrorMessage(error, 'Could not read this file'));
+    }
+  }, []);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    multiple: false,
+    accept: {
+      'text/csv': ['.csv'],
+      'text/tab-separated-values': ['.tsv'],
+      'text/plain': ['.txt'],
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+    },
+  });
+
+  const handleClose = () => {
+    setName('');
+    setAdSpaceId('');
+    setTrackingPrefix('');
+    setLabelText('');
+    setSheet(null);
+    setFileName('');
+    onClose();
+  };
+
+  const validate = () => {
+    if (!name.trim()) return 'Enter a name for the batch';
+    if (!adSpaceId) return 'Choose the ad space the codes open';
+    if (labels.length === 0) return 'Add at least one label';
+    if (labels.length > MAX_BATCH_SIZE) return `A batch can have at most ${MAX_BATCH_SIZE} codes`;
+    if (remainingCodes !== null && labels.length > remainingCodes) {
+      return `Your plan allows ${remainingCodes} more QR code${remainingCodes === 1 ? '' : 's'}. Upgrade to Pro for bulk codes.`;
+    }
+    return null;
+  };
+
+  const handleCreate = async () => {
+    const validationError = validate();
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const batch = await createQrCodeBatch({
+        name: name.trim(),
+        adSpaceId,
+        labels,
+        trackingPrefix: trackingPrefix.trim(),
+        design: canUseDesign && useDesign ? design : {},
+      });
+      toast.success(`Created ${labels.length} QR codes`);
+      onCreated(batch);
+      handleClose();
+    } catch (error) {
+      console.error('Error creating QR code batch:', error);
+      toast.error(getErrorMessage(error, 'Failed to create QR codes'));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Bulk QR Codes" size="lg">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          One code per flyer, table tent or location. Every code opens the same ad, and scans are tracked per code
+          with a tracking ID you can print next to it.
+        </p>
+
+        <div className="grid md:grid-cols-2 gap-4">
+          <Input
+            label="Batch Name"
+            type="text"
+            placeholder="Spring flyers"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Input
+            label="Tracking ID Prefix"
+            type="text"
+            placeholder={previewPrefix}
+            maxLength={12}
+            value={trackingPrefix}
+            onChange={(e) => setTrackingPrefix(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="qr-batch-ad-space" className="block text-sm font-medium text-gray-700">Opens</label>
+          <select
+            id="qr-batch-ad-space"
+            className="input"
+            value={adSpaceId}
+            onChange={(e) => setAdSpaceId(e.target.value)}
+          >
+            <option value="">Choose an ad space</option>
+            {adSpaces.map((space) => (
+              <option key={space.id} value={space.id}>{space.title}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="block text-sm font-medium text-gray-700">Labels</label>
+            <div className="flex space-x-2">
+              <Button
+                type="button"
+                size="sm"
+                variant={source === 'list' ? 'primary' : 'outline'}
+                onClick={() => setSource('list')}
+              >
+                Type or paste
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant={source === 'file' ? 'primary' : 'outline'}
+                onClick={() => setSource('file')}
+                leftIcon={<FileSpreadsheet size={14} />}
+              >
+                CSV / Excel
+              </Button>
+            </div>
+          </div>
+
+          {source === 'list' ? (
+            <textarea
+              className="input min-h-[8rem] font-mono text-sm"
+              placeholder={'Main Street window\nTable 1\nTable 2'}
+              value={labelText}
+              onChange={(e) => setLabelText(e.target.value)}
+            />
+          ) : (
+            <div className="space-y-3">
+              <div
+                {...getRootProps()}
+                className={twMerge(
+                  'border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors',
+                  isDragActive ? 'border-primary-500 bg-primary-50' : 'border-gray-300 hover:border-gray-400'
+                )}
+              >
+                <input {...getInputProps()} />
+                <Upload className="w-8 h-8 text-gray-400 mx-auto mb-2" />
+                <p className="text-sm text-gray-600">
+                  {fileName || 'Drop a CSV or Excel file with a header row and one label per row, or click to choose'}
+                </p>
+              </div>
+              {sheet && (
+                <div className="space-y-2">
+                  <label htmlFor="qr-batch-column" className="block text-sm font-medium text-gray-700">Label column</label>
+                  <select
+                    id="qr-batch-column"
+                    className="input"
+                    value={labelColumn}
+                    onChange={(e) => setLabelColumn(Number(e.target.value))}
+                  >
+                    {sheet.headers.map((header, index) => (
+                      <option key={index} value={index}>{header}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {labels.length > 0 && (
+          <div className="rounded-lg bg-gray-50 p-3 text-sm">
+            <p className="font-medium mb-2">{labels.length.toLocaleString()} codes</p>
+            <ul className="space-y-1 text-gray-600">
+              {labels.slice(0, PREVIEW_ROWS).map((label, index) => (
+                <li key={index}>
+                  <span className="font-mono text-xs mr-2">
+                    {previewPrefix}-{String(index + 1).padStart(digits, '0')}
+                  </span>
+                  {label}
+                </li>
+              ))}
+              {labels.length > PREVIEW_ROWS && (
+                <li className="text-gray-400">and {labels.length - PREVIEW_ROWS} more</li>
+              )}
+            </ul>
+          </div>
+        )}
+
+        {canUseDesign && (
+          <label className="flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              className="mr-3"
+              checked={useDesign}
+              onChange={(e) => setUseDesign(e.target.checked)}
+            />
+            <span className="text-sm text-gray-700">Use the design from the editor</span>
+          </label>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleCreate} disabled={isCreating} isLoading={isCreating}>
+            Create {labels.length > 0 ? labels.length.toLocaleString() : ''} QR Codes
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default QrBatchModal;
@@ -0,0 +1,195 @@
+import { useRef, useState } from 'react';
+import { Upload, AlertTriangle, Lock } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getErrorMessage } from '../../lib/errors';
+import { uploadLogo, validateLogoFile } from '../../lib/brand';
+import { DEFAULT_QR_CAPTION, QrDesign, QrModuleStyle, getQrDesignWarnings } from '../../lib/qrDesign';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import ColorSwatches from '../ui/ColorSwatches';
+
+interface QrDesignEditorProps {
+  design: QrDesign;
+  onChange: (design: QrDesign) => void;
+  userId: string;
+  // The business logo from the profile
+  logoUrl: string | null;
+  onLogoUploaded: (url: string) => void;
+  // Brand colors from Settings, offered next to the color pickers
+  brandColors?: string[];
+  isLocked: boolean;
+  onUpgrade: () => void;
+}
+
+const MODULE_STYLES: { value: QrModuleStyle; label: string }[] = [
+  { value: 'square', label: 'Square' },
+  { value: 'rounded', label: 'Rounded' },
+  { value: 'dots', label: 'Dots' },
+];
+
+const QrDesignEditor = ({
+  design,
+  onChange,
+  userId,
+  logoUrl,
+  onLogoUploaded,
+  brandColors = [],
+  isLocked,
+  onUpgrade,
+}: QrDesignEditorProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+
+  if (isLocked) {
+    return (
+      <div className="rounded-lg border border-gray-200 p-4 flex items-start space-x-3">
+        <Lock className="w-5 h-5 text-gray-400 shrink-0 mt-0.5" />
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            Custom branding is a Pro feature: your colors and logo, rounded or dot styles and a &quot;Scan me&quot; frame.
+          </p>
+          <Button size="sm" variant="outline" onClick={onUpgrade}>Upgrade to Pro</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const update = (changes: Partial<QrDesign>) => onChange({ ...design, ...changes });
+
+  const handleLogoSelected = async (file: File | undefined) => {
+    if (!file) return;
+    const invalid = validateLogoFile(file);
+    if (invalid) {
+      toast.error(invalid);
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const publicUrl = await uploadLogo(userId, file);
+      onLogoUploaded(publicUrl);
+      update({ logoUrl: publicUrl });
+      toast.success('Logo uploaded');
+    } catch (error) {
+      console.error('Error uploading logo:', error);
+      toast.error(getErrorMessage(error, 'Failed to upload logo'));
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const warnings = getQrDesignWarnings(design);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label htmlFor="qr-fg-color" className="block text-sm font-medium text-gray-700">Code color</label>
+          <input
+            id="qr-fg-color"
+            type="color"
+            className="h-10 w-full rounded border border-gray-300 cursor-pointer"
+            value={design.fgColor}
+            onChange={(e) => update({ fgColor: e.target.value.toUpperCase() })}
+          />
+          <ColorSwatches colors={brandColors} value={design.fgColor} onSelect={(fgColor) => update({ fgColor })} />
+        </div>
+        <div className="space-y-2">
+          <label htmlFor="qr-bg-color" className="block text-sm font-medium text-gray-700">Background</label>
+          <input
+            id="qr-bg-color"
+            type="color"
+            className="h-10 w-full rounded border border-gray-300 cursor-pointer"
+            value={design.bgColor}
+            onChange={(e) => update({ bgColor: e.target.value.toUpperCase() })}
+          />
+          <ColorSwatches colors={brandColors} value={design.bgColor} onSelect={(bgColor) => update({ bgColor })} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">Style</label>
+        <div className="flex space-x-2">
+          {MODULE_STYLES.map((style) => (
+            <Button
+              key={style.value}
+              type="button"
+              size="sm"
+              variant={design.moduleStyle === style.value ? 'primary' : 'outline'}
+              onClick={() => update({ moduleStyle: style.value })}
+            >
+              {style.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center cursor-pointer">
+          <input
+            type="checkbox"
+            className="mr-3"
+            checked={design.logoUrl !== null}
+            disabled={!logoUrl}
+            onChange={(e) => update({ logoUrl: e.target.checked ? logoUrl : null })}
+          />
+          <span className="text-sm font-medium text-gray-700">Show my logo in the center</span>
+        </label>
+        <div className="flex items-center space-x-3">
+          {logoUrl && (
+            <img src={logoUrl} alt="Business logo" className="w-10 h-10 object-contain rounded border border-gray-200" />
+          )}
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            isLoading={isUploading}
+            disabled={isUploading}
+            onClick={() => fileInputRef.current?.click()}
+            leftIcon={<Upload size={14} />}
+          >
+            {logoUrl ? 'Replace logo' : 'Upload logo'}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/png,image/jpeg,image/svg+xml,image/webp"
+            className="hidden"
+            onChange={(e) => handleLogoSelected(e.target.files?.[0])}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center cursor-pointer">
+          <input
+            type="checkbox"
+            className="mr-3"
+            checked={design.caption !== null}
+            onChange={(e) => update({ caption: e.target.checked ? DEFAULT_QR_CAPTION : null })}
+          />
+          <span className="text-sm font-medium text-gray-700">Add a caption frame</span>
+        </label>
+        {design.caption !== null && (
+          <Input
+            type="text"
+            maxLength={40}
+            value={design.caption}
+            onChange={(e) => update({ caption: e.target.value })}
+            placeholder={DEFAULT_QR_CAPTION}
+          />
+        )}
+      </div>
+
+      {warnings.map((warning) => (
+        <p key={warning} className="text-sm text-warning-700 flex items-start">
+          <AlertTriangle size={14} className="mr-2 mt-0.5 shrink-0" />
+          {warning}
+        </p>
+      ))}
+    </div>
+  );
+};
+
+export default QrDesignEditor;
@@ -0,0 +1,214 @@
+import { useMemo, useState } from 'react';
+import { twMerge } from 'tailwind-merge';
+import { Download, AlertTriangle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getErrorMessage } from '../../lib/errors';
+import { QrDesign, QrErrorLevel, buildQrScene } from '../../lib/qrDesign';
+import {
+  DEFAULT_QR_EXPORT_OPTIONS,
+  QR_EXPORT_FORMATS,
+  QrExportOptions,
+  QrExportUnit,
+  downloadBlob,
+  exportQrCode,
+  getQrExportFileName,
+  getQrPngSize,
+  validateQrExportOptions,
+} from '../../lib/qrExport';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+
+interface QrExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  value: string;
+  design: QrDesign;
+  level: QrErrorLevel;
+  // QR code or ad name, used for the file name
+  name: string;
+  onExported?: () => void;
+}
+
+const DPI_OPTIONS = [150, 300, 600];
+
+// Scanners need a quiet zone of 4 modules, smaller is only safe with a plain border around the print
+const RECOMMENDED_QUIET_ZONE = 4;
+
+const QrExportModal = ({ isOpen, onClose, value, design, level, name, onExported }: QrExportModalProps) => {
+  const [options, setOptions] = useState<QrExportOptions>(DEFAULT_QR_EXPORT_OPTIONS);
+  const [quietZone, setQuietZone] = useState(RECOMMENDED_QUIET_ZONE);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const scene = useMemo(
+    () => buildQrScene(value, design, { level, margin: quietZone }),
+    [value, design, level, quietZone]
+  );
+  const validationError = validateQrExportOptions(scene, options);
+  const fileName = getQrExportFileName(name, options.format);
+  const hasBleed = options.format === 'pdf' || options.format === 'eps';
+
+  const update = (changes: Partial<QrExportOptions>) => setOptions((prev) => ({ ...prev, ...changes }));
+
+  const handleUnitChange = (unit: QrExportUnit) => {
+    if (unit === options.unit) return;
+    // Keep the physical size when switching units
+    const factor = unit === 'in' ? 1 / 25.4 : 25.4;
+    const round = (n: number) => Math.round(n * factor * 100) / 100;
+    update({ unit, width: round(options.width), bleed: round(options.bleed) });
+  };
+
+  const describeSize = () => {
+    const height = options.width * scene.height / scene.width;
+    const physical = `${options.width} x ${Math.round(height * 100) / 100} ${options.unit}`;
+
+    if (options.format === 'png') {
+      const pixels = getQrPngSize(scene, options);
+      return `${physical}, ${pixels.width} x ${pixels.height} pixels at ${options.dpi} DPI`;
+    }
+    if (options.bleed > 0 && hasBleed) {
+      return `${physical} trim, plus ${options.bleed} ${options.unit} bleed on each side`;
+    }
+    return physical;
+  };
+
+  const handleExport = async () => {
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const blob = await exportQrCode(scene, options);
+      downloadBlob(blob, fileName);
+      onExported?.();
+      onClose();
+    } catch (error) {
+      console.error('Failed to export QR code:', error);
+      toast.error(getErrorMessage(error, 'Failed to export QR code'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Download QR Code">
+      <div className="space-y-5">
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">Format</label>
+          <div className="grid grid-cols-2 gap-2">
+            {QR_EXPORT_FORMATS.map((format) => (
+              <button
+                key={format.value}
+                type="button"
+                onClick={() => update({ format: format.value })}
+                className={twMerge(
+                  'rounded-lg border p-3 text-left transition-colors',
+                  options.format === format.value
+                    ? 'border-primary-500 bg-primary-50'
+                    : 'border-gray-200 hover:border-gray-300'
+                )}
+              >
+                <span className="block font-medium">{format.label}</span>
+                <span className="block text-xs text-gray-500">{format.description}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label="Width"
+            type="number"
+            min={0}
+            step={options.unit === 'mm' ? 1 : 0.1}
+            value={options.width}
+            onChange={(e) => update({ width: Number(e.target.value) })}
+          />
+          <div className="space-y-2">
+            <label htmlFor="qr-export-unit" className="block text-sm font-medium text-gray-700">Unit</label>
+            <select
+              id="qr-export-unit"
+              className="input"
+              value={options.unit}
+              onChange={(e) => handleUnitChange(e.target.value as QrExportUnit)}
+            >
+              <option value="mm">Millimeters</option>
+              <option value="in">Inches</option>
+            </select>
+          </div>
+        </div>
+
+        {options.format === 'png' && (
+          <div className="space-y-2">
+            <label htmlFor="qr-export-dpi" className="block text-sm font-medium text-gray-700">Resolution</label>
+            <select
+              id="qr-export-dpi"
+              className="input"
+              value={options.dpi}
+              onChange={(e) => update({ dpi: Number(e.target.value) })}
+            >
+              {DPI_OPTIONS.map((dpi) => (
+                <option key={dpi} value={dpi}>{dpi} DPI{dpi === 300 ? ' (print)' : ''}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        <div className={twMerge('grid gap-4', hasBleed ? 'grid-cols-2' : 'grid-cols-1')}>
+          <Input
+            label="Quiet zone (modules)"
+            type="number"
+            min={0}
+            max={10}
+            value={quietZone}
+            onChange={(e) => setQuietZone(Math.min(10, Math.max(0, Math.round(Number(e.target.value)))))}
+          />
+          {hasBleed && (
+            <Input
+              label={`Bleed (${options.unit})`}
+              type="number"
+              min={0}
+              step={options.unit === 'mm' ? 0.5 : 0.0625}
+              value={options.bleed}
+              onChange={(e) => update({ bleed: Number(e.target.value) })}
+            />
+          )}
+        </div>
+
+        {quietZone < RECOMMENDED_QUIET_ZONE && (
+          <p className="text-sm text-warning-700 flex items-start">
+            <AlertTriangle size={14} className="mr-2 mt-0.5 shrink-0" />
+            Scanners expect at least {RECOMMENDED_QUIET_ZONE} modules of empty space around the code.
+          </p>
+        )}
+
+        <div className="rounded-lg bg-gray-50 p-3 text-sm text-gray-600 space-y-1">
+          <p>{describeSize()}</p>
+          <p className="font-mono text-xs break-all">{fileName}</p>
+        </div>
+
+        {validationError && (
+          <p className="text-sm text-error-600">{validationError}</p>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={isExporting || validationError !== null}
+            isLoading={isExporting}
+            leftIcon={<Download size={16} />}
+          >
+            Download
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default QrExportModal;
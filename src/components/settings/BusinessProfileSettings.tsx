@@ -0,0 +1,198 @@
+import { useEffect, useRef, useState } from 'react';
+import { Save, Upload, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getErrorMessage } from '../../lib/errors';
+import { BrandProfile, getBrandProfile, updateBrandProfile, uploadLogo, validateLogoFile } from '../../lib/brand';
+import Card, { CardHeader, CardTitle, CardDescription, CardContent } from '../ui/Card';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+
+interface BusinessProfileSettingsProps {
+  userId: string;
+}
+
+const BRAND_COLOR_FIELDS: { key: 'brand_primary_color' | 'brand_secondary_color'; label: string; fallback: string }[] = [
+  { key: 'brand_primary_color', label: 'Primary color', fallback: '#2563EB' },
+  { key: 'brand_secondary_color', label: 'Secondary color', fallback: '#F59E0B' },
+];
+
+const BusinessProfileSettings = ({ userId }: BusinessProfileSettingsProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [profile, setProfile] = useState<BrandProfile | null>(null);
+  const [businessName, setBusinessName] = useState('');
+  const [colors, setColors] = useState<Record<string, string | null>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+
+  useEffect(() => {
+    getBrandProfile(userId)
+      .then((brand) => {
+        setProfile(brand);
+        setBusinessName(brand?.business_name || '');
+        setColors({
+          brand_primary_color: brand?.brand_primary_color ?? null,
+          brand_secondary_color: brand?.brand_secondary_color ?? null,
+        });
+      })
+      .catch((error) => {
+        console.error('Error fetching profile:', error);
+        toast.error('Failed to load your business profile');
+      });
+  }, [userId]);
+
+  const handleSave = async () => {
+    if (!businessName.trim()) {
+      toast.error('Business name is required');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const changes = {
+        business_name: businessName.trim(),
+        brand_primary_color: colors.brand_primary_color ?? null,
+        brand_secondary_color: colors.brand_secondary_color ?? null,
+      };
+      await updateBrandProfile(userId, changes);
+      setProfile((prev) => (prev ? { ...prev, ...changes } : prev));
+      toast.success('Business profile saved');
+    } catch (error) {
+      console.error('Error saving profile:', error);
+      toast.error(getErrorMessage(error, 'Failed to save business profile'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleLogoSelected = async (file: File | undefined) => {
+    if (!file) return;
+    const invalid = validateLogoFile(file);
+    if (invalid) {
+      toast.error(invalid);
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const logoUrl = await uploadLogo(userId, file);
+      setProfile((prev) => (prev ? { ...prev, logo_url: logoUrl } : prev));
+      toast.success('Logo uploaded');
+    } catch (error) {
+      console.error('Error uploading logo:', error);
+      toast.error(getErrorMessage(error, 'Failed to upload logo'));
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleRemoveLogo = async () => {
+    try {
+      await updateBrandProfile(userId, { logo_url: null });
+      setProfile((prev) => (prev ? { ...prev, logo_url: null } : prev));
+      toast.success('Logo removed');
+    } catch (error) {
+      console.error('Error removing logo:', error);
+      toast.error(getErrorMessage(error, 'Failed to remove logo'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Business Profile</CardTitle>
+        <CardDescription>
+          Your logo and colors are offered when designing ads and QR codes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Input
+          label="Business Name"
+          type="text"
+          value={businessName}
+          maxLength={100}
+          onChange={(e) => setBusinessName(e.target.value)}
+        />
+
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">Logo</label>
+          <div className="flex items-center space-x-3">
+            {profile?.logo_url ? (
+              <img
+                src={profile.logo_url}
+                alt="Business logo"
+                className="w-16 h-16 object-contain rounded border border-gray-200"
+              />
+            ) : (
+              <div className="w-16 h-16 rounded border border-dashed border-gray-300 bg-gray-50" />
+            )}
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              isLoading={isUploading}
+              disabled={isUploading}
+              onClick={() => fileInputRef.current?.click()}
+              leftIcon={<Upload size={14} />}
+            >
+              {profile?.logo_url ? 'Replace logo' : 'Upload logo'}
+            </Button>
+            {profile?.logo_url && (
+              <Button type="button" size="sm" variant="ghost" onClick={handleRemoveLogo} leftIcon={<X size={14} />}>
+                Remove
+              </Button>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/png,image/jpeg,image/svg+xml,image/webp"
+              className="hidden"
+              onChange={(e) => handleLogoSelected(e.target.files?.[0])}
+            />
+          </div>
+          <p className="text-xs text-gray-500">PNG, JPG, SVG or WebP, up to 2MB.</p>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {BRAND_COLOR_FIELDS.map((field) => {
+            const value = colors[field.key];
+            return (
+              <div key={field.key} className="space-y-2">
+                <label htmlFor={field.key} className="block text-sm font-medium text-gray-700">
+                  {field.label}
+                </label>
+                <div className="flex items-center space-x-3">
+                  <input
+                    id={field.key}
+                    type="color"
+                    value={value ?? field.fallback}
+                    onChange={(e) => setColors((prev) => ({ ...prev, [field.key]: e.target.value.toUpperCase() }))}
+                    className="h-10 w-16 rounded border border-gray-300 cursor-pointer"
+                  />
+                  <span className="text-sm text-gray-600">{value ?? 'Not set'}</span>
+                  {value && (
+                    <button
+                      type="button"
+                      className="text-sm text-gray-500 hover:text-gray-700"
+                      onClick={() => setColors((prev) => ({ ...prev, [field.key]: null }))}
+                    >
+                      Clear
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={handleSave} isLoading={isSaving} leftIcon={<Save size={16} />}>
+            Save Profile
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BusinessProfileSettings;
@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getErrorMessage } from '../../lib/errors';
+import { deleteAccount } from '../../lib/account';
+import Card, { CardHeader, CardTitle, CardDescription, CardContent } from '../ui/Card';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import Modal from '../ui/Modal';
+
+const CONFIRMATION = 'DELETE';
+
+const DeleteAccountSettings = () => {
+  const navigate = useNavigate();
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const [confirmation, setConfirmation] = useState('');
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  const closeConfirm = () => {
+    setIsConfirmOpen(false);
+    setConfirmation('');
+  };
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    try {
+      await deleteAccount();
+      toast.success('Your account has been deleted');
+      navigate('/login', { replace: true });
+    } catch (error) {
+      console.error('Error deleting account:', error);
+      toast.error(getErrorMessage(error, 'Failed to delete account'));
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <Card className="border border-error-200">
+      <CardHeader>
+        <CardTitle className="text-error-700">Delete Account</CardTitle>
+        <CardDescription>
+          Permanently deletes your ads, QR codes, contacts, campaigns and uploaded files. A Pro subscription is
+          cancelled right away. This cannot be undone.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex justify-end">
+        <Button variant="danger" onClick={() => setIsConfirmOpen(true)} leftIcon={<Trash2 size={16} />}>
+          Delete Account
+        </Button>
+      </CardContent>
+
+      <Modal isOpen={isConfirmOpen} onClose={closeConfirm} title="Delete your account?" size="sm">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Printed QR codes will stop working and SMS campaigns will not be sent. Type {CONFIRMATION} to confirm.
+          </p>
+          <Input
+            id="delete-account-confirmation"
+            type="text"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            autoComplete="off"
+          />
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={closeConfirm} disabled={isDeleting}>
+              Keep Account
+            </Button>
+            <Button
+              variant="danger"
+              onClick={handleDelete}
+              isLoading={isDeleting}
+              disabled={confirmation !== CONFIRMATION}
+            >
+              Delete Forever
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </Card>
+  );
+};
+
+export default DeleteAccountSettings;
@@ -0,0 +1,142 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle, Phone } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getErrorMessage } from '../../lib/errors';
+import { DEFAULT_PHONE_COUNTRY, PHONE_COUNTRIES, normalizePhone } from '../../lib/phone';
+import { getVerifiedPhone, sendPhoneCode, verifyPhone } from '../../lib/account';
+import Card, { CardHeader, CardTitle, CardDescription, CardContent } from '../ui/Card';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+
+interface PhoneVerificationSettingsProps {
+  userId: string;
+}
+
+const PhoneVerificationSettings = ({ userId }: PhoneVerificationSettingsProps) => {
+  const [verifiedPhone, setVerifiedPhone] = useState<string | null>(null);
+  const [country, setCountry] = useState(DEFAULT_PHONE_COUNTRY);
+  const [phoneInput, setPhoneInput] = useState('');
+  // The normalized number a code was sent to, null until then
+  const [pendingPhone, setPendingPhone] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  useEffect(() => {
+    getVerifiedPhone(userId)
+      .then(setVerifiedPhone)
+      .catch((error) => console.error('Error fetching verified phone:', error));
+  }, [userId]);
+
+  const handleSendCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const result = normalizePhone(phoneInput, country);
+    if (result.error !== undefined) {
+      toast.error(result.error);
+      return;
+    }
+
+    setIsSending(true);
+    try {
+      await sendPhoneCode(result.phone);
+      setPendingPhone(result.phone);
+      setCode('');
+      toast.success(`Code sent to ${result.phone}`);
+    } catch (error) {
+      console.error('Error sending verification code:', error);
+      toast.error(getErrorMessage(error, 'Failed to send verification code'));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pendingPhone) return;
+
+    setIsVerifying(true);
+    try {
+      await verifyPhone(pendingPhone, code.trim());
+      setVerifiedPhone(pendingPhone);
+      setPendingPhone(null);
+      setPhoneInput('');
+      setCode('');
+      toast.success('Phone number verified');
+    } catch (error) {
+      console.error('Error verifying phone:', error);
+      toast.error(getErrorMessage(error, 'Failed to verify phone'));
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Phone Verification</CardTitle>
+        <CardDescription>We text a 6 digit code to confirm the number is yours.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {verifiedPhone && (
+          <p className="flex items-center text-sm text-success-700">
+            <CheckCircle size={16} className="mr-2" />
+            {verifiedPhone} is verified
+          </p>
+        )}
+
+        {pendingPhone ? (
+          <form onSubmit={handleVerify} className="space-y-4">
+            <Input
+              label={`Code sent to ${pendingPhone}`}
+              id="phone-verification-code"
+              type="text"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+            />
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="ghost" onClick={() => setPendingPhone(null)}>
+                Use another number
+              </Button>
+              <Button type="submit" isLoading={isVerifying} disabled={code.length !== 6}>
+                Verify
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <form onSubmit={handleSendCode} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label htmlFor="phone-country" className="block text-sm font-medium text-gray-700">Country</label>
+                <select id="phone-country" className="input" value={country} onChange={(e) => setCountry(e.target.value)}>
+                  {PHONE_COUNTRIES.map((option) => (
+                    <option key={option.code} value={option.code}>
+                      {option.name} (+{option.dialCode})
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <Input
+                label={verifiedPhone ? 'New Phone Number' : 'Phone Number'}
+                id="phone-number"
+                type="tel"
+                value={phoneInput}
+                onChange={(e) => setPhoneInput(e.target.value)}
+                leftIcon={<Phone size={16} />}
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" variant="outline" isLoading={isSending} disabled={!phoneInput.trim()}>
+                Send Code
+              </Button>
+            </div>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PhoneVerificationSettings;
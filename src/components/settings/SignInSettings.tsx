@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { KeyRound, Mail } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getErrorMessage } from '../../lib/errors';
+import { changeEmail, changePassword } from '../../lib/account';
+import Card, { CardHeader, CardTitle, CardDescription, CardContent } from '../ui/Card';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+
+interface SignInSettingsProps {
+  email: string;
+}
+
+// Same rule as registration
+const MIN_PASSWORD_LENGTH = 6;
+
+const emptyPasswordForm = { current: '', next: '', confirm: '' };
+
+const SignInSettings = ({ email }: SignInSettingsProps) => {
+  const [newEmail, setNewEmail] = useState('');
+  const [passwordForm, setPasswordForm] = useState(emptyPasswordForm);
+  const [passwordError, setPasswordError] = useState('');
+  const [isSavingEmail, setIsSavingEmail] = useState(false);
+  const [isSavingPassword, setIsSavingPassword] = useState(false);
+
+  const handleChangeEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = newEmail.trim();
+    if (!/\S+@\S+\.\S+/.test(value)) {
+      toast.error('Enter a valid email address');
+      return;
+    }
+    if (value.toLowerCase() === email.toLowerCase()) {
+      toast.error('This is already your email address');
+      return;
+    }
+
+    setIsSavingEmail(true);
+    try {
+      await changeEmail(value);
+      setNewEmail('');
+      toast.success(`Check ${value} for a link to confirm the change`);
+    } catch (error) {
+      console.error('Error changing email:', error);
+      toast.error(getErrorMessage(error, 'Failed to change email'));
+    } finally {
+      setIsSavingEmail(false);
+    }
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passwordForm.next.length < MIN_PASSWORD_LENGTH) {
+      setPasswordError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      return;
+    }
+    if (passwordForm.next !== passwordForm.confirm) {
+      setPasswordError('Passwords do not match');
+      return;
+    }
+    setPasswordError('');
+
+    setIsSavingPassword(true);
+    try {
+      await changePassword(email, passwordForm.current, passwordForm.next);
+      setPasswordForm(emptyPasswordForm);
+      toast.success('Password changed');
+    } catch (error) {
+      console.error('Error changing password:', error);
+      toast.error(getErrorMessage(error, 'Failed to change password'));
+    } finally {
+      setIsSavingPassword(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sign-in</CardTitle>
+        <CardDescription>Signed in as {email}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <form onSubmit={handleChangeEmail} className="space-y-4">
+          <Input
+            label="New Email"
+            type="email"
+            value={newEmail}
+            onChange={(e) => setNewEmail(e.target.value)}
+            leftIcon={<Mail size={16} />}
+          />
+          <div className="flex justify-end">
+            <Button type="submit" variant="outline" isLoading={isSavingEmail} disabled={!newEmail.trim()}>
+              Change Email
+            </Button>
+          </div>
+        </form>
+
+        <form onSubmit={handleChangePassword} className="space-y-4">
+          <Input
+            label="Current Password"
+            type="password"
+            autoComplete="current-password"
+            value={passwordForm.current}
+            onChange={(e) => setPasswordForm({ ...passwordForm, current: e.target.value })}
+            leftIcon={<KeyRound size={16} />}
+          />
+          <Input
+            label="New Password"
+            type="password"
+            autoComplete="new-password"
+            value={passwordForm.next}
+            onChange={(e) => setPasswordForm({ ...passwordForm, next: e.target.value })}
+          />
+          <Input
+            label="Confirm New Password"
+            type="password"
+            autoComplete="new-password"
+            value={passwordForm.confirm}
+            onChange={(e) => setPasswordForm({ ...passwordForm, confirm: e.target.value })}
+            error={passwordError}
+          />
+          <div className="flex justify-end">
+            <Button
+              type="submit"
+              variant="outline"
+              isLoading={isSavingPassword}
+              disabled={!passwordForm.current || !passwordForm.next}
+            >
+              Change Password
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SignInSettings;
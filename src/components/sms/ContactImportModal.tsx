@@ -0,0 +1,484 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useDropzone } from 'react-dropzone';
+import { twMerge } from 'tailwind-merge';
+import { FileSpreadsheet, Upload, Download, CheckCircle, AlertTriangle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { supabase } from '../../lib/supabase';
+import { getErrorMessage } from '../../lib/errors';
+import { readSpreadsheet, SpreadsheetData } from '../../lib/spreadsheet';
+import { DEFAULT_PHONE_COUNTRY, PHONE_COUNTRIES } from '../../lib/phone';
+import {
+  CONTACT_FIELDS,
+  ColumnMapping,
+  ContactField,
+  ImportContact,
+  MAX_IMPORT_ROWS,
+  RejectedRow,
+  buildImportPlan,
+  detectColumnMapping,
+  rejectedRowsToCsv,
+} from '../../lib/contactImport';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+
+interface ContactImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userId: string;
+  groups: { id: string; name: string }[];
+  onImported: () => void;
+}
+
+interface ImportReport {
+  imported: number;
+  existing: number;
+  grouped: number;
+  groupName: string | null;
+  rejected: RejectedRow[];
+}
+
+type Step = 'upload' | 'map' | 'importing' | 'report';
+
+const NEW_GROUP = '__new__';
+const INSERT_CHUNK = 500;
+const FETCH_PAGE = 1000;
+
+const chunk = <T,>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+// PostgREST returns at most 1000 rows per request, page through all contacts
+const fetchExistingContacts = async (userId: string): Promise<Map<string, string>> => {
+  const existing = new Map<string, string>();
+
+  for (let from = 0; ; from += FETCH_PAGE) {
+    const { data, error } = await supabase
+      .from('contacts')
+      .select('id, phone')
+      .eq('user_id', userId)
+      .order('id')
+      .range(from, from + FETCH_PAGE - 1);
+
+    if (error) throw error;
+    (data || []).forEach((contact) => existing.set(contact.phone, contact.id));
+    if (!data || data.length < FETCH_PAGE) break;
+  }
+
+  return existing;
+};
+
+const ContactImportModal = ({ isOpen, onClose, userId, groups, onImported }: ContactImportModalProps) => {
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [country, setCountry] = useState(DEFAULT_PHONE_COUNTRY);
+  const [groupId, setGroupId] = useState('');
+  const [newGroupName, setNewGroupName] = useState('');
+  const [isReading, setIsReading] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [report, setReport] = useState<ImportReport | null>(null);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setSheet(null);
+    setMapping({});
+    setGroupId('');
+    setNewGroupName('');
+    setProgress(0);
+    setReport(null);
+  };
+
+  const handleClose = () => {
+    if (step === 'importing') return;
+    reset();
+    onClose();
+  };
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    const file = acceptedFiles[0];
+    if (!file) return;
+
+    setIsReading(true);
+    try {
+      const data = await readSpreadsheet(file);
+      if (data.rows.length === 0) {
+        throw new Error('The file has a header row but no contacts');
+      }
+      if (data.rows.length > MAX_IMPORT_ROWS) {
+        throw new Error(`Import up to ${MAX_IMPORT_ROWS.toLocaleString()} contacts at a time, split the file and try again`);
+      }
+
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(detectColumnMapping(data.headers));
+      setStep('map');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Could not read this file'));
+    } finally {
+      setIsReading(false);
+    }
+  }, []);
+
+  const { getRootProps, getInputProps, isDragActive } = useDropzone({
+    onDrop,
+    accept: {
+      'text/csv': ['.csv'],
+      'text/plain': ['.txt', '.tsv'],
+      'text/tab-separated-values': ['.tsv'],
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+    },
+    multiple: false,
+  });
+
+  const plan = useMemo(
+    () => (sheet && mapping.phone !== undefined ? buildImportPlan(sheet, mapping, country) : null),
+    [sheet, mapping, country]
+  );
+
+  const setFieldColumn = (field: ContactField, value: string) => {
+    setMapping((prev) => {
+      const next = { ...prev };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  // Resolve the target group, creating it when asked to
+  const resolveGroup = async (): Promise<{ id: string; name: string } | null> => {
+    if (groupId === NEW_GROUP) {
+      const { data, error } = await supabase
+        .from('contact_groups')
+        .insert({ user_id: userId, name: newGroupName.trim() })
+        .select('id, name')
+        .single();
+
+      if (error) throw error;
+      return data;
+    }
+    return groups.find((group) => group.id === groupId) || null;
+  };
+
+  const handleImport = async () => {
+    if (!plan || !sheet) return;
+    if (groupId === NEW_GROUP && !newGroupName.trim()) {
+      toast.error('Enter a name for the new group');
+      return;
+    }
+
+    setStep('importing');
+    setProgress(0);
+    try {
+      const group = await resolveGroup();
+      const existing = await fetchExistingContacts(userId);
+
+      const toInsert = plan.contacts.filter((contact) => !existing.has(contact.phone));
+      const alreadySaved = plan.contacts.filter((contact) => existing.has(contact.phone));
+      const contactIds = new Map(existing);
+      let imported = 0;
+
+      for (const rows of chunk<ImportContact>(toInsert, INSERT_CHUNK)) {
+        const { data, error } = await supabase
+          .from('contacts')
+          .upsert(
+            rows.map((contact) => ({
+              user_id: userId,
+              name: contact.name,
+              phone: contact.phone,
+              email: contact.email,
+              notes: contact.notes,
+            })),
+            { onConflict: 'user_id,phone', ignoreDuplicates: true }
+          )
+          .select('id, phone');
+
+        if (error) throw error;
+        (data || []).forEach((contact) => contactIds.set(contact.phone, contact.id));
+        imported += data?.length || 0;
+        setProgress((prev) => prev + rows.length);
+      }
+
+      // Numbers saved by someone else while we were importing
+      const unresolved = toInsert.filter((contact) => !contactIds.has(contact.phone)).map((contact) => contact.phone);
+      for (const phones of chunk(unresolved, INSERT_CHUNK)) {
+        const { data, error } = await supabase
+          .from('contacts')
+          .select('id, phone')
+          .eq('user_id', userId)
+          .in('phone', phones);
+
+        if (error) throw error;
+        (data || []).forEach((contact) => contactIds.set(contact.phone, contact.id));
+      }
+
+      let grouped = 0;
+      if (group) {
+        const memberIds = plan.contacts
+          .map((contact) => contactIds.get(contact.phone))
+          .filter((id): id is string => Boolean(id));
+
+        for (const ids of chunk(memberIds, INSERT_CHUNK)) {
+          const { error } = await supabase
+            .from('group_contacts')
+            .upsert(
+              ids.map((contactId) => ({ group_id: group.id, contact_id: contactId })),
+              { onConflict: 'group_id,contact_id', ignoreDuplicates: true }
+            );
+
+          if (error) throw error;
+        }
+        grouped = memberIds.length;
+      }
+
+      setReport({
+        imported,
+        existing: alreadySaved.length + (toInsert.length - imported),
+        grouped,
+        groupName: group?.name || null,
+        rejected: plan.rejected,
+      });
+      setStep('report');
+      onImported();
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Import failed'));
+      // Contacts imported before the error are kept, show what is there now
+      onImported();
+      setStep('map');
+    }
+  };
+
+  const downloadRejected = () => {
+    if (!sheet || !report) return;
+
+    const blob = new Blob([rejectedRowsToCsv(sheet.headers, report.rejected)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName.replace(/\.[^.]+$/, '') || 'contacts'}-rejected.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const renderUpload = () => (
+    <div className="space-y-4">
+      <div
+        {...getRootProps()}
+        className={twMerge(
+          'border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors',
+          isDragActive ? 'border-primary-500 bg-primary-50' : 'border-gray-300 hover:border-gray-400',
+          isReading && 'opacity-50 pointer-events-none'
+        )}
+      >
+        <input {...getInputProps()} />
+        <FileSpreadsheet className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+        <p className="font-medium">
+          {isReading ? 'Reading file...' : 'Drop a CSV or Excel file here, or click to choose one'}
+        </p>
+        <p className="text-sm text-gray-500 mt-1">
+          The first row must contain column names. Up to {MAX_IMPORT_ROWS.toLocaleString()} contacts.
+        </p>
+      </div>
+    </div>
+  );
+
+  const renderMapping = () => {
+    if (!sheet) return null;
+    const previewRows = sheet.rows.slice(0, 3);
+
+    return (
+      <div className="space-y-6">
+        <p className="text-sm text-gray-600">
+          <span className="font-medium">{fileName}</span>: {sheet.rows.length.toLocaleString()} rows
+        </p>
+
+        <div className="space-y-3">
+          <h4 className="font-medium">Columns</h4>
+          {CONTACT_FIELDS.map(({ field, label }) => (
+            <div key={field} className="grid grid-cols-3 items-center gap-3">
+              <label className="text-sm font-medium text-gray-700">
+                {label}{field === 'phone' && <span className="text-error-500"> *</span>}
+              </label>
+              <select
+                className="input col-span-2"
+                value={mapping[field] ?? ''}
+                onChange={(e) => setFieldColumn(field, e.target.value)}
+              >
+                <option value="">Don't import</option>
+                {sheet.headers.map((header, index) => (
+                  <option key={index} value={index}>
+                    {header}{previewRows[0]?.[index] ? ` (e.g. ${previewRows[0][index]})` : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Numbers without country code are in</label>
+            <select className="input" value={country} onChange={(e) => setCountry(e.target.value)}>
+              {PHONE_COUNTRIES.map((option) => (
+                <option key={option.code} value={option.code}>
+                  {option.name} (+{option.dialCode})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Add to group</label>
+            <select className="input" value={groupId} onChange={(e) => setGroupId(e.target.value)}>
+              <option value="">No group</option>
+              {groups.map((group) => (
+                <option key={group.id} value={group.id}>{group.name}</option>
+              ))}
+              <option value={NEW_GROUP}>New group...</option>
+            </select>
+          </div>
+        </div>
+
+        {groupId === NEW_GROUP && (
+          <Input
+            label="New group name"
+            value={newGroupName}
+            onChange={(e) => setNewGroupName(e.target.value)}
+            placeholder="POS customers"
+          />
+        )}
+
+        {plan ? (
+          <div className="rounded-md bg-gray-50 p-4 text-sm space-y-1">
+            <p>
+              <span className="font-medium">{plan.contacts.length.toLocaleString()}</span> contacts ready to import
+            </p>
+            {plan.rejected.length > 0 && (
+              <p className="text-error-500">
+                {plan.rejected.length.toLocaleString()} rows will be skipped, they are listed after the import
+              </p>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-error-500">Choose the column that holds phone numbers</p>
+        )}
+
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={reset}>Choose another file</Button>
+          <Button
+            onClick={handleImport}
+            disabled={!plan || plan.contacts.length === 0}
+            leftIcon={<Upload size={16} />}
+          >
+            Import {plan ? plan.contacts.length.toLocaleString() : ''} Contacts
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderImporting = () => {
+    const total = plan?.contacts.length || 0;
+    const percent = total > 0 ? Math.min(100, Math.round((progress / total) * 100)) : 0;
+
+    return (
+      <div className="space-y-4 py-6 text-center">
+        <div className="w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full animate-spin mx-auto"></div>
+        <p className="text-sm text-gray-600">Importing contacts... {percent}%</p>
+        <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+          <div className="h-full bg-primary-500 transition-all" style={{ width: `${percent}%` }} />
+        </div>
+      </div>
+    );
+  };
+
+  const renderReport = () => {
+    if (!report) return null;
+
+    return (
+      <div className="space-y-6">
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div className="rounded-md bg-success-50 p-4">
+            <p className="text-2xl font-bold text-success-700">{report.imported.toLocaleString()}</p>
+            <p className="text-sm text-gray-600">Imported</p>
+          </div>
+          <div className="rounded-md bg-gray-50 p-4">
+            <p className="text-2xl font-bold">{report.existing.toLocaleString()}</p>
+            <p className="text-sm text-gray-600">Already saved</p>
+          </div>
+          <div className="rounded-md bg-error-50 p-4">
+            <p className="text-2xl font-bold text-error-700">{report.rejected.length.toLocaleString()}</p>
+            <p className="text-sm text-gray-600">Rejected</p>
+          </div>
+        </div>
+
+        {report.groupName && (
+          <p className="flex items-center text-sm text-gray-600">
+            <CheckCircle size={16} className="text-success-500 mr-2" />
+            {report.grouped.toLocaleString()} contacts are in {report.groupName}
+          </p>
+        )}
+
+        {report.rejected.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="flex items-center font-medium">
+                <AlertTriangle size={16} className="text-warning-500 mr-2" />
+                Rejected rows
+              </h4>
+              <Button variant="outline" size="sm" onClick={downloadRejected} leftIcon={<Download size={14} />}>
+                Download CSV
+              </Button>
+            </div>
+            <div className="max-h-64 overflow-y-auto border rounded-md">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="text-left px-3 py-2 font-medium">Row</th>
+                    <th className="text-left px-3 py-2 font-medium">Phone</th>
+                    <th className="text-left px-3 py-2 font-medium">Reason</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {report.rejected.slice(0, 200).map((rejected) => (
+                    <tr key={rejected.row}>
+                      <td className="px-3 py-2 text-gray-500">{rejected.row}</td>
+                      <td className="px-3 py-2 font-mono">
+                        {mapping.phone !== undefined ? rejected.values[mapping.phone] : ''}
+                      </td>
+                      <td className="px-3 py-2">{rejected.reason}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {report.rejected.length > 200 && (
+              <p className="text-xs text-gray-500">
+                Showing the first 200 rejected rows, download the CSV for the full list.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button onClick={handleClose}>Done</Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Import Contacts" size="lg">
+      {step === 'upload' && renderUpload()}
+      {step === 'map' && renderMapping()}
+      {step === 'importing' && renderImporting()}
+      {step === 'report' && renderReport()}
+    </Modal>
+  );
+};
+
+export default ContactImportModal;
@@ -0,0 +1,50 @@
+import React from 'react';
+
+export interface BarListItem {
+  label: string;
+  value: number;
+}
+
+interface BarListProps {
+  items: BarListItem[];
+  color?: string;
+  emptyMessage?: string;
+  className?: string;
+}
+
+const BarList: React.FC<BarListProps> = ({
+  items,
+  color = '#0066FF',
+  emptyMessage = 'No scans yet',
+  className = ''
+}) => {
+  const total = items.reduce((sum, item) => sum + item.value, 0);
+  const maxValue = Math.max(1, ...items.map((item) => item.value));
+
+  if (items.length === 0 || total === 0) {
+    return <p className={`text-sm text-gray-500 py-4 ${className}`}>{emptyMessage}</p>;
+  }
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      {items.map((item) => (
+        <div key={item.label}>
+          <div className="flex items-center justify-between text-sm mb-1">
+            <span className="font-medium text-gray-700">{item.label}</span>
+            <span className="text-gray-500">
+              {item.value.toLocaleString()} ({Math.round((item.value / total) * 100)}%)
+            </span>
+          </div>
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className="h-full rounded-full"
+              style={{ width: `${(item.value / maxValue) * 100}%`, backgroundColor: color }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default BarList;
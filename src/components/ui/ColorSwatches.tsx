@@ -0,0 +1,38 @@
+import React from 'react';
+
+interface ColorSwatchesProps {
+  colors: string[];
+  value: string;
+  onSelect: (color: string) => void;
+  label?: string;
+}
+
+/**
+ * One-click color choices, such as the brand colors from Settings
+ */
+const ColorSwatches: React.FC<ColorSwatchesProps> = ({ colors, value, onSelect, label = 'Brand' }) => {
+  if (colors.length === 0) return null;
+
+  return (
+    <div className="flex items-center space-x-2">
+      <span className="text-xs text-gray-500">{label}</span>
+      {colors.map((color) => (
+        <button
+          key={color}
+          type="button"
+          title={color}
+          aria-label={`Use ${color}`}
+          className={`w-6 h-6 rounded-full border ${
+            value.toUpperCase() === color.toUpperCase()
+              ? 'border-primary-500 ring-2 ring-primary-200'
+              : 'border-gray-300'
+          }`}
+          style={{ backgroundColor: color }}
+          onClick={() => onSelect(color)}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default ColorSwatches;
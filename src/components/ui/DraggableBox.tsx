@@ -0,0 +1,58 @@
+import { useDraggable } from '@dnd-kit/core';
+import { twMerge } from 'tailwind-merge';
+
+interface DraggableBoxProps {
+  id: string;
+  position: { x: number; y: number };
+  width: number;
+  height?: number;
+  isSelected?: boolean;
+  onClick?: () => void;
+  children: React.ReactNode;
+}
+
+const DraggableBox = ({
+  id,
+  position,
+  width,
+  height,
+  isSelected,
+  onClick,
+  children
+}: DraggableBoxProps) => {
+  const { attributes, listeners, setNodeRef, transform } = useDraggable({
+    id,
+    data: { type: 'box' }
+  });
+
+  const style = transform ? {
+    transform: `translate3d(${transform.x}px, ${transform.y}px, 0)`,
+  } : undefined;
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{
+        ...style,
+        position: 'absolute',
+        left: `${position.x}px`,
+        top: `${position.y}px`,
+        width: `${width}px`,
+        height: height === undefined ? undefined : `${height}px`,
+        cursor: 'move',
+        userSelect: 'none',
+      }}
+      className={twMerge(
+        'transition-shadow',
+        isSelected && 'ring-2 ring-primary-500'
+      )}
+      onClick={onClick}
+      {...listeners}
+      {...attributes}
+    >
+      {children}
+    </div>
+  );
+};
+
+export default DraggableBox;
@@ -8,6 +8,10 @@ interface DraggableTextProps {
   fontSize: number;
   color: string;
   align: 'left' | 'center' | 'right';
+  // CSS width, the text wraps within it
+  width?: string;
+  // Drop shadow for text over photos, off for print on plain paper
+  shadow?: boolean;
   isSelected?: boolean;
   onClick?: () => void;
 }
@@ -19,6 +23,8 @@ const DraggableText = ({
   fontSize,
   color,
   align,
+  width = '80%',
+  shadow = true,
   isSelected,
   onClick
 }: DraggableTextProps) => {
@@ -44,8 +50,8 @@ const DraggableText = ({
         textAlign: align,
         cursor: 'move',
         userSelect: 'none',
-        width: '80%',
-        textShadow: '0px 1px 2px rgba(0,0,0,0.3)',
+        width,
+        textShadow: shadow ? '0px 1px 2px rgba(0,0,0,0.3)' : undefined,
       }}
       className={twMerge(
         'p-2 rounded transition-all',
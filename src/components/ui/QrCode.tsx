@@ -1,13 +1,18 @@
-import React, { useRef } from 'react';
-import { QRCodeSVG } from 'qrcode.react';
+import React, { useMemo, useState } from 'react';
 import { Download } from 'lucide-react';
 import Button from './Button';
+import QrExportModal from '../qr/QrExportModal';
+import { DEFAULT_QR_DESIGN, QrDesign, QrErrorLevel, buildQrScene } from '../../lib/qrDesign';
+import { toSvgPath } from '../../lib/qrExport';
 
 interface QrCodeProps {
   value: string;
   size?: number;
-  level?: 'L' | 'M' | 'Q' | 'H';
+  level?: QrErrorLevel;
   includeMargin?: boolean;
+  design?: QrDesign;
+  // QR code or ad name, downloads are named after it
+  name?: string;
   className?: string;
   onDownload?: () => void;
   hideDownload?: boolean;
@@ -18,86 +23,89 @@ const QrCode: React.FC<QrCodeProps> = ({
   size = 512, // Doubled from 256 to 512
   level = 'H',
   includeMargin = true,
+  design = DEFAULT_QR_DESIGN,
+  name = 'QR code',
   className,
   onDownload,
   hideDownload = false
 }) => {
-  const qrRef = useRef<HTMLDivElement>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
 
-  const handleDownload = () => {
-    try {
-      const qrContainer = qrRef.current;
-      if (!qrContainer) return;
-
-      // Get the QR code SVG element
-      const qrSvg = qrContainer.querySelector('svg');
-      if (!qrSvg) {
-        console.error('QR code SVG not found');
-        return;
-      }
-
-      // Create a new SVG with transparent background
-      const svgString = new XMLSerializer().serializeToString(qrSvg);
-
-      // Create a Blob from the SVG string
-      const blob = new Blob([svgString], { type: 'image/svg+xml' });
-      const url = URL.createObjectURL(blob);
-
-      // Create download link
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `qr-code-${Date.now()}.svg`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-
-      // Cleanup
-      URL.revokeObjectURL(url);
-
-      if (onDownload) {
-        onDownload();
-      }
-    } catch (error) {
-      console.error('Failed to download QR code:', error);
-    }
-  };
+  const scene = useMemo(
+    () => buildQrScene(value, design, { level, margin: includeMargin ? 4 : 0 }),
+    [value, design, level, includeMargin]
+  );
+  const height = Math.round(size * scene.height / scene.width);
 
   return (
     <div className={className}>
-      <div 
-        ref={qrRef} 
+      <div
         className="inline-block"
         style={{
           lineHeight: 0, // Remove any extra space
           fontSize: 0, // Remove any extra space
           width: size, // Explicitly set container width
-          height: size // Explicitly set container height
+          height // Taller than wide when there is a caption
         }}
       >
-        <QRCodeSVG
-          value={value}
-          size={size}
-          level={level}
-          includeMargin={includeMargin}
-          style={{
-            width: '100%',
-            height: '100%',
-            display: 'block'
-          }}
-        />
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          viewBox={`0 0 ${scene.width} ${scene.height}`}
+          style={{ width: '100%', height: '100%', display: 'block' }}
+        >
+          {scene.layers.map((layer, index) => (
+            <path key={index} d={toSvgPath(layer.path)} fill={layer.color} fillRule="evenodd" />
+          ))}
+          {scene.logo && (
+            <image
+              href={scene.logo.url}
+              x={scene.logo.x}
+              y={scene.logo.y}
+              width={scene.logo.size}
+              height={scene.logo.size}
+              preserveAspectRatio="xMidYMid meet"
+            />
+          )}
+          {scene.caption && (
+            <text
+              x={scene.caption.x}
+              y={scene.caption.y}
+              fill={scene.caption.color}
+              fontFamily="Helvetica, Arial, sans-serif"
+              fontSize={scene.caption.fontSize}
+              fontWeight="bold"
+              textAnchor="middle"
+            >
+              {scene.caption.text}
+            </text>
+          )}
+        </svg>
       </div>
       {!hideDownload && (
-        <Button
-          onClick={handleDownload}
-          variant="outline"
-          className="w-full mt-4"
-          leftIcon={<Download size={16} />}
-        >
-          Download QR Code
-        </Button>
+        <>
+          <Button
+            onClick={() => setIsExportOpen(true)}
+            variant="outline"
+            className="w-full mt-4"
+            leftIcon={<Download size={16} />}
+          >
+            Download QR Code
+          </Button>
+          {isExportOpen && (
+            <QrExportModal
+              isOpen
+              onClose={() => setIsExportOpen(false)}
+              value={value}
+              design={design}
+              level={level}
+              name={name}
+              onExported={onDownload}
+            />
+          )}
+        </>
       )}
     </div>
   );
 };
 
-export default QrCode;
\ No newline at end of file
+export default QrCode;
@@ -0,0 +1,118 @@
+import React from 'react';
+
+export interface TrendSeries {
+  key: string;
+  label: string;
+  color: string;
+  values: number[];
+}
+
+interface TrendChartProps {
+  labels: string[];
+  series: TrendSeries[];
+  height?: number;
+  className?: string;
+}
+
+const WIDTH = 600;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 36 };
+
+const TrendChart: React.FC<TrendChartProps> = ({
+  labels,
+  series,
+  height = 220,
+  className = ''
+}) => {
+  const innerWidth = WIDTH - PADDING.left - PADDING.right;
+  const innerHeight = height - PADDING.top - PADDING.bottom;
+  const maxValue = Math.max(1, ...series.flatMap((s) => s.values));
+  const step = labels.length > 1 ? innerWidth / (labels.length - 1) : 0;
+
+  const x = (index: number) => PADDING.left + (labels.length > 1 ? index * step : innerWidth / 2);
+  const y = (value: number) => PADDING.top + innerHeight - (value / maxValue) * innerHeight;
+
+  // Roughly six labels along the x axis regardless of range
+  const labelEvery = Math.max(1, Math.ceil(labels.length / 6));
+  const gridLines = [0, 0.5, 1];
+
+  if (labels.length === 0) {
+    return (
+      <div className={`flex items-center justify-center h-40 text-sm text-gray-500 ${className}`}>
+        No data for this period yet
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${height}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label={series.map((s) => s.label).join(', ')}
+      >
+        {gridLines.map((fraction) => {
+          const value = Math.round(maxValue * fraction);
+          return (
+            <g key={fraction}>
+              <line
+                x1={PADDING.left}
+                x2={WIDTH - PADDING.right}
+                y1={y(value)}
+                y2={y(value)}
+                stroke="#e5e7eb"
+                strokeDasharray={fraction === 0 ? undefined : '4 4'}
+              />
+              <text x={PADDING.left - 6} y={y(value) + 4} textAnchor="end" fontSize="10" fill="#6b7280">
+                {value}
+              </text>
+            </g>
+          );
+        })}
+
+        {labels.map((label, index) => (
+          index % labelEvery === 0 && (
+            <text
+              key={label}
+              x={x(index)}
+              y={height - 8}
+              textAnchor="middle"
+              fontSize="10"
+              fill="#6b7280"
+            >
+              {label}
+            </text>
+          )
+        ))}
+
+        {series.map((s) => (
+          <g key={s.key}>
+            <polyline
+              fill="none"
+              stroke={s.color}
+              strokeWidth={2}
+              strokeLinejoin="round"
+              points={s.values.map((value, index) => `${x(index)},${y(value)}`).join(' ')}
+            />
+            {s.values.map((value, index) => (
+              <circle key={index} cx={x(index)} cy={y(value)} r={2.5} fill={s.color}>
+                <title>{`${labels[index]}: ${value} ${s.label.toLowerCase()}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+
+      <div className="flex flex-wrap gap-4 mt-2">
+        {series.map((s) => (
+          <div key={s.key} className="flex items-center text-sm text-gray-600">
+            <span className="inline-block w-3 h-3 rounded-full mr-2" style={{ backgroundColor: s.color }} />
+            {s.label}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TrendChart;
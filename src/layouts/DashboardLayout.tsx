@@ -7,6 +7,8 @@ import {
   Home, 
   Palette, 
   MessageSquare, 
+  BarChart3,
+  QrCode,
   Settings, 
   LogOut, 
   Menu, 
@@ -14,7 +16,6 @@ import {
   Bell,
   User
 } from 'lucide-react';
-import Button from '../components/ui/Button';
 import toast from 'react-hot-toast';
 
 const DashboardLayout = () => {
@@ -74,7 +75,9 @@ const DashboardLayout = () => {
   const navItems = [
     { to: '/', icon: <Home size={20} />, label: 'Dashboard' },
     { to: '/ad-builder', icon: <Palette size={20} />, label: 'Ad Builder' },
+    { to: '/qr-codes', icon: <QrCode size={20} />, label: 'QR Codes' },
     { to: '/sms-manager', icon: <MessageSquare size={20} />, label: 'SMS Manager' },
+    { to: '/analytics', icon: <BarChart3 size={20} />, label: 'Analytics' },
   ];
   
   return (
@@ -0,0 +1,69 @@
+import { supabase } from './supabase';
+import { apiFetch } from './api';
+
+/**
+ * Sign-in details, phone verification and account deletion
+ *
+ * Email and password changes go through Supabase Auth. Verification codes are
+ * texted by the Express server, the code is never sent to the browser.
+ */
+
+/**
+ * Change the sign-in email, Supabase sends a confirmation link to the new
+ * address and the change applies once it is opened
+ */
+export const changeEmail = async (email: string) => {
+  const { error } = await supabase.auth.updateUser({ email });
+  if (error) throw error;
+};
+
+/**
+ * Change the password after checking the current one
+ */
+export const changePassword = async (email: string, currentPassword: string, newPassword: string) => {
+  const { error: signInError } = await supabase.auth.signInWithPassword({ email, password: currentPassword });
+  if (signInError) throw new Error('Your current password is incorrect');
+
+  const { error } = await supabase.auth.updateUser({ password: newPassword });
+  if (error) throw error;
+};
+
+/**
+ * The most recently verified phone number, null when there is none
+ */
+export const getVerifiedPhone = async (userId: string): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('verified_phones')
+    .select('phone')
+    .eq('user_id', userId)
+    .order('verified_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.phone ?? null;
+};
+
+/**
+ * Text a verification code to an E.164 number
+ */
+export const sendPhoneCode = (phone: string) =>
+  apiFetch<{ phone: string }>('/api/account/phone/verification', {
+    method: 'POST',
+    body: JSON.stringify({ phone }),
+  });
+
+export const verifyPhone = (phone: string, code: string) =>
+  apiFetch<{ phone: string; verified: boolean }>('/api/account/phone/verify', {
+    method: 'POST',
+    body: JSON.stringify({ phone, code }),
+  });
+
+/**
+ * Delete the account, its data and uploads, then sign out
+ */
+export const deleteAccount = async () => {
+  await apiFetch<{ deleted: boolean }>('/api/account', { method: 'DELETE' });
+  // The user no longer exists, only the local session is left to clear
+  await supabase.auth.signOut({ scope: 'local' });
+};
@@ -0,0 +1,88 @@
+import { supabase } from './supabase';
+import type { OfferEnded } from '../../shared/adResolution';
+
+/**
+ * Draft / published lifecycle of ad designs
+ *
+ * Saving in the Ad Builder only changes the draft. Publishing takes a snapshot
+ * of the design and its ad space, which is what scanners see (see the
+ * `publish_ad_design` migration). A publish can be scheduled, an offer can be
+ * given an end date, and archived or ended ads show the offer ended page.
+ */
+
+export type PublicationStatus = 'draft' | 'scheduled' | 'published' | 'ended' | 'archived';
+
+export interface AdPublication {
+  publication_status: PublicationStatus;
+  has_unpublished_changes: boolean;
+  published_at: string | null;
+  scheduled_at: string | null;
+  unpublish_at: string | null;
+  archived_at: string | null;
+  offer_ended: OfferEnded;
+}
+
+// Computed columns, select them next to `*`
+export const PUBLICATION_COLUMNS = 'publication_status, has_unpublished_changes';
+
+export const PUBLICATION_STATUS_LABELS: Record<PublicationStatus, string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  published: 'Published',
+  ended: 'Ended',
+  archived: 'Archived'
+};
+
+export const PUBLICATION_STATUS_STYLES: Record<PublicationStatus, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  scheduled: 'bg-warning-100 text-warning-700',
+  published: 'bg-success-100 text-success-700',
+  ended: 'bg-gray-100 text-gray-500',
+  archived: 'bg-gray-100 text-gray-500'
+};
+
+/**
+ * Publish the saved draft, at `publishAt` when given
+ */
+export const publishAdDesign = async (designId: string, publishAt: Date | null = null) => {
+  const { error } = await supabase.rpc('publish_ad_design', {
+    p_design_id: designId,
+    p_publish_at: publishAt ? publishAt.toISOString() : null
+  });
+
+  if (error) throw error;
+};
+
+export const updatePublication = async (
+  designId: string,
+  changes: Partial<Pick<AdPublication, 'unpublish_at' | 'archived_at' | 'offer_ended'>>
+) => {
+  const { error } = await supabase
+    .from('ad_designs')
+    .update(changes)
+    .eq('id', designId);
+
+  if (error) throw error;
+};
+
+/**
+ * Drop a scheduled publish that has not gone live yet
+ */
+export const cancelScheduledPublish = async (designId: string) => {
+  const { error } = await supabase
+    .from('ad_designs')
+    .update({ scheduled: null, scheduled_at: null })
+    .eq('id', designId)
+    .gt('scheduled_at', new Date().toISOString());
+
+  if (error) throw error;
+};
+
+/**
+ * Value for a datetime-local input, in the browser's time zone
+ */
+export const toDateTimeInput = (iso: string | null) => {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
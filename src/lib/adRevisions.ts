@@ -0,0 +1,91 @@
+import { supabase } from './supabase';
+import { normalizeTextLayers } from './textLayers';
+
+/**
+ * Revision history of ad designs
+ *
+ * Every committed change to a design's draft, or to its ad space, is stored
+ * as a revision by the database (see the `ad_design_revisions` migration).
+ * Restoring a revision changes the draft only, publishing is separate.
+ */
+
+export interface RevisionSnapshot {
+  ad_space: {
+    title: string;
+    description: string | null;
+    content: { url?: string };
+    theme: { backgroundColor?: string };
+  } | null;
+  design: {
+    name: string;
+    background: string | null;
+    image_url: string | null;
+    video_url: string | null;
+    content: { redirectUrl?: string; layers?: unknown };
+    template: string | null;
+  };
+}
+
+export interface AdRevision {
+  id: string;
+  design_id: string;
+  revision: number;
+  action: 'create' | 'save' | 'restore';
+  restored_from: number | null;
+  changed_by: string | null;
+  snapshot: RevisionSnapshot;
+  created_at: string;
+}
+
+export interface RevisionChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+export const getRevisions = async (designId: string): Promise<AdRevision[]> => {
+  const { data, error } = await supabase
+    .from('ad_design_revisions')
+    .select('*')
+    .eq('design_id', designId)
+    .order('revision', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const restoreRevision = async (revisionId: string) => {
+  const { error } = await supabase.rpc('restore_ad_design_revision', { p_revision_id: revisionId });
+  if (error) throw error;
+};
+
+// What the diff compares, in display order
+const REVISION_FIELDS: { label: string; value: (snapshot: RevisionSnapshot) => unknown }[] = [
+  { label: 'Name', value: (s) => s.design.name },
+  { label: 'Background', value: (s) => s.design.background },
+  { label: 'Image', value: (s) => s.design.image_url },
+  { label: 'Video', value: (s) => s.design.video_url },
+  {
+    label: 'Text',
+    value: (s) => normalizeTextLayers(s.design.content?.layers).map((layer) => layer.text).join(' / ')
+  },
+  { label: 'Redirect URL', value: (s) => s.design.content?.redirectUrl || s.ad_space?.content?.url },
+  { label: 'Template', value: (s) => s.design.template },
+  { label: 'Ad space title', value: (s) => s.ad_space?.title },
+  { label: 'Ad space description', value: (s) => s.ad_space?.description },
+  { label: 'Page background', value: (s) => s.ad_space?.theme?.backgroundColor }
+];
+
+const display = (value: unknown) => (value === null || value === undefined || value === '' ? '' : String(value));
+
+/**
+ * Fields that differ between two revisions
+ */
+export const diffRevisions = (before: AdRevision, after: AdRevision): RevisionChange[] =>
+  REVISION_FIELDS
+    .map(({ label, value }) => ({
+      label,
+      before: display(value(before.snapshot)),
+      after: display(value(after.snapshot))
+    }))
+    .filter((change) => change.before !== change.after);
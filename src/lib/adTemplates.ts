@@ -0,0 +1,41 @@
+import { supabase } from './supabase';
+import { TextLayer, normalizeTextLayers } from './textLayers';
+
+/**
+ * Ready-made ads
+ *
+ * The catalog lives in `ad_templates`. Picking a template copies its
+ * background, placeholder artwork and text layers into a new ad design, which
+ * the user then edits like any other ad. Premium templates need the Pro plan,
+ * the database checks this when the design is saved.
+ */
+
+export interface AdTemplate {
+  id: string;
+  name: string;
+  category: string;
+  description: string;
+  is_premium: boolean;
+  background: string;
+  image_url: string | null;
+  content: { layers?: unknown };
+}
+
+/**
+ * The template catalog in display order
+ */
+export const getAdTemplates = async (): Promise<AdTemplate[]> => {
+  const { data, error } = await supabase
+    .from('ad_templates')
+    .select('id, name, category, description, is_premium, background, image_url, content')
+    .order('sort_order');
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * The template's text layers with fresh IDs, ready to be edited
+ */
+export const getTemplateLayers = (template: AdTemplate): TextLayer[] =>
+  normalizeTextLayers(template.content?.layers).map((layer) => ({ ...layer, id: crypto.randomUUID() }));
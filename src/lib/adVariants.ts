@@ -0,0 +1,184 @@
+import { supabase } from './supabase';
+
+/**
+ * A/B testing of ad designs
+ *
+ * An ad space can show several of its published designs with traffic
+ * weights. `resolve_ad` assigns each visitor a variant from their visitor
+ * key, views and "Continue" clicks are recorded per design, and a test ends
+ * when a variant is promoted (see the `ad_space_variants` migration).
+ */
+
+export interface AdVariantResult {
+  designId: string;
+  name: string;
+  weight: number;
+  // Unpublished, ended or archived variants are not shown
+  isLive: boolean;
+  views: number;
+  clicks: number;
+  // Beats the runner-up at 95% confidence with enough views
+  isWinner: boolean;
+}
+
+export interface AdVariantTest {
+  startedAt: string | null;
+  autoPromote: boolean;
+  minViews: number;
+}
+
+// Also read by qr-redirect.html
+const VISITOR_ID_KEY = 'ad_visitor_id';
+
+type RpcRow = Record<string, unknown>;
+
+const toNumber = (value: unknown): number => Number(value ?? 0) || 0;
+
+/**
+ * Id that keeps this browser on the same variant and counts it as one scanner,
+ * null when storage is blocked
+ */
+export const getVisitorId = (): string | null => {
+  try {
+    let id = localStorage.getItem(VISITOR_ID_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      localStorage.setItem(VISITOR_ID_KEY, id);
+    }
+    return id;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Count a click through to the redirect URL for the design that was shown,
+ * the database counts one click per view of this visitor
+ */
+export const recordAdClick = async (adSpaceId: string, designId: string) => {
+  const { error } = await supabase.rpc('record_ad_click', {
+    p_ad_space_id: adSpaceId,
+    p_design_id: designId,
+    p_visitor: getVisitorId()
+  });
+
+  if (error) throw error;
+};
+
+export const getVariantTest = async (adSpaceId: string): Promise<AdVariantTest> => {
+  const { data, error } = await supabase
+    .from('ad_spaces')
+    .select('variant_test_started_at, auto_promote_winner, auto_promote_min_views')
+    .eq('id', adSpaceId)
+    .single();
+
+  if (error) throw error;
+
+  return {
+    startedAt: data.variant_test_started_at,
+    autoPromote: data.auto_promote_winner,
+    minViews: data.auto_promote_min_views
+  };
+};
+
+export const updateVariantTest = async (
+  adSpaceId: string,
+  changes: Partial<Pick<AdVariantTest, 'autoPromote' | 'minViews'>>
+) => {
+  const { error } = await supabase
+    .from('ad_spaces')
+    .update({
+      auto_promote_winner: changes.autoPromote,
+      auto_promote_min_views: changes.minViews
+    })
+    .eq('id', adSpaceId);
+
+  if (error) throw error;
+};
+
+/**
+ * Views and clicks per variant since the test started
+ */
+export const getVariantResults = async (adSpaceId: string): Promise<AdVariantResult[]> => {
+  const { data, error } = await supabase.rpc('get_ad_variant_performance', { p_ad_space_id: adSpaceId });
+
+  if (error) throw error;
+
+  return ((data || []) as RpcRow[]).map((row) => ({
+    designId: String(row.design_id),
+    name: String(row.name ?? ''),
+    weight: toNumber(row.weight),
+    isLive: !!row.is_live,
+    views: toNumber(row.views),
+    clicks: toNumber(row.clicks),
+    isWinner: !!row.is_winner
+  }));
+};
+
+export const addVariant = async (adSpaceId: string, designId: string, weight = 50) => {
+  const { error } = await supabase
+    .from('ad_space_variants')
+    .insert({ ad_space_id: adSpaceId, design_id: designId, weight });
+
+  if (error) throw error;
+};
+
+export const setVariantWeight = async (adSpaceId: string, designId: string, weight: number) => {
+  const { error } = await supabase
+    .from('ad_space_variants')
+    .update({ weight })
+    .eq('ad_space_id', adSpaceId)
+    .eq('design_id', designId);
+
+  if (error) throw error;
+};
+
+export const removeVariant = async (adSpaceId: string, designId: string) => {
+  const { error } = await supabase
+    .from('ad_space_variants')
+    .delete()
+    .eq('ad_space_id', adSpaceId)
+    .eq('design_id', designId);
+
+  if (error) throw error;
+};
+
+/**
+ * End the test, the ad space shows this design from now on
+ */
+export const promoteVariant = async (adSpaceId: string, designId: string) => {
+  const { error } = await supabase.rpc('promote_ad_variant', {
+    p_ad_space_id: adSpaceId,
+    p_design_id: designId
+  });
+
+  if (error) throw error;
+};
+
+/**
+ * Copy a design into the same ad space as a new draft to test against it
+ */
+export const duplicateDesignAsVariant = async (designId: string, name: string) => {
+  const { data: design, error } = await supabase
+    .from('ad_designs')
+    .select('user_id, ad_space_id, background, content, image_url, video_url, template')
+    .eq('id', designId)
+    .single();
+
+  if (error) throw error;
+
+  const { data: copy, error: insertError } = await supabase
+    .from('ad_designs')
+    .insert({ ...design, name })
+    .select('id')
+    .single();
+
+  if (insertError) throw insertError;
+  return copy.id as string;
+};
+
+/**
+ * Share of views that clicked through, in percent
+ */
+export const clickThroughRate = (views: number, clicks: number): number =>
+  views === 0 ? 0 : (clicks / views) * 100;
@@ -0,0 +1,219 @@
+import { supabase } from './supabase';
+
+export type AnalyticsBucket = 'day' | 'week';
+
+export interface TimeseriesPoint {
+  bucket: string;
+  scans: number;
+  views: number;
+  uniqueScanners: number;
+}
+
+export interface AdSpacePerformance {
+  adSpaceId: string;
+  title: string;
+  totalViews: number;
+  scans: number;
+  prevScans: number;
+  views: number;
+  prevViews: number;
+  uniqueScanners: number;
+  repeatScanners: number;
+}
+
+export interface AnalyticsSummary {
+  scans: number;
+  prevScans: number;
+  views: number;
+  prevViews: number;
+  uniqueScanners: number;
+  prevUniqueScanners: number;
+  repeatScanners: number;
+  prevRepeatScanners: number;
+}
+
+export interface QrBatchPerformance {
+  batchId: string;
+  name: string;
+  adSpaceId: string | null;
+  codeCount: number;
+  totalScans: number;
+  scans: number;
+  prevScans: number;
+  uniqueScanners: number;
+  // The code scanned most in the period, null when nothing was scanned
+  topCode: { trackingId: string; label: string; scans: number } | null;
+}
+
+export interface BreakdownItem {
+  label: string;
+  scans: number;
+}
+
+export interface ScanBreakdowns {
+  os: BreakdownItem[];
+  browser: BreakdownItem[];
+  country: BreakdownItem[];
+  hour: BreakdownItem[];
+}
+
+type RpcRow = Record<string, unknown>;
+
+// bigint columns come back from PostgREST as numbers or strings depending on size
+const toNumber = (value: unknown): number => Number(value ?? 0) || 0;
+
+/**
+ * Fetch scans, views and unique scanners per day or week
+ */
+export const getScanTimeseries = async (
+  options: { adSpaceId?: string; days?: number; bucket?: AnalyticsBucket } = {}
+): Promise<TimeseriesPoint[]> => {
+  const { data, error } = await supabase.rpc('get_scan_timeseries', {
+    p_ad_space_id: options.adSpaceId ?? null,
+    p_days: options.days ?? 30,
+    p_bucket: options.bucket ?? 'day'
+  });
+
+  if (error) throw error;
+
+  return ((data || []) as RpcRow[]).map((row) => ({
+    bucket: String(row.bucket),
+    scans: toNumber(row.scans),
+    views: toNumber(row.views),
+    uniqueScanners: toNumber(row.unique_scanners)
+  }));
+};
+
+/**
+ * Fetch per ad space totals for the current and previous period
+ */
+export const getAdSpacePerformance = async (days = 30): Promise<AdSpacePerformance[]> => {
+  const { data, error } = await supabase.rpc('get_ad_space_performance', { p_days: days });
+
+  if (error) throw error;
+
+  return ((data || []) as RpcRow[]).map((row) => ({
+    adSpaceId: String(row.ad_space_id),
+    title: String(row.title ?? ''),
+    totalViews: toNumber(row.total_views),
+    scans: toNumber(row.scans),
+    prevScans: toNumber(row.prev_scans),
+    views: toNumber(row.views),
+    prevViews: toNumber(row.prev_views),
+    uniqueScanners: toNumber(row.unique_scanners),
+    repeatScanners: toNumber(row.repeat_scanners)
+  }));
+};
+
+/**
+ * Fetch account wide totals for the current and previous period
+ */
+export const getAnalyticsSummary = async (days = 30): Promise<AnalyticsSummary> => {
+  const { data, error } = await supabase.rpc('get_analytics_summary', { p_days: days });
+
+  if (error) throw error;
+
+  const row = (Array.isArray(data) ? data[0] : data) as RpcRow | null;
+
+  return {
+    scans: toNumber(row?.scans),
+    prevScans: toNumber(row?.prev_scans),
+    views: toNumber(row?.views),
+    prevViews: toNumber(row?.prev_views),
+    uniqueScanners: toNumber(row?.unique_scanners),
+    prevUniqueScanners: toNumber(row?.prev_unique_scanners),
+    repeatScanners: toNumber(row?.repeat_scanners),
+    prevRepeatScanners: toNumber(row?.prev_repeat_scanners)
+  };
+};
+
+/**
+ * Fetch scans per bulk QR code batch for the current and previous period
+ */
+export const getQrBatchPerformance = async (days = 30): Promise<QrBatchPerformance[]> => {
+  const { data, error } = await supabase.rpc('get_qr_batch_performance', { p_days: days });
+
+  if (error) throw error;
+
+  return ((data || []) as RpcRow[]).map((row) => ({
+    batchId: String(row.batch_id),
+    name: String(row.name ?? ''),
+    adSpaceId: row.ad_space_id ? String(row.ad_space_id) : null,
+    codeCount: toNumber(row.code_count),
+    totalScans: toNumber(row.total_scans),
+    scans: toNumber(row.scans),
+    prevScans: toNumber(row.prev_scans),
+    uniqueScanners: toNumber(row.unique_scanners),
+    topCode: row.top_tracking_id
+      ? { trackingId: String(row.top_tracking_id), label: String(row.top_label ?? ''), scans: toNumber(row.top_scans) }
+      : null
+  }));
+};
+
+/**
+ * Fetch scans for one ad space grouped by OS, browser, country and hour of day
+ */
+export const getAdSpaceBreakdowns = async (adSpaceId: string, days = 30): Promise<ScanBreakdowns> => {
+  const { data, error } = await supabase.rpc('get_ad_space_breakdowns', {
+    p_ad_space_id: adSpaceId,
+    p_days: days,
+    p_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+  });
+
+  if (error) throw error;
+
+  const breakdowns: ScanBreakdowns = { os: [], browser: [], country: [], hour: [] };
+  ((data || []) as RpcRow[]).forEach((row) => {
+    const dimension = row.dimension as keyof ScanBreakdowns;
+    if (breakdowns[dimension]) {
+      breakdowns[dimension].push({ label: String(row.label), scans: toNumber(row.scans) });
+    }
+  });
+
+  // Always show all 24 hours in order, even the quiet ones
+  breakdowns.hour = Array.from({ length: 24 }, (_, hour) => {
+    const label = String(hour).padStart(2, '0');
+    return {
+      label,
+      scans: breakdowns.hour.find((item) => item.label === label)?.scans ?? 0
+    };
+  });
+
+  return breakdowns;
+};
+
+/**
+ * Period over period change, null when there is nothing to compare against
+ */
+export const percentChange = (current: number, previous: number): number | null => {
+  if (previous === 0) {
+    return current === 0 ? 0 : null;
+  }
+  return ((current - previous) / previous) * 100;
+};
+
+/**
+ * Format a change for display, e.g. "+12.5%" or "New"
+ */
+export const formatChange = (change: number | null): string => {
+  if (change === null) return 'New';
+  const rounded = Math.round(change * 10) / 10;
+  return `${rounded > 0 ? '+' : ''}${rounded}%`;
+};
+
+/**
+ * Share of scanners that came back more than once
+ */
+export const repeatRate = (uniqueScanners: number, repeatScanners: number): number => {
+  if (uniqueScanners === 0) return 0;
+  return (repeatScanners / uniqueScanners) * 100;
+};
+
+/**
+ * Short label for a time series bucket
+ */
+export const formatBucketLabel = (bucket: string, size: AnalyticsBucket): string => {
+  const date = new Date(bucket);
+  const label = date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  return size === 'week' ? `Wk of ${label}` : label;
+};
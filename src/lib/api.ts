@@ -0,0 +1,28 @@
+import { supabase } from './supabase';
+
+// Express API base URL, empty when the API is served from the same origin
+const apiUrl = import.meta.env.VITE_API_URL || '';
+
+/**
+ * Call the Express API with the current user's access token
+ */
+export const apiFetch = async <T>(path: string, options: RequestInit = {}): Promise<T> => {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const headers = new Headers(options.headers || {});
+  if (options.body && !headers.has('Content-Type')) {
+    headers.set('Content-Type', 'application/json');
+  }
+  if (session?.access_token) {
+    headers.set('Authorization', `Bearer ${session.access_token}`);
+  }
+
+  const response = await fetch(`${apiUrl}${path}`, { ...options, headers });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(body?.error || `Request failed with status ${response.status}`);
+  }
+
+  return body as T;
+};
@@ -0,0 +1,35 @@
+import { apiFetch } from './api';
+
+/**
+ * Pro plan billing, handled by the Express server
+ *
+ * Upgrading sends the browser to the billing provider's hosted checkout, card
+ * details never pass through the app. The provider's webhook updates
+ * `user_subscriptions`, so the plan can change a few moments after checkout
+ * returns to the dashboard with `?billing=success`.
+ */
+
+export interface CancellationState {
+  cancel_at_period_end: boolean;
+  current_period_end: string;
+}
+
+/**
+ * Go to the checkout page for the Pro plan
+ */
+export const startCheckout = async (): Promise<void> => {
+  const { url } = await apiFetch<{ url: string }>('/api/billing/checkout', { method: 'POST' });
+  window.location.assign(url);
+};
+
+/**
+ * Cancel Pro at the end of the paid period, the account then moves to Free
+ */
+export const cancelSubscription = (): Promise<CancellationState> =>
+  apiFetch<CancellationState>('/api/billing/cancel', { method: 'POST' });
+
+/**
+ * Undo a cancellation before the paid period ends
+ */
+export const resumeSubscription = (): Promise<CancellationState> =>
+  apiFetch<CancellationState>('/api/billing/resume', { method: 'POST' });
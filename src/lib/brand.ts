@@ -0,0 +1,79 @@
+import { supabase } from './supabase';
+
+/**
+ * The business's brand, kept on its profile
+ *
+ * Edited on the Settings page. The logo is shown in branded QR codes, the
+ * colors are offered as swatches when designing ads and QR codes.
+ */
+
+export interface BrandProfile {
+  business_name: string;
+  logo_url: string | null;
+  brand_primary_color: string | null;
+  brand_secondary_color: string | null;
+}
+
+export const MAX_LOGO_SIZE = 2 * 1024 * 1024;
+
+const BRAND_COLUMNS = 'business_name, logo_url, brand_primary_color, brand_secondary_color';
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export const getBrandProfile = async (userId: string): Promise<BrandProfile | null> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select(BRAND_COLUMNS)
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as BrandProfile | null;
+};
+
+export const updateBrandProfile = async (userId: string, changes: Partial<BrandProfile>) => {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', userId);
+
+  if (error) throw error;
+};
+
+/**
+ * Reason a file cannot be used as the logo, null when it can
+ */
+export const validateLogoFile = (file: File): string | null => {
+  if (!file.type.startsWith('image/')) return 'Choose an image file for the logo';
+  if (file.size > MAX_LOGO_SIZE) return 'The logo must be smaller than 2MB';
+  return null;
+};
+
+/**
+ * Upload a new logo and save it on the profile, resolves with its public URL
+ */
+export const uploadLogo = async (userId: string, file: File): Promise<string> => {
+  const fileExt = file.name.split('.').pop();
+  const { data, error: uploadError } = await supabase.storage
+    .from('ad_images')
+    .upload(`logo-${userId}-${Date.now()}.${fileExt}`, file, {
+      cacheControl: '3600',
+      contentType: file.type,
+    });
+
+  if (uploadError) throw uploadError;
+
+  const { data: { publicUrl } } = supabase.storage
+    .from('ad_images')
+    .getPublicUrl(data.path);
+
+  await updateBrandProfile(userId, { logo_url: publicUrl });
+  return publicUrl;
+};
+
+/**
+ * The brand colors that are set, upper case like the color pickers use
+ */
+export const getBrandColors = (profile: Pick<BrandProfile, 'brand_primary_color' | 'brand_secondary_color'> | null) =>
+  [profile?.brand_primary_color, profile?.brand_secondary_color]
+    .filter((color): color is string => typeof color === 'string' && HEX_COLOR.test(color))
+    .map((color) => color.toUpperCase());
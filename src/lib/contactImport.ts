@@ -0,0 +1,146 @@
+import { normalizePhone } from './phone';
+import { SpreadsheetData } from './spreadsheet';
+
+/**
+ * Contact import: map spreadsheet columns to contact fields, validate and
+ * normalize every row and report the rows that cannot be imported
+ *
+ * Row numbers in the report are the rows' own numbers in the file (the header
+ * is row 1, blank rows still count) so users can find the row in the file they
+ * uploaded.
+ */
+
+export const MAX_IMPORT_ROWS = 20000;
+
+export type ContactField = 'name' | 'first_name' | 'last_name' | 'phone' | 'email' | 'notes';
+
+export type ColumnMapping = Partial<Record<ContactField, number>>;
+
+export const CONTACT_FIELDS: { field: ContactField; label: string }[] = [
+  { field: 'phone', label: 'Phone' },
+  { field: 'name', label: 'Full name' },
+  { field: 'first_name', label: 'First name' },
+  { field: 'last_name', label: 'Last name' },
+  { field: 'email', label: 'Email' },
+  { field: 'notes', label: 'Notes' },
+];
+
+// Header names POS and CRM exports commonly use, compared without spaces/punctuation
+const HEADER_ALIASES: Record<ContactField, string[]> = {
+  phone: ['phone', 'phonenumber', 'mobile', 'mobilephone', 'mobilenumber', 'cell', 'cellphone', 'telephone', 'tel', 'sms', 'number'],
+  name: ['name', 'fullname', 'contactname', 'customer', 'customername', 'displayname'],
+  first_name: ['firstname', 'first', 'givenname', 'forename'],
+  last_name: ['lastname', 'last', 'surname', 'familyname'],
+  email: ['email', 'emailaddress', 'mail'],
+  notes: ['notes', 'note', 'comments', 'comment'],
+};
+
+export interface ImportContact {
+  row: number;
+  name: string;
+  phone: string;
+  email: string | null;
+  notes: string | null;
+}
+
+export interface RejectedRow {
+  row: number;
+  values: string[];
+  reason: string;
+}
+
+export interface ImportPlan {
+  contacts: ImportContact[];
+  rejected: RejectedRow[];
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Guess which column holds which field from the header row
+ */
+export const detectColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const normalized = headers.map(normalizeHeader);
+
+  (Object.keys(HEADER_ALIASES) as ContactField[]).forEach((field) => {
+    const index = normalized.findIndex((header, i) =>
+      HEADER_ALIASES[field].includes(header) && !Object.values(mapping).includes(i)
+    );
+    if (index !== -1) {
+      mapping[field] = index;
+    }
+  });
+
+  return mapping;
+};
+
+const cellValue = (row: string[], index: number | undefined) =>
+  index === undefined ? '' : (row[index] || '').trim();
+
+/**
+ * Validate and normalize rows, duplicates inside the file are rejected
+ */
+export const buildImportPlan = (
+  { rows, rowNumbers }: Pick<SpreadsheetData, 'rows' | 'rowNumbers'>,
+  mapping: ColumnMapping,
+  defaultCountry: string
+): ImportPlan => {
+  const contacts: ImportContact[] = [];
+  const rejected: RejectedRow[] = [];
+  const seen = new Map<string, number>();
+
+  rows.forEach((values, index) => {
+    const row = rowNumbers[index];
+    const reject = (reason: string) => rejected.push({ row, values, reason });
+
+    const phoneResult = normalizePhone(cellValue(values, mapping.phone), defaultCountry);
+    if (phoneResult.error !== undefined) {
+      reject(phoneResult.error);
+      return;
+    }
+
+    const phone = phoneResult.phone;
+    const firstRow = seen.get(phone);
+    if (firstRow !== undefined) {
+      reject(`Duplicate of row ${firstRow}`);
+      return;
+    }
+
+    const email = cellValue(values, mapping.email);
+    if (email && !EMAIL_PATTERN.test(email)) {
+      reject('Invalid email address');
+      return;
+    }
+
+    const name = cellValue(values, mapping.name)
+      || [cellValue(values, mapping.first_name), cellValue(values, mapping.last_name)].filter(Boolean).join(' ');
+
+    seen.set(phone, row);
+    contacts.push({
+      row,
+      // Contacts need a name, fall back to the number like a phone's address book does
+      name: name || phone,
+      phone,
+      email: email || null,
+      notes: cellValue(values, mapping.notes) || null,
+    });
+  });
+
+  return { contacts, rejected };
+};
+
+const csvCell = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+/**
+ * Rejected rows as CSV, with the reason added in front of the original columns
+ */
+export const rejectedRowsToCsv = (headers: string[], rejected: RejectedRow[]): string =>
+  [
+    ['Row', 'Reason', ...headers],
+    ...rejected.map(({ row, reason, values }) => [String(row), reason, ...values]),
+  ]
+    .map((cells) => cells.map(csvCell).join(','))
+    .join('\r\n');
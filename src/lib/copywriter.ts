@@ -0,0 +1,52 @@
+import { apiFetch } from './api';
+import type { SegmentInfo } from '../../shared/smsTemplate';
+
+/**
+ * Copywriting assistant, the Express server writes the copy (POST /api/ai/copy)
+ *
+ * Every request counts against the plan's monthly API calls. SMS copy comes
+ * back already checked against the segment budget.
+ */
+
+export type CopyTone = 'friendly' | 'professional' | 'playful' | 'urgent' | 'luxury';
+
+export const COPY_TONES: CopyTone[] = ['friendly', 'professional', 'playful', 'urgent', 'luxury'];
+
+export interface CopyBrief {
+  businessName: string;
+  offer: string;
+  tone: CopyTone;
+}
+
+export interface AdCopy {
+  headline: string;
+  subheadline: string;
+}
+
+export type SmsCopy = Omit<SegmentInfo, 'perSegment'> & { text: string };
+
+interface CopyResponse<T> {
+  variants: T[];
+}
+
+/**
+ * Headline and subheadline variants for an ad
+ */
+export const generateAdCopy = async (brief: CopyBrief): Promise<AdCopy[]> => {
+  const { variants } = await apiFetch<CopyResponse<AdCopy>>('/api/ai/copy', {
+    method: 'POST',
+    body: JSON.stringify({ kind: 'ad', ...brief }),
+  });
+  return variants;
+};
+
+/**
+ * SMS variants that fit in `maxSegments` segments
+ */
+export const generateSmsCopy = async (brief: CopyBrief, maxSegments: number): Promise<SmsCopy[]> => {
+  const { variants } = await apiFetch<CopyResponse<SmsCopy>>('/api/ai/copy', {
+    method: 'POST',
+    body: JSON.stringify({ kind: 'sms', maxSegments, ...brief }),
+  });
+  return variants;
+};
@@ -0,0 +1,55 @@
+import { supabase } from './supabase';
+
+/**
+ * What the signed in user's plan allows
+ *
+ * The rules live in `subscription_tiers` (limits and flags) and are enforced
+ * by the database, this is the same data for showing limits and locking
+ * features in the UI. A limit of null means unlimited.
+ */
+
+export type LimitKey = 'ad_spaces' | 'ad_designs' | 'qr_codes' | 'sms_per_month' | 'api_calls_per_month';
+
+export type FeatureFlag = 'sms' | 'custom_branding' | 'premium_templates';
+
+export interface Entitlements {
+  tier: string;
+  features: string[];
+  limits: Partial<Record<LimitKey, number | null>>;
+  flags: FeatureFlag[];
+  status: 'active' | 'past_due' | 'cancelled' | 'expired' | null;
+  current_period_end: string | null;
+  cancel_at_period_end: boolean;
+  reset_date: string | null;
+  usage: Record<LimitKey, number>;
+}
+
+/**
+ * Plan, limits and usage of the signed in user
+ */
+export const getEntitlements = async (): Promise<Entitlements> => {
+  const { data, error } = await supabase.rpc('get_entitlements');
+  if (error) throw error;
+  return data as Entitlements;
+};
+
+/**
+ * A plan limit, null for unlimited and 0 when the plan does not include it
+ */
+export const getLimit = (entitlements: Entitlements, key: LimitKey): number | null => {
+  const limit = entitlements.limits[key];
+  return limit === undefined ? 0 : limit;
+};
+
+/**
+ * How many more the plan allows, null for unlimited
+ */
+export const getRemaining = (entitlements: Entitlements, key: LimitKey): number | null => {
+  const limit = getLimit(entitlements, key);
+  return limit === null ? null : Math.max(0, limit - entitlements.usage[key]);
+};
+
+export const hasFeature = (entitlements: Entitlements, flag: FeatureFlag) =>
+  entitlements.flags.includes(flag);
+
+export const formatLimit = (limit: number | null) => (limit === null ? '∞' : limit.toLocaleString());
@@ -0,0 +1,10 @@
+/**
+ * Message from a thrown value, Supabase errors are not always Error instances
+ */
+export const getErrorMessage = (error: unknown, fallback: string): string => {
+  if (error && typeof error === 'object' && 'message' in error) {
+    const message = (error as { message?: unknown }).message;
+    if (typeof message === 'string' && message) return message;
+  }
+  return fallback;
+};
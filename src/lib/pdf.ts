@@ -0,0 +1,48 @@
+/**
+ * Write PDF files in the browser
+ *
+ * Only the file structure lives here, callers write the object dictionaries
+ * and content streams themselves.
+ */
+
+// One PDF object, its parts are concatenated so binary streams can sit between strings
+export type PdfObject = (string | Uint8Array)[];
+
+/**
+ * Build a PDF from objects numbered 1..n in order, object 1 is the catalog
+ */
+export const createPdf = (objects: PdfObject[]): Blob => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+
+  write('%PDF-1.4\n');
+  const offsets = objects.map((parts, index) => {
+    const offset = length;
+    write(`${index + 1} 0 obj\n`);
+    parts.forEach(write);
+    write('\nendobj\n');
+    return offset;
+  });
+
+  const xref = length;
+  write(`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach((offset) => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
+
+/**
+ * A stream object holding `data`, `dictionary` is everything but /Length
+ */
+export const pdfStream = (dictionary: string, data: Uint8Array): PdfObject => [
+  `<< ${dictionary ? `${dictionary} ` : ''}/Length ${data.length} >>\nstream\n`,
+  data,
+  '\nendstream',
+];
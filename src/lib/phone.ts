@@ -0,0 +1,105 @@
+/**
+ * Phone number normalization to E.164 ("+15551234567"), the only format
+ * contacts are stored in so the same person is never saved twice
+ *
+ * Numbers with a "+" or "00" prefix are taken as international. Anything else
+ * is read as a national number of the default country, with its trunk prefix
+ * (the leading 0 in most of Europe) removed.
+ */
+
+export interface PhoneCountry {
+  code: string;
+  name: string;
+  dialCode: string;
+  // Valid lengths of the national significant number
+  lengths: number[];
+}
+
+export const PHONE_COUNTRIES: PhoneCountry[] = [
+  { code: 'US', name: 'United States / Canada', dialCode: '1', lengths: [10] },
+  { code: 'GB', name: 'United Kingdom', dialCode: '44', lengths: [10] },
+  { code: 'IE', name: 'Ireland', dialCode: '353', lengths: [9] },
+  { code: 'AU', name: 'Australia', dialCode: '61', lengths: [9] },
+  { code: 'NZ', name: 'New Zealand', dialCode: '64', lengths: [8, 9, 10] },
+  { code: 'DE', name: 'Germany', dialCode: '49', lengths: [10, 11] },
+  { code: 'FR', name: 'France', dialCode: '33', lengths: [9] },
+  { code: 'ES', name: 'Spain', dialCode: '34', lengths: [9] },
+  { code: 'IT', name: 'Italy', dialCode: '39', lengths: [9, 10] },
+  { code: 'NL', name: 'Netherlands', dialCode: '31', lengths: [9] },
+  { code: 'MX', name: 'Mexico', dialCode: '52', lengths: [10] },
+  { code: 'BR', name: 'Brazil', dialCode: '55', lengths: [10, 11] },
+  { code: 'IN', name: 'India', dialCode: '91', lengths: [10] },
+  { code: 'ZA', name: 'South Africa', dialCode: '27', lengths: [9] },
+];
+
+export const DEFAULT_PHONE_COUNTRY = 'US';
+
+export type PhoneResult =
+  | { phone: string; error?: undefined }
+  | { phone?: undefined; error: string };
+
+/**
+ * Normalize a phone number typed by hand or exported from another system
+ */
+export const normalizePhone = (raw: string, defaultCountry = DEFAULT_PHONE_COUNTRY): PhoneResult => {
+  // Spreadsheets often turn numbers into "1.5551234567E10" or "5551234567.0"
+  let value = (raw || '').trim();
+  if (/^\d+(\.\d+)?e\+?\d+$/i.test(value)) {
+    value = Number(value).toFixed(0);
+  }
+  value = value.replace(/\.0+$/, '');
+
+  // Drop extensions ("x123", "ext. 12")
+  value = value.replace(/\s*(x|ext\.?|extension)\s*\d+$/i, '');
+
+  if (!value) {
+    return { error: 'Phone number is empty' };
+  }
+  if (/[a-z]/i.test(value)) {
+    return { error: 'Phone number contains letters' };
+  }
+
+  const hasPlus = value.startsWith('+');
+  let digits = value.replace(/\D/g, '');
+
+  if (!hasPlus && digits.startsWith('00')) {
+    digits = digits.slice(2);
+  } else if (!hasPlus) {
+    const country = PHONE_COUNTRIES.find((c) => c.code === defaultCountry);
+    if (!country) {
+      return { error: `Unknown country ${defaultCountry}` };
+    }
+
+    if (country.dialCode === '1' && digits.length === 11 && digits.startsWith('1')) {
+      // US/Canada numbers written with the leading 1
+      digits = digits.slice(1);
+    } else if (country.dialCode !== '1' && digits.startsWith('0')) {
+      digits = digits.slice(1);
+    } else if (
+      digits.startsWith(country.dialCode)
+      && country.lengths.includes(digits.length - country.dialCode.length)
+    ) {
+      // Already has the country code, just no "+"
+      digits = digits.slice(country.dialCode.length);
+    }
+
+    if (!country.lengths.includes(digits.length)) {
+      return { error: `Not a valid ${country.name} phone number` };
+    }
+    digits = country.dialCode + digits;
+  }
+
+  if (digits.startsWith('0')) {
+    return { error: 'Country code cannot start with 0' };
+  }
+  if (digits.length < 8 || digits.length > 15) {
+    return { error: 'Phone number has the wrong number of digits' };
+  }
+
+  // US/Canada area codes never start with 0 or 1
+  if (digits.startsWith('1') && (digits.length !== 11 || /^1[01]/.test(digits))) {
+    return { error: 'Not a valid United States / Canada phone number' };
+  }
+
+  return { phone: `+${digits}` };
+};
@@ -0,0 +1,268 @@
+import { toCanvas } from 'html-to-image';
+import { createPdf, pdfStream } from './pdf';
+import { canvasToBlob, setPngDpi } from './qrExport';
+
+/**
+ * Printable flyers, posters and table tents
+ *
+ * A layout places the ad's image, a headline and the ad's QR code on one
+ * panel of a page template. Positions and sizes are fractions of the panel so
+ * a layout keeps its look when the template changes; font sizes are points.
+ * Exports render the editor's DOM, so the file matches what was designed.
+ */
+
+export type PrintTemplateId = 'letter' | 'a4' | 'postcard' | 'table-tent';
+
+export type PrintFormat = 'png' | 'pdf';
+
+export interface PrintTemplate {
+  id: PrintTemplateId;
+  label: string;
+  description: string;
+  // Panel being designed, in inches
+  width: number;
+  height: number;
+  // A folded template prints the panel twice, the top copy upside down
+  folded: boolean;
+}
+
+export interface PrintLayout {
+  template: PrintTemplateId;
+  background: string;
+  image: { visible: boolean; x: number; y: number; width: number; height: number };
+  headline: {
+    visible: boolean;
+    text: string;
+    x: number;
+    y: number;
+    width: number;
+    fontSize: number;
+    color: string;
+    align: 'left' | 'center' | 'right';
+  };
+  // The QR code is square, its size is a fraction of the panel width
+  qr: { visible: boolean; x: number; y: number; size: number };
+}
+
+export type PrintElement = 'image' | 'headline' | 'qr';
+
+export const PRINT_TEMPLATES: PrintTemplate[] = [
+  { id: 'letter', label: 'Letter flyer', description: '8.5 x 11 in', width: 8.5, height: 11, folded: false },
+  { id: 'a4', label: 'A4 flyer', description: '210 x 297 mm', width: 210 / 25.4, height: 297 / 25.4, folded: false },
+  { id: 'postcard', label: 'Postcard', description: '4 x 6 in', width: 4, height: 6, folded: false },
+  {
+    id: 'table-tent',
+    label: 'Table tent',
+    description: 'Letter sheet folded in half, 8.5 x 5.5 in per side',
+    width: 8.5,
+    height: 5.5,
+    folded: true,
+  },
+];
+
+export const PRINT_DPI = 300;
+
+const POINTS_PER_INCH = 72;
+
+// Length of the fold marks at the edges of folded templates
+const FOLD_MARK_INCHES = 0.25;
+
+export const getPrintTemplate = (id: PrintTemplateId) =>
+  PRINT_TEMPLATES.find((template) => template.id === id) || PRINT_TEMPLATES[0];
+
+/**
+ * Printed sheet size in inches, folded templates stack two panels
+ */
+export const getPrintSheetSize = (template: PrintTemplate) => ({
+  width: template.width,
+  height: template.folded ? template.height * 2 : template.height,
+});
+
+/**
+ * Pixels per point for a panel shown `panelWidth` pixels wide
+ */
+export const getPrintScale = (template: PrintTemplate, panelWidth: number) =>
+  panelWidth / (template.width * POINTS_PER_INCH);
+
+/**
+ * Starting layout for a template, wide panels put the image beside the text
+ */
+export const getDefaultPrintLayout = (
+  templateId: PrintTemplateId,
+  { headline, background }: { headline: string; background: string }
+): PrintLayout => {
+  const template = getPrintTemplate(templateId);
+  const isWide = template.width > template.height;
+  // Headline size in points, relative to the panel so postcards get smaller text
+  const fontSize = Math.round(Math.min(template.width, template.height) * (isWide ? 4 : 5));
+
+  if (isWide) {
+    return {
+      template: templateId,
+      background,
+      image: { visible: true, x: 0, y: 0, width: 0.5, height: 1 },
+      headline: { visible: true, text: headline, x: 0.54, y: 0.08, width: 0.42, fontSize, color: '#111827', align: 'center' },
+      qr: { visible: true, x: 0.6, y: 0.4, size: 0.3 },
+    };
+  }
+
+  const qrSize = 0.34;
+  return {
+    template: templateId,
+    background,
+    image: { visible: true, x: 0, y: 0, width: 1, height: 0.5 },
+    headline: { visible: true, text: headline, x: 0.08, y: 0.53, width: 0.84, fontSize, color: '#111827', align: 'center' },
+    qr: { visible: true, x: (1 - qrSize) / 2, y: 0.68, size: qrSize },
+  };
+};
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * A layout read from `ad_designs.print_layout`, missing or invalid values
+ * fall back to the template's defaults
+ */
+export const normalizePrintLayout = (
+  raw: unknown,
+  defaults: { headline: string; background: string }
+): PrintLayout => {
+  const saved = isRecord(raw) ? raw : {};
+  const templateId = PRINT_TEMPLATES.some((template) => template.id === saved.template)
+    ? (saved.template as PrintTemplateId)
+    : 'letter';
+  const fallback = getDefaultPrintLayout(templateId, defaults);
+
+  const image = isRecord(saved.image) ? saved.image : {};
+  const headline = isRecord(saved.headline) ? saved.headline : {};
+  const qr = isRecord(saved.qr) ? saved.qr : {};
+  const color = (value: unknown, other: string) =>
+    typeof value === 'string' && HEX_COLOR.test(value) ? value : other;
+
+  return {
+    template: templateId,
+    background: color(saved.background, fallback.background),
+    image: {
+      visible: typeof image.visible === 'boolean' ? image.visible : fallback.image.visible,
+      x: clamp(image.x, 0, 1, fallback.image.x),
+      y: clamp(image.y, 0, 1, fallback.image.y),
+      width: clamp(image.width, 0.05, 1, fallback.image.width),
+      height: clamp(image.height, 0.05, 1, fallback.image.height),
+    },
+    headline: {
+      visible: typeof headline.visible === 'boolean' ? headline.visible : fallback.headline.visible,
+      text: typeof headline.text === 'string' ? headline.text : fallback.headline.text,
+      x: clamp(headline.x, 0, 1, fallback.headline.x),
+      y: clamp(headline.y, 0, 1, fallback.headline.y),
+      width: clamp(headline.width, 0.1, 1, fallback.headline.width),
+      fontSize: clamp(headline.fontSize, 6, 200, fallback.headline.fontSize),
+      color: color(headline.color, fallback.headline.color),
+      align: headline.align === 'left' || headline.align === 'right' ? headline.align : 'center',
+    },
+    qr: {
+      visible: typeof qr.visible === 'boolean' ? qr.visible : fallback.qr.visible,
+      x: clamp(qr.x, 0, 1, fallback.qr.x),
+      y: clamp(qr.y, 0, 1, fallback.qr.y),
+      size: clamp(qr.size, 0.05, 1, fallback.qr.size),
+    },
+  };
+};
+
+/**
+ * Move an element by a drag distance in pixels, keeping it on the panel
+ */
+export const movePrintElement = (
+  layout: PrintLayout,
+  element: PrintElement,
+  delta: { x: number; y: number },
+  panel: { width: number; height: number }
+): PrintLayout => {
+  const aspect = panel.width / panel.height;
+  const box = element === 'qr'
+    ? { ...layout.qr, width: layout.qr.size, height: layout.qr.size * aspect }
+    : element === 'image'
+      ? layout.image
+      : { ...layout.headline, height: 0 };
+
+  const x = Math.min(1 - box.width, Math.max(0, box.x + delta.x / panel.width));
+  const y = Math.min(1 - box.height, Math.max(0, box.y + delta.y / panel.height));
+
+  return { ...layout, [element]: { ...layout[element], x, y } };
+};
+
+/**
+ * Render the editor panel into a print file at PRINT_DPI
+ */
+export const exportPrintLayout = async (
+  panel: HTMLElement,
+  template: PrintTemplate,
+  format: PrintFormat
+): Promise<Blob> => {
+  const panelWidth = Math.round(template.width * PRINT_DPI);
+  const panelHeight = Math.round(template.height * PRINT_DPI);
+  const rendered = await toCanvas(panel, {
+    pixelRatio: panelWidth / panel.offsetWidth,
+    cacheBust: true,
+  });
+
+  const sheet = getPrintSheetSize(template);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sheet.width * PRINT_DPI);
+  canvas.height = Math.round(sheet.height * PRINT_DPI);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported');
+
+  context.fillStyle = '#FFFFFF';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+
+  if (template.folded) {
+    // The top half is the back of the tent, upside down until folded
+    context.save();
+    context.translate(panelWidth, panelHeight);
+    context.rotate(Math.PI);
+    context.drawImage(rendered, 0, 0, panelWidth, panelHeight);
+    context.restore();
+    context.drawImage(rendered, 0, panelHeight, panelWidth, panelHeight);
+
+    const mark = FOLD_MARK_INCHES * PRINT_DPI;
+    context.strokeStyle = '#9CA3AF';
+    context.lineWidth = 2;
+    context.beginPath();
+    context.moveTo(0, panelHeight);
+    context.lineTo(mark, panelHeight);
+    context.moveTo(panelWidth - mark, panelHeight);
+    context.lineTo(panelWidth, panelHeight);
+    context.stroke();
+  } else {
+    context.drawImage(rendered, 0, 0, panelWidth, panelHeight);
+  }
+
+  if (format === 'png') {
+    return setPngDpi(await canvasToBlob(canvas, 'image/png'), PRINT_DPI);
+  }
+
+  const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.95)).arrayBuffer());
+  const pageWidth = Math.round(sheet.width * POINTS_PER_INCH * 100) / 100;
+  const pageHeight = Math.round(sheet.height * POINTS_PER_INCH * 100) / 100;
+  const content = new TextEncoder().encode(`q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Page Do Q`);
+
+  return createPdf([
+    ['<< /Type /Catalog /Pages 2 0 R >>'],
+    ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+    [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /TrimBox [0 0 ${pageWidth} ${pageHeight}]`
+      + ' /Resources << /XObject << /Page 5 0 R >> >> /Contents 4 0 R >>',
+    ],
+    pdfStream('', content),
+    pdfStream(
+      `/Type /XObject /Subtype /Image /Width ${canvas.width} /Height ${canvas.height}`
+      + ' /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode',
+      jpeg
+    ),
+  ]);
+};
@@ -0,0 +1,134 @@
+import { supabase } from './supabase';
+import { getQrCodeShortUrl } from './qrCodes';
+import { QrDesign, buildQrScene, normalizeQrDesign } from './qrDesign';
+import { DEFAULT_QR_EXPORT_OPTIONS, QrExportFormat, exportQrCode, getQrExportFileName } from './qrExport';
+import { createZip, ZipFile } from './zip';
+
+/**
+ * Bulk QR codes
+ *
+ * A batch is one code per flyer, table tent or store location, all opening the
+ * same ad space. Each code gets a tracking ID (e.g. SPRING-007) that can be
+ * printed next to it, so a scan can be traced back to where it happened.
+ */
+
+export const MAX_BATCH_SIZE = 1000;
+
+export interface QrCodeBatch {
+  id: string;
+  name: string;
+  ad_space_id: string | null;
+  tracking_prefix: string;
+  created_at: string;
+}
+
+export interface BatchQrCode {
+  id: string;
+  name: string;
+  short_code: string;
+  tracking_id: string;
+  batch_sequence: number;
+  design: unknown;
+  scans: number | null;
+}
+
+const LABEL_HEADERS = ['label', 'name', 'location', 'store', 'table', 'flyer', 'placement'];
+
+/**
+ * The spreadsheet column most likely to hold the labels
+ */
+export const detectLabelColumn = (headers: string[]): number => {
+  const index = headers.findIndex((header) => LABEL_HEADERS.includes(header.trim().toLowerCase()));
+  return index === -1 ? 0 : index;
+};
+
+/**
+ * Labels typed or pasted one per line
+ */
+export const parseLabelList = (text: string): string[] =>
+  text.split(/\r?\n/).map((line) => line.trim()).filter(Boolean);
+
+/**
+ * Create a batch, the codes are numbered in the order of the labels
+ */
+export const createQrCodeBatch = async (batch: {
+  name: string;
+  adSpaceId: string;
+  labels: string[];
+  trackingPrefix?: string;
+  design?: QrDesign | Record<string, never>;
+}): Promise<QrCodeBatch> => {
+  const { data, error } = await supabase
+    .rpc('create_qr_code_batch', {
+      p_name: batch.name,
+      p_ad_space_id: batch.adSpaceId,
+      p_labels: batch.labels,
+      p_tracking_prefix: batch.trackingPrefix || null,
+      p_design: batch.design || {},
+    })
+    .single<QrCodeBatch>();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * The codes of a batch in tracking ID order
+ */
+export const getBatchQrCodes = async (batchId: string): Promise<BatchQrCode[]> => {
+  const { data, error } = await supabase
+    .from('qr_codes')
+    .select('id, name, short_code, tracking_id, batch_sequence, design, scans')
+    .eq('batch_id', batchId)
+    .order('batch_sequence')
+    .range(0, MAX_BATCH_SIZE - 1);
+
+  if (error) throw error;
+  return data || [];
+};
+
+const csvCell = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const batchFilePath = (code: BatchQrCode, format: QrExportFormat) =>
+  `codes/${getQrExportFileName(`${code.tracking_id} ${code.name}`, format)}`;
+
+/**
+ * One row per code, for matching printed codes to their labels and scans
+ */
+export const buildBatchManifestCsv = (batch: QrCodeBatch, codes: BatchQrCode[], format: QrExportFormat): string =>
+  [
+    ['Tracking ID', 'Label', 'Short URL', 'File', 'Scans', 'Batch'],
+    ...codes.map((code) => [
+      code.tracking_id,
+      code.name,
+      getQrCodeShortUrl(code.short_code),
+      batchFilePath(code, format),
+      String(code.scans || 0),
+      batch.name,
+    ]),
+  ]
+    .map((cells) => cells.map(csvCell).join(','))
+    .join('\r\n');
+
+/**
+ * A ZIP with one image per code and manifest.csv, `onProgress` gets the
+ * number of images rendered so far
+ */
+export const buildBatchZip = async (
+  batch: QrCodeBatch,
+  codes: BatchQrCode[],
+  format: QrExportFormat,
+  onProgress?: (done: number) => void
+): Promise<Blob> => {
+  const files: ZipFile[] = [];
+
+  for (const code of codes) {
+    const scene = buildQrScene(getQrCodeShortUrl(code.short_code), normalizeQrDesign(code.design), { level: 'H' });
+    const blob = await exportQrCode(scene, { ...DEFAULT_QR_EXPORT_OPTIONS, format });
+    files.push({ name: batchFilePath(code, format), data: new Uint8Array(await blob.arrayBuffer()) });
+    onProgress?.(files.length);
+  }
+
+  files.push({ name: 'manifest.csv', data: buildBatchManifestCsv(batch, codes, format) });
+  return createZip(files);
+};
@@ -0,0 +1,55 @@
+import { supabase } from './supabase';
+
+/**
+ * Dynamic QR codes
+ *
+ * A printed code only contains /q/<short_code>. Where it leads is looked up
+ * when it is scanned, so the destination can change after printing and every
+ * change is kept in `qr_code_destinations`.
+ */
+
+export interface QrCodeDestination {
+  id: string;
+  url: string | null;
+  ad_space_id: string | null;
+  active_from: string;
+  active_to: string | null;
+}
+
+export interface AdSpaceQrCode {
+  id: string;
+  short_code: string;
+  // Branding saved on the QR Codes page, see normalizeQrDesign
+  design: unknown;
+}
+
+/**
+ * The URL encoded in the QR image
+ */
+export const getQrCodeShortUrl = (shortCode: string) => `${window.location.origin}/q/${shortCode}`;
+
+/**
+ * The Ad Builder's code for an ad space, created the first time it is needed
+ */
+export const ensureAdSpaceQrCode = async (adSpaceId: string): Promise<AdSpaceQrCode> => {
+  const { data, error } = await supabase
+    .rpc('ensure_ad_space_qr_code', { p_ad_space_id: adSpaceId })
+    .single<AdSpaceQrCode>();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Past and current destinations of a code, newest first
+ */
+export const getQrCodeDestinations = async (qrCodeId: string): Promise<QrCodeDestination[]> => {
+  const { data, error } = await supabase
+    .from('qr_code_destinations')
+    .select('id, url, ad_space_id, active_from, active_to')
+    .eq('qr_code_id', qrCodeId)
+    .order('active_from', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
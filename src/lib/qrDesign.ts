@@ -0,0 +1,285 @@
+import QRCodeLib from 'qrcode';
+
+/**
+ * Branded QR codes
+ *
+ * A design is saved per QR code in `qr_codes.design` and drawn from the same
+ * geometry everywhere (dashboard preview, downloads), so what is printed is
+ * what the dashboard shows. Geometry is in module units: one module is one
+ * square of the QR grid, the quiet zone and caption frame included.
+ */
+
+export type QrModuleStyle = 'square' | 'rounded' | 'dots';
+
+export type QrErrorLevel = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrDesign {
+  fgColor: string;
+  bgColor: string;
+  moduleStyle: QrModuleStyle;
+  logoUrl: string | null;
+  // Shown in a frame under the code, null for no frame
+  caption: string | null;
+}
+
+export const DEFAULT_QR_DESIGN: QrDesign = {
+  fgColor: '#000000',
+  bgColor: '#FFFFFF',
+  moduleStyle: 'square',
+  logoUrl: null,
+  caption: null,
+};
+
+export const DEFAULT_QR_CAPTION = 'Scan me';
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const MODULE_STYLES: QrModuleStyle[] = ['square', 'rounded', 'dots'];
+
+/**
+ * A complete design from whatever is stored in `qr_codes.design`
+ */
+export const normalizeQrDesign = (raw: unknown): QrDesign => {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+  return {
+    fgColor: typeof value.fgColor === 'string' && HEX_COLOR.test(value.fgColor) ? value.fgColor : DEFAULT_QR_DESIGN.fgColor,
+    bgColor: typeof value.bgColor === 'string' && HEX_COLOR.test(value.bgColor) ? value.bgColor : DEFAULT_QR_DESIGN.bgColor,
+    moduleStyle: MODULE_STYLES.includes(value.moduleStyle as QrModuleStyle)
+      ? value.moduleStyle as QrModuleStyle
+      : DEFAULT_QR_DESIGN.moduleStyle,
+    logoUrl: typeof value.logoUrl === 'string' && value.logoUrl ? value.logoUrl : null,
+    caption: typeof value.caption === 'string' && value.caption.trim() ? value.caption.trim().slice(0, 40) : null,
+  };
+};
+
+/**
+ * Whether a design uses any branding (a Pro feature)
+ */
+export const isBrandedQrDesign = (design: QrDesign) =>
+  design.fgColor.toUpperCase() !== DEFAULT_QR_DESIGN.fgColor
+  || design.bgColor.toUpperCase() !== DEFAULT_QR_DESIGN.bgColor
+  || design.moduleStyle !== DEFAULT_QR_DESIGN.moduleStyle
+  || design.logoUrl !== null
+  || design.caption !== null;
+
+const luminance = (hex: string) => {
+  const [r, g, b] = [1, 3, 5].map((i) => {
+    const channel = parseInt(hex.slice(i, i + 2), 16) / 255;
+    return channel <= 0.03928 ? channel / 12.92 : ((channel + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+/**
+ * Reasons a design may not scan reliably, empty when it looks fine
+ */
+export const getQrDesignWarnings = (design: QrDesign): string[] => {
+  const warnings: string[] = [];
+  const fg = luminance(design.fgColor);
+  const bg = luminance(design.bgColor);
+  const contrast = (Math.max(fg, bg) + 0.05) / (Math.min(fg, bg) + 0.05);
+
+  if (fg > bg) {
+    warnings.push('Light codes on a dark background do not scan on some phones, use a darker foreground');
+  }
+  if (contrast < 4) {
+    warnings.push('The colors are too close together, pick a darker foreground or lighter background');
+  }
+  return warnings;
+};
+
+export interface QrGeometry {
+  // Width and height of the whole image in modules
+  width: number;
+  height: number;
+  // Top left of the QR grid, inside the quiet zone and frame
+  offset: number;
+  // Dark modules, finder patterns and the logo area are left out
+  modules: { x: number; y: number }[];
+  // Top left corners of the three 7x7 finder patterns
+  finders: { x: number; y: number }[];
+  logo: { x: number; y: number; size: number } | null;
+  frame: { captionY: number; captionHeight: number } | null;
+  errorLevel: QrErrorLevel;
+}
+
+const FINDER_SIZE = 7;
+const FRAME_WIDTH = 1;
+const CAPTION_HEIGHT = 6;
+
+/**
+ * Lay out a QR code. A logo forces error correction to H, the highest level,
+ * so the modules it covers can be recovered by scanners
+ */
+export const buildQrGeometry = (
+  value: string,
+  design: QrDesign,
+  { level = 'M', margin = 4 }: { level?: QrErrorLevel; margin?: number } = {}
+): QrGeometry => {
+  const errorLevel: QrErrorLevel = design.logoUrl ? 'H' : level;
+  const { modules: matrix } = QRCodeLib.create(value || ' ', { errorCorrectionLevel: errorLevel });
+  const count = matrix.size;
+
+  // A frame needs some quiet zone between itself and the code
+  const quietZone = design.caption ? Math.max(margin, 2) : margin;
+  const frameWidth = design.caption ? FRAME_WIDTH : 0;
+  const offset = frameWidth + quietZone;
+  const width = count + 2 * offset;
+  const height = design.caption ? width + CAPTION_HEIGHT - frameWidth : width;
+
+  const finders = [
+    { x: 0, y: 0 },
+    { x: count - FINDER_SIZE, y: 0 },
+    { x: 0, y: count - FINDER_SIZE },
+  ];
+  const inFinder = (x: number, y: number) =>
+    finders.some((finder) => x >= finder.x && x < finder.x + FINDER_SIZE && y >= finder.y && y < finder.y + FINDER_SIZE);
+
+  // About a fifth of the width, well inside what level H can recover
+  let logo: QrGeometry['logo'] = null;
+  if (design.logoUrl) {
+    const logoSize = Math.floor(count * 0.22) | 1;
+    const start = Math.floor((count - logoSize) / 2);
+    logo = { x: start, y: start, size: logoSize };
+  }
+  const inLogo = (x: number, y: number) =>
+    logo !== null && x >= logo.x - 1 && x < logo.x + logo.size + 1 && y >= logo.y - 1 && y < logo.y + logo.size + 1;
+
+  const modules: QrGeometry['modules'] = [];
+  for (let y = 0; y < count; y++) {
+    for (let x = 0; x < count; x++) {
+      if (matrix.get(y, x) && !inFinder(x, y) && !inLogo(x, y)) {
+        modules.push({ x: x + offset, y: y + offset });
+      }
+    }
+  }
+
+  return {
+    width,
+    height,
+    offset,
+    modules,
+    finders: finders.map((finder) => ({ x: finder.x + offset, y: finder.y + offset })),
+    logo: logo && { x: logo.x + offset, y: logo.y + offset, size: logo.size },
+    frame: design.caption ? { captionY: width - frameWidth, captionHeight: CAPTION_HEIGHT } : null,
+    errorLevel,
+  };
+};
+
+// Drawing commands in module units, y pointing down like SVG. Exporters
+// turn them into SVG, PDF or PostScript paths
+export type QrPathCommand =
+  | ['M', number, number]
+  | ['L', number, number]
+  | ['C', number, number, number, number, number, number]
+  | ['Z'];
+
+export interface QrScene {
+  width: number;
+  height: number;
+  // Also fills the bleed around exports
+  background: string;
+  // Filled in order with the even-odd rule, so finder rings keep their holes
+  layers: { color: string; path: QrPathCommand[] }[];
+  logo: { url: string; x: number; y: number; size: number } | null;
+  // `y` is the text baseline
+  caption: { text: string; x: number; y: number; fontSize: number; color: string } | null;
+}
+
+// Control point distance for drawing quarter circles with cubic curves
+const KAPPA = 0.5523;
+
+const roundedRect = (x: number, y: number, w: number, h: number, r: number): QrPathCommand[] => {
+  const k = r * KAPPA;
+  return [
+    ['M', x + r, y],
+    ['L', x + w - r, y],
+    ['C', x + w - r + k, y, x + w, y + r - k, x + w, y + r],
+    ['L', x + w, y + h - r],
+    ['C', x + w, y + h - r + k, x + w - r + k, y + h, x + w - r, y + h],
+    ['L', x + r, y + h],
+    ['C', x + r - k, y + h, x, y + h - r + k, x, y + h - r],
+    ['L', x, y + r],
+    ['C', x, y + r - k, x + r - k, y, x + r, y],
+    ['Z'],
+  ];
+};
+
+const rect = (x: number, y: number, w: number, h: number): QrPathCommand[] => [
+  ['M', x, y],
+  ['L', x + w, y],
+  ['L', x + w, y + h],
+  ['L', x, y + h],
+  ['Z'],
+];
+
+const moduleShape = (x: number, y: number, style: QrModuleStyle): QrPathCommand[] => {
+  if (style === 'dots') return roundedRect(x + 0.05, y + 0.05, 0.9, 0.9, 0.45);
+  if (style === 'rounded') return roundedRect(x + 0.05, y + 0.05, 0.9, 0.9, 0.3);
+  return rect(x, y, 1, 1);
+};
+
+// Rounded unless the style is square, so they match the modules
+const finderShape = (x: number, y: number, style: QrModuleStyle): QrPathCommand[] => {
+  if (style === 'square') {
+    return [...rect(x, y, 7, 7), ...rect(x + 1, y + 1, 5, 5), ...rect(x + 2, y + 2, 3, 3)];
+  }
+  return [
+    ...roundedRect(x, y, 7, 7, 2),
+    ...roundedRect(x + 1, y + 1, 5, 5, 1.5),
+    ...roundedRect(x + 2, y + 2, 3, 3, 1),
+  ];
+};
+
+/**
+ * Everything needed to draw a QR code, shared by the dashboard preview and
+ * every export format
+ */
+export const buildQrScene = (
+  value: string,
+  design: QrDesign,
+  options: { level?: QrErrorLevel; margin?: number } = {}
+): QrScene => {
+  const geometry = buildQrGeometry(value, design, options);
+  const { width, height, frame, logo } = geometry;
+  const layers: QrScene['layers'] = [];
+
+  if (frame) {
+    layers.push({ color: design.fgColor, path: roundedRect(0, 0, width, height, 2) });
+    layers.push({ color: design.bgColor, path: roundedRect(1, 1, width - 2, width - 2, 1) });
+  } else {
+    layers.push({ color: design.bgColor, path: rect(0, 0, width, height) });
+  }
+
+  layers.push({
+    color: design.fgColor,
+    path: [
+      ...geometry.modules.flatMap(({ x, y }) => moduleShape(x, y, design.moduleStyle)),
+      ...geometry.finders.flatMap(({ x, y }) => finderShape(x, y, design.moduleStyle)),
+    ],
+  });
+
+  if (logo && design.logoUrl) {
+    layers.push({ color: design.bgColor, path: roundedRect(logo.x, logo.y, logo.size, logo.size, 1) });
+  }
+
+  // Long captions shrink to fit inside the frame, bold sans-serif glyphs average about 0.62em
+  const fontSize = design.caption ? Math.min(3, (width - 4) / (design.caption.length * 0.62)) : 3;
+
+  return {
+    width,
+    height,
+    background: design.bgColor,
+    layers,
+    logo: logo && design.logoUrl ? { url: design.logoUrl, ...logo } : null,
+    caption: frame && design.caption
+      ? {
+        text: design.caption,
+        x: width / 2,
+        y: frame.captionY + frame.captionHeight / 2 + fontSize * 0.35,
+        fontSize,
+        color: design.bgColor,
+      }
+      : null,
+  };
+};
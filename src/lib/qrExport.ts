@@ -0,0 +1,422 @@
+import { QrPathCommand, QrScene } from './qrDesign';
+import { createPdf, PdfObject, pdfStream } from './pdf';
+import { crc32 } from './zip';
+
+/**
+ * QR code files for print
+ *
+ * Every format is drawn from the same scene as the dashboard preview. The
+ * physical size is the trim size of the whole image (quiet zone and caption
+ * frame included), bleed is extra background around it for the printer to cut
+ * into.
+ */
+
+export type QrExportFormat = 'png' | 'pdf' | 'eps' | 'svg';
+
+export type QrExportUnit = 'mm' | 'in';
+
+export interface QrExportOptions {
+  format: QrExportFormat;
+  // Width of the trimmed image, the height follows the design
+  width: number;
+  unit: QrExportUnit;
+  // PNG only
+  dpi: number;
+  // PDF and EPS only, in `unit`
+  bleed: number;
+}
+
+export const QR_EXPORT_FORMATS: { value: QrExportFormat; label: string; description: string }[] = [
+  { value: 'png', label: 'PNG', description: 'High resolution image at a chosen DPI' },
+  { value: 'pdf', label: 'PDF', description: 'Vector, at the exact printed size' },
+  { value: 'eps', label: 'EPS', description: 'Vector for print shops, with bleed' },
+  { value: 'svg', label: 'SVG', description: 'Vector for the web and design tools' },
+];
+
+export const DEFAULT_QR_EXPORT_OPTIONS: QrExportOptions = {
+  format: 'png',
+  width: 50,
+  unit: 'mm',
+  dpi: 300,
+  bleed: 0,
+};
+
+const MM_PER_INCH = 25.4;
+const POINTS_PER_INCH = 72;
+// Browsers refuse to create canvases much larger than this
+const MAX_PNG_SIDE = 8000;
+
+const toInches = (value: number, unit: QrExportUnit) => (unit === 'in' ? value : value / MM_PER_INCH);
+
+const toPoints = (value: number, unit: QrExportUnit) => toInches(value, unit) * POINTS_PER_INCH;
+
+/**
+ * Pixel size of a PNG export
+ */
+export const getQrPngSize = (scene: QrScene, options: QrExportOptions) => {
+  const width = Math.round(toInches(options.width, options.unit) * options.dpi);
+  return { width, height: Math.round(width * scene.height / scene.width) };
+};
+
+/**
+ * Problems with export options, null when they can be used
+ */
+export const validateQrExportOptions = (scene: QrScene, options: QrExportOptions): string | null => {
+  if (!(options.width > 0)) return 'Enter a size larger than zero';
+  if (options.bleed < 0) return 'Bleed cannot be negative';
+
+  if (options.format === 'png') {
+    const { width, height } = getQrPngSize(scene, options);
+    if (Math.max(width, height) > MAX_PNG_SIDE) {
+      return `That is ${width} x ${height} pixels, lower the size or DPI, or use PDF or EPS`;
+    }
+  }
+  return null;
+};
+
+/**
+ * File name for a download, from the QR code or ad name
+ */
+export const getQrExportFileName = (name: string, extension: QrExportFormat | 'zip') => {
+  const slug = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${slug || 'qr-code'}.${extension}`;
+};
+
+const num = (value: number) => String(Math.round(value * 1000) / 1000);
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * SVG path data for scene commands
+ */
+export const toSvgPath = (path: QrPathCommand[]) =>
+  path.map(([command, ...points]) => command + points.map(num).join(',')).join('');
+
+/**
+ * SVG markup for a scene. `logoHref` replaces the logo URL (e.g. with a data
+ * URL), `width` and `height` set a size with units such as "50mm"
+ */
+export const renderQrSvg = (scene: QrScene, { logoHref, width, height }: { logoHref?: string; width?: string; height?: string } = {}) => {
+  const dimensions = width && height ? ` width="${width}" height="${height}"` : '';
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${num(scene.width)} ${num(scene.height)}"${dimensions}>`,
+    ...scene.layers.map(({ color, path }) => `<path d="${toSvgPath(path)}" fill="${color}" fill-rule="evenodd"/>`),
+  ];
+
+  if (scene.logo) {
+    const { x, y, size } = scene.logo;
+    parts.push(
+      `<image href="${escapeXml(logoHref || scene.logo.url)}" x="${x}" y="${y}" width="${size}" height="${size}"`
+      + ' preserveAspectRatio="xMidYMid meet"/>'
+    );
+  }
+
+  if (scene.caption) {
+    const { text, x, y, fontSize, color } = scene.caption;
+    parts.push(
+      `<text x="${num(x)}" y="${num(y)}" fill="${color}" font-family="Helvetica, Arial, sans-serif"`
+      + ` font-size="${fontSize}" font-weight="bold" text-anchor="middle">${escapeXml(text)}</text>`
+    );
+  }
+
+  parts.push('</svg>');
+  return parts.join('');
+};
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image'));
+    image.src = src;
+  });
+
+const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Encode a canvas as an image file
+ */
+export const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to render image'))), type, quality);
+  });
+
+// Exports must not depend on the logo URL staying reachable, so it is embedded
+const fetchLogoDataUrl = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to load logo (${response.status})`);
+  return blobToDataUrl(await response.blob());
+};
+
+// The logo flattened onto the background, for formats that only take RGB pixels
+const rasterizeLogo = async (dataUrl: string, background: string, pixels: number) => {
+  const image = await loadImage(dataUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = pixels;
+  canvas.height = pixels;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported');
+
+  context.fillStyle = background;
+  context.fillRect(0, 0, pixels, pixels);
+  const scale = Math.min(pixels / image.width, pixels / image.height);
+  const width = image.width * scale;
+  const height = image.height * scale;
+  context.drawImage(image, (pixels - width) / 2, (pixels - height) / 2, width, height);
+  return canvas;
+};
+
+/**
+ * Canvas PNGs carry no resolution, add a pHYs chunk so print software uses the chosen DPI
+ */
+export const setPngDpi = async (png: Blob, dpi: number) => {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  // Signature (8 bytes) and IHDR (25 bytes) always come first
+  const insertAt = 33;
+  const pixelsPerMeter = Math.round(dpi / 0.0254);
+
+  const chunk = new Uint8Array(21);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, 9);
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4); // pHYs
+  view.setUint32(8, pixelsPerMeter);
+  view.setUint32(12, pixelsPerMeter);
+  chunk[16] = 1; // Unit is the meter
+  view.setUint32(17, crc32(chunk.subarray(4, 17)));
+
+  return new Blob([bytes.subarray(0, insertAt), chunk, bytes.subarray(insertAt)], { type: 'image/png' });
+};
+
+const renderQrPng = async (scene: QrScene, options: QrExportOptions, logoDataUrl: string | null) => {
+  const { width, height } = getQrPngSize(scene, options);
+  const svg = renderQrSvg(scene, { logoHref: logoDataUrl || undefined });
+  const image = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported');
+  context.drawImage(image, 0, 0, width, height);
+
+  return setPngDpi(await canvasToBlob(canvas, 'image/png'), options.dpi);
+};
+
+const hexToRgb = (hex: string) =>
+  [1, 3, 5].map((i) => num(parseInt(hex.slice(i, i + 2), 16) / 255)).join(' ');
+
+// Paths in PDF and PostScript only differ in operator names
+const toVectorPath = (path: QrPathCommand[], operators: { M: string; L: string; C: string; Z: string }) =>
+  path.map(([command, ...points]) => `${points.map(num).join(' ')} ${operators[command]}`.trim()).join('\n');
+
+// Character widths of Helvetica Bold (1/1000 em) for centering PDF captions
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+const textWidth = (text: string, fontSize: number) =>
+  [...text].reduce((width, char) => width + (HELVETICA_BOLD_WIDTHS[char.charCodeAt(0) - 32] ?? 556), 0)
+  * fontSize / 1000;
+
+// Standard fonts only cover Latin-1, anything else is replaced
+const toLatin1 = (text: string) => text.replace(/[^\x20-\xff]/g, '?');
+
+// PDF and PostScript strings use the same escapes
+const escapeString = (text: string) =>
+  toLatin1(text).replace(/[\\()]/g, (char) => `\\${char}`).replace(/[\x80-\xff]/g, (char) =>
+    `\\${char.charCodeAt(0).toString(8).padStart(3, '0')}`
+  );
+
+const PDF_PATH = { M: 'm', L: 'l', C: 'c', Z: 'h' };
+
+const renderQrPdf = async (scene: QrScene, options: QrExportOptions, logoDataUrl: string | null) => {
+  const trimWidth = toPoints(options.width, options.unit);
+  const scale = trimWidth / scene.width;
+  const trimHeight = scene.height * scale;
+  const bleed = toPoints(options.bleed, options.unit);
+  const pageWidth = trimWidth + 2 * bleed;
+  const pageHeight = trimHeight + 2 * bleed;
+
+  const encoder = new TextEncoder();
+  let logoJpeg: Uint8Array | null = null;
+  if (scene.logo && logoDataUrl) {
+    const canvas = await rasterizeLogo(logoDataUrl, scene.background, 600);
+    logoJpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer());
+  }
+
+  // Scene coordinates have y pointing down, flip them onto the page
+  const content = [
+    `${hexToRgb(scene.background)} rg`,
+    `0 0 ${num(pageWidth)} ${num(pageHeight)} re f`,
+    'q',
+    `${num(scale)} 0 0 ${num(-scale)} ${num(bleed)} ${num(bleed + trimHeight)} cm`,
+    ...scene.layers.map(({ color, path }) => `${hexToRgb(color)} rg\n${toVectorPath(path, PDF_PATH)}\nf*`),
+  ];
+
+  if (scene.logo && logoJpeg) {
+    const { x, y, size } = scene.logo;
+    content.push(`q ${num(size)} 0 0 ${num(-size)} ${num(x)} ${num(y + size)} cm /Logo Do Q`);
+  }
+  content.push('Q');
+
+  if (scene.caption) {
+    const { text, x, y, fontSize, color } = scene.caption;
+    const size = fontSize * scale;
+    const left = bleed + x * scale - textWidth(toLatin1(text), size) / 2;
+    const baseline = bleed + trimHeight - y * scale;
+    content.push(`BT ${hexToRgb(color)} rg /F1 ${num(size)} Tf ${num(left)} ${num(baseline)} Td (${escapeString(text)}) Tj ET`);
+  }
+
+  const stream = encoder.encode(content.join('\n'));
+  const box = (inset: number) =>
+    `[${num(inset)} ${num(inset)} ${num(pageWidth - inset)} ${num(pageHeight - inset)}]`;
+
+  const objects: PdfObject[] = [
+    ['<< /Type /Catalog /Pages 2 0 R >>'],
+    ['<< /Type /Pages /Kids [3 0 R] /Count 1 >>'],
+    [
+      `<< /Type /Page /Parent 2 0 R /MediaBox ${box(0)} /BleedBox ${box(0)} /TrimBox ${box(bleed)}`
+      + ` /Resources << /Font << /F1 5 0 R >>${logoJpeg ? ' /XObject << /Logo 6 0 R >>' : ''} >> /Contents 4 0 R >>`,
+    ],
+    pdfStream('', stream),
+    ['<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'],
+  ];
+
+  if (logoJpeg) {
+    objects.push(pdfStream(
+      '/Type /XObject /Subtype /Image /Width 600 /Height 600 /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode',
+      logoJpeg
+    ));
+  }
+
+  return createPdf(objects);
+};
+
+const EPS_PATH = { M: 'moveto', L: 'lineto', C: 'curveto', Z: 'closepath' };
+
+const renderQrEps = async (scene: QrScene, options: QrExportOptions, logoDataUrl: string | null) => {
+  const trimWidth = toPoints(options.width, options.unit);
+  const scale = trimWidth / scene.width;
+  const trimHeight = scene.height * scale;
+  const bleed = toPoints(options.bleed, options.unit);
+  const pageWidth = trimWidth + 2 * bleed;
+  const pageHeight = trimHeight + 2 * bleed;
+
+  const lines = [
+    '%!PS-Adobe-3.0 EPSF-3.0',
+    `%%BoundingBox: 0 0 ${Math.ceil(pageWidth)} ${Math.ceil(pageHeight)}`,
+    `%%HiResBoundingBox: 0 0 ${num(pageWidth)} ${num(pageHeight)}`,
+    `%%Title: QR code, trim ${num(trimWidth)} x ${num(trimHeight)} pt, bleed ${num(bleed)} pt`,
+    '%%Creator: QR code export',
+    '%%EndComments',
+    'gsave',
+    `${hexToRgb(scene.background)} setrgbcolor`,
+    `0 0 ${num(pageWidth)} ${num(pageHeight)} rectfill`,
+    'gsave',
+    // Scene coordinates have y pointing down, flip them onto the page
+    `${num(bleed)} ${num(bleed + trimHeight)} translate ${num(scale)} ${num(-scale)} scale`,
+    ...scene.layers.map(({ color, path }) =>
+      `${hexToRgb(color)} setrgbcolor\nnewpath\n${toVectorPath(path, EPS_PATH)}\neofill`
+    ),
+  ];
+
+  if (scene.logo && logoDataUrl) {
+    const pixels = 200;
+    const canvas = await rasterizeLogo(logoDataUrl, scene.background, pixels);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not supported');
+    const { data } = context.getImageData(0, 0, pixels, pixels);
+
+    const hex: string[] = [];
+    for (let i = 0; i < data.length; i += 4) {
+      hex.push(
+        data[i].toString(16).padStart(2, '0')
+        + data[i + 1].toString(16).padStart(2, '0')
+        + data[i + 2].toString(16).padStart(2, '0')
+      );
+    }
+
+    const { x, y, size } = scene.logo;
+    lines.push(
+      'gsave',
+      `${num(x)} ${num(y + size)} translate ${num(size)} ${num(-size)} scale`,
+      `/logorow ${pixels * 3} string def`,
+      `${pixels} ${pixels} 8 [${pixels} 0 0 -${pixels} 0 ${pixels}]`,
+      '{ currentfile logorow readhexstring pop } false 3 colorimage',
+      ...Array.from({ length: pixels }, (_, row) => hex.slice(row * pixels, (row + 1) * pixels).join('')),
+      'grestore'
+    );
+  }
+  lines.push('grestore');
+
+  if (scene.caption) {
+    const { text, x, y, fontSize, color } = scene.caption;
+    lines.push(
+      `/Helvetica-Bold findfont ${num(fontSize * scale)} scalefont setfont`,
+      `${hexToRgb(color)} setrgbcolor`,
+      `${num(bleed + x * scale)} ${num(bleed + trimHeight - y * scale)} moveto`,
+      `(${escapeString(text)}) dup stringwidth pop 2 div neg 0 rmoveto show`
+    );
+  }
+
+  lines.push('grestore', 'showpage', '%%EOF', '');
+  return new Blob([lines.join('\n')], { type: 'application/postscript' });
+};
+
+/**
+ * Render a QR code file in the chosen format and size
+ */
+export const exportQrCode = async (scene: QrScene, options: QrExportOptions): Promise<Blob> => {
+  const logoDataUrl = scene.logo ? await fetchLogoDataUrl(scene.logo.url) : null;
+
+  switch (options.format) {
+    case 'png':
+      return renderQrPng(scene, options, logoDataUrl);
+    case 'pdf':
+      return renderQrPdf(scene, options, logoDataUrl);
+    case 'eps':
+      return renderQrEps(scene, options, logoDataUrl);
+    default: {
+      const height = options.width * scene.height / scene.width;
+      const svg = renderQrSvg(scene, {
+        logoHref: logoDataUrl || undefined,
+        width: `${num(options.width)}${options.unit}`,
+        height: `${num(height)}${options.unit}`,
+      });
+      return new Blob([svg], { type: 'image/svg+xml' });
+    }
+  }
+};
+
+/**
+ * Save a file through the browser
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
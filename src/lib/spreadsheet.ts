@@ -0,0 +1,242 @@
+/**
+ * Read contact lists exported from spreadsheets and POS systems
+ *
+ * CSV/TSV is parsed by hand (quoted fields, "" escapes, newlines in quotes) with
+ * the delimiter sniffed from the header line. XLSX files are zip archives, the
+ * first worksheet is unzipped with the browser's DecompressionStream and read
+ * as XML, which is all a contact list needs (no formulas, no styles).
+ */
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][];
+  // Row number in the file of each of `rows`, blank rows are skipped
+  rowNumbers: number[];
+}
+
+// A parsed row and its row number in the file, counted from 1
+export interface SpreadsheetRow {
+  number: number;
+  cells: string[];
+}
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+// Pick the delimiter that splits the header line into the most columns
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  return DELIMITERS.reduce((best, delimiter) => (
+    firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best
+  ), ',');
+};
+
+/**
+ * Parse CSV or TSV text into rows of cells, numbered by the line they start on
+ */
+export const parseCsv = (text: string, delimiter = detectDelimiter(text)): SpreadsheetRow[] => {
+  const rows: SpreadsheetRow[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  // Strip a UTF-8 byte order mark, Excel adds one
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        // A quoted cell can span lines, the row keeps the line it started on
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push({ number: rowLine, cells: row });
+      row = [];
+      cell = '';
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push({ number: rowLine, cells: row });
+  }
+
+  // Drop blank lines
+  return rows.filter(({ cells }) => cells.some((value) => value.trim() !== ''));
+};
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  offset: number;
+}
+
+// Read the zip central directory
+const readZipEntries = (bytes: Uint8Array): ZipEntry[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // End of central directory record, searched from the end (it may have a comment)
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('This file is not a valid XLSX workbook');
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let pointer = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(pointer, true) !== 0x02014b50) break;
+    const method = view.getUint16(pointer + 10, true);
+    const compressedSize = view.getUint32(pointer + 20, true);
+    const nameLength = view.getUint16(pointer + 28, true);
+    const extraLength = view.getUint16(pointer + 30, true);
+    const commentLength = view.getUint16(pointer + 32, true);
+    const offset = view.getUint32(pointer + 42, true);
+    const name = decoder.decode(bytes.subarray(pointer + 46, pointer + 46 + nameLength));
+    entries.push({ name, method, compressedSize, offset });
+    pointer += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+// Unzip a single entry to text
+const readZipText = async (bytes: Uint8Array, entry: ZipEntry): Promise<string> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const nameLength = view.getUint16(entry.offset + 26, true);
+  const extraLength = view.getUint16(entry.offset + 28, true);
+  const start = entry.offset + 30 + nameLength + extraLength;
+  const data = bytes.slice(start, start + entry.compressedSize);
+
+  if (entry.method === 0) {
+    return new TextDecoder().decode(data);
+  }
+  if (entry.method !== 8) {
+    throw new Error('This XLSX file uses an unsupported compression method');
+  }
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+// "BC12" -> 54
+const columnIndex = (reference: string): number => {
+  const letters = reference.replace(/[0-9]/g, '');
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+/**
+ * Read the first worksheet of an XLSX file into rows of cells, numbered as in
+ * the sheet
+ */
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<SpreadsheetRow[]> => {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('Your browser cannot read XLSX files, save the sheet as CSV and try again');
+  }
+
+  const bytes = new Uint8Array(buffer);
+  const entries = readZipEntries(bytes);
+  const parser = new DOMParser();
+
+  const sharedEntry = entries.find((entry) => entry.name === 'xl/sharedStrings.xml');
+  const sharedStrings: string[] = [];
+  if (sharedEntry) {
+    const xml = parser.parseFromString(await readZipText(bytes, sharedEntry), 'application/xml');
+    Array.from(xml.getElementsByTagName('si')).forEach((item) => {
+      // Rich text is split over several <t> elements
+      sharedStrings.push(Array.from(item.getElementsByTagName('t')).map((t) => t.textContent || '').join(''));
+    });
+  }
+
+  const sheetEntry = entries
+    .filter((entry) => /^xl\/worksheets\/sheet\d+\.xml$/.test(entry.name))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))[0];
+  if (!sheetEntry) {
+    throw new Error('No worksheet found in this XLSX file');
+  }
+
+  const sheet = parser.parseFromString(await readZipText(bytes, sheetEntry), 'application/xml');
+  const rows: SpreadsheetRow[] = [];
+
+  Array.from(sheet.getElementsByTagName('row')).forEach((rowElement) => {
+    // Empty rows are left out of the sheet, `r` has the row's own number
+    const number = Number(rowElement.getAttribute('r')) || (rows[rows.length - 1]?.number ?? 0) + 1;
+    const row: string[] = [];
+    Array.from(rowElement.getElementsByTagName('c')).forEach((cellElement) => {
+      const type = cellElement.getAttribute('t');
+      const reference = cellElement.getAttribute('r');
+      const value = cellElement.getElementsByTagName('v')[0]?.textContent ?? '';
+      let text = value;
+
+      if (type === 's') {
+        text = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        text = Array.from(cellElement.getElementsByTagName('t')).map((t) => t.textContent || '').join('');
+      }
+
+      const index = reference ? columnIndex(reference) : row.length;
+      while (row.length < index) row.push('');
+      row[index] = text;
+    });
+    rows.push({ number, cells: row });
+  });
+
+  return rows.filter(({ cells }) => cells.some((value) => value.trim() !== ''));
+};
+
+/**
+ * Read a CSV, TSV or XLSX file, the first row is used as the header
+ */
+export const readSpreadsheet = async (file: File): Promise<SpreadsheetData> => {
+  const isXlsx = /\.xlsx$/i.test(file.name)
+    || file.type === 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+  const rows = isXlsx ? await parseXlsx(await file.arrayBuffer()) : parseCsv(await file.text());
+
+  if (rows.length === 0) {
+    throw new Error('The file is empty');
+  }
+
+  const [headerRow, ...dataRows] = rows;
+  const width = Math.max(...rows.map(({ cells }) => cells.length));
+  const headers = Array.from({ length: width }, (_, i) => (headerRow.cells[i] || '').trim() || `Column ${i + 1}`);
+
+  return {
+    headers,
+    rows: dataRows.map(({ cells }) => Array.from({ length: width }, (_, i) => (cells[i] ?? '').trim())),
+    rowNumbers: dataRows.map(({ number }) => number)
+  };
+};
@@ -0,0 +1,94 @@
+/**
+ * Text layers over an ad's image or video
+ *
+ * Layers are stored in `ad_designs.content.layers`. Positions and widths are
+ * fractions of the media box and font sizes are percentages of its width, so
+ * a layer sits on the same spot of the picture on a phone and in the editor.
+ */
+
+export interface TextLayer {
+  id: string;
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  // Percent of the media width
+  fontSize: number;
+  color: string;
+  align: 'left' | 'center' | 'right';
+  bold: boolean;
+}
+
+export const MAX_TEXT_LAYERS = 10;
+
+export const MIN_LAYER_FONT_SIZE = 2;
+export const MAX_LAYER_FONT_SIZE = 20;
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+
+/**
+ * A new layer, the first one is a large headline and later ones are smaller
+ */
+export const createTextLayer = (index: number): TextLayer => ({
+  id: crypto.randomUUID(),
+  text: index === 0 ? 'Your headline' : 'More details',
+  x: 0.1,
+  y: Math.min(0.8, 0.1 + index * 0.15),
+  width: 0.8,
+  fontSize: index === 0 ? 8 : 5,
+  color: '#FFFFFF',
+  align: 'center',
+  bold: index === 0,
+});
+
+/**
+ * Layers read from `ad_designs.content`, invalid entries are dropped
+ */
+export const normalizeTextLayers = (raw: unknown): TextLayer[] => {
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .filter((layer): layer is Record<string, unknown> =>
+      typeof layer === 'object' && layer !== null && typeof layer.text === 'string')
+    .slice(0, MAX_TEXT_LAYERS)
+    .map((layer, index) => ({
+      id: typeof layer.id === 'string' && layer.id ? layer.id : `layer-${index}`,
+      text: layer.text as string,
+      x: clamp(layer.x, 0, 1, 0.1),
+      y: clamp(layer.y, 0, 1, 0.1),
+      width: clamp(layer.width, 0.1, 1, 0.8),
+      fontSize: clamp(layer.fontSize, MIN_LAYER_FONT_SIZE, MAX_LAYER_FONT_SIZE, 5),
+      color: typeof layer.color === 'string' && HEX_COLOR.test(layer.color) ? layer.color : '#FFFFFF',
+      align: layer.align === 'left' || layer.align === 'right' ? layer.align : 'center',
+      bold: layer.bold === true,
+    }));
+};
+
+/**
+ * Move a layer by a drag distance in pixels, keeping its left edge and top
+ * on the media
+ */
+export const moveTextLayer = (
+  layer: TextLayer,
+  delta: { x: number; y: number },
+  box: { width: number; height: number }
+): TextLayer => ({
+  ...layer,
+  x: Math.min(1 - layer.width, Math.max(0, layer.x + delta.x / box.width)),
+  y: Math.min(0.95, Math.max(0, layer.y + delta.y / box.height)),
+});
+
+/**
+ * Put `texts` into the first layers in order, adding layers when there are
+ * fewer, styling and position are kept
+ */
+export const setLayerTexts = (layers: TextLayer[], texts: string[]): TextLayer[] => {
+  const result = [...layers];
+  texts.slice(0, MAX_TEXT_LAYERS).forEach((text, index) => {
+    result[index] = { ...(result[index] || createTextLayer(index)), text };
+  });
+  return result;
+};
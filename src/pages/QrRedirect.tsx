@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { supabase } from '../lib/supabase';
+
+interface ScanTarget {
+  qr_code_id: string;
+  url: string | null;
+  ad_space_id: string | null;
+}
+
+// Only web addresses are followed, never javascript: or other schemes
+const HTTP_URL = /^https?:\/\//i;
+
+// Opened by scanning a dynamic QR code (/q/:code), sends the visitor to its current destination
+const QrRedirect = () => {
+  const { code } = useParams<{ code: string }>();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const resolve = async () => {
+      const { data, error: scanError } = await supabase
+        .rpc('scan_qr_code', {
+          p_short_code: code,
+          p_ip: 'anonymous',
+          p_agent: navigator.userAgent,
+        })
+        .maybeSingle<ScanTarget>();
+
+      if (scanError) {
+        console.error('Error resolving QR code:', scanError);
+        setError('Something went wrong opening this QR code. Please try again.');
+        return;
+      }
+
+      if (data?.url) {
+        if (HTTP_URL.test(data.url)) {
+          window.location.replace(data.url);
+        } else {
+          setError('This QR code points to an address that cannot be opened.');
+        }
+      } else if (data?.ad_space_id) {
+        navigate(`/view?ad=${data.ad_space_id}`, { replace: true });
+      } else {
+        setError('This QR code is no longer active.');
+      }
+    };
+
+    resolve();
+  }, [code, navigate]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4 bg-gray-50">
+      {error ? (
+        <p className="text-gray-600 text-center">{error}</p>
+      ) : (
+        <div className="text-center">
+          <div className="w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full animate-spin mx-auto"></div>
+          <p className="mt-4 text-gray-600">Opening...</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QrRedirect;
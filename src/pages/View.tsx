@@ -2,39 +2,12 @@ import { useEffect, useState, useRef } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
 import DebugPanel from '../components/ui/DebugPanel';
-import { getAdDesignByAdSpaceId, debugAdSpaceDetails, debugAdDesignsSchema } from '../AdDesignMapper';
+import TextLayerOverlay from '../components/ad/TextLayerOverlay';
+import { normalizeTextLayers } from '../lib/textLayers';
+import { getVisitorId, recordAdClick } from '../lib/adVariants';
+import { AD_RESOLUTION_MESSAGES, OfferEnded, ResolvedAdDesign, ResolvedAdSpace, resolveAd } from '../../shared/adResolution';
 import { isMobileDevice, preloadImage, safeRedirect, getDeviceInfo } from '../mobile-fixes';
 
-interface AdSpace {
-  id: string;
-  title: string;
-  description: string;
-  content: {
-    url?: string;
-    headline?: string;
-    subheadline?: string;
-  };
-  theme: {
-    backgroundColor?: string;
-    textColor?: string;
-  };
-}
-
-interface AdDesign {
-  id: string;
-  image_url?: string;
-  video_url?: string;
-  content: {
-    redirectUrl?: string;
-  };
-}
-
-// Function to validate UUID format
-const isValidUUID = (uuid: string): boolean => {
-  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
-  return uuidRegex.test(uuid);
-};
-
 // Function to check if a URL is a blob URL
 const isBlobUrl = (url: string | null | undefined): boolean => {
   if (!url) return false;
@@ -43,9 +16,11 @@ const isBlobUrl = (url: string | null | undefined): boolean => {
 
 const View = () => {
   const [searchParams] = useSearchParams();
-  const [adData, setAdData] = useState<AdSpace | null>(null);
-  const [adDesign, setAdDesign] = useState<AdDesign | null>(null);
+  const [adData, setAdData] = useState<ResolvedAdSpace | null>(null);
+  const [adDesign, setAdDesign] = useState<ResolvedAdDesign | null>(null);
   const [error, setError] = useState<string | null>(null);
+  // Set when the ad was archived or its end date passed
+  const [offerEnded, setOfferEnded] = useState<OfferEnded | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [redirectUrl, setRedirectUrl] = useState<string | null>(null);
   const [redirectCountdown, setRedirectCountdown] = useState(3);
@@ -54,12 +29,15 @@ const View = () => {
   const [imageError, setImageError] = useState(false);
   const [videoLoaded, setVideoLoaded] = useState(false);
   const [videoError, setVideoError] = useState(false);
+  // Width / height of the loaded media, text layers are placed against its box
+  const [mediaRatio, setMediaRatio] = useState<number | null>(null);
   const [debug, setDebug] = useState<string[]>([]);
   const [deviceInfo, setDeviceInfo] = useState<string>('');
   const [isMobile, setIsMobile] = useState(false);
-  const [retryCount, setRetryCount] = useState(0);
   const imageRef = useRef<HTMLImageElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
+  // A page view counts at most one click through
+  const clickRecorded = useRef(false);
 
   const addDebug = (message: string) => {
     console.log(message);
@@ -81,313 +59,54 @@ const View = () => {
       try {
         addDebug("Starting data fetch");
         const qrId = searchParams.get('qr');
-        let adId = searchParams.get('ad');
-
-        if (!qrId && !adId) {
-          throw new Error('Missing QR code or ad space ID');
+        const adSpaceId = searchParams.get('ad');
+        addDebug(`Found params: qrId=${qrId}, adId=${adSpaceId}`);
+
+        const resolution = await resolveAd(supabase, {
+          qrId,
+          adSpaceId,
+          record: 'visit',
+          // The browser can't see its IP address, the visitor id identifies it in analytics
+          visitor: { id: getVisitorId(), agent: navigator.userAgent }
+        });
+        addDebug(`Resolved: ${resolution.status}, design: ${resolution.design?.id ?? 'none'}`);
+
+        // Set redirect URL if we have one, the error page links to it too
+        if (resolution.redirect_url) {
+          setRedirectUrl(resolution.redirect_url);
+          addDebug(`Final redirect URL set: ${resolution.redirect_url}`);
+        } else {
+          addDebug("No redirect URL found");
         }
 
-        // Validate UUID format for adId
-        if (adId && !isValidUUID(adId)) {
-          addDebug(`Invalid UUID format for adId: ${adId}`);
-          throw new Error('Invalid ad ID format');
+        if (resolution.status === 'ended') {
+          setAdData(resolution.ad_space);
+          setOfferEnded(resolution.offer_ended || {});
+          return;
         }
 
-        // Validate UUID format for qrId
-        if (qrId && !isValidUUID(qrId)) {
-          addDebug(`Invalid UUID format for qrId: ${qrId}`);
-          throw new Error('Invalid QR code ID format');
+        if (resolution.status !== 'ok') {
+          throw new Error(AD_RESOLUTION_MESSAGES[resolution.status]);
         }
 
-        addDebug(`Found params: qrId=${qrId}, adId=${adId}`);
-        
-        let finalRedirectUrl: string | null = null;
-        let adSpaceId = adId;
-
-        // If QR code ID is provided, get the URL and associated ad space
-        if (qrId) {
-          addDebug("Fetching QR code data");
-          try {
-            const { data: qrCode, error: qrError } = await supabase
-              .from('qr_codes')
-              .select('url, ad_space_id')
-              .eq('id', qrId)
-              .maybeSingle();
-
-            if (qrError) {
-              addDebug(`QR code error: ${qrError.message}`);
-              if (qrError.code === 'PGRST116') {
-                throw new Error('QR code not found');
-              }
-              throw qrError;
-            }
-
-            if (qrCode) {
-              addDebug(`QR code found: ${JSON.stringify(qrCode)}`);
-              finalRedirectUrl = qrCode.url;
-              // Use QR code's ad space if none provided
-              if (!adSpaceId && qrCode.ad_space_id) {
-                adSpaceId = qrCode.ad_space_id;
-                addDebug(`Using QR code's ad space: ${adSpaceId}`);
-              }
-            }
-          } catch (qrFetchError) {
-            addDebug(`Error fetching QR: ${qrFetchError}`);
-          }
-        }
+        const { ad_space: adSpaceData, design: adDesignData } = resolution;
+        if (adSpaceData && adDesignData) {
+          setAdData(adSpaceData);
 
-        // Get ad space data if we have an ID
-        if (adSpaceId) {
-          addDebug(`Fetching ad space: ${adSpaceId}`);
-          try {
-            const { data: adSpaceData, error: adError } = await supabase
-              .from('ad_spaces')
-              .select('*')
-              .eq('id', adSpaceId)
-              .maybeSingle();
-
-            if (adError) {
-              addDebug(`Ad space error: ${adError.message}`);
-              if (adError.code === 'PGRST116') {
-                throw new Error('Ad space not found');
-              }
-              throw adError;
-            }
-
-            if (adSpaceData) {
-              addDebug(`Ad space found: ${adSpaceData.title}`);
-              setAdData(adSpaceData);
-              
-              // Check if there's a redirect URL in the ad space content
-              if (adSpaceData.content?.url) {
-                finalRedirectUrl = adSpaceData.content.url;
-                addDebug(`Found redirect URL in ad space: ${finalRedirectUrl}`);
-              }
-
-              // Mobile-specific optimizations for ad design fetching
-              if (isMobile) {
-                addDebug("Using mobile-optimized fetching strategy");
-                
-                // More aggressive approach for mobile: try all strategies in sequence
-                // and retry multiple times if needed
-                try {
-                  // First attempt: direct query for ad_designs with this ad_space_id
-                  const { data: mobileAdDesign, error: mobileError } = await supabase
-                    .from('ad_designs')
-                    .select('*')
-                    .eq('ad_space_id', adSpaceId)
-                    .maybeSingle();
-                  
-                  if (mobileError) {
-                    addDebug(`Mobile query error: ${mobileError.message}`);
-                  } else if (mobileAdDesign) {
-                    addDebug(`Mobile direct query successful: ${mobileAdDesign.id}`);
-                    
-                    // Check for blob URLs and don't use them
-                    if (isBlobUrl(mobileAdDesign.image_url)) {
-                      addDebug('Found blob URL for image, ignoring it');
-                      mobileAdDesign.image_url = null;
-                    }
-                    
-                    if (isBlobUrl(mobileAdDesign.video_url)) {
-                      addDebug('Found blob URL for video, ignoring it');
-                      mobileAdDesign.video_url = null;
-                    }
-                    
-                    setAdDesign(mobileAdDesign);
-                    
-                    // Pre-fetch image for mobile
-                    if (mobileAdDesign.image_url) {
-                      const preloadSuccess = await preloadImage(mobileAdDesign.image_url);
-                      addDebug(`Mobile image preload ${preloadSuccess ? 'successful' : 'failed'}: ${mobileAdDesign.image_url}`);
-                      
-                      if (!preloadSuccess) {
-                        setImageError(true);
-                      }
-                    }
-                  } else {
-                    // Fallback to standard fetching method with debugging
-                    addDebug("Mobile direct query failed, falling back to standard method");
-                    
-                    // Try to get ad design using the mapper function
-                    const adDesignData = await getAdDesignByAdSpaceId(adSpaceId);
-                    
-                    if (adDesignData) {
-                      addDebug(`Standard method found design: ${adDesignData.id}`);
-                      
-                      // Check for blob URLs and don't use them
-                      if (isBlobUrl(adDesignData.image_url)) {
-                        addDebug('Found blob URL for image, ignoring it');
-                        adDesignData.image_url = null;
-                      }
-                      
-                      if (isBlobUrl(adDesignData.video_url)) {
-                        addDebug('Found blob URL for video, ignoring it');
-                        adDesignData.video_url = null;
-                      }
-                      
-                      setAdDesign(adDesignData);
-                      
-                      if (adDesignData.image_url) {
-                        const preloadSuccess = await preloadImage(adDesignData.image_url);
-                        addDebug(`Image preload ${preloadSuccess ? 'successful' : 'failed'}: ${adDesignData.image_url}`);
-                        
-                        if (!preloadSuccess) {
-                          setImageError(true);
-                        }
-                      }
-                    } else {
-                      addDebug("No ad design found for this ad space through any method");
-                      await debugAdSpaceDetails(adSpaceId);
-                    }
-                  }
-                } catch (mobileQueryError) {
-                  addDebug(`Mobile query exception: ${mobileQueryError}`);
-                  
-                  // Last resort for mobile: try to get any design by this user
-                  try {
-                    const { data: adSpaceUser } = await supabase
-                      .from('ad_spaces')
-                      .select('user_id')
-                      .eq('id', adSpaceId)
-                      .single();
-                    
-                    if (adSpaceUser?.user_id) {
-                      const { data: userDesigns } = await supabase
-                        .from('ad_designs')
-                        .select('*')
-                        .eq('user_id', adSpaceUser.user_id)
-                        .order('created_at', { ascending: false })
-                        .limit(1);
-                      
-                      if (userDesigns && userDesigns.length > 0) {
-                        const firstDesign = {...userDesigns[0]};
-                        
-                        // Check for blob URLs and don't use them
-                        if (isBlobUrl(firstDesign.image_url)) {
-                          addDebug('Found blob URL for image in fallback design, ignoring it');
-                          firstDesign.image_url = null;
-                        }
-                        
-                        if (isBlobUrl(firstDesign.video_url)) {
-                          addDebug('Found blob URL for video in fallback design, ignoring it');
-                          firstDesign.video_url = null;
-                        }
-                        
-                        addDebug(`Mobile last resort found design: ${firstDesign.id}`);
-                        setAdDesign(firstDesign);
-                        
-                        // Try to update the relationship for future requests
-                        try {
-                          await supabase
-                            .from('ad_designs')
-                            .update({ ad_space_id: adSpaceId })
-                            .eq('id', firstDesign.id);
-                          
-                          addDebug("Updated ad_space_id for future requests");
-                        } catch (updateError) {
-                          addDebug(`Failed to update relationship: ${updateError}`);
-                        }
-                      }
-                    }
-                  } catch (lastResortError) {
-                    addDebug(`Mobile last resort failed: ${lastResortError}`);
-                  }
-                }
-              } else {
-                // Desktop approach - use the standard method
-                try {
-                  addDebug(`Fetching ad design for space: ${adSpaceId}`);
-                  const adDesignData = await getAdDesignByAdSpaceId(adSpaceId);
-                  
-                  if (adDesignData) {
-                    addDebug(`Ad design found with image: ${adDesignData.image_url ? 'yes' : 'no'}, video: ${adDesignData.video_url ? 'yes' : 'no'}`);
-                    
-                    // Check for blob URLs and don't use them
-                    if (isBlobUrl(adDesignData.image_url)) {
-                      addDebug('Found blob URL for image, ignoring it');
-                      adDesignData.image_url = null;
-                    }
-                    
-                    if (isBlobUrl(adDesignData.video_url)) {
-                      addDebug('Found blob URL for video, ignoring it');
-                      adDesignData.video_url = null;
-                    }
-                    
-                    setAdDesign(adDesignData);
-                    
-                    // If this is a redirect ad design, use its redirect URL
-                    if (adDesignData.content?.redirectUrl) {
-                      finalRedirectUrl = adDesignData.content.redirectUrl;
-                      addDebug(`Using redirect URL from ad design: ${finalRedirectUrl}`);
-                    }
-
-                    // Preload the media if available
-                    if (adDesignData.image_url) {
-                      addDebug(`Pre-fetching image: ${adDesignData.image_url}`);
-                      const imgCache = new Image();
-                      imgCache.src = adDesignData.image_url;
-                    }
-
-                    if (adDesignData.video_url) {
-                      addDebug(`Video URL found: ${adDesignData.video_url}`);
-                      // We don't preload video to avoid bandwidth issues
-                    }
-                  } else {
-                    addDebug("No ad design found for this ad space through any method");
-                    
-                    // Extra debugging for this specific issue
-                    await debugAdSpaceDetails(adSpaceId);
-                  }
-                } catch (designQueryError: any) {
-                  addDebug(`Error fetching design: ${designQueryError.message}`);
-                }
-              }
-            }
-
-            // Record ad space view
-            try {
-              addDebug("Recording ad space view");
-              await supabase.rpc('increment_ad_space_views', {
-                space_id: adSpaceId
-              });
-              addDebug("View recorded successfully");
-            } catch (viewError: any) {
-              addDebug(`Error recording view: ${viewError.message}`);
-            }
-          } catch (adSpaceError: any) {
-            addDebug(`Ad space fetch error: ${adSpaceError.message}`);
+          // Check for blob URLs and don't use them
+          if (isBlobUrl(adDesignData.image_url)) {
+            addDebug('Found blob URL for image, ignoring it');
+            adDesignData.image_url = null;
           }
-        }
 
-        // Record QR code scan
-        if (qrId) {
-          try {
-            addDebug("Recording QR scan");
-            await supabase.rpc('increment_qr_code_scans', {
-              qr_id: qrId,
-              ad_id: adSpaceId,
-              ip: 'anonymous',
-              agent: navigator.userAgent,
-              loc: {}
-            });
-            addDebug("QR scan recorded");
-          } catch (scanError: any) {
-            addDebug(`Error recording scan: ${scanError.message}`);
+          if (isBlobUrl(adDesignData.video_url)) {
+            addDebug('Found blob URL for video, ignoring it');
+            adDesignData.video_url = null;
           }
-        }
 
-        // Set redirect URL if we have one
-        if (finalRedirectUrl) {
-          setRedirectUrl(finalRedirectUrl);
-          addDebug(`Final redirect URL set: ${finalRedirectUrl}`);
-        } else {
-          addDebug("No redirect URL found");
+          setAdDesign(adDesignData);
         }
 
-        // Debug database schema and data
-        await debugAdDesignsSchema();
-        
       } catch (err: any) {
         console.error('Error in View component:', err);
         addDebug(`General error: ${err.message}`);
@@ -399,7 +118,7 @@ const View = () => {
     };
 
     fetchData();
-  }, [searchParams, isMobile, retryCount]);
+  }, [searchParams]);
 
   // Handle redirect countdown
   useEffect(() => {
@@ -417,19 +136,6 @@ const View = () => {
     }
   }, [redirectUrl, redirectCountdown, redirectClicked]);
 
-  // Special mobile retry logic - if no data is found, retry a few times
-  useEffect(() => {
-    if (!isLoading && isMobile && !adDesign && adData && retryCount < 3) {
-      addDebug(`Mobile retry attempt ${retryCount + 1}`);
-      
-      const retryTimer = setTimeout(() => {
-        setRetryCount(retryCount + 1);
-      }, 1000); // Wait 1 second between retries
-      
-      return () => clearTimeout(retryTimer);
-    }
-  }, [isLoading, isMobile, adDesign, adData, retryCount]);
-
   // Pre-load image with better error handling specifically for mobile
   useEffect(() => {
     if (adDesign?.image_url && !isBlobUrl(adDesign.image_url)) {
@@ -477,6 +183,14 @@ const View = () => {
     }
   }, [adDesign?.video_url]);
 
+  // Clicks through to the redirect URL are compared per A/B variant, only
+  // pressing Continue counts, not the automatic redirect
+  const recordClick = () => {
+    if (clickRecorded.current || !adData || !adDesign) return;
+    clickRecorded.current = true;
+    recordAdClick(adData.id, adDesign.id).catch((err) => addDebug(`Click not recorded: ${err.message}`));
+  };
+
   // Manual redirect handler
   const handleRedirect = () => {
     if (!redirectUrl) return;
@@ -505,8 +219,10 @@ const View = () => {
   };
 
   // Handle image load success
-  const handleImageLoad = () => {
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
     addDebug("Image load triggered by img onLoad event");
+    const { naturalWidth, naturalHeight } = e.currentTarget;
+    if (naturalWidth && naturalHeight) setMediaRatio(naturalWidth / naturalHeight);
     setImageLoaded(true);
   };
 
@@ -516,8 +232,10 @@ const View = () => {
     setVideoError(true);
   };
 
-  const handleVideoLoad = () => {
+  const handleVideoLoad = (e: React.SyntheticEvent<HTMLVideoElement>) => {
     addDebug("Video loaded metadata event");
+    const { videoWidth, videoHeight } = e.currentTarget;
+    if (videoWidth && videoHeight) setMediaRatio(videoWidth / videoHeight);
     setVideoLoaded(true);
   };
 
@@ -552,6 +270,12 @@ const View = () => {
   // Show debug info in development or when ?debug=true is in URL
   const showDebugInfo = import.meta.env.DEV || searchParams.get('debug') === 'true';
 
+  const textLayers = normalizeTextLayers(adDesign?.content?.layers);
+
+  // Shrink the box around the media to the media itself, so text layers line up with it
+  const mediaBoxWidth = (maxWidth: string) =>
+    mediaRatio ? `min(${maxWidth}, ${Math.round(mediaRatio * 10000) / 100}vh)` : maxWidth;
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
@@ -593,6 +317,37 @@ const View = () => {
     );
   }
 
+  if (offerEnded) {
+    return (
+      <div
+        className="min-h-screen flex items-center justify-center p-4"
+        style={{
+          backgroundColor: adData?.theme?.backgroundColor || '#f9fafb',
+          color: adData?.theme?.textColor || '#111827'
+        }}
+      >
+        <div className="w-full max-w-2xl text-center">
+          <h1 className="text-2xl md:text-3xl font-bold mb-4">
+            {offerEnded.headline || 'This offer has ended'}
+          </h1>
+          <p className="text-base md:text-lg mb-6">
+            {offerEnded.message || `Thanks for your interest${adData?.title ? ` in ${adData.title}` : ''}. Check back soon for new offers.`}
+          </p>
+          {offerEnded.url && /^https?:\/\//i.test(offerEnded.url) && (
+            <a
+              href={offerEnded.url}
+              className="inline-block px-6 py-3 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
+            >
+              See what's new
+            </a>
+          )}
+
+          {showDebugInfo && <DebugPanel messages={debug} />}
+        </div>
+      </div>
+    );
+  }
+
   // Video ad display
   if (adDesign?.video_url && !isBlobUrl(adDesign.video_url) && !redirectUrl) {
     return (
@@ -629,17 +384,20 @@ const View = () => {
               )}
             </div>
           ) : (
-            <video 
-              ref={videoRef}
-              src={adDesign.video_url}
-              className="w-full max-w-4xl h-auto max-h-screen object-contain"
-              controls
-              autoPlay
-              playsInline
-              onLoadedMetadata={handleVideoLoad}
-              onError={handleVideoError}
-              crossOrigin="anonymous"
-            />
+            <div className="relative" style={{ width: mediaBoxWidth('min(100%, 56rem)') }}>
+              <video 
+                ref={videoRef}
+                src={adDesign.video_url}
+                className="w-full max-w-4xl h-auto max-h-screen object-contain"
+                controls
+                autoPlay
+                playsInline
+                onLoadedMetadata={handleVideoLoad}
+                onError={handleVideoError}
+                crossOrigin="anonymous"
+              />
+              {videoLoaded && <TextLayerOverlay layers={textLayers} />}
+            </div>
           )}
         </div>
 
@@ -668,9 +426,6 @@ const View = () => {
           <div className="flex flex-col items-center justify-center">
             <div className="w-16 h-16 border-4 border-primary-500 border-t-transparent rounded-full animate-spin mx-auto"></div>
             <p className="mt-4 text-gray-600">Loading image...</p>
-            {isMobile && retryCount > 0 && (
-              <p className="text-xs text-gray-500">Retry attempt {retryCount}/3</p>
-            )}
           </div>
         )}
         
@@ -693,15 +448,18 @@ const View = () => {
               )}
             </div>
           ) : (
-            <img 
-              ref={imageRef}
-              src={adDesign.image_url}
-              alt={adData?.title || "Advertisement"}
-              onLoad={handleImageLoad}
-              onError={handleImageError}
-              className={`w-full h-auto max-h-screen object-contain ${!imageLoaded ? 'hidden' : 'block'}`}
-              crossOrigin="anonymous"
-            />
+            <div className="relative" style={{ width: mediaBoxWidth('100%') }}>
+              <img 
+                ref={imageRef}
+                src={adDesign.image_url}
+                alt={adData?.title || "Advertisement"}
+                onLoad={handleImageLoad}
+                onError={handleImageError}
+                className={`w-full h-auto max-h-screen object-contain ${!imageLoaded ? 'hidden' : 'block'}`}
+                crossOrigin="anonymous"
+              />
+              {imageLoaded && <TextLayerOverlay layers={textLayers} />}
+            </div>
           )}
         </div>
 
@@ -745,7 +503,10 @@ const View = () => {
             
             {!redirectClicked ? (
               <button
-                onClick={handleRedirect}
+                onClick={() => {
+                  recordClick();
+                  handleRedirect();
+                }}
                 className="mt-2 px-6 py-3 bg-primary-500 text-white rounded-lg hover:bg-primary-600 transition-colors"
               >
                 {redirectCountdown > 0 
@@ -770,11 +531,6 @@ const View = () => {
                 There was an error loading the media for this ad.
               </p>
             )}
-            {isMobile && retryCount > 0 && (
-              <p className="text-xs text-gray-500 mt-2">
-                Retry attempt {retryCount}/3
-              </p>
-            )}
           </div>
         )}
         
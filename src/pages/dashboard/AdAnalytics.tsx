@@ -0,0 +1,264 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useAuthStore } from '../../store/authStore';
+import { supabase } from '../../lib/supabase';
+import Card, { CardHeader, CardTitle, CardDescription, CardContent } from '../../components/ui/Card';
+import Button from '../../components/ui/Button';
+import TrendChart from '../../components/ui/TrendChart';
+import BarList from '../../components/ui/BarList';
+import VariantTestCard from '../../components/ad/VariantTestCard';
+import {
+  getScanTimeseries,
+  getAdSpacePerformance,
+  getAdSpaceBreakdowns,
+  percentChange,
+  formatChange,
+  repeatRate,
+  formatBucketLabel,
+  AnalyticsBucket,
+  TimeseriesPoint,
+  AdSpacePerformance,
+  ScanBreakdowns
+} from '../../lib/analytics';
+import { ArrowLeft, BarChart3, Eye, Users, Repeat } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+const AdAnalytics = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const [title, setTitle] = useState('');
+  const [days, setDays] = useState(30);
+  const [bucket, setBucket] = useState<AnalyticsBucket>('day');
+  const [timeseries, setTimeseries] = useState<TimeseriesPoint[]>([]);
+  const [performance, setPerformance] = useState<AdSpacePerformance | null>(null);
+  const [breakdowns, setBreakdowns] = useState<ScanBreakdowns | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+
+  useEffect(() => {
+    const fetchAdAnalytics = async () => {
+      if (!id) return;
+      setIsLoading(true);
+      try {
+        const { data: adSpace, error: adSpaceError } = await supabase
+          .from('ad_spaces')
+          .select('id, title')
+          .eq('id', id)
+          .eq('user_id', user?.id)
+          .maybeSingle();
+
+        if (adSpaceError) throw adSpaceError;
+        if (!adSpace) {
+          setNotFound(true);
+          return;
+        }
+        setTitle(adSpace.title);
+
+        const [series, spaces, groups] = await Promise.all([
+          getScanTimeseries({ adSpaceId: id, days, bucket }),
+          getAdSpacePerformance(days),
+          getAdSpaceBreakdowns(id, days)
+        ]);
+        setTimeseries(series);
+        setPerformance(spaces.find((space) => space.adSpaceId === id) || null);
+        setBreakdowns(groups);
+      } catch (error) {
+        console.error('Error fetching ad analytics:', error);
+        toast.error('Failed to load analytics for this ad');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (user) {
+      fetchAdAnalytics();
+    }
+  }, [id, user, days, bucket]);
+
+  if (notFound) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600">This ad space could not be found</p>
+        <Button variant="outline" onClick={() => navigate('/ad-builder')} className="mt-4">
+          Back to Ad Builder
+        </Button>
+      </div>
+    );
+  }
+
+  const statCards = performance ? [
+    {
+      title: 'Scans',
+      value: performance.scans,
+      change: percentChange(performance.scans, performance.prevScans),
+      icon: <BarChart3 size={20} />,
+      color: 'bg-blue-100 text-blue-600'
+    },
+    {
+      title: 'Ad Views',
+      value: performance.views,
+      change: percentChange(performance.views, performance.prevViews),
+      icon: <Eye size={20} />,
+      color: 'bg-green-100 text-green-600'
+    },
+    {
+      title: 'Unique Scanners',
+      value: performance.uniqueScanners,
+      change: null as number | null,
+      icon: <Users size={20} />,
+      color: 'bg-purple-100 text-purple-600'
+    },
+    {
+      title: 'Repeat Rate',
+      value: `${repeatRate(performance.uniqueScanners, performance.repeatScanners).toFixed(1)}%`,
+      change: null as number | null,
+      icon: <Repeat size={20} />,
+      color: 'bg-orange-100 text-orange-600'
+    }
+  ] : [];
+
+  const toBars = (items: ScanBreakdowns[keyof ScanBreakdowns] = []) =>
+    items.map((item) => ({ label: item.label, value: item.scans }));
+
+  const hourly = breakdowns?.hour || [];
+  const maxHourly = Math.max(1, ...hourly.map((item) => item.scans));
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between">
+        <div className="flex items-center space-x-4">
+          <Button variant="outline" onClick={() => navigate('/ad-builder')} leftIcon={<ArrowLeft size={16} />}>
+            Back
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">{title || 'Ad analytics'}</h1>
+            <p className="text-gray-600 mt-1">Scans and views for this ad space</p>
+          </div>
+        </div>
+        <div className="mt-4 md:mt-0 flex gap-2">
+          {RANGE_OPTIONS.map((option) => (
+            <Button
+              key={option}
+              variant={days === option ? 'primary' : 'outline'}
+              size="sm"
+              onClick={() => setDays(option)}
+            >
+              {option} days
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {statCards.map((item) => (
+          <Card key={item.title} className="bg-white">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-500">{item.title}</p>
+                <p className="text-2xl font-bold mt-1">{item.value.toLocaleString()}</p>
+              </div>
+              <div className={`p-3 rounded-full ${item.color}`}>
+                {item.icon}
+              </div>
+            </div>
+            {item.change !== null && (
+              <div className="mt-2">
+                <span className={`text-sm ${item.change >= 0 ? 'text-success-500' : 'text-error-500'}`}>
+                  {formatChange(item.change)}
+                </span>
+                <span className="text-sm text-gray-500 ml-1">vs previous {days} days</span>
+              </div>
+            )}
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader className="flex items-start justify-between">
+          <div>
+            <CardTitle>Scans and views over time</CardTitle>
+            <CardDescription>{isLoading ? 'Loading...' : `Per ${bucket}, last ${days} days`}</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant={bucket === 'day' ? 'primary' : 'outline'} size="sm" onClick={() => setBucket('day')}>
+              Daily
+            </Button>
+            <Button variant={bucket === 'week' ? 'primary' : 'outline'} size="sm" onClick={() => setBucket('week')}>
+              Weekly
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <TrendChart
+            labels={timeseries.map((point) => formatBucketLabel(point.bucket, bucket))}
+            series={[
+              { key: 'scans', label: 'Scans', color: '#0066FF', values: timeseries.map((point) => point.scans) },
+              { key: 'views', label: 'Ad views', color: '#00c36e', values: timeseries.map((point) => point.views) }
+            ]}
+          />
+        </CardContent>
+      </Card>
+
+      {id && title && <VariantTestCard adSpaceId={id} />}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Device OS</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <BarList items={toBars(breakdowns?.os)} color="#0066FF" />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Browser</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <BarList items={toBars(breakdowns?.browser)} color="#00c36e" />
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Country</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <BarList items={toBars(breakdowns?.country)} color="#FF6600" />
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Hour of day</CardTitle>
+          <CardDescription>Scans by local hour, last {days} days</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-end gap-1 h-40">
+            {hourly.map((item) => (
+              <div key={item.label} className="flex-1 flex flex-col items-center justify-end h-full">
+                <div
+                  className="w-full bg-primary-500 rounded-t"
+                  style={{ height: `${(item.scans / maxHourly) * 100}%` }}
+                  title={`${item.label}:00 - ${item.scans} scans`}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-1 mt-1">
+            {hourly.map((item, index) => (
+              <span key={item.label} className="flex-1 text-center text-[10px] text-gray-500">
+                {index % 3 === 0 ? item.label : ''}
+              </span>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AdAnalytics;
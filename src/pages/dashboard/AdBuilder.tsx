@@ -1,11 +1,30 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../../store/authStore';
+import { useEntitlements } from '../../store/entitlementsStore';
 import { supabase } from '../../lib/supabase';
+import { ensureAdSpaceQrCode, getQrCodeShortUrl } from '../../lib/qrCodes';
+import { QrDesign, normalizeQrDesign } from '../../lib/qrDesign';
+import { TextLayer, normalizeTextLayers, setLayerTexts } from '../../lib/textLayers';
+import { AdTemplate, getAdTemplates, getTemplateLayers } from '../../lib/adTemplates';
+import { getBrandColors, getBrandProfile } from '../../lib/brand';
+import {
+  AdPublication,
+  PUBLICATION_COLUMNS,
+  PUBLICATION_STATUS_LABELS,
+  PUBLICATION_STATUS_STYLES
+} from '../../lib/adPublishing';
 import Card, { CardHeader, CardTitle, CardContent, CardFooter } from '../../components/ui/Card';
 import Button from '../../components/ui/Button';
 import Input from '../../components/ui/Input';
 import QrCode from '../../components/ui/QrCode';
 import MediaUpload from '../../components/ui/MediaUpload';
+import ColorSwatches from '../../components/ui/ColorSwatches';
+import TextLayerEditor from '../../components/ad/TextLayerEditor';
+import TemplatePicker from '../../components/ad/TemplatePicker';
+import CopyAssistantModal from '../../components/ai/CopyAssistantModal';
+import PublishingCard from '../../components/ad/PublishingCard';
+import RevisionHistory from '../../components/ad/RevisionHistory';
 import { 
   Plus, 
   Trash2, 
@@ -15,20 +34,29 @@ import {
   QrCode as QrIcon,
   Edit,
   Image as ImageIcon,
-  Film
+  Film,
+  BarChart3,
+  Printer,
+  Sparkles,
+  Lock,
+  History
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
-interface AdDesign {
+// Ad designs with their publishing state and ad space
+const DESIGN_COLUMNS = `*, ${PUBLICATION_COLUMNS}, ad_spaces!ad_space_id (id, title, content)`;
+
+interface AdDesign extends AdPublication {
   id: string;
   name: string;
-  template: string;
+  template: string | null;
   created_at: string;
   background: string;
   content: {
     headline?: string;
     subheadline?: string;
     redirectUrl?: string;
+    layers?: unknown;
   };
   image_url?: string;
   video_url?: string;
@@ -46,7 +74,16 @@ interface AdDesign {
 
 const AdBuilder = () => {
   const { user } = useAuthStore();
-  const [viewMode, setViewMode] = useState<'list' | 'create' | 'detail' | 'edit'>('list');
+  const navigate = useNavigate();
+  const {
+    entitlements,
+    hasFeature,
+    limit,
+    usage,
+    remaining,
+    refresh: refreshEntitlements,
+  } = useEntitlements();
+  const [viewMode, setViewMode] = useState<'list' | 'templates' | 'create' | 'detail' | 'edit'>('list');
   const [selectedDesign, setSelectedDesign] = useState<AdDesign | null>(null);
   const [isSaving, setIsSaving] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
@@ -59,14 +96,20 @@ const AdBuilder = () => {
     redirectUrl: '',
     mediaFile: null as File | null,
     mediaPreview: '',
-    isVideo: false
+    isVideo: false,
+    layers: [] as TextLayer[],
+    template: null as string | null
   });
   const [isUploading, setIsUploading] = useState(false);
   const [debugInfo, setDebugInfo] = useState<string[]>([]);
-
-  useEffect(() => {
-    fetchDesigns();
-  }, []);
+  const [qrUrl, setQrUrl] = useState<string | null>(null);
+  const [qrDesign, setQrDesign] = useState<QrDesign | undefined>();
+  const [templates, setTemplates] = useState<AdTemplate[]>([]);
+  const [isLoadingTemplates, setIsLoadingTemplates] = useState(false);
+  const [businessName, setBusinessName] = useState('');
+  const [brandColors, setBrandColors] = useState<string[]>([]);
+  const [isCopyAssistantOpen, setIsCopyAssistantOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
 
   useEffect(() => {
     // Pre-fill form when editing
@@ -85,28 +128,40 @@ const AdBuilder = () => {
         redirectUrl: selectedDesign.content.redirectUrl || selectedDesign.ad_spaces?.content?.url || '',
         mediaFile: null,
         mediaPreview: hasVideo ? selectedDesign.video_url || '' : selectedDesign.image_url || '',
-        isVideo: hasVideo
+        isVideo: hasVideo,
+        layers: normalizeTextLayers(selectedDesign.content.layers),
+        template: selectedDesign.template || null
       });
     }
   }, [viewMode, selectedDesign]);
 
-  const addDebug = (message: string) => {
+  useEffect(() => {
+    // The printed QR code is a dynamic code, so it keeps working if the ad changes
+    const adSpaceId = selectedDesign?.ad_spaces?.id;
+    if (viewMode !== 'detail' || !adSpaceId) return;
+
+    setQrUrl(null);
+    ensureAdSpaceQrCode(adSpaceId)
+      .then((code) => {
+        setQrDesign(normalizeQrDesign(code.design));
+        setQrUrl(getQrCodeShortUrl(code.short_code));
+      })
+      .catch((error) => {
+        console.error('Error loading QR code:', error);
+        toast.error('Failed to load QR code');
+      });
+  }, [viewMode, selectedDesign]);
+
+  const addDebug = useCallback((message: string) => {
     console.log(`[AdBuilder Debug] ${message}`);
     setDebugInfo(prev => [...prev, message]);
-  };
+  }, []);
 
-  const fetchDesigns = async () => {
+  const fetchDesigns = useCallback(async () => {
     try {
       const { data, error } = await supabase
         .from('ad_designs')
-        .select(`
-          *,
-          ad_spaces (
-            id,
-            title,
-            content
-          )
-        `)
+        .select(DESIGN_COLUMNS)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -118,10 +173,54 @@ const AdBuilder = () => {
     } finally {
       setIsLoading(false);
     }
+  }, [addDebug]);
+
+  // Reload one design after its publishing state or draft changed
+  const refreshDesign = async (id: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('ad_designs')
+        .select(DESIGN_COLUMNS)
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      setSavedDesigns(prev => prev.map(design => design.id === id ? data : design));
+      setSelectedDesign(prev => prev?.id === id ? data : prev);
+    } catch (error) {
+      console.error('Error reloading design:', error);
+    }
   };
 
-  const generateQrUrl = (adId: string) => {
-    return `${window.location.origin}/view?ad=${adId}`;
+  const fetchBrand = useCallback(async () => {
+    if (!user) return;
+    try {
+      const brand = await getBrandProfile(user.id);
+      setBusinessName(brand?.business_name || '');
+      setBrandColors(getBrandColors(brand));
+    } catch (error) {
+      console.error('Profile error:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchDesigns();
+  }, [fetchDesigns]);
+
+  useEffect(() => {
+    fetchBrand();
+  }, [fetchBrand]);
+
+  const fetchTemplates = async () => {
+    setIsLoadingTemplates(true);
+    try {
+      setTemplates(await getAdTemplates());
+    } catch (error) {
+      console.error('Error loading templates:', error);
+      toast.error('Failed to load templates');
+    } finally {
+      setIsLoadingTemplates(false);
+    }
   };
 
   const handleMediaUpload = async (file: File) => {
@@ -323,6 +422,12 @@ const AdBuilder = () => {
       return;
     }
 
+    // Scanners are sent to it, so it has to be a web address
+    if (adMode === 'redirect' && !/^https?:\/\/\S+$/i.test(adForm.redirectUrl.trim())) {
+      toast.error('Enter a redirect URL starting with http:// or https://');
+      return;
+    }
+
     // For custom mode, media is required
     if (adMode === 'custom' && !adForm.mediaPreview) {
       toast.error('Please upload an image or video for your custom ad');
@@ -398,7 +503,7 @@ const AdBuilder = () => {
         content: adMode === 'custom' 
           ? {}
           : {
-              url: adForm.redirectUrl
+              url: adForm.redirectUrl.trim()
             },
         theme: {
           backgroundColor: adForm.background,
@@ -452,14 +557,20 @@ const AdBuilder = () => {
         user_id: user?.id,
         name: adForm.name,
         background: adForm.background,
+        // The first two layers fill the headline slots that print layouts and previews read
         content: adMode === 'custom'
-          ? {}
+          ? {
+              layers: adForm.layers,
+              headline: adForm.layers[0]?.text || undefined,
+              subheadline: adForm.layers[1]?.text || undefined
+            }
           : {
-              redirectUrl: adForm.redirectUrl
+              redirectUrl: adForm.redirectUrl.trim()
             },
         ad_space_id: adSpaceId,
         image_url: imageUrl,
-        video_url: videoUrl
+        video_url: videoUrl,
+        template: adForm.template
       };
       
       addDebug(`Ad design data being saved: ${JSON.stringify({
@@ -475,14 +586,7 @@ const AdBuilder = () => {
           .from('ad_designs')
           .update(adDesignData)
           .eq('id', selectedDesign.id)
-          .select(`
-            *,
-            ad_spaces (
-              id,
-              title,
-              content
-            )
-          `)
+          .select(DESIGN_COLUMNS)
           .single();
           
         if (adError) {
@@ -511,7 +615,9 @@ const AdBuilder = () => {
           );
         }
         
-        toast.success('Ad design updated!');
+        toast.success(adDesign?.publication_status === 'draft'
+          ? 'Draft saved'
+          : 'Changes saved. Publish them to update the live ad');
       } else {
         // Create new design
         addDebug('Creating new ad design');
@@ -519,14 +625,7 @@ const AdBuilder = () => {
         const { data: adDesign, error: adError } = await supabase
           .from('ad_designs')
           .insert([adDesignData])
-          .select(`
-            *,
-            ad_spaces (
-              id,
-              title,
-              content
-            )
-          `)
+          .select(DESIGN_COLUMNS)
           .single();
 
         if (adError) {
@@ -551,7 +650,8 @@ const AdBuilder = () => {
           setSavedDesigns(prev => [adDesign, ...prev]);
         }
         
-        toast.success('Ad design created!');
+        refreshEntitlements();
+        toast.success('Ad saved as a draft. Publish it when it is ready');
       }
       
       // STEP 3: Verify data was saved correctly
@@ -639,12 +739,49 @@ const AdBuilder = () => {
       redirectUrl: '',
       mediaFile: null,
       mediaPreview: '',
-      isVideo: false
+      isVideo: false,
+      layers: [],
+      template: null
     });
     setAdMode('custom');
     setSelectedDesign(null);
   };
 
+  // Every ad gets its own ad space, both count towards the plan
+  const designLimit = limit('ad_designs');
+  const isAtLimit = entitlements !== null
+    && (remaining('ad_designs') === 0 || remaining('ad_spaces') === 0);
+
+  const startNewAd = () => {
+    if (isAtLimit) {
+      toast.error('Ad limit reached for your plan');
+      return;
+    }
+    resetForm();
+    setViewMode('templates');
+    if (templates.length === 0) {
+      fetchTemplates();
+    }
+  };
+
+  // A template fills the form with its artwork and text, the ad is then edited as usual
+  const handleSelectTemplate = (template: AdTemplate | null) => {
+    resetForm();
+    if (template) {
+      setAdForm({
+        name: template.name,
+        background: template.background,
+        redirectUrl: '',
+        mediaFile: null,
+        mediaPreview: template.image_url || '',
+        isVideo: false,
+        layers: getTemplateLayers(template),
+        template: template.id
+      });
+    }
+    setViewMode('create');
+  };
+
   const handleDeleteAd = async (id: string) => {
     try {
       const { error } = await supabase
@@ -655,6 +792,7 @@ const AdBuilder = () => {
       if (error) throw error;
 
       setSavedDesigns(prev => prev.filter(design => design.id !== id));
+      refreshEntitlements();
       if (selectedDesign?.id === id) {
         resetForm();
         setViewMode('list');
@@ -681,18 +819,37 @@ const AdBuilder = () => {
   const renderAdList = () => (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
-        <h1 className="text-2xl font-bold">Ad Designs</h1>
+        <div>
+          <h1 className="text-2xl font-bold">Ad Designs</h1>
+          {entitlements && designLimit !== null && (
+            <p className="text-sm text-gray-600">
+              {Math.min(usage('ad_designs'), designLimit)} of {designLimit} ad {designLimit === 1 ? 'design' : 'designs'} used on the {entitlements.tier} plan
+            </p>
+          )}
+        </div>
         <Button 
-          onClick={() => {
-            resetForm();
-            setViewMode('create');
-          }} 
+          onClick={startNewAd} 
+          disabled={isAtLimit}
           leftIcon={<Plus size={16} />}
         >
           Create New Ad
         </Button>
       </div>
 
+      {isAtLimit && (
+        <Card className="p-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <Lock className="w-5 h-5 text-gray-400 flex-shrink-0" />
+              <p className="text-sm text-gray-600">
+                You have used all the ads included in the {entitlements?.tier} plan. Upgrade to Pro for unlimited ads.
+              </p>
+            </div>
+            <Button size="sm" onClick={() => navigate('/')}>Upgrade to Pro</Button>
+          </div>
+        </Card>
+      )}
+
       {isLoading ? (
         <div className="text-center py-12">
           <div className="w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full animate-spin mx-auto"></div>
@@ -703,10 +860,7 @@ const AdBuilder = () => {
           <CardContent>
             <p className="text-gray-600 mb-4">No ad designs yet. Create your first one!</p>
             <Button 
-              onClick={() => {
-                resetForm();
-                setViewMode('create');
-              }} 
+              onClick={startNewAd} 
               leftIcon={<Plus size={16} />}
             >
               Create New Ad
@@ -717,8 +871,11 @@ const AdBuilder = () => {
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {savedDesigns.map((design) => (
             <Card key={design.id} className="hover:shadow-lg transition-shadow">
-              <CardHeader>
+              <CardHeader className="flex flex-row items-start justify-between gap-2">
                 <CardTitle>{design.name}</CardTitle>
+                <span className={`flex-shrink-0 px-2 py-1 rounded-full text-xs font-medium ${PUBLICATION_STATUS_STYLES[design.publication_status]}`}>
+                  {PUBLICATION_STATUS_LABELS[design.publication_status]}
+                </span>
               </CardHeader>
               <CardContent>
                 <div 
@@ -815,7 +972,6 @@ const AdBuilder = () => {
       );
     }
 
-    const qrUrl = generateQrUrl(selectedDesign.ad_spaces.id);
     const redirectUrl = selectedDesign.content.redirectUrl || selectedDesign.ad_spaces.content.url;
     const isRedirectMode = !!redirectUrl;
     const hasVideo = !!selectedDesign.video_url;
@@ -834,6 +990,27 @@ const AdBuilder = () => {
           >
             Edit
           </Button>
+          <Button 
+            variant="outline"
+            onClick={() => navigate(`/ad-builder/${selectedDesign.ad_spaces?.id}/analytics`)}
+            leftIcon={<BarChart3 size={16} />}
+          >
+            Analytics
+          </Button>
+          <Button 
+            variant="outline"
+            onClick={() => navigate(`/ad-builder/${selectedDesign.id}/print`)}
+            leftIcon={<Printer size={16} />}
+          >
+            Print
+          </Button>
+          <Button 
+            variant="outline"
+            onClick={() => setIsHistoryOpen(true)}
+            leftIcon={<History size={16} />}
+          >
+            History
+          </Button>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -886,23 +1063,37 @@ const AdBuilder = () => {
           </Card>
 
           <div className="space-y-6">
+            <PublishingCard
+              designId={selectedDesign.id}
+              publication={selectedDesign}
+              onChange={() => refreshDesign(selectedDesign.id)}
+            />
+
             <Card>
               <CardHeader>
                 <CardTitle>QR Code</CardTitle>
               </CardHeader>
               <CardContent className="text-center">
-                <QrCode
-                  value={qrUrl}
-                  size={200}
-                  level="H"
-                  includeMargin
-                />
-                <p className="mt-4 text-sm text-gray-600">
-                  Scan this QR code to view the ad
-                </p>
-                <p className="mt-2 text-xs text-gray-500 break-all">
-                  {qrUrl}
-                </p>
+                {qrUrl ? (
+                  <>
+                    <QrCode
+                      value={qrUrl}
+                      size={200}
+                      level="H"
+                      includeMargin
+                      design={qrDesign}
+                      name={selectedDesign?.name || 'Ad QR code'}
+                    />
+                    <p className="mt-4 text-sm text-gray-600">
+                      Scan this QR code to view the ad
+                    </p>
+                    <p className="mt-2 text-xs text-gray-500 break-all">
+                      {qrUrl}
+                    </p>
+                  </>
+                ) : (
+                  <div className="w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full animate-spin mx-auto my-8"></div>
+                )}
               </CardContent>
             </Card>
 
@@ -974,10 +1165,36 @@ const AdBuilder = () => {
             </Card>
           </div>
         </div>
+
+        <RevisionHistory
+          isOpen={isHistoryOpen}
+          onClose={() => setIsHistoryOpen(false)}
+          designId={selectedDesign.id}
+          onRestored={() => refreshDesign(selectedDesign.id)}
+        />
       </div>
     );
   };
 
+  const renderTemplatePicker = () => (
+    <div className="space-y-6">
+      <div className="flex items-center space-x-4">
+        <Button variant="outline" onClick={() => setViewMode('list')}>
+          Back to List
+        </Button>
+        <h1 className="text-2xl font-bold">Choose a Template</h1>
+      </div>
+
+      <TemplatePicker
+        templates={templates}
+        isLoading={isLoadingTemplates}
+        isFreeTier={!hasFeature('premium_templates')}
+        onSelect={handleSelectTemplate}
+        onUpgrade={() => navigate('/')}
+      />
+    </div>
+  );
+
   const renderAdCreator = () => (
     <div className="space-y-6">
       <div className="flex items-center space-x-4">
@@ -1039,6 +1256,11 @@ const AdBuilder = () => {
                       className="input text-sm"
                     />
                   </div>
+                  <ColorSwatches
+                    colors={brandColors}
+                    value={adForm.background}
+                    onSelect={(background) => setAdForm({ ...adForm, background })}
+                  />
                 </div>
                 
                 <div className="space-y-2">
@@ -1053,6 +1275,30 @@ const AdBuilder = () => {
                     className="border border-gray-300 rounded-md"
                   />
                 </div>
+
+                {adForm.mediaPreview && (
+                  <div className="flex justify-end">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setIsCopyAssistantOpen(true)}
+                      leftIcon={<Sparkles size={14} />}
+                    >
+                      Write Headlines with AI
+                    </Button>
+                  </div>
+                )}
+
+                {adForm.mediaPreview && (
+                  <TextLayerEditor
+                    mediaUrl={adForm.mediaPreview}
+                    isVideo={adForm.isVideo}
+                    background={adForm.background}
+                    layers={adForm.layers}
+                    onChange={(layers) => setAdForm(prev => ({ ...prev, layers }))}
+                    brandColors={brandColors}
+                  />
+                )}
               </div>
             ) : (
               <Input
@@ -1088,10 +1334,22 @@ const AdBuilder = () => {
   return (
     <div>
       {viewMode === 'list' && renderAdList()}
+      {viewMode === 'templates' && renderTemplatePicker()}
       {viewMode === 'detail' && renderAdDetail()}
       {viewMode === 'create' && renderAdCreator()}
       {viewMode === 'edit' && renderAdEditor()}
-      
+
+      <CopyAssistantModal
+        kind="ad"
+        isOpen={isCopyAssistantOpen}
+        onClose={() => setIsCopyAssistantOpen(false)}
+        businessName={businessName}
+        onSelect={(copy) => setAdForm(prev => ({
+          ...prev,
+          layers: setLayerTexts(prev.layers, copy.subheadline ? [copy.headline, copy.subheadline] : [copy.headline])
+        }))}
+      />
+
       {/* Debug info for development */}
       {import.meta.env.DEV && debugInfo.length > 0 && (
         <div className="fixed bottom-4 right-4 z-50 w-80 bg-black bg-opacity-80 text-white rounded-lg shadow-lg overflow-hidden">
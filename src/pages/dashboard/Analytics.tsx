@@ -0,0 +1,311 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useAuthStore } from '../../store/authStore';
+import Card, { CardHeader, CardTitle, CardDescription, CardContent } from '../../components/ui/Card';
+import Button from '../../components/ui/Button';
+import TrendChart from '../../components/ui/TrendChart';
+import {
+  getScanTimeseries,
+  getAdSpacePerformance,
+  getAnalyticsSummary,
+  getQrBatchPerformance,
+  percentChange,
+  formatChange,
+  repeatRate,
+  formatBucketLabel,
+  AnalyticsBucket,
+  TimeseriesPoint,
+  AdSpacePerformance,
+  AnalyticsSummary,
+  QrBatchPerformance
+} from '../../lib/analytics';
+import { BarChart3, Eye, Users, Repeat, RefreshCw } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+const ChangeLabel = ({ current, previous }: { current: number; previous: number }) => {
+  const change = percentChange(current, previous);
+  const isPositive = change === null || change >= 0;
+
+  return (
+    <span className={`text-sm ${isPositive ? 'text-success-500' : 'text-error-500'}`}>
+      {formatChange(change)}
+    </span>
+  );
+};
+
+const Analytics = () => {
+  const { user } = useAuthStore();
+  const [days, setDays] = useState(30);
+  const [bucket, setBucket] = useState<AnalyticsBucket>('day');
+  const [timeseries, setTimeseries] = useState<TimeseriesPoint[]>([]);
+  const [performance, setPerformance] = useState<AdSpacePerformance[]>([]);
+  const [summary, setSummary] = useState<AnalyticsSummary | null>(null);
+  const [batches, setBatches] = useState<QrBatchPerformance[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  useEffect(() => {
+    const fetchAnalytics = async () => {
+      setIsLoading(true);
+      try {
+        const [series, spaces, totals, batchTotals] = await Promise.all([
+          getScanTimeseries({ days, bucket }),
+          getAdSpacePerformance(days),
+          getAnalyticsSummary(days),
+          getQrBatchPerformance(days)
+        ]);
+        setTimeseries(series);
+        setPerformance(spaces);
+        setSummary(totals);
+        setBatches(batchTotals);
+      } catch (error) {
+        console.error('Error fetching analytics:', error);
+        toast.error('Failed to load analytics');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (user) {
+      fetchAnalytics();
+    }
+  }, [user, days, bucket, refreshKey]);
+
+  const summaryCards = summary ? [
+    {
+      title: 'Scans',
+      value: summary.scans,
+      previous: summary.prevScans,
+      icon: <BarChart3 size={20} />,
+      color: 'bg-blue-100 text-blue-600'
+    },
+    {
+      title: 'Ad Views',
+      value: summary.views,
+      previous: summary.prevViews,
+      icon: <Eye size={20} />,
+      color: 'bg-green-100 text-green-600'
+    },
+    {
+      title: 'Unique Scanners',
+      value: summary.uniqueScanners,
+      previous: summary.prevUniqueScanners,
+      icon: <Users size={20} />,
+      color: 'bg-purple-100 text-purple-600'
+    },
+    {
+      title: 'Repeat Scanners',
+      value: summary.repeatScanners,
+      previous: summary.prevRepeatScanners,
+      icon: <Repeat size={20} />,
+      color: 'bg-orange-100 text-orange-600'
+    }
+  ] : [];
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Analytics</h1>
+          <p className="text-gray-600 mt-1">
+            How your printed QR codes and ad spaces are performing.
+          </p>
+        </div>
+        <div className="mt-4 md:mt-0 flex flex-wrap items-center gap-2">
+          {RANGE_OPTIONS.map((option) => (
+            <Button
+              key={option}
+              variant={days === option ? 'primary' : 'outline'}
+              size="sm"
+              onClick={() => setDays(option)}
+            >
+              {option} days
+            </Button>
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setRefreshKey((key) => key + 1)}
+            leftIcon={<RefreshCw size={14} />}
+            isLoading={isLoading}
+          >
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {/* Summary cards */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        {summaryCards.map((item) => (
+          <Card key={item.title} className="bg-white">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-500">{item.title}</p>
+                <p className="text-2xl font-bold mt-1">{item.value.toLocaleString()}</p>
+              </div>
+              <div className={`p-3 rounded-full ${item.color}`}>
+                {item.icon}
+              </div>
+            </div>
+            <div className="mt-2">
+              <ChangeLabel current={item.value} previous={item.previous} />
+              <span className="text-sm text-gray-500 ml-1">vs previous {days} days</span>
+            </div>
+          </Card>
+        ))}
+      </div>
+
+      {/* Trend chart */}
+      <Card>
+        <CardHeader className="flex items-start justify-between">
+          <div>
+            <CardTitle>Scans over time</CardTitle>
+            <CardDescription>Scans, ad views and unique scanners per {bucket}</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant={bucket === 'day' ? 'primary' : 'outline'}
+              size="sm"
+              onClick={() => setBucket('day')}
+            >
+              Daily
+            </Button>
+            <Button
+              variant={bucket === 'week' ? 'primary' : 'outline'}
+              size="sm"
+              onClick={() => setBucket('week')}
+            >
+              Weekly
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <TrendChart
+            labels={timeseries.map((point) => formatBucketLabel(point.bucket, bucket))}
+            series={[
+              { key: 'scans', label: 'Scans', color: '#0066FF', values: timeseries.map((point) => point.scans) },
+              { key: 'views', label: 'Ad views', color: '#00c36e', values: timeseries.map((point) => point.views) },
+              { key: 'unique', label: 'Unique scanners', color: '#FF6600', values: timeseries.map((point) => point.uniqueScanners) }
+            ]}
+          />
+        </CardContent>
+      </Card>
+
+      {/* Per ad space breakdown */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Ad spaces</CardTitle>
+          <CardDescription>Last {days} days compared with the {days} days before</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {performance.length === 0 ? (
+            <p className="text-sm text-gray-500 py-6 text-center">
+              {isLoading ? 'Loading...' : 'No ad spaces yet. Create an ad to start tracking scans.'}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 pr-4 font-medium">Ad space</th>
+                    <th className="py-2 pr-4 font-medium text-right">Scans</th>
+                    <th className="py-2 pr-4 font-medium text-right">Views</th>
+                    <th className="py-2 pr-4 font-medium text-right">Unique</th>
+                    <th className="py-2 pr-4 font-medium text-right">Repeat rate</th>
+                    <th className="py-2 font-medium text-right">All-time views</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {performance.map((space) => (
+                    <tr key={space.adSpaceId} className="border-b border-gray-100 last:border-0">
+                      <td className="py-3 pr-4 font-medium">
+                        <Link
+                          to={`/ad-builder/${space.adSpaceId}/analytics`}
+                          className="text-primary-500 hover:text-primary-600"
+                        >
+                          {space.title || 'Untitled'}
+                        </Link>
+                      </td>
+                      <td className="py-3 pr-4 text-right">
+                        <div>{space.scans.toLocaleString()}</div>
+                        <ChangeLabel current={space.scans} previous={space.prevScans} />
+                      </td>
+                      <td className="py-3 pr-4 text-right">
+                        <div>{space.views.toLocaleString()}</div>
+                        <ChangeLabel current={space.views} previous={space.prevViews} />
+                      </td>
+                      <td className="py-3 pr-4 text-right">{space.uniqueScanners.toLocaleString()}</td>
+                      <td className="py-3 pr-4 text-right">
+                        {repeatRate(space.uniqueScanners, space.repeatScanners).toFixed(1)}%
+                      </td>
+                      <td className="py-3 text-right">{space.totalViews.toLocaleString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Bulk QR code batches, each code rolled up into its batch */}
+      {batches.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>QR code batches</CardTitle>
+            <CardDescription>Scans across every code in a batch, last {days} days</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 pr-4 font-medium">Batch</th>
+                    <th className="py-2 pr-4 font-medium text-right">Codes</th>
+                    <th className="py-2 pr-4 font-medium text-right">Scans</th>
+                    <th className="py-2 pr-4 font-medium text-right">Unique</th>
+                    <th className="py-2 pr-4 font-medium">Most scanned</th>
+                    <th className="py-2 font-medium text-right">All-time scans</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {batches.map((batch) => (
+                    <tr key={batch.batchId} className="border-b border-gray-100 last:border-0">
+                      <td className="py-3 pr-4 font-medium">
+                        <Link to="/qr-codes" className="text-primary-500 hover:text-primary-600">
+                          {batch.name}
+                        </Link>
+                      </td>
+                      <td className="py-3 pr-4 text-right">{batch.codeCount.toLocaleString()}</td>
+                      <td className="py-3 pr-4 text-right">
+                        <div>{batch.scans.toLocaleString()}</div>
+                        <ChangeLabel current={batch.scans} previous={batch.prevScans} />
+                      </td>
+                      <td className="py-3 pr-4 text-right">{batch.uniqueScanners.toLocaleString()}</td>
+                      <td className="py-3 pr-4">
+                        {batch.topCode ? (
+                          <>
+                            <span className="font-mono text-xs">{batch.topCode.trackingId}</span>{' '}
+                            {batch.topCode.label}
+                            <span className="text-gray-500"> ({batch.topCode.scans.toLocaleString()})</span>
+                          </>
+                        ) : (
+                          <span className="text-gray-400">No scans</span>
+                        )}
+                      </td>
+                      <td className="py-3 text-right">{batch.totalScans.toLocaleString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default Analytics;
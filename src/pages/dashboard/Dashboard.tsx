@@ -1,14 +1,16 @@
 import { useState, useEffect } from 'react';
-import { Link } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import { useAuthStore } from '../../store/authStore';
+import { useEntitlements } from '../../store/entitlementsStore';
 import { supabase } from '../../lib/supabase';
 import Card, { CardHeader, CardTitle, CardContent } from '../../components/ui/Card';
 import Button from '../../components/ui/Button';
 import Modal from '../../components/ui/Modal';
-import Input from '../../components/ui/Input';
+import { getAnalyticsSummary, percentChange, formatChange, repeatRate, AnalyticsSummary } from '../../lib/analytics';
+import { cancelSubscription, resumeSubscription, startCheckout } from '../../lib/billing';
+import { formatLimit } from '../../lib/entitlements';
+import { getErrorMessage } from '../../lib/errors';
 import { 
-  Zap, 
-  Home, 
   Palette, 
   MessageSquare, 
   TrendingUp, 
@@ -19,52 +21,47 @@ import {
   Crown,
   Lock,
   Check,
-  CreditCard
+  CreditCard,
+  AlertTriangle
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
-interface DashboardStats {
-  adDesigns: number;
-  smsMessages: number;
-}
-
-interface UserSubscription {
-  tier: {
-    name: string;
-    features: string[];
-  };
-  status: string;
-  current_period_end: string;
-}
-
-interface UsageLimits {
-  sms_count: number;
-  api_calls_count: number;
-  reset_date: string;
-}
-
 interface UserProfile {
   business_name: string;
 }
 
 const Dashboard = () => {
   const { user } = useAuthStore();
-  const [stats, setStats] = useState<DashboardStats>({
-    adDesigns: 0,
-    smsMessages: 0,
-  });
-  const [subscription, setSubscription] = useState<UserSubscription | null>(null);
-  const [usageLimits, setUsageLimits] = useState<UsageLimits | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const {
+    entitlements,
+    hasFeature,
+    limit,
+    usage,
+    refresh: refreshEntitlements,
+  } = useEntitlements();
   const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [analyticsSummary, setAnalyticsSummary] = useState<AnalyticsSummary | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isUpgrading, setIsUpgrading] = useState(false);
+  const [isUpdatingPlan, setIsUpdatingPlan] = useState(false);
   const [showUpgradeModal, setShowUpgradeModal] = useState(false);
-  const [paymentForm, setPaymentForm] = useState({
-    cardNumber: '',
-    expiry: '',
-    cvc: '',
-    name: '',
-  });
+
+  // Back from the billing provider's checkout page
+  useEffect(() => {
+    const billing = searchParams.get('billing');
+    if (!billing) return;
+
+    if (billing === 'success') {
+      toast.success('Payment received, your Pro plan is being activated');
+      // The billing webhook may arrive after the redirect
+      refreshEntitlements();
+      setTimeout(refreshEntitlements, 5000);
+    } else if (billing === 'cancelled') {
+      toast('Checkout cancelled, you have not been charged');
+    }
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams, refreshEntitlements]);
   
   useEffect(() => {
     const fetchDashboardData = async () => {
@@ -84,78 +81,17 @@ const Dashboard = () => {
           setProfile(profileData);
         }
 
-        // Fetch subscription info
-        const { data: subscriptionData, error: subscriptionError } = await supabase
-          .from('user_subscriptions')
-          .select(`
-            status,
-            current_period_end,
-            tier_id (
-              name,
-              features
-            )
-          `)
-          .eq('user_id', user?.id)
-          .maybeSingle();
-
-        if (subscriptionError) {
-          console.error('Subscription error:', subscriptionError);
-          // Continue with other fetches even if this one fails
-        } else if (subscriptionData) {
-          setSubscription({
-            tier: {
-              name: subscriptionData.tier_id?.name || 'Free',
-              features: subscriptionData.tier_id?.features || []
-            },
-            status: subscriptionData.status || 'active',
-            current_period_end: subscriptionData.current_period_end || new Date().toISOString()
-          });
-        }
-
-        // Fetch usage limits
-        const { data: limitsData, error: limitsError } = await supabase
-          .from('user_usage_limits')
-          .select('*')
-          .eq('user_id', user?.id)
-          .maybeSingle();
-
-        if (limitsError) {
-          console.error('Usage limits error:', limitsError);
-          // Continue with other fetches even if this one fails
-        } else if (limitsData) {
-          setUsageLimits(limitsData);
-        }
-
-        // Fetch ad designs count
-        const { count: adCount, error: adError } = await supabase
-          .from('ad_designs')
-          .select('*', { count: 'exact', head: true })
-          .eq('user_id', user?.id);
-
-        if (adError) {
-          console.error('Ad designs count error:', adError);
-        } else {
-          setStats(prev => ({
-            ...prev,
-            adDesigns: adCount || 0
-          }));
+        // Fetch scan analytics for the last 30 days
+        try {
+          setAnalyticsSummary(await getAnalyticsSummary(30));
+        } catch (analyticsError) {
+          console.error('Analytics summary error:', analyticsError);
         }
 
         // Set default values if we couldn't fetch real data
         if (!profile) {
           setProfile({ business_name: 'Your Business' });
         }
-        
-        if (!subscription) {
-          setSubscription({
-            tier: {
-              name: 'Free',
-              features: []
-            },
-            status: 'active',
-            current_period_end: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
-          });
-        }
 
       } catch (error) {
         console.error('Error fetching dashboard data:', error);
@@ -165,17 +101,6 @@ const Dashboard = () => {
         if (!profile) {
           setProfile({ business_name: 'Your Business' });
         }
-        
-        if (!subscription) {
-          setSubscription({
-            tier: {
-              name: 'Free',
-              features: []
-            },
-            status: 'active',
-            current_period_end: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
-          });
-        }
       } finally {
         setIsLoading(false);
       }
@@ -186,67 +111,61 @@ const Dashboard = () => {
     }
   }, [user]);
   
-  const isPro = subscription?.tier.name === 'Pro';
+  const isPro = entitlements?.tier === 'Pro';
 
   const handleUpgrade = async () => {
     setShowUpgradeModal(true);
   };
 
-  const handlePaymentSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const handleCheckout = async () => {
     setIsUpgrading(true);
-
     try {
-      // Validate form
-      if (!paymentForm.cardNumber || !paymentForm.expiry || !paymentForm.cvc || !paymentForm.name) {
-        throw new Error('Please fill in all payment details');
-      }
-
-      // Get the Pro tier ID
-      const { data: tierData, error: tierError } = await supabase
-        .from('subscription_tiers')
-        .select('id')
-        .eq('name', 'Pro')
-        .single();
-
-      if (tierError) throw tierError;
-
-      // Update the subscription
-      const { error: updateError } = await supabase
-        .from('user_subscriptions')
-        .update({
-          tier_id: tierData.id,
-          status: 'active',
-          current_period_end: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()
-        })
-        .eq('user_id', user?.id);
+      await startCheckout();
+    } catch (error) {
+      console.error('Error starting checkout:', error);
+      toast.error(getErrorMessage(error, 'Failed to start checkout'));
+      setIsUpgrading(false);
+    }
+  };
 
-      if (updateError) throw updateError;
+  const handleCancelPlan = async () => {
+    if (!window.confirm('Cancel your Pro plan? You keep Pro features until the end of the period you paid for.')) return;
 
-      // Update local state
-      setSubscription(prev => prev ? {
-        ...prev,
-        tier: {
-          name: 'Pro',
-          features: [
-            "Unlimited ad spaces",
-            "1000 SMS credits/month",
-            "Priority support",
-            "Custom branding",
-            "Advanced analytics",
-            "API access"
-          ]
-        }
-      } : null);
+    setIsUpdatingPlan(true);
+    try {
+      await cancelSubscription();
+      await refreshEntitlements();
+      toast.success('Your plan will move to Free at the end of the billing period');
+    } catch (error) {
+      console.error('Error cancelling plan:', error);
+      toast.error(getErrorMessage(error, 'Failed to cancel plan'));
+    } finally {
+      setIsUpdatingPlan(false);
+    }
+  };
 
-      toast.success('Successfully upgraded to Pro!');
-      setShowUpgradeModal(false);
-    } catch (error: any) {
-      toast.error(error.message || 'Failed to process payment');
+  const handleResumePlan = async () => {
+    setIsUpdatingPlan(true);
+    try {
+      await resumeSubscription();
+      await refreshEntitlements();
+      toast.success('Your Pro plan will renew');
+    } catch (error) {
+      console.error('Error resuming plan:', error);
+      toast.error(getErrorMessage(error, 'Failed to resume plan'));
     } finally {
-      setIsUpgrading(false);
+      setIsUpdatingPlan(false);
     }
   };
+
+  const renewalText = () => {
+    if (!entitlements?.current_period_end || !isPro) return 'Upgrade to unlock all features';
+
+    const date = new Date(entitlements.current_period_end).toLocaleDateString();
+    if (entitlements.status === 'past_due') return 'Your last payment failed, we will retry it automatically';
+    if (entitlements.cancel_at_period_end) return `Your plan moves to Free on ${date}`;
+    return `Your subscription renews on ${date}`;
+  };
   
   // Feature cards for the dashboard
   const features = [
@@ -254,58 +173,62 @@ const Dashboard = () => {
       title: 'Ad Builder',
       description: 'Design beautiful ads with AI-powered assistance',
       icon: <Palette size={24} className="text-accent-500" />,
-      stat: stats.adDesigns,
+      stat: usage('ad_designs'),
       statLabel: 'Ad designs',
       linkTo: '/ad-builder',
       color: 'bg-accent-50 border-accent-200',
-      limit: isPro ? '∞' : '1',
-      current: stats.adDesigns
+      limit: entitlements ? formatLimit(limit('ad_designs')) : '-',
+      current: usage('ad_designs')
     },
     {
       title: 'SMS Manager',
       description: 'Create and schedule SMS campaigns',
       icon: <MessageSquare size={24} className="text-secondary-500" />,
-      stat: stats.smsMessages,
+      stat: usage('sms_per_month'),
       statLabel: 'Messages sent',
       linkTo: '/sms-manager',
       color: 'bg-secondary-50 border-secondary-200',
-      limit: isPro ? '1000' : '0',
-      current: stats.smsMessages,
-      proOnly: !isPro
+      limit: entitlements ? formatLimit(limit('sms_per_month')) : '-',
+      current: usage('sms_per_month'),
+      proOnly: !hasFeature('sms')
     },
   ];
   
   // Analytics cards
-  const analytics = [
+  const summary = analyticsSummary;
+  const analytics = summary ? [
     {
-      title: 'Visitors',
-      value: '2,543',
-      change: '+12.5%',
-      isPositive: true,
-      icon: <Eye size={20} />,
+      title: 'Scans',
+      value: summary.scans.toLocaleString(),
+      change: percentChange(summary.scans, summary.prevScans),
+      icon: <BarChart3 size={20} />,
+      color: 'bg-blue-100 text-blue-600',
     },
     {
-      title: 'Engagement',
-      value: '45.8%',
-      change: '+3.2%',
-      isPositive: true,
-      icon: <TrendingUp size={20} />,
+      title: 'Ad Views',
+      value: summary.views.toLocaleString(),
+      change: percentChange(summary.views, summary.prevViews),
+      icon: <Eye size={20} />,
+      color: 'bg-green-100 text-green-600',
     },
     {
-      title: 'Audience',
-      value: '1,204',
-      change: '+28.4%',
-      isPositive: true,
+      title: 'Unique Scanners',
+      value: summary.uniqueScanners.toLocaleString(),
+      change: percentChange(summary.uniqueScanners, summary.prevUniqueScanners),
       icon: <Users size={20} />,
+      color: 'bg-purple-100 text-purple-600',
     },
     {
-      title: 'Conversions',
-      value: '3.8%',
-      change: '-0.5%',
-      isPositive: false,
-      icon: <BarChart3 size={20} />,
+      title: 'Repeat Rate',
+      value: `${repeatRate(summary.uniqueScanners, summary.repeatScanners).toFixed(1)}%`,
+      change: percentChange(
+        repeatRate(summary.uniqueScanners, summary.repeatScanners),
+        repeatRate(summary.prevUniqueScanners, summary.prevRepeatScanners)
+      ),
+      icon: <TrendingUp size={20} />,
+      color: 'bg-orange-100 text-orange-600',
     },
-  ];
+  ] : [];
   
   if (isLoading) {
     return (
@@ -348,31 +271,40 @@ const Dashboard = () => {
       </div>
       
       {/* Subscription status */}
-      {subscription && (
+      {entitlements && (
         <Card className={isPro ? 'bg-primary-50 border-primary-200' : 'bg-gray-50'}>
           <CardContent className="flex items-center justify-between py-4">
             <div className="flex items-center gap-3">
-              {isPro ? (
+              {isPro && entitlements.status === 'past_due' ? (
+                <AlertTriangle size={24} className="text-warning-500" />
+              ) : isPro ? (
                 <Crown size={24} className="text-primary-500" />
               ) : (
                 <Lock size={24} className="text-gray-400" />
               )}
               <div>
                 <h3 className="font-semibold">
-                  {isPro ? 'Pro Plan' : 'Free Plan'}
+                  {entitlements.tier} Plan
                 </h3>
-                <p className="text-sm text-gray-600">
-                  {isPro 
-                    ? `Your subscription renews on ${new Date(subscription.current_period_end).toLocaleDateString()}`
-                    : 'Upgrade to unlock all features'}
-                </p>
+                <p className="text-sm text-gray-600">{renewalText()}</p>
               </div>
             </div>
-            {usageLimits && (
-              <div className="text-sm text-gray-600">
-                Next reset: {new Date(usageLimits.reset_date).toLocaleDateString()}
-              </div>
-            )}
+            <div className="flex items-center gap-4">
+              {entitlements.reset_date && (
+                <div className="text-sm text-gray-600">
+                  Next reset: {new Date(entitlements.reset_date).toLocaleDateString()}
+                </div>
+              )}
+              {isPro && (entitlements.cancel_at_period_end ? (
+                <Button size="sm" variant="outline" onClick={handleResumePlan} isLoading={isUpdatingPlan}>
+                  Keep Pro
+                </Button>
+              ) : (
+                <Button size="sm" variant="ghost" onClick={handleCancelPlan} isLoading={isUpdatingPlan}>
+                  Cancel Plan
+                </Button>
+              ))}
+            </div>
           </CardContent>
         </Card>
       )}
@@ -412,7 +344,17 @@ const Dashboard = () => {
       
       {/* Analytics section */}
       <div className="mt-8">
-        <h2 className="text-xl font-bold mb-4">Analytics Overview</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold">Analytics Overview</h2>
+          <Link to="/analytics" className="text-sm font-medium text-primary-500 hover:text-primary-600">
+            View all analytics
+          </Link>
+        </div>
+        {analytics.length === 0 && (
+          <Card className="bg-white">
+            <p className="text-sm text-gray-500">Scan analytics are not available right now.</p>
+          </Card>
+        )}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
           {analytics.map((item) => (
             <Card key={item.title} className="bg-white">
@@ -421,20 +363,15 @@ const Dashboard = () => {
                   <p className="text-sm font-medium text-gray-500">{item.title}</p>
                   <p className="text-2xl font-bold mt-1">{item.value}</p>
                 </div>
-                <div className={`p-3 rounded-full ${
-                  item.title === 'Visitors' ? 'bg-blue-100 text-blue-600' :
-                  item.title === 'Engagement' ? 'bg-green-100 text-green-600' :
-                  item.title === 'Audience' ? 'bg-purple-100 text-purple-600' :
-                  'bg-orange-100 text-orange-600'
-                }`}>
+                <div className={`p-3 rounded-full ${item.color}`}>
                   {item.icon}
                 </div>
               </div>
               <div className="mt-2">
-                <span className={`text-sm ${item.isPositive ? 'text-success-500' : 'text-error-500'}`}>
-                  {item.change}
+                <span className={`text-sm ${item.change === null || item.change >= 0 ? 'text-success-500' : 'text-error-500'}`}>
+                  {formatChange(item.change)}
                 </span>
-                <span className="text-sm text-gray-500 ml-1">vs last month</span>
+                <span className="text-sm text-gray-500 ml-1">vs previous 30 days</span>
               </div>
             </Card>
           ))}
@@ -532,55 +469,22 @@ const Dashboard = () => {
               </div>
             </div>
 
-            <div>
-              <form onSubmit={handlePaymentSubmit} className="space-y-4">
-                <Input
-                  label="Card Number"
-                  type="text"
-                  value={paymentForm.cardNumber}
-                  onChange={(e) => setPaymentForm({ ...paymentForm, cardNumber: e.target.value })}
-                  placeholder="1234 5678 9012 3456"
-                  leftIcon={<CreditCard size={16} />}
-                  required
-                />
-
-                <div className="grid grid-cols-2 gap-4">
-                  <Input
-                    label="Expiry Date"
-                    type="text"
-                    value={paymentForm.expiry}
-                    onChange={(e) => setPaymentForm({ ...paymentForm, expiry: e.target.value })}
-                    placeholder="MM/YY"
-                    required
-                  />
-
-                  <Input
-                    label="CVC"
-                    type="text"
-                    value={paymentForm.cvc}
-                    onChange={(e) => setPaymentForm({ ...paymentForm, cvc: e.target.value })}
-                    placeholder="123"
-                    required
-                  />
+            <div className="flex flex-col justify-center">
+              <div className="rounded-lg border border-gray-200 bg-gray-50 p-4 text-sm text-gray-600">
+                <div className="flex items-center font-medium text-gray-800 mb-2">
+                  <CreditCard size={16} className="mr-2" />
+                  Secure checkout
                 </div>
+                You will enter your payment details on our payment provider's secure page, they never reach our servers.
+              </div>
 
-                <Input
-                  label="Name on Card"
-                  type="text"
-                  value={paymentForm.name}
-                  onChange={(e) => setPaymentForm({ ...paymentForm, name: e.target.value })}
-                  placeholder="John Doe"
-                  required
-                />
-
-                <Button
-                  type="submit"
-                  className="w-full mt-6"
-                  isLoading={isUpgrading}
-                >
-                  Upgrade Now
-                </Button>
-              </form>
+              <Button
+                className="w-full mt-6"
+                onClick={handleCheckout}
+                isLoading={isUpgrading}
+              >
+                Continue to Checkout
+              </Button>
 
               <div className="mt-4 text-center">
                 <p className="text-sm text-gray-500">
@@ -0,0 +1,551 @@
+import { useState, useEffect, useRef } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { DndContext, DragEndEvent } from '@dnd-kit/core';
+import { useAuthStore } from '../../store/authStore';
+import { supabase } from '../../lib/supabase';
+import { getErrorMessage } from '../../lib/errors';
+import { ensureAdSpaceQrCode, getQrCodeShortUrl } from '../../lib/qrCodes';
+import { QrDesign, normalizeQrDesign } from '../../lib/qrDesign';
+import { downloadBlob, getQrExportFileName } from '../../lib/qrExport';
+import {
+  PRINT_TEMPLATES,
+  PrintElement,
+  PrintFormat,
+  PrintLayout,
+  exportPrintLayout,
+  getDefaultPrintLayout,
+  getPrintScale,
+  getPrintTemplate,
+  movePrintElement,
+  normalizePrintLayout
+} from '../../lib/printLayout';
+import Card, { CardHeader, CardTitle, CardDescription, CardContent } from '../../components/ui/Card';
+import Button from '../../components/ui/Button';
+import QrCode from '../../components/ui/QrCode';
+import DraggableText from '../../components/ui/DraggableText';
+import DraggableBox from '../../components/ui/DraggableBox';
+import { ArrowLeft, Download, FileText, Image as ImageIcon, QrCode as QrIcon, RotateCcw, Save, Type } from 'lucide-react';
+import toast from 'react-hot-toast';
+
+interface PrintAdDesign {
+  id: string;
+  name: string;
+  background: string | null;
+  image_url: string | null;
+  video_url: string | null;
+  content: { headline?: string } | null;
+  ad_space_id: string | null;
+  print_layout: unknown;
+}
+
+// Largest size of the on-screen page, exports are rendered from it at print resolution
+const MAX_PREVIEW_WIDTH = 520;
+const MAX_PREVIEW_HEIGHT = 620;
+
+const ELEMENTS: { id: PrintElement; label: string; icon: React.ReactNode }[] = [
+  { id: 'image', label: 'Image', icon: <ImageIcon size={14} /> },
+  { id: 'headline', label: 'Headline', icon: <Type size={14} /> },
+  { id: 'qr', label: 'QR Code', icon: <QrIcon size={14} /> },
+];
+
+// A new layout starts from the ad's headline (or name) and background
+const layoutDefaults = (ad: PrintAdDesign) => ({
+  headline: ad.content?.headline || ad.name,
+  background: ad.background || '#FFFFFF',
+});
+
+const PrintDesigner = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const [design, setDesign] = useState<PrintAdDesign | null>(null);
+  const [layout, setLayout] = useState<PrintLayout | null>(null);
+  const [qrUrl, setQrUrl] = useState<string | null>(null);
+  const [qrDesign, setQrDesign] = useState<QrDesign | undefined>();
+  const [selected, setSelected] = useState<PrintElement | null>('headline');
+  const [isLoading, setIsLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [exporting, setExporting] = useState<PrintFormat | null>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const fetchDesign = async () => {
+      if (!id) return;
+      setIsLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('ad_designs')
+          .select('id, name, background, image_url, video_url, content, ad_space_id, print_layout')
+          .eq('id', id)
+          .eq('user_id', user?.id)
+          .maybeSingle<PrintAdDesign>();
+
+        if (error) throw error;
+        if (!data) {
+          setNotFound(true);
+          return;
+        }
+
+        setDesign(data);
+        setLayout(normalizePrintLayout(data.print_layout, layoutDefaults(data)));
+
+        if (data.ad_space_id) {
+          const code = await ensureAdSpaceQrCode(data.ad_space_id);
+          setQrDesign(normalizeQrDesign(code.design));
+          setQrUrl(getQrCodeShortUrl(code.short_code));
+        }
+      } catch (error) {
+        console.error('Error loading print layout:', error);
+        toast.error('Failed to load this ad');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (user) {
+      fetchDesign();
+    }
+  }, [id, user]);
+
+  if (notFound) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-600">This ad could not be found</p>
+        <Button variant="outline" onClick={() => navigate('/ad-builder')} className="mt-4">
+          Back to Ad Builder
+        </Button>
+      </div>
+    );
+  }
+
+  if (isLoading || !design || !layout) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  const template = getPrintTemplate(layout.template);
+  const pixelsPerInch = Math.min(MAX_PREVIEW_WIDTH / template.width, MAX_PREVIEW_HEIGHT / template.height);
+  const panelWidth = Math.round(template.width * pixelsPerInch);
+  const panelHeight = Math.round(template.height * pixelsPerInch);
+  const fontScale = getPrintScale(template, panelWidth);
+
+  const update = <K extends PrintElement>(element: K, changes: Partial<PrintLayout[K]>) => {
+    setLayout((prev) => (prev ? { ...prev, [element]: { ...prev[element], ...changes } } : prev));
+  };
+
+  const handleTemplateChange = (templateId: PrintLayout['template']) => {
+    // Positions are laid out per template, the text, colors and visibility carry over
+    const next = getDefaultPrintLayout(templateId, { headline: layout.headline.text, background: layout.background });
+    setLayout({
+      ...next,
+      image: { ...next.image, visible: layout.image.visible },
+      headline: { ...next.headline, visible: layout.headline.visible, color: layout.headline.color, align: layout.headline.align },
+      qr: { ...next.qr, visible: layout.qr.visible },
+    });
+  };
+
+  const handleReset = () => {
+    setLayout(getDefaultPrintLayout(layout.template, layoutDefaults(design)));
+  };
+
+  const handleDragEnd = ({ active, delta }: DragEndEvent) => {
+    const element = active.id as PrintElement;
+    setLayout((prev) => (prev ? movePrintElement(prev, element, delta, { width: panelWidth, height: panelHeight }) : prev));
+    setSelected(element);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from('ad_designs')
+        .update({ print_layout: layout })
+        .eq('id', design.id);
+
+      if (error) throw error;
+      toast.success('Print layout saved');
+    } catch (error) {
+      console.error('Error saving print layout:', error);
+      toast.error('Failed to save print layout');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExport = async (format: PrintFormat) => {
+    if (!panelRef.current) return;
+
+    setExporting(format);
+    setSelected(null);
+    try {
+      // Let the selection outline disappear before the page is captured
+      await new Promise((resolve) => requestAnimationFrame(resolve));
+      const blob = await exportPrintLayout(panelRef.current, template, format);
+      downloadBlob(blob, getQrExportFileName(`${design.name} ${template.label}`, format));
+    } catch (error) {
+      console.error('Error exporting print layout:', error);
+      toast.error(getErrorMessage(error, 'Failed to export the print file'));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const hasImage = !!design.image_url;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div className="flex items-center space-x-4">
+          <Button variant="outline" onClick={() => navigate('/ad-builder')} leftIcon={<ArrowLeft size={16} />}>
+            Back
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold">Print Layout</h1>
+            <p className="text-gray-600">{design.name}</p>
+          </div>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={handleReset} leftIcon={<RotateCcw size={16} />}>
+            Reset
+          </Button>
+          <Button variant="outline" onClick={handleSave} isLoading={isSaving} leftIcon={<Save size={16} />}>
+            Save Layout
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => handleExport('png')}
+            disabled={exporting !== null}
+            isLoading={exporting === 'png'}
+            leftIcon={<Download size={16} />}
+          >
+            PNG
+          </Button>
+          <Button
+            onClick={() => handleExport('pdf')}
+            disabled={exporting !== null}
+            isLoading={exporting === 'pdf'}
+            leftIcon={<FileText size={16} />}
+          >
+            Print-ready PDF
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>{template.label}</CardTitle>
+            <CardDescription>
+              {template.description}. Drag the elements to place them
+              {template.folded && ', the side is printed twice on one sheet so the tent reads the same from both sides'}.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex justify-center bg-gray-100 rounded-lg p-6 overflow-auto">
+              <DndContext onDragEnd={handleDragEnd}>
+                <div
+                  ref={panelRef}
+                  className="relative overflow-hidden shadow-lg shrink-0"
+                  style={{ width: panelWidth, height: panelHeight, backgroundColor: layout.background }}
+                  onClick={(e) => {
+                    if (e.target === e.currentTarget) setSelected(null);
+                  }}
+                >
+                  {hasImage && layout.image.visible && (
+                    <DraggableBox
+                      id="image"
+                      position={{ x: layout.image.x * panelWidth, y: layout.image.y * panelHeight }}
+                      width={layout.image.width * panelWidth}
+                      height={layout.image.height * panelHeight}
+                      isSelected={selected === 'image'}
+                      onClick={() => setSelected('image')}
+                    >
+                      <img
+                        src={design.image_url || undefined}
+                        alt=""
+                        className="w-full h-full object-cover"
+                        crossOrigin="anonymous"
+                        draggable={false}
+                      />
+                    </DraggableBox>
+                  )}
+
+                  {layout.headline.visible && layout.headline.text.trim() && (
+                    <div className="font-bold leading-tight whitespace-pre-line">
+                      <DraggableText
+                        id="headline"
+                        content={layout.headline.text}
+                        position={{ x: layout.headline.x * panelWidth, y: layout.headline.y * panelHeight }}
+                        fontSize={layout.headline.fontSize * fontScale}
+                        color={layout.headline.color}
+                        align={layout.headline.align}
+                        width={`${layout.headline.width * 100}%`}
+                        shadow={false}
+                        isSelected={selected === 'headline'}
+                        onClick={() => setSelected('headline')}
+                      />
+                    </div>
+                  )}
+
+                  {qrUrl && layout.qr.visible && (
+                    <DraggableBox
+                      id="qr"
+                      position={{ x: layout.qr.x * panelWidth, y: layout.qr.y * panelHeight }}
+                      width={layout.qr.size * panelWidth}
+                      isSelected={selected === 'qr'}
+                      onClick={() => setSelected('qr')}
+                    >
+                      <QrCode
+                        value={qrUrl}
+                        size={layout.qr.size * panelWidth}
+                        level="H"
+                        design={qrDesign}
+                        hideDownload
+                      />
+                    </DraggableBox>
+                  )}
+                </div>
+              </DndContext>
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Page</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                {PRINT_TEMPLATES.map((option) => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    className={`p-3 rounded-lg border text-left transition-colors ${
+                      layout.template === option.id
+                        ? 'border-primary-500 bg-primary-50'
+                        : 'border-gray-200 hover:border-gray-300'
+                    }`}
+                    onClick={() => handleTemplateChange(option.id)}
+                  >
+                    <span className="block text-sm font-medium">{option.label}</span>
+                    <span className="block text-xs text-gray-500">{option.description}</span>
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center justify-between">
+                <label htmlFor="print-background" className="text-sm font-medium text-gray-700">Background</label>
+                <input
+                  id="print-background"
+                  type="color"
+                  value={layout.background}
+                  onChange={(e) => setLayout({ ...layout, background: e.target.value })}
+                  className="w-10 h-8 rounded border border-gray-300 cursor-pointer"
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex space-x-2">
+                {ELEMENTS.map((element) => (
+                  <Button
+                    key={element.id}
+                    size="sm"
+                    variant={selected === element.id ? 'primary' : 'outline'}
+                    onClick={() => setSelected(element.id)}
+                    leftIcon={element.icon}
+                  >
+                    {element.label}
+                  </Button>
+                ))}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!selected && (
+                <p className="text-sm text-gray-500">Select an element on the page to change it.</p>
+              )}
+
+              {selected === 'image' && (
+                hasImage ? (
+                  <>
+                    <label className="flex items-center cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="mr-3"
+                        checked={layout.image.visible}
+                        onChange={(e) => update('image', { visible: e.target.checked })}
+                      />
+                      <span className="text-sm text-gray-700">Show the ad image</span>
+                    </label>
+                    <div className="space-y-2">
+                      <label htmlFor="print-image-width" className="block text-sm font-medium text-gray-700">
+                        Width ({Math.round(layout.image.width * 100)}%)
+                      </label>
+                      <input
+                        id="print-image-width"
+                        type="range"
+                        min={10}
+                        max={100}
+                        value={Math.round(layout.image.width * 100)}
+                        onChange={(e) => update('image', {
+                          width: Number(e.target.value) / 100,
+                          x: Math.min(layout.image.x, 1 - Number(e.target.value) / 100),
+                        })}
+                        className="w-full"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label htmlFor="print-image-height" className="block text-sm font-medium text-gray-700">
+                        Height ({Math.round(layout.image.height * 100)}%)
+                      </label>
+                      <input
+                        id="print-image-height"
+                        type="range"
+                        min={10}
+                        max={100}
+                        value={Math.round(layout.image.height * 100)}
+                        onChange={(e) => update('image', {
+                          height: Number(e.target.value) / 100,
+                          y: Math.min(layout.image.y, 1 - Number(e.target.value) / 100),
+                        })}
+                        className="w-full"
+                      />
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-500">
+                    {design.video_url
+                      ? 'Video ads have no still image to print. Add an image to the ad to use it here.'
+                      : 'This ad has no image.'}
+                  </p>
+                )
+              )}
+
+              {selected === 'headline' && (
+                <>
+                  <label className="flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="mr-3"
+                      checked={layout.headline.visible}
+                      onChange={(e) => update('headline', { visible: e.target.checked })}
+                    />
+                    <span className="text-sm text-gray-700">Show the headline</span>
+                  </label>
+                  <div className="space-y-2">
+                    <label htmlFor="print-headline" className="block text-sm font-medium text-gray-700">Text</label>
+                    <textarea
+                      id="print-headline"
+                      className="input min-h-[5rem]"
+                      value={layout.headline.text}
+                      onChange={(e) => update('headline', { text: e.target.value })}
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <label htmlFor="print-font-size" className="block text-sm font-medium text-gray-700">Size (pt)</label>
+                      <input
+                        id="print-font-size"
+                        type="number"
+                        className="input"
+                        min={6}
+                        max={200}
+                        value={layout.headline.fontSize}
+                        onChange={(e) => update('headline', { fontSize: Math.min(200, Math.max(6, Number(e.target.value) || 6)) })}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <label htmlFor="print-headline-color" className="block text-sm font-medium text-gray-700">Color</label>
+                      <input
+                        id="print-headline-color"
+                        type="color"
+                        value={layout.headline.color}
+                        onChange={(e) => update('headline', { color: e.target.value })}
+                        className="w-10 h-8 rounded border border-gray-300 cursor-pointer"
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <label htmlFor="print-headline-width" className="block text-sm font-medium text-gray-700">
+                      Width ({Math.round(layout.headline.width * 100)}%)
+                    </label>
+                    <input
+                      id="print-headline-width"
+                      type="range"
+                      min={10}
+                      max={100}
+                      value={Math.round(layout.headline.width * 100)}
+                      onChange={(e) => update('headline', {
+                        width: Number(e.target.value) / 100,
+                        x: Math.min(layout.headline.x, 1 - Number(e.target.value) / 100),
+                      })}
+                      className="w-full"
+                    />
+                  </div>
+                  <div className="flex space-x-2">
+                    {(['left', 'center', 'right'] as const).map((align) => (
+                      <Button
+                        key={align}
+                        size="sm"
+                        variant={layout.headline.align === align ? 'primary' : 'outline'}
+                        onClick={() => update('headline', { align })}
+                      >
+                        {align.charAt(0).toUpperCase() + align.slice(1)}
+                      </Button>
+                    ))}
+                  </div>
+                </>
+              )}
+
+              {selected === 'qr' && (
+                qrUrl ? (
+                  <>
+                    <label className="flex items-center cursor-pointer">
+                      <input
+                        type="checkbox"
+                        className="mr-3"
+                        checked={layout.qr.visible}
+                        onChange={(e) => update('qr', { visible: e.target.checked })}
+                      />
+                      <span className="text-sm text-gray-700">Show the QR code</span>
+                    </label>
+                    <div className="space-y-2">
+                      <label htmlFor="print-qr-size" className="block text-sm font-medium text-gray-700">
+                        Size ({(layout.qr.size * template.width).toFixed(1)} in)
+                      </label>
+                      <input
+                        id="print-qr-size"
+                        type="range"
+                        min={10}
+                        max={60}
+                        value={Math.round(layout.qr.size * 100)}
+                        onChange={(e) => update('qr', {
+                          size: Number(e.target.value) / 100,
+                          x: Math.min(layout.qr.x, 1 - Number(e.target.value) / 100),
+                        })}
+                        className="w-full"
+                      />
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      The code opens {qrUrl}. Keep it at least 1 in wide so phones can scan it from a table or a wall.
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-sm text-gray-500">This ad has no ad space, so there is no QR code to print.</p>
+                )
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PrintDesigner;
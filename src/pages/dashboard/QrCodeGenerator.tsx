@@ -1,37 +1,81 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useAuthStore } from '../../store/authStore';
+import { useEntitlements } from '../../store/entitlementsStore';
 import { supabase } from '../../lib/supabase';
+import { getErrorMessage } from '../../lib/errors';
+import { getQrCodeDestinations, getQrCodeShortUrl, QrCodeDestination } from '../../lib/qrCodes';
+import { getBrandColors, getBrandProfile } from '../../lib/brand';
+import { DEFAULT_QR_DESIGN, QrDesign, isBrandedQrDesign, normalizeQrDesign } from '../../lib/qrDesign';
 import Card, { CardHeader, CardTitle, CardContent } from '../../components/ui/Card';
 import Button from '../../components/ui/Button';
 import Input from '../../components/ui/Input';
 import QrCode from '../../components/ui/QrCode';
-import { QrCode as QrIcon, Link, Plus } from 'lucide-react';
+import QrDesignEditor from '../../components/qr/QrDesignEditor';
+import QrBatchModal from '../../components/qr/QrBatchModal';
+import QrBatchList, { QrBatchSummary } from '../../components/qr/QrBatchList';
+import { QrCode as QrIcon, Link, Plus, Edit, Trash2, Layout, Lock, BarChart3, Layers } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 interface QrCodeData {
   id: string;
   name: string;
-  url: string;
+  short_code: string;
+  url: string | null;
+  ad_space_id: string | null;
+  is_ad_space_default: boolean;
+  design: unknown;
+  scans: number | null;
   created_at: string;
 }
 
+interface AdSpaceOption {
+  id: string;
+  title: string;
+}
+
+type Target = 'url' | 'ad_space';
+
+const QR_CODE_COLUMNS = 'id, name, short_code, url, ad_space_id, is_ad_space_default, design, scans, created_at';
+
+const emptyForm = { name: '', target: 'url' as Target, url: '', adSpaceId: '', design: DEFAULT_QR_DESIGN };
+
+// Saved as an empty object when nothing is customized, branding is a Pro feature
+const toSavedDesign = (design: QrDesign) => {
+  const normalized = normalizeQrDesign(design);
+  return isBrandedQrDesign(normalized) ? normalized : {};
+};
+
 const QrCodeGenerator = () => {
   const { user } = useAuthStore();
-  const [url, setUrl] = useState('');
-  const [name, setName] = useState('');
+  const navigate = useNavigate();
+  const {
+    entitlements,
+    hasFeature,
+    limit,
+    usage,
+    remaining,
+    refresh: refreshEntitlements,
+  } = useEntitlements();
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
   const [qrCodes, setQrCodes] = useState<QrCodeData[]>([]);
+  const [adSpaces, setAdSpaces] = useState<AdSpaceOption[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [isGenerating, setIsGenerating] = useState(false);
-
-  useEffect(() => {
-    fetchQrCodes();
-  }, []);
+  const [isSaving, setIsSaving] = useState(false);
+  const [destinations, setDestinations] = useState<QrCodeDestination[]>([]);
+  const [logoUrl, setLogoUrl] = useState<string | null>(null);
+  const [brandColors, setBrandColors] = useState<string[]>([]);
+  const [batches, setBatches] = useState<QrBatchSummary[]>([]);
+  const [isBatchModalOpen, setIsBatchModalOpen] = useState(false);
 
-  const fetchQrCodes = async () => {
+  const fetchQrCodes = useCallback(async () => {
     try {
       const { data, error } = await supabase
         .from('qr_codes')
-        .select('*')
+        .select(QR_CODE_COLUMNS)
+        .eq('user_id', user?.id)
+        .is('batch_id', null)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -42,47 +86,192 @@ const QrCodeGenerator = () => {
     } finally {
       setIsLoading(false);
     }
+  }, [user]);
+
+  // Batch codes are listed per batch instead of one card each
+  const fetchBatches = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('qr_code_batches')
+      .select('id, name, ad_space_id, tracking_prefix, created_at, qr_codes(count)')
+      .eq('user_id', user?.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching QR code batches:', error);
+      return;
+    }
+    setBatches((data || []).map(({ qr_codes, ...batch }) => ({
+      ...batch,
+      code_count: (qr_codes as { count: number }[] | null)?.[0]?.count || 0,
+    })));
+  }, [user]);
+
+  const fetchAdSpaces = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('ad_spaces')
+      .select('id, title')
+      .eq('user_id', user?.id)
+      .order('title');
+
+    if (error) {
+      console.error('Error fetching ad spaces:', error);
+      return;
+    }
+    setAdSpaces(data || []);
+  }, [user]);
+
+  const fetchBrand = useCallback(async () => {
+    if (!user) return;
+    try {
+      const brand = await getBrandProfile(user.id);
+      setLogoUrl(brand?.logo_url || null);
+      setBrandColors(getBrandColors(brand));
+    } catch (error) {
+      console.error('Error fetching brand:', error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      fetchQrCodes();
+      fetchAdSpaces();
+      fetchBrand();
+      fetchBatches();
+    }
+  }, [user, fetchQrCodes, fetchAdSpaces, fetchBrand, fetchBatches]);
+
+  // Ad Builder codes come with their ad space and are not counted
+  const codeLimit = limit('qr_codes');
+  const isAtLimit = entitlements !== null && remaining('qr_codes') === 0;
+  const editingCode = qrCodes.find((code) => code.id === editingId) || null;
+
+  useEffect(() => {
+    if (!editingId) {
+      setDestinations([]);
+      return;
+    }
+
+    getQrCodeDestinations(editingId)
+      .then(setDestinations)
+      .catch((error) => console.error('Error fetching QR code history:', error));
+  }, [editingId, qrCodes]);
+
+  const adSpaceTitle = (id: string | null) => adSpaces.find((space) => space.id === id)?.title || 'Ad space';
+
+  const describeTarget = (target: { url: string | null; ad_space_id: string | null }) =>
+    target.url || (target.ad_space_id ? adSpaceTitle(target.ad_space_id) : 'No destination');
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const handleEdit = (code: QrCodeData) => {
+    setEditingId(code.id);
+    setForm({
+      name: code.name,
+      target: code.ad_space_id ? 'ad_space' : 'url',
+      url: code.url || '',
+      adSpaceId: code.ad_space_id || '',
+      design: normalizeQrDesign(code.design),
+    });
+  };
+
+  const validateForm = () => {
+    if (!form.name.trim()) {
+      return 'Enter a name for the QR code';
+    }
+    if (form.target === 'url' && !/^https?:\/\/\S+$/i.test(form.url.trim())) {
+      return 'Enter a URL starting with http:// or https://';
+    }
+    if (form.target === 'ad_space' && !form.adSpaceId) {
+      return 'Choose an ad space';
+    }
+    return null;
   };
 
-  const handleGenerate = async () => {
-    if (!url || !name) {
-      toast.error('Please provide both name and URL');
+  const handleSave = async () => {
+    const validationError = validateForm();
+    if (validationError) {
+      toast.error(validationError);
       return;
     }
 
-    setIsGenerating(true);
+    const url = form.target === 'url' ? form.url.trim() : null;
+    const adSpaceId = form.target === 'ad_space' ? form.adSpaceId : null;
+    const design = toSavedDesign(form.design);
 
+    setIsSaving(true);
     try {
-      const { data, error } = await supabase
-        .from('qr_codes')
-        .insert([{ name, url, user_id: user?.id }])
-        .select()
-        .single();
+      if (editingId) {
+        const { data, error } = await supabase
+          .from('qr_codes')
+          .update({ name: form.name.trim(), url, ad_space_id: adSpaceId, design })
+          .eq('id', editingId)
+          .select(QR_CODE_COLUMNS)
+          .single();
 
-      if (error) throw error;
+        if (error) throw error;
+
+        setQrCodes((prev) => prev.map((code) => (code.id === data.id ? data : code)));
+        handleEdit(data);
+        toast.success('QR code updated');
+      } else {
+        // Created through the RPC so the plan limit is checked
+        const { data: created, error } = await supabase
+          .rpc('create_qr_code', {
+            p_name: form.name.trim(),
+            p_url: url,
+            p_ad_space_id: adSpaceId,
+          })
+          .single<QrCodeData>();
+
+        if (error) throw error;
 
-      setQrCodes([data, ...qrCodes]);
-      toast.success('QR code created successfully');
-      setUrl('');
-      setName('');
-    } catch (error: any) {
-      console.error('Error generating QR code:', error);
-      toast.error(error.message || 'Failed to generate QR code');
+        let data = created;
+        if (isBrandedQrDesign(normalizeQrDesign(design))) {
+          const { data: styled, error: designError } = await supabase
+            .from('qr_codes')
+            .update({ design })
+            .eq('id', created.id)
+            .select(QR_CODE_COLUMNS)
+            .single();
+
+          if (designError) {
+            console.error('Error saving QR code design:', designError);
+            toast.error(getErrorMessage(designError, 'QR code created, but its design could not be saved'));
+          } else {
+            data = styled;
+          }
+        }
+
+        setQrCodes((prev) => [data, ...prev]);
+        handleEdit(data);
+        refreshEntitlements();
+        toast.success('QR code created');
+      }
+    } catch (error) {
+      console.error('Error saving QR code:', error);
+      toast.error(getErrorMessage(error, 'Failed to save QR code'));
     } finally {
-      setIsGenerating(false);
+      setIsSaving(false);
     }
   };
 
-  const handleDelete = async (id: string) => {
+  const handleDelete = async (code: QrCodeData) => {
+    if (!window.confirm(`Delete "${code.name}"? Printed copies will stop working.`)) return;
+
     try {
       const { error } = await supabase
         .from('qr_codes')
         .delete()
-        .eq('id', id);
+        .eq('id', code.id);
 
       if (error) throw error;
 
-      setQrCodes(qrCodes.filter(code => code.id !== id));
+      setQrCodes((prev) => prev.filter((c) => c.id !== code.id));
+      if (editingId === code.id) resetForm();
+      if (!code.is_ad_space_default) refreshEntitlements();
       toast.success('QR code deleted');
     } catch (error) {
       console.error('Error deleting QR code:', error);
@@ -90,69 +279,197 @@ const QrCodeGenerator = () => {
     }
   };
 
-  return (
-    <div className="container mx-auto px-4 py-8">
-      <div className="flex justify-between items-center mb-8">
-        <h1 className="text-2xl font-bold">QR Code Generator</h1>
-        <Button onClick={() => setUrl('')} leftIcon={<Plus size={16} />}>
-          Create New
-        </Button>
-      </div>
-      
-      <div className="grid md:grid-cols-2 gap-8">
-        <Card className="p-6">
-          <CardHeader>
-            <CardTitle>Create New QR Code</CardTitle>
-          </CardHeader>
-          
-          <CardContent className="space-y-4">
+  const renderForm = () => (
+    <Card className="p-6">
+      <CardHeader>
+        <CardTitle>{editingId ? 'Edit QR Code' : 'Create New QR Code'}</CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {!editingId && isAtLimit ? (
+          <div className="text-center py-6 space-y-4">
+            <Lock className="w-10 h-10 text-gray-400 mx-auto" />
+            <p className="text-gray-600">
+              The {entitlements?.tier} plan includes {codeLimit} QR {codeLimit === 1 ? 'code' : 'codes'}. Upgrade to Pro for unlimited QR codes.
+            </p>
+            <Button onClick={() => navigate('/')}>Upgrade to Pro</Button>
+          </div>
+        ) : (
+          <>
             <Input
               label="QR Code Name"
               type="text"
-              placeholder="Enter a name for your QR code"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
+              placeholder="Front window flyer"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
               leftIcon={<QrIcon size={16} />}
             />
-            
-            <Input
-              label="Destination URL"
-              type="url"
-              placeholder="Enter the URL to encode"
-              value={url}
-              onChange={(e) => setUrl(e.target.value)}
-              leftIcon={<Link size={16} />}
-            />
-            
-            <Button
-              onClick={handleGenerate}
-              disabled={!url || !name || isGenerating}
-              className="w-full"
-              isLoading={isGenerating}
-            >
-              Generate QR Code
-            </Button>
-          </CardContent>
-        </Card>
-        
+
+            {editingCode?.is_ad_space_default ? (
+              <p className="text-sm text-gray-600">
+                This is the Ad Builder code for {adSpaceTitle(editingCode.ad_space_id)} and always opens that ad.
+                Change the ad itself in the Ad Builder.
+              </p>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">Opens</label>
+                  <div className="flex space-x-2">
+                    <Button
+                      type="button"
+                      variant={form.target === 'url' ? 'primary' : 'outline'}
+                      size="sm"
+                      onClick={() => setForm({ ...form, target: 'url' })}
+                      leftIcon={<Link size={14} />}
+                    >
+                      A URL
+                    </Button>
+                    <Button
+                      type="button"
+                      variant={form.target === 'ad_space' ? 'primary' : 'outline'}
+                      size="sm"
+                      onClick={() => setForm({ ...form, target: 'ad_space' })}
+                      leftIcon={<Layout size={14} />}
+                    >
+                      An ad space
+                    </Button>
+                  </div>
+                </div>
+
+                {form.target === 'url' ? (
+                  <Input
+                    label="Destination URL"
+                    type="url"
+                    placeholder="https://example.com/menu"
+                    value={form.url}
+                    onChange={(e) => setForm({ ...form, url: e.target.value })}
+                    leftIcon={<Link size={16} />}
+                  />
+                ) : (
+                  <div className="space-y-2">
+                    <label className="block text-sm font-medium text-gray-700">Ad Space</label>
+                    <select
+                      className="input"
+                      value={form.adSpaceId}
+                      onChange={(e) => setForm({ ...form, adSpaceId: e.target.value })}
+                    >
+                      <option value="">Choose an ad space</option>
+                      {adSpaces.map((space) => (
+                        <option key={space.id} value={space.id}>{space.title}</option>
+                      ))}
+                    </select>
+                    {adSpaces.length === 0 && (
+                      <p className="text-sm text-gray-500">Create an ad in the Ad Builder first.</p>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium text-gray-700">Design</h4>
+              <QrDesignEditor
+                design={form.design}
+                onChange={(design) => setForm({ ...form, design })}
+                userId={user?.id || ''}
+                logoUrl={logoUrl}
+                onLogoUploaded={setLogoUrl}
+                brandColors={brandColors}
+                isLocked={!hasFeature('custom_branding')}
+                onUpgrade={() => navigate('/')}
+              />
+            </div>
+
+            <div className="flex space-x-2">
+              {editingId && (
+                <Button variant="outline" onClick={resetForm} className="flex-1">
+                  Cancel
+                </Button>
+              )}
+              <Button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="flex-1"
+                isLoading={isSaving}
+              >
+                {editingId ? 'Save Changes' : 'Generate QR Code'}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-8">
+        <div>
+          <h1 className="text-2xl font-bold">QR Codes</h1>
+          {entitlements && codeLimit !== null && (
+            <p className="text-sm text-gray-600">
+              {Math.min(usage('qr_codes'), codeLimit)} of {codeLimit} QR {codeLimit === 1 ? 'code' : 'codes'} used on the {entitlements.tier} plan
+            </p>
+          )}
+        </div>
+        <div className="flex space-x-2">
+          <Button
+            variant="outline"
+            onClick={() => setIsBatchModalOpen(true)}
+            disabled={isAtLimit}
+            leftIcon={<Layers size={16} />}
+          >
+            Bulk Create
+          </Button>
+          <Button onClick={resetForm} disabled={isAtLimit} leftIcon={<Plus size={16} />}>
+            Create New
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-8">
+        {renderForm()}
+
         <Card className="p-6">
           <CardHeader>
             <CardTitle>Preview</CardTitle>
           </CardHeader>
-          
+
           <CardContent className="flex flex-col items-center justify-center">
-            {url ? (
-              <QrCode 
-                value={url}
-                size={256}
-                level="H"
-                includeMargin
-                className="text-center"
-              />
+            {editingCode ? (
+              <>
+                <QrCode
+                  value={getQrCodeShortUrl(editingCode.short_code)}
+                  size={256}
+                  level="H"
+                  includeMargin
+                  design={normalizeQrDesign(form.design)}
+                  name={editingCode.name}
+                  className="text-center"
+                />
+                <p className="mt-2 text-xs text-gray-500 break-all">{getQrCodeShortUrl(editingCode.short_code)}</p>
+
+                {destinations.length > 0 && (
+                  <div className="w-full mt-6">
+                    <h4 className="text-sm font-medium text-gray-700 mb-2">Destination history</h4>
+                    <ul className="divide-y divide-gray-100 text-sm">
+                      {destinations.map((destination) => (
+                        <li key={destination.id} className="py-2">
+                          <p className="truncate">{describeTarget(destination)}</p>
+                          <p className="text-xs text-gray-500">
+                            {new Date(destination.active_from).toLocaleDateString()} -{' '}
+                            {destination.active_to ? new Date(destination.active_to).toLocaleDateString() : 'now'}
+                          </p>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </>
             ) : (
               <div className="aspect-square bg-gray-100 rounded-lg flex items-center justify-center w-full max-w-sm">
                 <p className="text-gray-500 text-center px-4">
-                  Enter a URL to generate a QR code
+                  Your QR code appears here once it is created. Its destination can be changed later without reprinting.
                 </p>
               </div>
             )}
@@ -160,10 +477,24 @@ const QrCodeGenerator = () => {
         </Card>
       </div>
 
+      {batches.length > 0 && (
+        <div className="mt-12">
+          <h2 className="text-xl font-bold mb-6">Batches</h2>
+          <QrBatchList
+            batches={batches}
+            adSpaceTitle={adSpaceTitle}
+            onDeleted={(batchId) => {
+              setBatches((prev) => prev.filter((batch) => batch.id !== batchId));
+              refreshEntitlements();
+            }}
+          />
+        </div>
+      )}
+
       {/* QR Code List */}
       <div className="mt-12">
         <h2 className="text-xl font-bold mb-6">Your QR Codes</h2>
-        
+
         {isLoading ? (
           <div className="text-center py-12">
             <div className="w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full animate-spin mx-auto"></div>
@@ -179,26 +510,50 @@ const QrCodeGenerator = () => {
               <Card key={code.id} className="p-6">
                 <CardContent>
                   <div className="mb-4">
-                    <h3 className="font-semibold">{code.name}</h3>
-                    <p className="text-sm text-gray-600 truncate">{code.url}</p>
+                    <h3 className="font-semibold">
+                      {code.name}
+                      {code.is_ad_space_default && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                          Ad Builder
+                        </span>
+                      )}
+                    </h3>
+                    <p className="text-sm text-gray-600 truncate flex items-center">
+                      {code.ad_space_id ? (
+                        <><Layout size={14} className="mr-1 shrink-0" />{adSpaceTitle(code.ad_space_id)}</>
+                      ) : (
+                        <><Link size={14} className="mr-1 shrink-0" />{code.url}</>
+                      )}
+                    </p>
                   </div>
-                  
+
                   <QrCode
-                    value={code.url}
+                    value={getQrCodeShortUrl(code.short_code)}
                     size={200}
                     level="H"
                     includeMargin
+                    design={normalizeQrDesign(code.design)}
+                    name={code.name}
                     className="mb-4"
                   />
-                  
-                  <div className="flex justify-between items-center mt-4">
-                    <span className="text-sm text-gray-500">
-                      Created: {new Date(code.created_at).toLocaleDateString()}
-                    </span>
+
+                  <div className="flex items-center text-sm text-gray-600 mt-4">
+                    <BarChart3 size={14} className="mr-1" />
+                    {(code.scans || 0).toLocaleString()} scans
+                    <span className="mx-2 text-gray-300">|</span>
+                    Created {new Date(code.created_at).toLocaleDateString()}
+                  </div>
+
+                  <div className="flex justify-end space-x-2 mt-4">
+                    <Button variant="outline" size="sm" onClick={() => handleEdit(code)} leftIcon={<Edit size={14} />}>
+                      Edit
+                    </Button>
                     <Button
                       variant="outline"
+                      size="sm"
                       className="text-error-500 hover:bg-error-50"
-                      onClick={() => handleDelete(code.id)}
+                      onClick={() => handleDelete(code)}
+                      leftIcon={<Trash2 size={14} />}
                     >
                       Delete
                     </Button>
@@ -209,8 +564,20 @@ const QrCodeGenerator = () => {
           </div>
         )}
       </div>
+
+      <QrBatchModal
+        isOpen={isBatchModalOpen}
+        onClose={() => setIsBatchModalOpen(false)}
+        adSpaces={adSpaces}
+        design={normalizeQrDesign(form.design)}
+        remainingCodes={remaining('qr_codes')}
+        onCreated={() => {
+          fetchBatches();
+          refreshEntitlements();
+        }}
+      />
     </div>
   );
 };
 
-export default QrCodeGenerator;
\ No newline at end of file
+export default QrCodeGenerator;
@@ -0,0 +1,27 @@
+import { useAuthStore } from '../../store/authStore';
+import BusinessProfileSettings from '../../components/settings/BusinessProfileSettings';
+import SignInSettings from '../../components/settings/SignInSettings';
+import PhoneVerificationSettings from '../../components/settings/PhoneVerificationSettings';
+import DeleteAccountSettings from '../../components/settings/DeleteAccountSettings';
+
+const Settings = () => {
+  const { user } = useAuthStore();
+
+  if (!user) return null;
+
+  return (
+    <div className="max-w-3xl space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Settings</h1>
+        <p className="text-gray-600 mt-1">Your business profile, sign-in details and account.</p>
+      </div>
+
+      <BusinessProfileSettings userId={user.id} />
+      <SignInSettings email={user.email || ''} />
+      <PhoneVerificationSettings userId={user.id} />
+      <DeleteAccountSettings />
+    </div>
+  );
+};
+
+export default Settings;
@@ -1,22 +1,39 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useAuthStore } from '../../store/authStore';
+import { useEntitlements } from '../../store/entitlementsStore';
+import { supabase } from '../../lib/supabase';
+import { apiFetch } from '../../lib/api';
+import { getErrorMessage } from '../../lib/errors';
+import { normalizePhone } from '../../lib/phone';
 import Card, { CardHeader, CardTitle, CardContent, CardFooter } from '../../components/ui/Card';
 import Button from '../../components/ui/Button';
 import Input from '../../components/ui/Input';
-import { 
-  Plus, 
-  Trash2, 
-  Edit, 
-  Eye, 
-  Calendar, 
-  Send, 
-  Upload, 
-  Users, 
+import Modal from '../../components/ui/Modal';
+import ContactImportModal from '../../components/sms/ContactImportModal';
+import CopyAssistantModal from '../../components/ai/CopyAssistantModal';
+import Gate from '../../components/billing/Gate';
+import {
+  BUILT_IN_VARIABLES,
+  extractVariables,
+  buildTemplateValues,
+  findUnknownVariables,
+  renderTemplate,
+  countSegments,
+  findNonGsmCharacters,
+} from '../../../shared/smsTemplate';
+import {
+  Plus,
+  Trash2,
+  Edit,
+  Eye,
+  Calendar,
+  Send,
+  Users,
   MessageSquare,
   Save,
-  FileSpreadsheet,
   Clock,
-  Lock
+  Upload,
+  Sparkles
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -24,6 +41,7 @@ interface Contact {
   id: string;
   name: string;
   phone: string;
+  email?: string | null;
 }
 
 interface ContactGroup {
@@ -42,112 +60,1191 @@ interface SmsCampaign {
   id: string;
   name: string;
   content: string;
-  status: 'draft' | 'scheduled' | 'sent' | 'failed';
+  status: 'draft' | 'scheduled' | 'sending' | 'sent' | 'failed';
+  group_id: string | null;
+  template_id: string | null;
+  variables: Record<string, string> | null;
   recipients: number;
-  scheduled_date?: string;
-  sent_date?: string;
+  scheduled_date?: string | null;
+  sent_date?: string | null;
   created_at: string;
 }
 
+interface SmsMessage {
+  id: string;
+  to_number: string;
+  status: 'pending' | 'sending' | 'sent' | 'failed';
+  error: string | null;
+  sent_at: string | null;
+}
+
+interface SendResponse {
+  id: string;
+  status: SmsCampaign['status'];
+}
+
+type Tab = 'campaigns' | 'contacts' | 'groups' | 'templates';
+
+const emptyCampaignForm = {
+  name: '',
+  groupId: '',
+  templateId: '',
+  content: '',
+  scheduledDate: '',
+  variables: {} as Record<string, string>,
+};
+
+const statusStyles: Record<SmsCampaign['status'], string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  scheduled: 'bg-blue-100 text-blue-700',
+  sending: 'bg-yellow-100 text-yellow-700',
+  sent: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
 const SmsManager = () => {
   const { user } = useAuthStore();
-  const [isFreeTier, setIsFreeTier] = useState(true); // This should be determined by user's subscription
+  const { refresh: refreshEntitlements } = useEntitlements();
+  const [tab, setTab] = useState<Tab>('campaigns');
   const [viewMode, setViewMode] = useState<'list' | 'create' | 'detail'>('list');
   const [selectedCampaign, setSelectedCampaign] = useState<SmsCampaign | null>(null);
-  
-  // Sample data
-  const [contacts, setContacts] = useState<Contact[]>([
-    { id: '1', name: 'John Doe', phone: '+15551234567' },
-    { id: '2', name: 'Jane Smith', phone: '+15559876543' },
-    { id: '3', name: 'Mike Johnson', phone: '+15552223333' },
-    { id: '4', name: 'Sarah Williams', phone: '+15554445555' },
-  ]);
-  
-  const [groups, setGroups] = useState<ContactGroup[]>([
-    { id: '1', name: 'All Customers', count: 50 },
-    { id: '2', name: 'VIP Customers', count: 15 },
-    { id: '3', name: 'New Customers', count: 23 },
-  ]);
-  
-  const [templates, setTemplates] = useState<SmsTemplate[]>([
-    { 
-      id: '1', 
-      name: 'Welcome Message', 
-      content: 'Welcome to {{business_name}}! Thank you for signing up. Reply STOP to opt out of future messages.' 
-    },
-    { 
-      id: '2', 
-      name: 'Special Offer', 
-      content: '{{business_name}}: Use code SPECIAL20 for 20% off your next purchase! Valid until {{expiry_date}}. Reply STOP to opt out.' 
-    },
-    { 
-      id: '3', 
-      name: 'Appointment Reminder', 
-      content: 'Reminder: Your appointment with {{business_name}} is scheduled for {{appointment_date}} at {{appointment_time}}. Reply C to cancel.' 
-    },
-  ]);
-  
-  const [campaigns, setCampaigns] = useState<SmsCampaign[]>([
-    { 
-      id: '1', 
-      name: 'Weekly Newsletter', 
-      content: 'Business Vibez: Check out our new summer collection! Shop now at example.com/summer. Reply STOP to opt out.',
-      status: 'sent',
-      recipients: 48,
-      sent_date: '2025-03-15T10:30:00Z',
-      created_at: '2025-03-14T14:30:00Z',
-    },
-    { 
-      id: '2', 
-      name: 'Flash Sale Alert', 
-      content: 'Business Vibez: FLASH SALE! 24 hours only - 30% off everything! Shop now at example.com/flash. Reply STOP to opt out.',
-      status: 'scheduled',
-      recipients: 50,
-      scheduled_date: '2025-03-25T09:00:00Z',
-      created_at: '2025-03-20T16:45:00Z',
-    },
-    { 
-      id: '3', 
-      name: 'VIP Customer Appreciation', 
-      content: 'Business Vibez: As a valued VIP customer, enjoy an exclusive 25% discount on your next purchase. Use code VIP25 at checkout!',
-      status: 'draft',
-      recipients: 15,
-      created_at: '2025-03-22T11:20:00Z',
-    },
-  ]);
-
-  if (isFreeTier) {
-    return (
-      <div className="min-h-[400px] flex items-center justify-center">
-        <Card className="max-w-md w-full text-center p-8">
-          <CardContent className="space-y-4">
-            <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto">
-              <Lock className="w-8 h-8 text-gray-400" />
-            </div>
-            <h2 className="text-2xl font-bold">SMS Feature Locked</h2>
-            <p className="text-gray-600">
-              SMS messaging is only available with our Pro plan. Upgrade now to unlock this feature and get 1000 SMS credits per month.
-            </p>
-            <Button 
-              variant="primary"
-              className="mt-4"
-              onClick={() => toast.info('Upgrade functionality coming soon')}
-            >
-              Upgrade to Pro
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [groups, setGroups] = useState<ContactGroup[]>([]);
+  const [templates, setTemplates] = useState<SmsTemplate[]>([]);
+  const [campaigns, setCampaigns] = useState<SmsCampaign[]>([]);
+  const [messages, setMessages] = useState<SmsMessage[]>([]);
+
+  const [campaignForm, setCampaignForm] = useState(emptyCampaignForm);
+  const [contactForm, setContactForm] = useState({ name: '', phone: '', email: '' });
+  const [groupName, setGroupName] = useState('');
+  const [templateForm, setTemplateForm] = useState({ id: '', name: '', content: '' });
+  const [editingGroup, setEditingGroup] = useState<ContactGroup | null>(null);
+  const [groupMembers, setGroupMembers] = useState<string[]>([]);
+  const [businessName, setBusinessName] = useState('');
+  const [campaignRecipientIds, setCampaignRecipientIds] = useState<string[]>([]);
+  const [previewContactId, setPreviewContactId] = useState('');
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isCopyAssistantOpen, setIsCopyAssistantOpen] = useState(false);
+  const [optedOutPhones, setOptedOutPhones] = useState<Set<string>>(new Set());
+
+  const fetchSmsData = useCallback(async () => {
+    if (!user) return;
+    setIsLoading(true);
+    try {
+      const [contactsResult, groupsResult, templatesResult, campaignsResult, profileResult, consentResult] = await Promise.all([
+        supabase.from('contacts').select('id, name, phone, email').eq('user_id', user.id).order('name'),
+        supabase.from('contact_groups').select('id, name, group_contacts(count)').eq('user_id', user.id).order('name'),
+        supabase.from('sms_templates').select('id, name, content').eq('user_id', user.id).order('name'),
+        supabase.from('sms_campaigns').select('*').eq('user_id', user.id).order('created_at', { ascending: false }),
+        supabase.from('profiles').select('business_name').eq('id', user.id).maybeSingle(),
+        supabase
+          .from('sms_consent_events')
+          .select('phone, event')
+          .in('event', ['opt_out', 'opt_in'])
+          .order('created_at', { ascending: false }),
+      ]);
+
+      if (contactsResult.error) throw contactsResult.error;
+      if (groupsResult.error) throw groupsResult.error;
+      if (templatesResult.error) throw templatesResult.error;
+      if (campaignsResult.error) throw campaignsResult.error;
+
+      setContacts(contactsResult.data || []);
+      setGroups((groupsResult.data || []).map((group) => ({
+        id: group.id,
+        name: group.name,
+        count: (group.group_contacts as { count: number }[] | null)?.[0]?.count || 0,
+      })));
+      setTemplates(templatesResult.data || []);
+      setCampaigns(campaignsResult.data || []);
+      setBusinessName(profileResult.data?.business_name || '');
+
+      // Events are newest first, the first one seen for a phone is its current consent
+      const latestConsent = new Map<string, string>();
+      (consentResult.data || []).forEach((event) => {
+        if (!latestConsent.has(event.phone)) latestConsent.set(event.phone, event.event);
+      });
+      setOptedOutPhones(new Set(
+        Array.from(latestConsent).filter(([, event]) => event === 'opt_out').map(([phone]) => phone)
+      ));
+    } catch (error) {
+      console.error('Error fetching SMS data:', error);
+      toast.error('Failed to load SMS data');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      fetchSmsData();
+    }
+  }, [user, fetchSmsData]);
+
+  const fetchMessages = useCallback(async (campaignId: string) => {
+    const { data, error } = await supabase
+      .from('sms_messages')
+      .select('id, to_number, status, error, sent_at')
+      .eq('campaign_id', campaignId)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error fetching messages:', error);
+      return;
+    }
+    setMessages(data || []);
+  }, []);
+
+  // Members of the group picked in the campaign creator, for the preview
+  useEffect(() => {
+    const fetchRecipients = async () => {
+      if (!campaignForm.groupId) {
+        setCampaignRecipientIds([]);
+        return;
+      }
+      const { data, error } = await supabase
+        .from('group_contacts')
+        .select('contact_id')
+        .eq('group_id', campaignForm.groupId);
+
+      if (error) {
+        console.error('Error fetching group members:', error);
+        return;
+      }
+      setCampaignRecipientIds((data || []).map((row) => row.contact_id));
+    };
+
+    fetchRecipients();
+  }, [campaignForm.groupId]);
+
+  const openCampaign = (campaign: SmsCampaign) => {
+    setSelectedCampaign(campaign);
+    setMessages([]);
+    setViewMode('detail');
+    fetchMessages(campaign.id);
+  };
+
+  // Campaigns
+
+  const handleTemplateSelect = (templateId: string) => {
+    const template = templates.find((t) => t.id === templateId);
+    setCampaignForm((form) => ({
+      ...form,
+      templateId,
+      content: template ? template.content : form.content,
+    }));
+  };
+
+  // Custom values for the variables the message uses, empty ones are left out
+  const campaignVariables = () => {
+    const used = extractVariables(campaignForm.content);
+    return Object.fromEntries(
+      Object.entries(campaignForm.variables)
+        .filter(([name, value]) => used.includes(name) && value.trim())
+        .map(([name, value]) => [name, value.trim()])
+    );
+  };
+
+  const insertVariable = (name: string) => {
+    setCampaignForm((form) => ({ ...form, content: `${form.content}{{${name}}}` }));
+  };
+
+  const handleSaveCampaign = async () => {
+    if (!user) return;
+    if (!campaignForm.name.trim() || !campaignForm.content.trim()) {
+      toast.error('Campaign name and message are required');
+      return;
+    }
+    if (!campaignForm.groupId) {
+      toast.error('Choose a contact group to send to');
+      return;
+    }
+
+    const variables = campaignVariables();
+    const unknown = findUnknownVariables(campaignForm.content, Object.keys(variables));
+    if (unknown.length > 0) {
+      toast.error(`Fill in or remove: ${unknown.map((name) => `{{${name}}}`).join(', ')}`);
+      return;
+    }
+
+    const scheduledDate = campaignForm.scheduledDate ? new Date(campaignForm.scheduledDate) : null;
+    if (scheduledDate && scheduledDate.getTime() <= Date.now()) {
+      toast.error('Scheduled time must be in the future');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('sms_campaigns')
+        .insert({
+          user_id: user.id,
+          name: campaignForm.name.trim(),
+          content: campaignForm.content,
+          group_id: campaignForm.groupId,
+          template_id: campaignForm.templateId || null,
+          variables,
+          status: scheduledDate ? 'scheduled' : 'draft',
+          scheduled_date: scheduledDate ? scheduledDate.toISOString() : null,
+        })
+        .select('*')
+        .single();
+
+      if (error) throw error;
+
+      setCampaigns((prev) => [data, ...prev]);
+      setCampaignForm(emptyCampaignForm);
+      toast.success(scheduledDate ? 'Campaign scheduled' : 'Campaign saved as draft');
+      openCampaign(data);
+    } catch (error) {
+      console.error('Error saving campaign:', error);
+      toast.error(getErrorMessage(error, 'Failed to save campaign'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const refreshCampaign = useCallback(async (campaignId: string) => {
+    const { data } = await supabase
+      .from('sms_campaigns')
+      .select('*')
+      .eq('id', campaignId)
+      .maybeSingle();
+
+    if (data) {
+      setCampaigns((prev) => prev.map((c) => (c.id === data.id ? data : c)));
+      setSelectedCampaign((current) => (current?.id === data.id ? data : current));
+    }
+    fetchMessages(campaignId);
+    refreshEntitlements();
+  }, [fetchMessages, refreshEntitlements]);
+
+  const handleSendCampaign = async (campaign: SmsCampaign) => {
+    if (!window.confirm(`Send "${campaign.name}" now?`)) return;
+
+    setIsSending(true);
+    try {
+      await apiFetch<SendResponse>(`/api/sms/campaigns/${campaign.id}/send`, {
+        method: 'POST',
+      });
+      toast.success('Campaign is sending');
+    } catch (error) {
+      console.error('Error sending campaign:', error);
+      toast.error(getErrorMessage(error, 'Failed to send campaign'));
+    } finally {
+      setIsSending(false);
+    }
+
+    refreshCampaign(campaign.id);
+  };
+
+  // Messages go out in batches on the server, keep the detail view current while sending
+  const sendingCampaignId = selectedCampaign?.status === 'sending' ? selectedCampaign.id : null;
+
+  useEffect(() => {
+    if (!sendingCampaignId || viewMode !== 'detail') return;
+
+    const interval = setInterval(() => refreshCampaign(sendingCampaignId), 3000);
+    return () => clearInterval(interval);
+  }, [sendingCampaignId, viewMode, refreshCampaign]);
+
+  const handleDeleteCampaign = async (campaign: SmsCampaign) => {
+    if (!window.confirm(`Delete "${campaign.name}"?`)) return;
+
+    const { error } = await supabase.from('sms_campaigns').delete().eq('id', campaign.id);
+    if (error) {
+      toast.error('Failed to delete campaign');
+      return;
+    }
+    setCampaigns((prev) => prev.filter((c) => c.id !== campaign.id));
+    if (selectedCampaign?.id === campaign.id) {
+      setSelectedCampaign(null);
+      setViewMode('list');
+    }
+    toast.success('Campaign deleted');
+  };
+
+  // Contacts
+
+  const handleAddContact = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (!contactForm.name.trim()) {
+      toast.error('Enter a name');
+      return;
+    }
+
+    const phoneResult = normalizePhone(contactForm.phone);
+    if (phoneResult.error !== undefined) {
+      toast.error(phoneResult.error);
+      return;
+    }
+    const { phone } = phoneResult;
+
+    setIsSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('contacts')
+        .insert({
+          user_id: user.id,
+          name: contactForm.name.trim(),
+          phone,
+          email: contactForm.email.trim() || null,
+        })
+        .select('id, name, phone, email')
+        .single();
+
+      if (error) {
+        throw error.code === '23505' ? new Error('A contact with this phone number already exists') : error;
+      }
+
+      setContacts((prev) => [...prev, data].sort((a, b) => a.name.localeCompare(b.name)));
+      setContactForm({ name: '', phone: '', email: '' });
+      toast.success('Contact added');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to add contact'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteContact = async (contact: Contact) => {
+    if (!window.confirm(`Delete ${contact.name}?`)) return;
+
+    const { error } = await supabase.from('contacts').delete().eq('id', contact.id);
+    if (error) {
+      toast.error('Failed to delete contact');
+      return;
+    }
+    setContacts((prev) => prev.filter((c) => c.id !== contact.id));
+    fetchSmsData();
+  };
+
+  // Groups
+
+  const handleAddGroup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !groupName.trim()) return;
+
+    const { data, error } = await supabase
+      .from('contact_groups')
+      .insert({ user_id: user.id, name: groupName.trim() })
+      .select('id, name')
+      .single();
+
+    if (error) {
+      toast.error('Failed to create group');
+      return;
+    }
+    setGroups((prev) => [...prev, { ...data, count: 0 }]);
+    setGroupName('');
+    toast.success('Group created');
+  };
+
+  const handleDeleteGroup = async (group: ContactGroup) => {
+    if (!window.confirm(`Delete the group "${group.name}"? Contacts are kept.`)) return;
+
+    const { error } = await supabase.from('contact_groups').delete().eq('id', group.id);
+    if (error) {
+      toast.error('Failed to delete group');
+      return;
+    }
+    setGroups((prev) => prev.filter((g) => g.id !== group.id));
+  };
+
+  const openGroupMembers = async (group: ContactGroup) => {
+    setEditingGroup(group);
+    const { data, error } = await supabase
+      .from('group_contacts')
+      .select('contact_id')
+      .eq('group_id', group.id);
+
+    if (error) {
+      toast.error('Failed to load group members');
+      return;
+    }
+    setGroupMembers((data || []).map((row) => row.contact_id));
+  };
+
+  const handleSaveGroupMembers = async () => {
+    if (!editingGroup) return;
+
+    setIsSaving(true);
+    try {
+      const { data: current, error } = await supabase
+        .from('group_contacts')
+        .select('contact_id')
+        .eq('group_id', editingGroup.id);
+
+      if (error) throw error;
+
+      const currentIds = (current || []).map((row) => row.contact_id);
+      const toAdd = groupMembers.filter((id) => !currentIds.includes(id));
+      const toRemove = currentIds.filter((id) => !groupMembers.includes(id));
+
+      if (toAdd.length > 0) {
+        const { error: addError } = await supabase
+          .from('group_contacts')
+          .insert(toAdd.map((contactId) => ({ group_id: editingGroup.id, contact_id: contactId })));
+        if (addError) throw addError;
+      }
+
+      if (toRemove.length > 0) {
+        const { error: removeError } = await supabase
+          .from('group_contacts')
+          .delete()
+          .eq('group_id', editingGroup.id)
+          .in('contact_id', toRemove);
+        if (removeError) throw removeError;
+      }
+
+      setGroups((prev) => prev.map((g) => (
+        g.id === editingGroup.id ? { ...g, count: groupMembers.length } : g
+      )));
+      setEditingGroup(null);
+      toast.success('Group updated');
+    } catch (error) {
+      console.error('Error updating group:', error);
+      toast.error(getErrorMessage(error, 'Failed to update group'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Templates
+
+  const handleSaveTemplate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    if (!templateForm.name.trim() || !templateForm.content.trim()) {
+      toast.error('Template name and message are required');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (templateForm.id) {
+        const { data, error } = await supabase
+          .from('sms_templates')
+          .update({ name: templateForm.name.trim(), content: templateForm.content })
+          .eq('id', templateForm.id)
+          .select('id, name, content')
+          .single();
+        if (error) throw error;
+        setTemplates((prev) => prev.map((t) => (t.id === data.id ? data : t)));
+      } else {
+        const { data, error } = await supabase
+          .from('sms_templates')
+          .insert({ user_id: user.id, name: templateForm.name.trim(), content: templateForm.content })
+          .select('id, name, content')
+          .single();
+        if (error) throw error;
+        setTemplates((prev) => [...prev, data]);
+      }
+      setTemplateForm({ id: '', name: '', content: '' });
+      toast.success('Template saved');
+    } catch (error) {
+      toast.error(getErrorMessage(error, 'Failed to save template'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteTemplate = async (template: SmsTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"?`)) return;
+
+    const { error } = await supabase.from('sms_templates').delete().eq('id', template.id);
+    if (error) {
+      toast.error('Failed to delete template');
+      return;
+    }
+    setTemplates((prev) => prev.filter((t) => t.id !== template.id));
+  };
+
+  // Renderers
+
+  const renderStatus = (status: SmsCampaign['status']) => (
+    <span className={`inline-block px-2 py-1 rounded-full text-xs font-medium capitalize ${statusStyles[status]}`}>
+      {status}
+    </span>
+  );
+
+  const renderCampaignList = () => (
+    <div className="space-y-4">
+      {isLoading ? (
+        <div className="text-center py-12">
+          <div className="w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full animate-spin mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading campaigns...</p>
+        </div>
+      ) : campaigns.length === 0 ? (
+        <Card className="text-center py-12">
+          <CardContent>
+            <p className="text-gray-600 mb-4">No campaigns yet. Create your first one!</p>
+            <Button onClick={() => setViewMode('create')} leftIcon={<Plus size={16} />}>
+              New Campaign
             </Button>
           </CardContent>
         </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {campaigns.map((campaign) => (
+            <Card key={campaign.id} className="hover:shadow-lg transition-shadow">
+              <CardHeader>
+                <div className="flex items-start justify-between">
+                  <CardTitle>{campaign.name}</CardTitle>
+                  {renderStatus(campaign.status)}
+                </div>
+              </CardHeader>
+              <CardContent>
+                <p className="text-sm text-gray-600 line-clamp-3">{campaign.content}</p>
+                <div className="mt-4 text-xs text-gray-500 flex items-center">
+                  {campaign.status === 'scheduled' && campaign.scheduled_date ? (
+                    <>
+                      <Clock size={14} className="mr-1" />
+                      {new Date(campaign.scheduled_date).toLocaleString()}
+                    </>
+                  ) : campaign.sent_date ? (
+                    <>
+                      <Send size={14} className="mr-1" />
+                      {campaign.recipients} recipients, {new Date(campaign.sent_date).toLocaleString()}
+                    </>
+                  ) : (
+                    <>
+                      <Calendar size={14} className="mr-1" />
+                      Created {new Date(campaign.created_at).toLocaleDateString()}
+                    </>
+                  )}
+                </div>
+              </CardContent>
+              <CardFooter className="flex justify-between">
+                <Button variant="outline" size="sm" onClick={() => openCampaign(campaign)} leftIcon={<Eye size={14} />}>
+                  View
+                </Button>
+                {campaign.status !== 'sending' && (
+                  <Button variant="ghost" size="sm" onClick={() => handleDeleteCampaign(campaign)} leftIcon={<Trash2 size={14} />}>
+                    Delete
+                  </Button>
+                )}
+              </CardFooter>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
+  const renderCampaignDetail = () => {
+    if (!selectedCampaign) return null;
+
+    const group = groups.find((g) => g.id === selectedCampaign.group_id);
+    const canSend = selectedCampaign.status === 'draft' || selectedCampaign.status === 'scheduled';
+
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center space-x-4">
+          <Button variant="outline" onClick={() => setViewMode('list')}>
+            Back to List
+          </Button>
+          <h2 className="text-xl font-bold">{selectedCampaign.name}</h2>
+          {renderStatus(selectedCampaign.status)}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Message</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="whitespace-pre-wrap bg-gray-50 rounded-md p-4">{selectedCampaign.content}</p>
+              {Object.keys(selectedCampaign.variables || {}).length > 0 && (
+                <div className="mt-4 text-sm">
+                  <h3 className="font-medium text-gray-500 mb-1">Campaign values</h3>
+                  {Object.entries(selectedCampaign.variables || {}).map(([name, value]) => (
+                    <p key={name}>
+                      <span className="font-mono">{`{{${name}}}`}</span>: {value}
+                    </p>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Details</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <h3 className="text-sm font-medium text-gray-500">Recipient group</h3>
+                <p>{group ? `${group.name} (${group.count} contacts)` : 'No group selected'}</p>
+              </div>
+              {selectedCampaign.scheduled_date && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-500">Scheduled for</h3>
+                  <p>{new Date(selectedCampaign.scheduled_date).toLocaleString()}</p>
+                </div>
+              )}
+              {selectedCampaign.sent_date && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-500">Sent</h3>
+                  <p>{new Date(selectedCampaign.sent_date).toLocaleString()}</p>
+                </div>
+              )}
+              {canSend && (
+                <Button
+                  className="w-full"
+                  onClick={() => handleSendCampaign(selectedCampaign)}
+                  isLoading={isSending}
+                  leftIcon={<Send size={16} />}
+                >
+                  Send Now
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {messages.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Delivery</CardTitle>
+              <p className="text-sm text-gray-500 mt-1">
+                {messages.filter((m) => m.status === 'sent').length} sent,{' '}
+                {messages.filter((m) => m.status === 'failed').length} failed,{' '}
+                {messages.filter((m) => m.status === 'pending' || m.status === 'sending').length} waiting
+              </p>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b border-gray-200">
+                      <th className="py-2 pr-4 font-medium">To</th>
+                      <th className="py-2 pr-4 font-medium">Status</th>
+                      <th className="py-2 pr-4 font-medium">Sent</th>
+                      <th className="py-2 font-medium">Error</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {messages.map((message) => (
+                      <tr key={message.id} className="border-b border-gray-100 last:border-0">
+                        <td className="py-2 pr-4 font-mono">{message.to_number}</td>
+                        <td className="py-2 pr-4 capitalize">{message.status}</td>
+                        <td className="py-2 pr-4">{message.sent_at ? new Date(message.sent_at).toLocaleString() : '-'}</td>
+                        <td className="py-2 text-error-500">{message.error || ''}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
       </div>
     );
-  }
+  };
 
-  return (
-    <div>
-      {viewMode === 'list' && renderCampaignList()}
-      {viewMode === 'detail' && renderCampaignDetail()}
-      {viewMode === 'create' && renderCampaignCreator()}
+  const renderSegmentInfo = (text: string) => {
+    const info = countSegments(text);
+    const nonGsm = findNonGsmCharacters(text);
+
+    return (
+      <div className="text-xs text-gray-500 space-y-1">
+        <p>
+          {info.units} / {info.perSegment * Math.max(info.segments, 1)} {info.encoding} characters,{' '}
+          <span className={info.segments > 1 ? 'font-semibold text-warning-600' : ''}>
+            {info.segments} {info.segments === 1 ? 'segment' : 'segments'}
+          </span>{' '}
+          per recipient
+        </p>
+        {nonGsm.length > 0 && (
+          <p className="text-warning-600">
+            {nonGsm.join(' ')} switch the message to UCS-2 (70 characters per segment)
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  const renderCampaignCreator = () => {
+    const variables = campaignVariables();
+    const usedVariables = extractVariables(campaignForm.content);
+    const customVariables = usedVariables.filter((name) => !BUILT_IN_VARIABLES.includes(name));
+    const unknown = findUnknownVariables(campaignForm.content, Object.keys(variables));
+
+    const recipients = contacts.filter((contact) => campaignRecipientIds.includes(contact.id));
+    const previewContact = recipients.find((contact) => contact.id === previewContactId) || recipients[0];
+    const profile = { business_name: businessName };
+    const preview = renderTemplate(
+      campaignForm.content,
+      buildTemplateValues({ profile, contact: previewContact, custom: variables })
+    );
+    const recipientsMissingValues = recipients.filter((contact) => (
+      renderTemplate(campaignForm.content, buildTemplateValues({ profile, contact, custom: variables })).missing.length > 0
+    ));
+    const recipientsOptedOut = recipients.filter((contact) => optedOutPhones.has(contact.phone));
+    const totalSegments = recipients.reduce((sum, contact) => (
+      sum + countSegments(renderTemplate(
+        campaignForm.content,
+        buildTemplateValues({ profile, contact, custom: variables })
+      ).text).segments
+    ), 0);
+
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center space-x-4">
+          <Button variant="outline" onClick={() => setViewMode('list')}>
+            Cancel
+          </Button>
+          <h2 className="text-xl font-bold">New Campaign</h2>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-2">
+            <CardContent className="space-y-4">
+              <Input
+                label="Campaign Name"
+                value={campaignForm.name}
+                onChange={(e) => setCampaignForm({ ...campaignForm, name: e.target.value })}
+                placeholder="Weekend Flash Sale"
+              />
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">Send To</label>
+                  <select
+                    className="input"
+                    value={campaignForm.groupId}
+                    onChange={(e) => setCampaignForm({ ...campaignForm, groupId: e.target.value })}
+                  >
+                    <option value="">Choose a group</option>
+                    {groups.map((group) => (
+                      <option key={group.id} value={group.id}>
+                        {group.name} ({group.count})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">Template</label>
+                  <select
+                    className="input"
+                    value={campaignForm.templateId}
+                    onChange={(e) => handleTemplateSelect(e.target.value)}
+                  >
+                    <option value="">No template</option>
+                    {templates.map((template) => (
+                      <option key={template.id} value={template.id}>{template.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label className="block text-sm font-medium text-gray-700">Message</label>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setIsCopyAssistantOpen(true)}
+                    leftIcon={<Sparkles size={14} />}
+                  >
+                    Write with AI
+                  </Button>
+                </div>
+                <textarea
+                  className="input min-h-[120px]"
+                  value={campaignForm.content}
+                  onChange={(e) => setCampaignForm({ ...campaignForm, content: e.target.value })}
+                  placeholder="Your message. Include 'Reply STOP to opt out.'"
+                />
+                <div className="flex flex-wrap gap-2">
+                  {BUILT_IN_VARIABLES.map((name) => (
+                    <button
+                      key={name}
+                      type="button"
+                      onClick={() => insertVariable(name)}
+                      className="px-2 py-1 text-xs rounded bg-gray-100 text-gray-700 hover:bg-gray-200 font-mono"
+                    >
+                      {`{{${name}}}`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {customVariables.length > 0 && (
+                <div className="space-y-3">
+                  <h3 className="text-sm font-medium text-gray-700">Campaign values</h3>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {customVariables.map((name) => (
+                      <Input
+                        key={name}
+                        label={`{{${name}}}`}
+                        id={`variable-${name}`}
+                        value={campaignForm.variables[name] || ''}
+                        onChange={(e) => setCampaignForm({
+                          ...campaignForm,
+                          variables: { ...campaignForm.variables, [name]: e.target.value },
+                        })}
+                        error={unknown.includes(name) ? 'Fill this in or remove it from the message' : undefined}
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <Input
+                label="Schedule (optional)"
+                type="datetime-local"
+                value={campaignForm.scheduledDate}
+                onChange={(e) => setCampaignForm({ ...campaignForm, scheduledDate: e.target.value })}
+              />
+            </CardContent>
+            <CardFooter className="flex justify-end">
+              <Button
+                onClick={handleSaveCampaign}
+                isLoading={isSaving}
+                disabled={unknown.length > 0}
+                leftIcon={<Save size={16} />}
+              >
+                {campaignForm.scheduledDate ? 'Schedule Campaign' : 'Save Draft'}
+              </Button>
+            </CardFooter>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Preview</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {recipients.length > 0 && (
+                <select
+                  className="input"
+                  value={previewContact?.id || ''}
+                  onChange={(e) => setPreviewContactId(e.target.value)}
+                >
+                  {recipients.map((contact) => (
+                    <option key={contact.id} value={contact.id}>{contact.name}</option>
+                  ))}
+                </select>
+              )}
+
+              <div className="bg-gray-100 rounded-2xl rounded-bl-none p-4 text-sm whitespace-pre-wrap break-words min-h-[80px]">
+                {preview.text || <span className="text-gray-400">Your message will appear here</span>}
+              </div>
+
+              {renderSegmentInfo(preview.text)}
+
+              {preview.missing.length > 0 && (
+                <p className="text-sm text-error-500">
+                  {previewContact?.name || 'This recipient'} has no value for{' '}
+                  {preview.missing.map((name) => `{{${name}}}`).join(', ')}
+                </p>
+              )}
+
+              {recipients.length > 0 && (
+                <div className="text-sm text-gray-600 border-t border-gray-200 pt-4 space-y-1">
+                  <p>{recipients.length} recipients, {totalSegments} segments in total</p>
+                  {recipientsMissingValues.length > 0 && (
+                    <p className="text-error-500">
+                      {recipientsMissingValues.length} recipients are missing values and will be skipped
+                    </p>
+                  )}
+                  {recipientsOptedOut.length > 0 && (
+                    <p className="text-error-500">
+                      {recipientsOptedOut.length} recipients opted out and will be skipped
+                    </p>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  };
+
+  const renderContacts = () => (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Add Contact</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleAddContact} className="space-y-4">
+            <Input
+              label="Name"
+              value={contactForm.name}
+              onChange={(e) => setContactForm({ ...contactForm, name: e.target.value })}
+              placeholder="Jane Smith"
+            />
+            <Input
+              label="Phone"
+              value={contactForm.phone}
+              onChange={(e) => setContactForm({ ...contactForm, phone: e.target.value })}
+              placeholder="(555) 123-4567 or +44 20 7946 0958"
+            />
+            <Input
+              label="Email (optional)"
+              type="email"
+              value={contactForm.email}
+              onChange={(e) => setContactForm({ ...contactForm, email: e.target.value })}
+            />
+            <Button type="submit" className="w-full" isLoading={isSaving} leftIcon={<Plus size={16} />}>
+              Add Contact
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="lg:col-span-2">
+        <CardHeader className="flex items-center justify-between">
+          <CardTitle>Contacts ({contacts.length})</CardTitle>
+          <Button variant="outline" size="sm" onClick={() => setIsImportOpen(true)} leftIcon={<Upload size={14} />}>
+            Import CSV / Excel
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {contacts.length === 0 ? (
+            <p className="text-sm text-gray-500 py-6 text-center">No contacts yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {contacts.map((contact) => (
+                <li key={contact.id} className="flex items-center justify-between py-3">
+                  <div>
+                    <p className="font-medium">
+                      {contact.name}
+                      {optedOutPhones.has(contact.phone) && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-700">
+                          Opted out
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-500 font-mono">{contact.phone}</p>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleDeleteContact(contact)}>
+                    <Trash2 size={14} />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
+
+  const renderGroups = () => (
+    <div className="space-y-6">
+      <Card>
+        <CardContent>
+          <form onSubmit={handleAddGroup} className="flex items-end gap-4">
+            <div className="flex-1">
+              <Input
+                label="New Group"
+                value={groupName}
+                onChange={(e) => setGroupName(e.target.value)}
+                placeholder="VIP Customers"
+              />
+            </div>
+            <Button type="submit" leftIcon={<Plus size={16} />}>Create Group</Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {groups.map((group) => (
+          <Card key={group.id}>
+            <CardHeader>
+              <CardTitle>{group.name}</CardTitle>
+              <p className="text-sm text-gray-500 mt-1 flex items-center">
+                <Users size={14} className="mr-1" /> {group.count} contacts
+              </p>
+            </CardHeader>
+            <CardFooter className="flex justify-between">
+              <Button variant="outline" size="sm" onClick={() => openGroupMembers(group)} leftIcon={<Edit size={14} />}>
+                Members
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => handleDeleteGroup(group)} leftIcon={<Trash2 size={14} />}>
+                Delete
+              </Button>
+            </CardFooter>
+          </Card>
+        ))}
+      </div>
+
+      <Modal
+        isOpen={!!editingGroup}
+        onClose={() => setEditingGroup(null)}
+        title={editingGroup ? `Members of ${editingGroup.name}` : ''}
+      >
+        {contacts.length === 0 ? (
+          <p className="text-sm text-gray-500">Add contacts first.</p>
+        ) : (
+          <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100">
+            {contacts.map((contact) => (
+              <li key={contact.id}>
+                <label className="flex items-center py-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="mr-3"
+                    checked={groupMembers.includes(contact.id)}
+                    onChange={(e) => setGroupMembers((prev) => (
+                      e.target.checked ? [...prev, contact.id] : prev.filter((id) => id !== contact.id)
+                    ))}
+                  />
+                  <span className="font-medium">{contact.name}</span>
+                  <span className="ml-auto text-sm text-gray-500 font-mono">{contact.phone}</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex justify-end mt-4">
+          <Button onClick={handleSaveGroupMembers} isLoading={isSaving} leftIcon={<Save size={16} />}>
+            Save Members
+          </Button>
+        </div>
+      </Modal>
+    </div>
+  );
+
+  const renderTemplates = () => (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{templateForm.id ? 'Edit Template' : 'New Template'}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSaveTemplate} className="space-y-4">
+            <Input
+              label="Name"
+              value={templateForm.name}
+              onChange={(e) => setTemplateForm({ ...templateForm, name: e.target.value })}
+              placeholder="Special Offer"
+            />
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">Message</label>
+              <textarea
+                className="input min-h-[120px]"
+                value={templateForm.content}
+                onChange={(e) => setTemplateForm({ ...templateForm, content: e.target.value })}
+                placeholder="{{business_name}}: 20% off this weekend! Reply STOP to opt out."
+              />
+              {templateForm.content && renderSegmentInfo(templateForm.content)}
+            </div>
+            <div className="flex gap-2">
+              <Button type="submit" isLoading={isSaving} leftIcon={<Save size={16} />}>
+                Save Template
+              </Button>
+              {templateForm.id && (
+                <Button type="button" variant="ghost" onClick={() => setTemplateForm({ id: '', name: '', content: '' })}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <div className="lg:col-span-2 space-y-4">
+        {templates.length === 0 && (
+          <p className="text-sm text-gray-500 py-6 text-center">No templates yet.</p>
+        )}
+        {templates.map((template) => (
+          <Card key={template.id}>
+            <div className="flex items-start justify-between">
+              <div>
+                <h3 className="font-semibold">{template.name}</h3>
+                <p className="text-sm text-gray-600 mt-1 whitespace-pre-wrap">{template.content}</p>
+              </div>
+              <div className="flex gap-1 ml-4">
+                <Button variant="ghost" size="sm" onClick={() => setTemplateForm(template)}>
+                  <Edit size={14} />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDeleteTemplate(template)}>
+                  <Trash2 size={14} />
+                </Button>
+              </div>
+            </div>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+
+  const tabs: { id: Tab; label: string; icon: React.ReactNode }[] = [
+    { id: 'campaigns', label: 'Campaigns', icon: <MessageSquare size={16} /> },
+    { id: 'contacts', label: 'Contacts', icon: <Users size={16} /> },
+    { id: 'groups', label: 'Groups', icon: <Users size={16} /> },
+    { id: 'templates', label: 'Templates', icon: <Edit size={16} /> },
+  ];
+
+  return (
+    <Gate feature="sms">
+      <div className="space-y-6">
+        <div className="flex justify-between items-center">
+          <h1 className="text-2xl font-bold">SMS Manager</h1>
+          {tab === 'campaigns' && viewMode === 'list' && (
+            <Button onClick={() => setViewMode('create')} leftIcon={<Plus size={16} />}>
+              New Campaign
+            </Button>
+          )}
+        </div>
+
+        <div className="flex gap-2 border-b border-gray-200">
+          {tabs.map((item) => (
+            <button
+              key={item.id}
+              onClick={() => {
+                setTab(item.id);
+                setViewMode('list');
+              }}
+              className={`flex items-center px-4 py-2 -mb-px text-sm font-medium border-b-2 transition-colors ${
+                tab === item.id
+                  ? 'border-primary-500 text-primary-500'
+                  : 'border-transparent text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <span className="mr-2">{item.icon}</span>
+              {item.label}
+            </button>
+          ))}
+        </div>
+
+        {tab === 'campaigns' && viewMode === 'list' && renderCampaignList()}
+        {tab === 'campaigns' && viewMode === 'detail' && renderCampaignDetail()}
+        {tab === 'campaigns' && viewMode === 'create' && renderCampaignCreator()}
+        {tab === 'contacts' && renderContacts()}
+        {tab === 'groups' && renderGroups()}
+        {tab === 'templates' && renderTemplates()}
+
+        {user && (
+          <ContactImportModal
+            isOpen={isImportOpen}
+            onClose={() => setIsImportOpen(false)}
+            userId={user.id}
+            groups={groups}
+            onImported={fetchSmsData}
+          />
+        )}
+
+        <CopyAssistantModal
+          kind="sms"
+          isOpen={isCopyAssistantOpen}
+          onClose={() => setIsCopyAssistantOpen(false)}
+          businessName={businessName}
+          onSelect={(copy) => setCampaignForm((form) => ({ ...form, content: copy.text }))}
+        />
+      </div>
+    </Gate>
+  );
 };
 
-export default SmsManager;
\ No newline at end of file
+export default SmsManager;
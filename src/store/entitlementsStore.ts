@@ -0,0 +1,94 @@
+import { create } from 'zustand';
+import {
+  Entitlements,
+  FeatureFlag,
+  LimitKey,
+  getEntitlements,
+  getLimit,
+  getRemaining,
+  hasFeature,
+} from '../lib/entitlements';
+
+/**
+ * Plan, features and usage of the signed in user, shared by every page
+ *
+ * Loaded once when the user signs in (see `App`). Pages call `refresh` after
+ * actions that use up a limit, such as creating an ad or sending SMS, so the
+ * remaining counts stay current without each page querying the tier itself.
+ */
+interface EntitlementsState {
+  entitlements: Entitlements | null;
+  isLoading: boolean;
+  load: () => Promise<void>;
+  refresh: () => Promise<void>;
+  clear: () => void;
+}
+
+let pending: Promise<void> | null = null;
+let queued: Promise<void> | null = null;
+// Bumped on sign out so a request for the previous user is dropped
+let generation = 0;
+
+export const useEntitlementsStore = create<EntitlementsState>((set, get) => ({
+  entitlements: null,
+  isLoading: true,
+
+  load: async () => {
+    if (get().entitlements) return;
+    await get().refresh();
+  },
+
+  refresh: () => {
+    const requested = generation;
+
+    // A request already running may have started before the latest action,
+    // so one more follows it. Callers arriving meanwhile share that one.
+    if (pending) {
+      queued ??= pending.then(() => {
+        queued = null;
+        if (requested === generation) return get().refresh();
+      });
+      return queued;
+    }
+
+    set({ isLoading: true });
+    const request = getEntitlements()
+      .then((entitlements) => {
+        if (requested === generation) set({ entitlements });
+      })
+      .catch((error) => console.error('Error fetching entitlements:', error))
+      .finally(() => {
+        if (pending === request) pending = null;
+        if (requested === generation) set({ isLoading: false });
+      });
+    pending = request;
+    return request;
+  },
+
+  clear: () => {
+    generation += 1;
+    pending = null;
+    queued = null;
+    set({ entitlements: null, isLoading: false });
+  },
+}));
+
+/**
+ * Plan checks for components
+ *
+ * Until the entitlements are loaded features count as locked and limits as
+ * used up, so nothing is offered that the plan may not include.
+ */
+export const useEntitlements = () => {
+  const { entitlements, isLoading, refresh } = useEntitlementsStore();
+
+  return {
+    entitlements,
+    isLoading: isLoading && !entitlements,
+    refresh,
+    hasFeature: (flag: FeatureFlag) => (entitlements ? hasFeature(entitlements, flag) : false),
+    limit: (key: LimitKey) => (entitlements ? getLimit(entitlements, key) : 0),
+    remaining: (key: LimitKey) => (entitlements ? getRemaining(entitlements, key) : 0),
+    usage: (key: LimitKey) => entitlements?.usage[key] ?? 0,
+  };
+};
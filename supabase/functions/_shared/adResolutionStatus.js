@@ -0,0 +1,23 @@
+/**
+ * HTTP status and message for each `resolve_ad` status
+ *
+ * The one copy of the mapping: the edge functions import it from here, the
+ * Express server, the View page and the redirect page through
+ * shared/adResolution.js. The contract tests check that it covers every
+ * status the database returns.
+ */
+
+export const AD_RESOLUTION_HTTP_STATUS = {
+  ok: 200,
+  invalid: 400,
+  not_found: 404,
+  unpublished: 404,
+  ended: 410
+};
+
+export const AD_RESOLUTION_MESSAGES = {
+  invalid: 'A valid QR code or ad ID is required',
+  not_found: 'This ad could not be found',
+  unpublished: "This ad hasn't been published yet",
+  ended: 'This offer has ended'
+};
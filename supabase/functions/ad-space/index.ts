@@ -1,32 +1,27 @@
-import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
-import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { AD_RESOLUTION_HTTP_STATUS } from '../_shared/adResolutionStatus.js';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
-interface AdSpace {
-  id: string;
-  user_id: string;
-  title: string;
-  description?: string;
-  content: Record<string, unknown>;
-  theme: Record<string, unknown>;
-  views: number;
-  created_at: string;
-  updated_at: string;
-  ad_designs?: Array<Record<string, unknown>>;
-}
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
 
-serve(async (req: Request) => {
-  // Handle CORS preflight requests
+// Public ad lookup, returns the `resolve_ad` result. Views are recorded by the
+// pages that show the ad, not here
+Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
-    return new Response(null, {
-      status: 200,
-      headers: corsHeaders,
-    });
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'GET') {
+    return json({ error: 'Method not allowed' }, 405);
   }
 
   try {
@@ -37,85 +32,25 @@ serve(async (req: Request) => {
       throw new Error('Missing Supabase environment variables');
     }
 
-    const supabase = createClient(supabaseUrl, supabaseAnonKey);
-
-    if (req.method === 'GET') {
-      const url = new URL(req.url);
-      const id = url.searchParams.get('id');
-
-      if (!id) {
-        return new Response(
-          JSON.stringify({ error: 'Ad space ID is required' }), 
-          { 
-            status: 400,
-            headers: { 
-              'Content-Type': 'application/json',
-              ...corsHeaders 
-            }
-          }
-        );
-      }
-
-      const { data: adSpace, error } = await supabase
-        .from('ad_spaces')
-        .select(`
-          *,
-          ad_designs (*)
-        `)
-        .eq('id', id)
-        .single();
-
-      if (error) {
-        return new Response(
-          JSON.stringify({ error: 'Ad space not found' }), 
-          { 
-            status: 404,
-            headers: { 
-              'Content-Type': 'application/json',
-              ...corsHeaders 
-            }
-          }
-        );
-      }
+    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+      auth: { persistSession: false },
+    });
 
-      // Increment view count
-      await supabase.rpc('increment_ad_space_views', {
-        space_id: id
-      });
+    const url = new URL(req.url);
+    const { data: resolution, error } = await supabase.rpc('resolve_ad', {
+      p_qr_id: url.searchParams.get('qr'),
+      p_ad_space_id: url.searchParams.get('id') ?? url.searchParams.get('ad'),
+      // Picks the A/B variant, nothing is recorded
+      p_ip: req.headers.get('x-forwarded-for'),
+      p_agent: req.headers.get('user-agent'),
+      p_visitor: url.searchParams.get('visitor'),
+    });
 
-      return new Response(
-        JSON.stringify(adSpace),
-        { 
-          status: 200,
-          headers: { 
-            'Content-Type': 'application/json',
-            ...corsHeaders 
-          }
-        }
-      );
-    }
+    if (error) throw error;
 
-    return new Response(
-      JSON.stringify({ error: 'Method not allowed' }), 
-      { 
-        status: 405,
-        headers: { 
-          'Content-Type': 'application/json',
-          ...corsHeaders 
-        }
-      }
-    );
+    return json(resolution, AD_RESOLUTION_HTTP_STATUS[resolution.status] ?? 500);
   } catch (error) {
     console.error('Ad space error:', error);
-    return new Response(
-      JSON.stringify({ error: 'Internal server error' }), 
-      { 
-        status: 500,
-        headers: { 
-          'Content-Type': 'application/json',
-          ...corsHeaders 
-        }
-      }
-    );
+    return json({ error: 'Internal server error' }, 500);
   }
-});
\ No newline at end of file
+});
@@ -1,4 +1,5 @@
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import { AD_RESOLUTION_HTTP_STATUS, AD_RESOLUTION_MESSAGES } from '../_shared/adResolutionStatus.js';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -6,6 +7,20 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 };
 
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...corsHeaders },
+  });
+
+const redirect = (location: string) =>
+  new Response(null, {
+    status: 302,
+    headers: { 'Location': location, ...corsHeaders },
+  });
+
+// Records the scan and redirects. Ads without a redirect and ended offers are
+// shown on the View page of APP_URL, which records the visit itself
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -16,17 +31,6 @@ Deno.serve(async (req) => {
     const qrId = url.searchParams.get('qr');
     const adSpaceId = url.searchParams.get('ad');
 
-    if (!qrId && !adSpaceId) {
-      return new Response(
-        JSON.stringify({ error: 'QR code ID or Ad Space ID is required' }), 
-        { 
-          status: 400,
-          headers: { 'Content-Type': 'application/json', ...corsHeaders }
-        }
-      );
-    }
-
-    // Initialize Supabase admin client with service role key
     const supabaseAdmin = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
@@ -39,98 +43,36 @@ Deno.serve(async (req) => {
       }
     );
 
-    let redirectUrl = null;
-
-    if (qrId) {
-      // Get QR code data
-      const { data: qrCode, error: qrError } = await supabaseAdmin
-        .from('qr_codes')
-        .select('url, ad_space_id')
-        .eq('id', qrId)
-        .single();
+    const { data: resolution, error } = await supabaseAdmin.rpc('resolve_ad', {
+      p_qr_id: qrId,
+      p_ad_space_id: adSpaceId,
+      p_record: 'redirect',
+      p_ip: req.headers.get('x-forwarded-for') || 'unknown',
+      p_agent: req.headers.get('user-agent') || 'unknown',
+      p_location: { country: req.headers.get('cf-ipcountry') || 'unknown' },
+    });
 
-      if (qrError || !qrCode) {
-        return new Response(
-          JSON.stringify({ error: 'QR code not found' }), 
-          { 
-            status: 404,
-            headers: { 'Content-Type': 'application/json', ...corsHeaders }
-          }
-        );
-      }
+    if (error) throw error;
 
-      redirectUrl = qrCode.url;
-      
-      // Use the QR code's ad space if none was provided
-      if (!adSpaceId && qrCode.ad_space_id) {
-        adSpaceId = qrCode.ad_space_id;
-      }
-
-      // Record the scan
-      try {
-        await supabaseAdmin.rpc('increment_qr_code_scans', {
-          qr_id: qrId,
-          ad_id: adSpaceId,
-          ip: req.headers.get('x-forwarded-for') || 'unknown',
-          agent: req.headers.get('user-agent') || 'unknown',
-          loc: {
-            country: req.headers.get('cf-ipcountry') || 'unknown'
-          }
-        });
-      } catch (error) {
-        console.error('Error recording scan:', error);
-      }
+    if (resolution.redirect_url) {
+      return redirect(resolution.redirect_url);
     }
 
-    if (adSpaceId) {
-      // Get ad space data
-      const { data: adSpace, error: adError } = await supabaseAdmin
-        .from('ad_spaces')
-        .select('content')
-        .eq('id', adSpaceId)
-        .single();
-
-      if (!adError && adSpace?.content?.url) {
-        redirectUrl = adSpace.content.url;
+    if (resolution.status === 'ok' || resolution.status === 'ended') {
+      const appUrl = Deno.env.get('APP_URL');
+      if (!appUrl) {
+        return json({ error: 'No redirect URL found' }, 404);
       }
 
-      // Increment ad space views
-      try {
-        await supabaseAdmin.rpc('increment_ad_space_views', {
-          space_id: adSpaceId
-        });
-      } catch (error) {
-        console.error('Error incrementing views:', error);
-      }
-    }
-
-    if (!redirectUrl) {
-      return new Response(
-        JSON.stringify({ error: 'No redirect URL found' }), 
-        { 
-          status: 404,
-          headers: { 'Content-Type': 'application/json', ...corsHeaders }
-        }
-      );
+      const params = new URLSearchParams();
+      if (qrId) params.set('qr', qrId);
+      if (adSpaceId) params.set('ad', adSpaceId);
+      return redirect(`${appUrl}/view?${params}`);
     }
 
-    // Redirect to the destination URL
-    return new Response(null, {
-      status: 302,
-      headers: {
-        'Location': redirectUrl,
-        ...corsHeaders
-      }
-    });
-
+    return json({ error: AD_RESOLUTION_MESSAGES[resolution.status] }, AD_RESOLUTION_HTTP_STATUS[resolution.status] ?? 500);
   } catch (error) {
     console.error('QR redirect error:', error);
-    return new Response(
-      JSON.stringify({ error: 'Internal server error' }), 
-      { 
-        status: 500,
-        headers: { 'Content-Type': 'application/json', ...corsHeaders }
-      }
-    );
+    return json({ error: 'Internal server error' }, 500);
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,311 @@
+/*
+  # Scan and view analytics
+
+  1. New Tables
+    - `ad_space_view_events`
+      - `id` (uuid, primary key)
+      - `ad_space_id` (uuid, foreign key to ad_spaces)
+      - `viewed_at` (timestamptz)
+      - One row per view so views can be bucketed over time
+        (`ad_spaces.views` only keeps the running total)
+
+  2. Functions
+    - `increment_ad_space_views`: now also logs a view event
+    - `scan_visitor_key`: stable key for a scanner (ip + user agent)
+    - `get_scan_timeseries`: daily/weekly scans, views and unique scanners
+    - `get_ad_space_performance`: per ad space totals with the previous period
+    - `get_analytics_summary`: account wide totals with the previous period
+
+  3. Security
+    - Enable RLS on `ad_space_view_events`, owners can read their own events
+    - Analytics functions only ever return rows for ad spaces and QR codes
+      owned by `auth.uid()`
+*/
+
+-- Create ad space view events table
+CREATE TABLE IF NOT EXISTS ad_space_view_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ad_space_id uuid REFERENCES ad_spaces(id) ON DELETE CASCADE,
+  viewed_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ad_space_view_events_space_idx
+  ON ad_space_view_events(ad_space_id, viewed_at DESC);
+
+CREATE INDEX IF NOT EXISTS qr_code_scans_ad_space_idx
+  ON qr_code_scans(ad_space_id, scanned_at DESC);
+
+CREATE INDEX IF NOT EXISTS qr_code_scans_qr_code_idx
+  ON qr_code_scans(qr_code_id, scanned_at DESC);
+
+-- Enable RLS
+ALTER TABLE ad_space_view_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own ad space view events"
+  ON ad_space_view_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM ad_spaces
+      WHERE ad_spaces.id = ad_space_view_events.ad_space_id
+      AND ad_spaces.user_id = auth.uid()
+    )
+  );
+
+-- Log every view alongside the running total
+CREATE OR REPLACE FUNCTION increment_ad_space_views(space_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE ad_spaces
+  SET views = views + 1
+  WHERE id = space_id;
+
+  IF FOUND THEN
+    INSERT INTO ad_space_view_events (ad_space_id)
+    VALUES (space_id);
+  END IF;
+END;
+$$;
+
+-- Scanners are not signed in, so ip + user agent is the best identity we have
+CREATE OR REPLACE FUNCTION scan_visitor_key(ip text, agent text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT md5(COALESCE(ip, '') || '|' || COALESCE(agent, ''));
+$$;
+
+-- Scans, views and unique scanners bucketed by day or week
+CREATE OR REPLACE FUNCTION get_scan_timeseries(
+  p_ad_space_id uuid DEFAULT NULL,
+  p_days integer DEFAULT 30,
+  p_bucket text DEFAULT 'day'
+)
+RETURNS TABLE (
+  bucket timestamptz,
+  scans bigint,
+  views bigint,
+  unique_scanners bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  range_start timestamptz;
+BEGIN
+  IF p_bucket NOT IN ('day', 'week') THEN
+    RAISE EXCEPTION 'Bucket must be either day or week';
+  END IF;
+
+  IF p_days IS NULL OR p_days < 1 OR p_days > 366 THEN
+    RAISE EXCEPTION 'Days must be between 1 and 366';
+  END IF;
+
+  range_start := date_trunc(p_bucket, now() - make_interval(days => p_days - 1));
+
+  RETURN QUERY
+  WITH owned_spaces AS (
+    SELECT id FROM ad_spaces
+    WHERE user_id = auth.uid()
+    AND (p_ad_space_id IS NULL OR id = p_ad_space_id)
+  ),
+  buckets AS (
+    SELECT generate_series(
+      range_start,
+      date_trunc(p_bucket, now()),
+      ('1 ' || p_bucket)::interval
+    ) AS bucket
+  ),
+  scan_rows AS (
+    SELECT
+      date_trunc(p_bucket, s.scanned_at) AS bucket,
+      scan_visitor_key(s.ip_address, s.user_agent) AS visitor
+    FROM qr_code_scans s
+    LEFT JOIN qr_codes q ON q.id = s.qr_code_id
+    WHERE s.scanned_at >= range_start
+    AND (
+      s.ad_space_id IN (SELECT id FROM owned_spaces)
+      OR (p_ad_space_id IS NULL AND q.user_id = auth.uid())
+    )
+  ),
+  view_rows AS (
+    SELECT date_trunc(p_bucket, v.viewed_at) AS bucket
+    FROM ad_space_view_events v
+    WHERE v.viewed_at >= range_start
+    AND v.ad_space_id IN (SELECT id FROM owned_spaces)
+  )
+  SELECT
+    b.bucket,
+    (SELECT COUNT(*) FROM scan_rows sr WHERE sr.bucket = b.bucket),
+    (SELECT COUNT(*) FROM view_rows vr WHERE vr.bucket = b.bucket),
+    (SELECT COUNT(DISTINCT sr.visitor) FROM scan_rows sr WHERE sr.bucket = b.bucket)
+  FROM buckets b
+  ORDER BY b.bucket;
+END;
+$$;
+
+-- Per ad space totals for the current and the previous period
+CREATE OR REPLACE FUNCTION get_ad_space_performance(p_days integer DEFAULT 30)
+RETURNS TABLE (
+  ad_space_id uuid,
+  title text,
+  total_views integer,
+  scans bigint,
+  prev_scans bigint,
+  views bigint,
+  prev_views bigint,
+  unique_scanners bigint,
+  repeat_scanners bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  period_start timestamptz;
+  prev_start timestamptz;
+BEGIN
+  IF p_days IS NULL OR p_days < 1 OR p_days > 366 THEN
+    RAISE EXCEPTION 'Days must be between 1 and 366';
+  END IF;
+
+  period_start := now() - make_interval(days => p_days);
+  prev_start := now() - make_interval(days => p_days * 2);
+
+  RETURN QUERY
+  WITH scan_counts AS (
+    SELECT
+      s.ad_space_id,
+      COUNT(*) FILTER (WHERE s.scanned_at >= period_start) AS scans,
+      COUNT(*) FILTER (WHERE s.scanned_at < period_start) AS prev_scans
+    FROM qr_code_scans s
+    JOIN ad_spaces a ON a.id = s.ad_space_id
+    WHERE a.user_id = auth.uid()
+    AND s.scanned_at >= prev_start
+    GROUP BY s.ad_space_id
+  ),
+  visitor_counts AS (
+    SELECT
+      s.ad_space_id,
+      scan_visitor_key(s.ip_address, s.user_agent) AS visitor,
+      COUNT(*) AS visits
+    FROM qr_code_scans s
+    JOIN ad_spaces a ON a.id = s.ad_space_id
+    WHERE a.user_id = auth.uid()
+    AND s.scanned_at >= period_start
+    GROUP BY s.ad_space_id, visitor
+  ),
+  visitor_totals AS (
+    SELECT
+      vc.ad_space_id,
+      COUNT(*) AS unique_scanners,
+      COUNT(*) FILTER (WHERE vc.visits > 1) AS repeat_scanners
+    FROM visitor_counts vc
+    GROUP BY vc.ad_space_id
+  ),
+  view_counts AS (
+    SELECT
+      v.ad_space_id,
+      COUNT(*) FILTER (WHERE v.viewed_at >= period_start) AS views,
+      COUNT(*) FILTER (WHERE v.viewed_at < period_start) AS prev_views
+    FROM ad_space_view_events v
+    JOIN ad_spaces a ON a.id = v.ad_space_id
+    WHERE a.user_id = auth.uid()
+    AND v.viewed_at >= prev_start
+    GROUP BY v.ad_space_id
+  )
+  SELECT
+    a.id,
+    a.title,
+    COALESCE(a.views, 0),
+    COALESCE(sc.scans, 0),
+    COALESCE(sc.prev_scans, 0),
+    COALESCE(vw.views, 0),
+    COALESCE(vw.prev_views, 0),
+    COALESCE(vt.unique_scanners, 0),
+    COALESCE(vt.repeat_scanners, 0)
+  FROM ad_spaces a
+  LEFT JOIN scan_counts sc ON sc.ad_space_id = a.id
+  LEFT JOIN visitor_totals vt ON vt.ad_space_id = a.id
+  LEFT JOIN view_counts vw ON vw.ad_space_id = a.id
+  WHERE a.user_id = auth.uid()
+  ORDER BY COALESCE(sc.scans, 0) + COALESCE(vw.views, 0) DESC, a.created_at DESC;
+END;
+$$;
+
+-- Account wide totals for the current and the previous period
+CREATE OR REPLACE FUNCTION get_analytics_summary(p_days integer DEFAULT 30)
+RETURNS TABLE (
+  scans bigint,
+  prev_scans bigint,
+  views bigint,
+  prev_views bigint,
+  unique_scanners bigint,
+  prev_unique_scanners bigint,
+  repeat_scanners bigint,
+  prev_repeat_scanners bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  period_start timestamptz;
+  prev_start timestamptz;
+BEGIN
+  IF p_days IS NULL OR p_days < 1 OR p_days > 366 THEN
+    RAISE EXCEPTION 'Days must be between 1 and 366';
+  END IF;
+
+  period_start := now() - make_interval(days => p_days);
+  prev_start := now() - make_interval(days => p_days * 2);
+
+  RETURN QUERY
+  WITH owned_scans AS (
+    SELECT
+      s.scanned_at >= period_start AS is_current,
+      scan_visitor_key(s.ip_address, s.user_agent) AS visitor
+    FROM qr_code_scans s
+    LEFT JOIN qr_codes q ON q.id = s.qr_code_id
+    LEFT JOIN ad_spaces a ON a.id = s.ad_space_id
+    WHERE s.scanned_at >= prev_start
+    AND (q.user_id = auth.uid() OR a.user_id = auth.uid())
+  ),
+  visitors AS (
+    SELECT is_current, visitor, COUNT(*) AS visits
+    FROM owned_scans
+    GROUP BY is_current, visitor
+  ),
+  owned_views AS (
+    SELECT v.viewed_at >= period_start AS is_current
+    FROM ad_space_view_events v
+    JOIN ad_spaces a ON a.id = v.ad_space_id
+    WHERE a.user_id = auth.uid()
+    AND v.viewed_at >= prev_start
+  )
+  SELECT
+    (SELECT COUNT(*) FROM owned_scans WHERE is_current),
+    (SELECT COUNT(*) FROM owned_scans WHERE NOT is_current),
+    (SELECT COUNT(*) FROM owned_views WHERE is_current),
+    (SELECT COUNT(*) FROM owned_views WHERE NOT is_current),
+    (SELECT COUNT(*) FROM visitors WHERE is_current),
+    (SELECT COUNT(*) FROM visitors WHERE NOT is_current),
+    (SELECT COUNT(*) FROM visitors WHERE is_current AND visits > 1),
+    (SELECT COUNT(*) FROM visitors WHERE NOT is_current AND visits > 1);
+END;
+$$;
+
+-- Analytics are only for signed in owners
+GRANT EXECUTE ON FUNCTION get_scan_timeseries(uuid, integer, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_ad_space_performance(integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_analytics_summary(integer) TO authenticated;
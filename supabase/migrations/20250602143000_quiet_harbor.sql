@@ -0,0 +1,118 @@
+/*
+  # Ad space scan breakdowns
+
+  1. Functions
+    - `scan_device_os`: device OS from a scan user agent
+    - `scan_browser`: browser from a scan user agent
+    - `get_ad_space_breakdowns`: scans for one ad space grouped by
+      OS, browser, country (`qr_code_scans.location->>'country'`) and hour of day
+
+  2. Security
+    - `get_ad_space_breakdowns` raises unless the ad space belongs to `auth.uid()`
+*/
+
+-- Device OS from a user agent, same buckets as getDeviceInfo on the client
+CREATE OR REPLACE FUNCTION scan_device_os(agent text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN agent IS NULL OR agent = '' OR agent = 'unknown' THEN 'Unknown'
+    WHEN agent ILIKE '%Android%' THEN 'Android'
+    WHEN agent ILIKE '%iPhone%' OR agent ILIKE '%iPad%' OR agent ILIKE '%iPod%' THEN 'iOS'
+    WHEN agent ILIKE '%Windows%' THEN 'Windows'
+    WHEN agent ILIKE '%Mac%' THEN 'Mac'
+    WHEN agent ILIKE '%CrOS%' THEN 'ChromeOS'
+    WHEN agent ILIKE '%Linux%' THEN 'Linux'
+    ELSE 'Other'
+  END;
+$$;
+
+-- Browser from a user agent, Edge and in-app iOS browsers checked before Chrome/Safari
+CREATE OR REPLACE FUNCTION scan_browser(agent text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN agent IS NULL OR agent = '' OR agent = 'unknown' THEN 'Unknown'
+    WHEN agent ILIKE '%Edg%' THEN 'Edge'
+    WHEN agent ILIKE '%SamsungBrowser%' THEN 'Samsung Internet'
+    WHEN agent ILIKE '%Instagram%' OR agent ILIKE '%FBAN%' OR agent ILIKE '%FBAV%' THEN 'In-app'
+    WHEN agent ILIKE '%Firefox%' OR agent ILIKE '%FxiOS%' THEN 'Firefox'
+    WHEN agent ILIKE '%Chrome%' OR agent ILIKE '%CriOS%' THEN 'Chrome'
+    WHEN agent ILIKE '%Safari%' THEN 'Safari'
+    ELSE 'Other'
+  END;
+$$;
+
+-- Scans for a single ad space grouped by os, browser, country and hour
+CREATE OR REPLACE FUNCTION get_ad_space_breakdowns(
+  p_ad_space_id uuid,
+  p_days integer DEFAULT 30,
+  p_timezone text DEFAULT 'UTC'
+)
+RETURNS TABLE (
+  dimension text,
+  label text,
+  scans bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM ad_spaces
+    WHERE id = p_ad_space_id
+    AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Ad space not found';
+  END IF;
+
+  IF p_days IS NULL OR p_days < 1 OR p_days > 366 THEN
+    RAISE EXCEPTION 'Days must be between 1 and 366';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+    p_timezone := 'UTC';
+  END IF;
+
+  RETURN QUERY
+  WITH space_scans AS (
+    SELECT s.user_agent, s.location, s.scanned_at
+    FROM qr_code_scans s
+    WHERE s.ad_space_id = p_ad_space_id
+    AND s.scanned_at >= now() - make_interval(days => p_days)
+  )
+  SELECT 'os'::text, scan_device_os(ss.user_agent), COUNT(*)
+  FROM space_scans ss
+  GROUP BY 2
+  UNION ALL
+  SELECT 'browser'::text, scan_browser(ss.user_agent), COUNT(*)
+  FROM space_scans ss
+  GROUP BY 2
+  UNION ALL
+  SELECT
+    'country'::text,
+    CASE
+      WHEN COALESCE(ss.location->>'country', '') IN ('', 'unknown', 'XX') THEN 'Unknown'
+      ELSE upper(ss.location->>'country')
+    END,
+    COUNT(*)
+  FROM space_scans ss
+  GROUP BY 2
+  UNION ALL
+  SELECT
+    'hour'::text,
+    lpad(EXTRACT(hour FROM ss.scanned_at AT TIME ZONE p_timezone)::int::text, 2, '0'),
+    COUNT(*)
+  FROM space_scans ss
+  GROUP BY 2
+  ORDER BY 1, 3 DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_ad_space_breakdowns(uuid, integer, text) TO authenticated;
@@ -0,0 +1,325 @@
+/*
+  # SMS campaigns
+
+  1. New Tables
+    - `contacts`: people a business can text
+      - `user_id`, `name`, `phone` (E.164), `email`, `notes`
+      - unique per user and phone number
+    - `contact_groups`: named lists of contacts
+    - `group_contacts`: contacts in a group
+    - `sms_templates`: reusable message bodies
+    - `sms_campaigns`: a message sent to a group
+      - `status`: draft, scheduled, sending, sent or failed
+      - `recipients`: number of recipients when the campaign was sent
+    - `sms_messages`: one row per recipient of a campaign
+      - `status`: pending, sent or failed
+      - unique per campaign and contact so a recipient is only ever texted once
+
+  2. Functions
+    - `check_suspicious_activity`: successful SMS sends no longer count towards
+      the rapid action check, otherwise any campaign over 50 recipients would
+      be flagged as suspicious part way through
+
+  3. Security
+    - Enable RLS on all tables
+    - Users can only see and manage their own rows
+    - `sms_messages` is written by the server with the service role, users can read their own
+*/
+
+-- Create contacts table
+CREATE TABLE IF NOT EXISTS contacts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  phone text NOT NULL,
+  email text,
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, phone)
+);
+
+-- Create contact groups table
+CREATE TABLE IF NOT EXISTS contact_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  description text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create group contacts table
+CREATE TABLE IF NOT EXISTS group_contacts (
+  group_id uuid REFERENCES contact_groups(id) ON DELETE CASCADE,
+  contact_id uuid REFERENCES contacts(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (group_id, contact_id)
+);
+
+-- Create SMS templates table
+CREATE TABLE IF NOT EXISTS sms_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  content text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create SMS campaigns table
+CREATE TABLE IF NOT EXISTS sms_campaigns (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  content text NOT NULL,
+  group_id uuid REFERENCES contact_groups(id) ON DELETE SET NULL,
+  template_id uuid REFERENCES sms_templates(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'scheduled', 'sending', 'sent', 'failed')),
+  recipients integer DEFAULT 0,
+  scheduled_date timestamptz,
+  sent_date timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create SMS messages table
+CREATE TABLE IF NOT EXISTS sms_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id uuid REFERENCES sms_campaigns(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  contact_id uuid REFERENCES contacts(id) ON DELETE SET NULL,
+  to_number text NOT NULL,
+  content text NOT NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sent', 'failed')),
+  external_id text,
+  error text,
+  sent_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(campaign_id, contact_id)
+);
+
+CREATE INDEX IF NOT EXISTS sms_campaigns_user_idx ON sms_campaigns(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS sms_messages_campaign_idx ON sms_messages(campaign_id, status);
+
+-- Enable RLS
+ALTER TABLE contacts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE contact_groups ENABLE ROW LEVEL SECURITY;
+ALTER TABLE group_contacts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sms_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sms_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sms_messages ENABLE ROW LEVEL SECURITY;
+
+-- Contacts policies
+CREATE POLICY "Users can view their own contacts"
+  ON contacts FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own contacts"
+  ON contacts FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own contacts"
+  ON contacts FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own contacts"
+  ON contacts FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Contact groups policies
+CREATE POLICY "Users can view their own contact groups"
+  ON contact_groups FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own contact groups"
+  ON contact_groups FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own contact groups"
+  ON contact_groups FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own contact groups"
+  ON contact_groups FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Group contacts policies, both sides must belong to the user
+CREATE POLICY "Users can view their own group contacts"
+  ON group_contacts FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM contact_groups
+      WHERE contact_groups.id = group_contacts.group_id
+      AND contact_groups.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can create their own group contacts"
+  ON group_contacts FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM contact_groups
+      WHERE contact_groups.id = group_contacts.group_id
+      AND contact_groups.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM contacts
+      WHERE contacts.id = group_contacts.contact_id
+      AND contacts.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete their own group contacts"
+  ON group_contacts FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM contact_groups
+      WHERE contact_groups.id = group_contacts.group_id
+      AND contact_groups.user_id = auth.uid()
+    )
+  );
+
+-- SMS templates policies
+CREATE POLICY "Users can view their own SMS templates"
+  ON sms_templates FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own SMS templates"
+  ON sms_templates FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own SMS templates"
+  ON sms_templates FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own SMS templates"
+  ON sms_templates FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- SMS campaigns policies, sending status is only ever set by the server
+CREATE POLICY "Users can view their own SMS campaigns"
+  ON sms_campaigns FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own SMS campaigns"
+  ON sms_campaigns FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND status IN ('draft', 'scheduled'));
+
+CREATE POLICY "Users can update their own SMS campaigns"
+  ON sms_campaigns FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id AND status IN ('draft', 'scheduled'))
+  WITH CHECK (auth.uid() = user_id AND status IN ('draft', 'scheduled'));
+
+CREATE POLICY "Users can delete their own SMS campaigns"
+  ON sms_campaigns FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id AND status <> 'sending');
+
+-- SMS messages policies
+CREATE POLICY "Users can view their own SMS messages"
+  ON sms_messages FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Keep updated_at current
+CREATE TRIGGER update_contacts_updated_at
+  BEFORE UPDATE ON contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_contact_groups_updated_at
+  BEFORE UPDATE ON contact_groups
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_sms_templates_updated_at
+  BEFORE UPDATE ON sms_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_sms_campaigns_updated_at
+  BEFORE UPDATE ON sms_campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Don't count successful SMS sends as rapid successive actions
+CREATE OR REPLACE FUNCTION check_suspicious_activity(
+  user_id uuid,
+  action text,
+  details jsonb DEFAULT '{}'
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  suspicious boolean := false;
+  recent_actions integer;
+BEGIN
+  -- Check for rapid successive actions
+  SELECT COUNT(*) INTO recent_actions
+  FROM audit_logs
+  WHERE
+    audit_logs.user_id = check_suspicious_activity.user_id
+    AND audit_logs.action <> 'send_sms_success'
+    AND created_at > now() - interval '5 minutes';
+
+  -- Mark as suspicious if too many actions
+  IF recent_actions > 50 THEN
+    suspicious := true;
+  END IF;
+
+  -- Check for suspicious patterns in content
+  IF details ? 'content' AND (
+    details->>'content' ILIKE '%<script%'
+    OR details->>'content' ILIKE '%javascript:%'
+    OR details->>'content' ILIKE '%data:text/html%'
+  ) THEN
+    suspicious := true;
+  END IF;
+
+  -- Log suspicious activity
+  IF suspicious THEN
+    INSERT INTO audit_logs (
+      user_id,
+      action,
+      details
+    )
+    VALUES (
+      user_id,
+      'suspicious_activity_detected',
+      jsonb_build_object(
+        'trigger_action', action,
+        'details', details,
+        'reason', 'Suspicious pattern detected'
+      )
+    );
+  END IF;
+
+  RETURN suspicious;
+END;
+$$;
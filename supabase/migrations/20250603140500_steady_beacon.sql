@@ -0,0 +1,140 @@
+/*
+  # Scheduled SMS dispatch
+
+  1. Changes
+    - `sms_messages`
+      - new `sending` status: claimed by a dispatcher, handed to the provider
+      - `attempts`: how many times the message was claimed
+      - `locked_at`: when the message was last claimed
+      - `updated_at`
+    - `sms_campaigns`
+      - `heartbeat_at`: last time a dispatcher made progress on the campaign
+
+  2. Functions
+    - `claim_due_sms_campaigns`: moves due scheduled campaigns to `sending`, and
+      picks up `sending` campaigns whose dispatcher stopped (no heartbeat)
+    - `claim_sms_messages`: moves a batch of pending messages to `sending`
+    - `release_stale_sms_messages`: fails messages stuck in `sending`
+
+  Claiming uses FOR UPDATE SKIP LOCKED, so several server instances can poll at
+  once without picking the same rows. A message is only ever claimed from
+  `pending`, and a message left in `sending` after a crash is failed rather than
+  retried, because the provider may already have delivered it.
+
+  3. Security
+    - Dispatch functions are for the server (service role) only
+*/
+
+-- Messages can be claimed
+ALTER TABLE sms_messages
+  DROP CONSTRAINT IF EXISTS sms_messages_status_check;
+
+ALTER TABLE sms_messages
+  ADD CONSTRAINT sms_messages_status_check
+  CHECK (status IN ('pending', 'sending', 'sent', 'failed'));
+
+ALTER TABLE sms_messages
+  ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS locked_at timestamptz,
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+ALTER TABLE sms_campaigns
+  ADD COLUMN IF NOT EXISTS heartbeat_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS sms_campaigns_due_idx
+  ON sms_campaigns(scheduled_date)
+  WHERE status = 'scheduled';
+
+CREATE TRIGGER update_sms_messages_updated_at
+  BEFORE UPDATE ON sms_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Claim campaigns that are due, or whose dispatcher went away
+CREATE OR REPLACE FUNCTION claim_due_sms_campaigns(
+  p_limit integer DEFAULT 5,
+  p_stale_after interval DEFAULT interval '10 minutes'
+)
+RETURNS SETOF sms_campaigns
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE sms_campaigns c
+  SET
+    status = 'sending',
+    heartbeat_at = now()
+  WHERE c.id IN (
+    SELECT id FROM sms_campaigns
+    WHERE (status = 'scheduled' AND scheduled_date <= now())
+    OR (status = 'sending' AND COALESCE(heartbeat_at, updated_at) < now() - p_stale_after)
+    ORDER BY scheduled_date NULLS FIRST
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING c.*;
+END;
+$$;
+
+-- Claim the next batch of pending messages for a campaign
+CREATE OR REPLACE FUNCTION claim_sms_messages(
+  p_campaign_id uuid,
+  p_limit integer DEFAULT 20
+)
+RETURNS SETOF sms_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE sms_campaigns
+  SET heartbeat_at = now()
+  WHERE id = p_campaign_id;
+
+  RETURN QUERY
+  UPDATE sms_messages m
+  SET
+    status = 'sending',
+    attempts = m.attempts + 1,
+    locked_at = now()
+  WHERE m.id IN (
+    SELECT id FROM sms_messages
+    WHERE campaign_id = p_campaign_id
+    AND status = 'pending'
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING m.*;
+END;
+$$;
+
+-- Fail messages whose dispatcher stopped between claiming and recording a result
+CREATE OR REPLACE FUNCTION release_stale_sms_messages(
+  p_stale_after interval DEFAULT interval '10 minutes'
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  released integer;
+BEGIN
+  UPDATE sms_messages
+  SET
+    status = 'failed',
+    error = 'Delivery interrupted, not retried to avoid sending twice'
+  WHERE status = 'sending'
+  AND locked_at < now() - p_stale_after;
+
+  GET DIAGNOSTICS released = ROW_COUNT;
+  RETURN released;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_due_sms_campaigns(integer, interval) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_sms_messages(uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_stale_sms_messages(interval) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,17 @@
+/*
+  # SMS template variables
+
+  1. Changes
+    - `sms_campaigns.variables`: custom {{variable}} values for a campaign,
+      e.g. {"expiry_date": "June 30"}
+    - `sms_messages.segments`: billed segments of the rendered message
+
+  2. Security
+    - No changes, both tables keep their existing policies
+*/
+
+ALTER TABLE sms_campaigns
+  ADD COLUMN IF NOT EXISTS variables jsonb NOT NULL DEFAULT '{}';
+
+ALTER TABLE sms_messages
+  ADD COLUMN IF NOT EXISTS segments integer;
@@ -0,0 +1,117 @@
+/*
+  # SMS consent ledger
+
+  1. New Tables
+    - `sms_consent_events`: every STOP/START/HELP received for a phone number,
+      append only. The latest opt out or opt in event decides whether a
+      number can be texted
+      - `user_id`: the business that last texted the number, if any
+      - `message_sid`: provider message id, unique so webhook retries are
+        recorded once
+
+  2. Functions
+    - `is_sms_opted_out(phone)`: whether the latest consent event for a number
+      is an opt out
+    - `claim_sms_messages` now fails pending messages to opted out numbers
+      before claiming a batch, so a STOP that arrives mid-campaign is honoured
+
+  Opt outs apply to every business. All campaigns go out from the same
+  sender number, and carriers treat a STOP as a request to stop all messages
+  from that number.
+
+  3. Security
+    - Enable RLS on `sms_consent_events`
+    - Users can view events for numbers in their own contacts
+    - Only the server (service role) writes events
+*/
+
+-- Create consent events table
+CREATE TABLE IF NOT EXISTS sms_consent_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  phone text NOT NULL,
+  event text NOT NULL CHECK (event IN ('opt_out', 'opt_in', 'help')),
+  keyword text,
+  body text,
+  source text NOT NULL DEFAULT 'inbound_sms' CHECK (source IN ('inbound_sms', 'dashboard')),
+  user_id uuid REFERENCES auth.users ON DELETE SET NULL,
+  message_sid text UNIQUE,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS sms_consent_events_phone_idx
+  ON sms_consent_events(phone, created_at DESC);
+
+ALTER TABLE sms_consent_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view consent events for their own contacts"
+  ON sms_consent_events FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM contacts
+      WHERE contacts.phone = sms_consent_events.phone
+      AND contacts.user_id = auth.uid()
+    )
+  );
+
+-- Latest opt out / opt in decides, HELP does not change consent
+CREATE OR REPLACE FUNCTION is_sms_opted_out(p_phone text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((
+    SELECT event = 'opt_out'
+    FROM sms_consent_events
+    WHERE phone = p_phone
+    AND event IN ('opt_out', 'opt_in')
+    ORDER BY created_at DESC
+    LIMIT 1
+  ), false);
+$$;
+
+-- Claim the next batch of pending messages for a campaign, skipping opted out numbers
+CREATE OR REPLACE FUNCTION claim_sms_messages(
+  p_campaign_id uuid,
+  p_limit integer DEFAULT 20
+)
+RETURNS SETOF sms_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE sms_campaigns
+  SET heartbeat_at = now()
+  WHERE id = p_campaign_id;
+
+  UPDATE sms_messages
+  SET
+    status = 'failed',
+    error = 'Recipient opted out'
+  WHERE campaign_id = p_campaign_id
+  AND status = 'pending'
+  AND is_sms_opted_out(to_number);
+
+  RETURN QUERY
+  UPDATE sms_messages m
+  SET
+    status = 'sending',
+    attempts = m.attempts + 1,
+    locked_at = now()
+  WHERE m.id IN (
+    SELECT id FROM sms_messages
+    WHERE campaign_id = p_campaign_id
+    AND status = 'pending'
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING m.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_sms_messages(uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION is_sms_opted_out(text) FROM PUBLIC, anon, authenticated;
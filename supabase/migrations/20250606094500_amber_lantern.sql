@@ -0,0 +1,246 @@
+/*
+  # QR code management
+
+  1. Changes
+    - `qr_codes.url` is optional: a code points either at a URL or at an ad
+      space (`ad_space_id`)
+    - QR codes can no longer be inserted directly, they are created with
+      `create_qr_code` so the plan limit cannot be skipped
+    - Updates can only link ad spaces the user owns
+
+  2. Functions
+    - `check_usage_limits`: `create_qr_code` now follows the plans, Free
+      accounts can have 1 QR code and Pro accounts unlimited. The limit counts
+      existing codes, so deleting a code frees the slot
+    - `create_qr_code(name, url, ad_space_id)`: checks the limit and creates a code
+    - `get_qr_code_target(id)`: where a code points, for the public scan pages
+
+  3. Security
+    - `create_qr_code` is for signed in users, `get_qr_code_target` is public
+      and only exposes the destination
+*/
+
+ALTER TABLE qr_codes
+  ALTER COLUMN url DROP NOT NULL;
+
+-- Replace the catch-all policies
+DROP POLICY IF EXISTS "Users can manage their own QR codes" ON qr_codes;
+DROP POLICY IF EXISTS "Users can view their own QR codes" ON qr_codes;
+DROP POLICY IF EXISTS "Users can create their own QR codes" ON qr_codes;
+DROP POLICY IF EXISTS "Users can update their own QR codes" ON qr_codes;
+DROP POLICY IF EXISTS "Users can delete their own QR codes" ON qr_codes;
+
+CREATE POLICY "Users can view their own QR codes"
+  ON qr_codes FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own QR codes"
+  ON qr_codes FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (
+      ad_space_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM ad_spaces
+        WHERE ad_spaces.id = qr_codes.ad_space_id
+        AND ad_spaces.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can delete their own QR codes"
+  ON qr_codes FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Usage limits, QR codes follow the plan
+CREATE OR REPLACE FUNCTION check_usage_limits(
+  user_id uuid,
+  action text,
+  ip_address text DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  user_tier text;
+  current_usage integer;
+  is_allowed boolean;
+BEGIN
+  -- Check IP rate limit
+  IF ip_address IS NOT NULL AND NOT check_ip_rate_limit(ip_address) THEN
+    RETURN false;
+  END IF;
+
+  -- Check for suspicious activity
+  IF check_suspicious_activity(user_id, action) THEN
+    RETURN false;
+  END IF;
+
+  -- Get user's subscription tier
+  SELECT name INTO user_tier
+  FROM subscription_tiers st
+  JOIN user_subscriptions us ON us.tier_id = st.id
+  WHERE us.user_id = check_usage_limits.user_id
+  AND us.status = 'active';
+
+  -- Paid users still have limits to prevent abuse
+  IF user_tier IN ('Pro', 'Premium') THEN
+    -- Check for abnormal usage
+    SELECT COUNT(*) INTO current_usage
+    FROM usage_logs
+    WHERE usage_logs.user_id = check_usage_limits.user_id
+    AND created_at > now() - interval '1 hour';
+
+    IF current_usage > 1000 THEN
+      -- Log potential abuse
+      PERFORM log_audit_event(
+        user_id,
+        'potential_abuse_detected',
+        jsonb_build_object(
+          'action', action,
+          'usage_count', current_usage,
+          'window', '1 hour'
+        ),
+        ip_address
+      );
+      RETURN false;
+    END IF;
+  END IF;
+
+  CASE action
+    WHEN 'create_qr_code' THEN
+      SELECT COUNT(*) INTO current_usage
+      FROM qr_codes
+      WHERE qr_codes.user_id = check_usage_limits.user_id;
+
+      is_allowed := user_tier IN ('Pro', 'Premium') OR current_usage < 1;
+
+    WHEN 'send_sms' THEN
+      SELECT sms_count INTO current_usage
+      FROM user_usage_limits
+      WHERE user_usage_limits.user_id = check_usage_limits.user_id;
+
+      is_allowed := COALESCE(current_usage, 0) < 100;
+
+    ELSE
+      is_allowed := false;
+  END CASE;
+
+  -- Log the usage attempt
+  INSERT INTO usage_logs (user_id, action)
+  VALUES (check_usage_limits.user_id, action);
+
+  -- Update usage count if allowed
+  IF is_allowed THEN
+    UPDATE user_usage_limits
+    SET
+      qr_codes_count = CASE
+        WHEN action = 'create_qr_code'
+        THEN qr_codes_count + 1
+        ELSE qr_codes_count
+      END,
+      sms_count = CASE
+        WHEN action = 'send_sms'
+        THEN sms_count + 1
+        ELSE sms_count
+      END,
+      updated_at = now()
+    WHERE user_usage_limits.user_id = check_usage_limits.user_id;
+
+    -- Log successful action
+    PERFORM log_audit_event(
+      user_id,
+      action || '_success',
+      jsonb_build_object(
+        'current_usage', COALESCE(current_usage, 0) + 1
+      ),
+      ip_address
+    );
+  ELSE
+    -- Log failed attempt
+    PERFORM log_audit_event(
+      user_id,
+      action || '_limit_exceeded',
+      jsonb_build_object(
+        'current_usage', current_usage
+      ),
+      ip_address
+    );
+  END IF;
+
+  RETURN is_allowed;
+END;
+$$;
+
+-- Create a QR code for the signed in user, within their plan's limit
+CREATE OR REPLACE FUNCTION create_qr_code(
+  p_name text,
+  p_url text DEFAULT NULL,
+  p_ad_space_id uuid DEFAULT NULL
+)
+RETURNS qr_codes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_code qr_codes;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'QR code name is required';
+  END IF;
+
+  IF (p_url IS NULL) = (p_ad_space_id IS NULL) THEN
+    RAISE EXCEPTION 'A QR code points either at a URL or at an ad space';
+  END IF;
+
+  IF p_url IS NOT NULL AND p_url !~* '^https?://' THEN
+    RAISE EXCEPTION 'URL must start with http:// or https://';
+  END IF;
+
+  IF p_ad_space_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM ad_spaces
+    WHERE id = p_ad_space_id
+    AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Ad space not found';
+  END IF;
+
+  IF NOT check_usage_limits(auth.uid(), 'create_qr_code') THEN
+    RAISE EXCEPTION 'QR code limit reached for your plan';
+  END IF;
+
+  INSERT INTO qr_codes (user_id, name, url, ad_space_id)
+  VALUES (auth.uid(), trim(p_name), p_url, p_ad_space_id)
+  RETURNING * INTO new_code;
+
+  RETURN new_code;
+END;
+$$;
+
+-- Destination of a QR code, used by the scan pages
+CREATE OR REPLACE FUNCTION get_qr_code_target(p_qr_id uuid)
+RETURNS TABLE (url text, ad_space_id uuid)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT q.url, q.ad_space_id
+  FROM qr_codes q
+  WHERE q.id = p_qr_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_qr_code(text, text, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_qr_code(text, text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_qr_code_target(uuid) TO anon, authenticated;
@@ -0,0 +1,356 @@
+/*
+  # Dynamic QR codes
+
+  1. Changes
+    - `qr_codes.short_code`: stable code printed in the QR image as /q/<code>,
+      the destination (url or ad space) can change after printing
+    - `qr_codes.is_ad_space_default`: the code the Ad Builder shows for an ad
+      space, one per ad space. It always opens its ad space and does not count
+      against the plan's QR code limit
+
+  2. New Tables
+    - `qr_code_destinations`: every destination a code has had, with the
+      period it was active (`active_to` is null for the current one). Rows are
+      written by a trigger whenever `url` or `ad_space_id` changes
+
+  3. Functions
+    - `generate_qr_short_code`: random 8 character code
+    - `scan_qr_code(short_code, ...)`: records a scan and returns where the
+      code points, used by the /q/:code app route and the Express server
+    - `ensure_ad_space_qr_code(ad_space_id)`: the Ad Builder code for an ad space
+    - `check_usage_limits`: Ad Builder codes are not counted
+
+  4. Security
+    - Enable RLS on `qr_code_destinations`, users can view their own history
+    - `scan_qr_code` is public, `ensure_ad_space_qr_code` is for signed in users
+*/
+
+-- Random short code, avoids look-alike characters
+CREATE OR REPLACE FUNCTION generate_qr_short_code()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  alphabet text := '23456789abcdefghjkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ';
+  code text;
+BEGIN
+  LOOP
+    code := '';
+    FOR i IN 1..8 LOOP
+      code := code || substr(alphabet, 1 + floor(random() * length(alphabet))::integer, 1);
+    END LOOP;
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM qr_codes WHERE short_code = code);
+  END LOOP;
+
+  RETURN code;
+END;
+$$;
+
+ALTER TABLE qr_codes
+  ADD COLUMN IF NOT EXISTS short_code text,
+  ADD COLUMN IF NOT EXISTS is_ad_space_default boolean NOT NULL DEFAULT false;
+
+UPDATE qr_codes
+SET short_code = generate_qr_short_code()
+WHERE short_code IS NULL;
+
+ALTER TABLE qr_codes
+  ALTER COLUMN short_code SET DEFAULT generate_qr_short_code(),
+  ALTER COLUMN short_code SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS qr_codes_short_code_idx
+  ON qr_codes(short_code);
+
+CREATE UNIQUE INDEX IF NOT EXISTS qr_codes_ad_space_default_idx
+  ON qr_codes(ad_space_id)
+  WHERE is_ad_space_default;
+
+-- Create destination history table
+CREATE TABLE IF NOT EXISTS qr_code_destinations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  qr_code_id uuid REFERENCES qr_codes(id) ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users ON DELETE CASCADE,
+  url text,
+  ad_space_id uuid REFERENCES ad_spaces(id) ON DELETE SET NULL,
+  active_from timestamptz NOT NULL DEFAULT now(),
+  active_to timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS qr_code_destinations_qr_code_idx
+  ON qr_code_destinations(qr_code_id, active_from DESC);
+
+ALTER TABLE qr_code_destinations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own QR code destinations"
+  ON qr_code_destinations FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Existing codes start their history now
+INSERT INTO qr_code_destinations (qr_code_id, user_id, url, ad_space_id, active_from)
+SELECT id, user_id, url, ad_space_id, created_at
+FROM qr_codes
+WHERE NOT EXISTS (
+  SELECT 1 FROM qr_code_destinations d WHERE d.qr_code_id = qr_codes.id
+);
+
+-- Ad Builder codes always open their ad space
+CREATE OR REPLACE FUNCTION protect_default_qr_code_target()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Deleting the ad space clears ad_space_id, that is allowed
+  IF OLD.is_ad_space_default
+    AND NEW.ad_space_id IS NOT NULL
+    AND (NEW.url IS DISTINCT FROM OLD.url OR NEW.ad_space_id IS DISTINCT FROM OLD.ad_space_id)
+  THEN
+    RAISE EXCEPTION 'The Ad Builder QR code always opens its ad space';
+  END IF;
+
+  NEW.is_ad_space_default := OLD.is_ad_space_default;
+  NEW.short_code := OLD.short_code;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_default_qr_code_target
+  BEFORE UPDATE ON qr_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_default_qr_code_target();
+
+-- Keep the destination history in step with the code
+CREATE OR REPLACE FUNCTION record_qr_code_destination()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.url IS NOT DISTINCT FROM OLD.url
+    AND NEW.ad_space_id IS NOT DISTINCT FROM OLD.ad_space_id
+  THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE qr_code_destinations
+  SET active_to = now()
+  WHERE qr_code_id = NEW.id
+  AND active_to IS NULL;
+
+  INSERT INTO qr_code_destinations (qr_code_id, user_id, url, ad_space_id)
+  VALUES (NEW.id, NEW.user_id, NEW.url, NEW.ad_space_id);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_qr_code_destination
+  AFTER INSERT OR UPDATE OF url, ad_space_id ON qr_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION record_qr_code_destination();
+
+-- Record a scan and return where the code points
+CREATE OR REPLACE FUNCTION scan_qr_code(
+  p_short_code text,
+  p_ip text DEFAULT NULL,
+  p_agent text DEFAULT NULL,
+  p_location jsonb DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (qr_code_id uuid, url text, ad_space_id uuid)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  code qr_codes;
+BEGIN
+  SELECT * INTO code
+  FROM qr_codes q
+  WHERE q.short_code = p_short_code;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  PERFORM increment_qr_code_scans(code.id, code.ad_space_id, p_ip, p_agent, p_location);
+
+  RETURN QUERY SELECT code.id, code.url, code.ad_space_id;
+END;
+$$;
+
+-- The Ad Builder code for an ad space, created on first use
+CREATE OR REPLACE FUNCTION ensure_ad_space_qr_code(p_ad_space_id uuid)
+RETURNS qr_codes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  space_title text;
+  code qr_codes;
+BEGIN
+  SELECT title INTO space_title
+  FROM ad_spaces
+  WHERE id = p_ad_space_id
+  AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ad space not found';
+  END IF;
+
+  SELECT * INTO code
+  FROM qr_codes
+  WHERE ad_space_id = p_ad_space_id
+  AND is_ad_space_default;
+
+  IF NOT FOUND THEN
+    INSERT INTO qr_codes (user_id, name, ad_space_id, is_ad_space_default)
+    VALUES (auth.uid(), space_title, p_ad_space_id, true)
+    ON CONFLICT (ad_space_id) WHERE is_ad_space_default DO NOTHING
+    RETURNING * INTO code;
+
+    -- Created by a concurrent call
+    IF code.id IS NULL THEN
+      SELECT * INTO code
+      FROM qr_codes
+      WHERE ad_space_id = p_ad_space_id
+      AND is_ad_space_default;
+    END IF;
+  END IF;
+
+  RETURN code;
+END;
+$$;
+
+-- Ad Builder codes do not count against the QR code limit
+CREATE OR REPLACE FUNCTION check_usage_limits(
+  user_id uuid,
+  action text,
+  ip_address text DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  user_tier text;
+  current_usage integer;
+  is_allowed boolean;
+BEGIN
+  -- Check IP rate limit
+  IF ip_address IS NOT NULL AND NOT check_ip_rate_limit(ip_address) THEN
+    RETURN false;
+  END IF;
+
+  -- Check for suspicious activity
+  IF check_suspicious_activity(user_id, action) THEN
+    RETURN false;
+  END IF;
+
+  -- Get user's subscription tier
+  SELECT name INTO user_tier
+  FROM subscription_tiers st
+  JOIN user_subscriptions us ON us.tier_id = st.id
+  WHERE us.user_id = check_usage_limits.user_id
+  AND us.status = 'active';
+
+  -- Paid users still have limits to prevent abuse
+  IF user_tier IN ('Pro', 'Premium') THEN
+    -- Check for abnormal usage
+    SELECT COUNT(*) INTO current_usage
+    FROM usage_logs
+    WHERE usage_logs.user_id = check_usage_limits.user_id
+    AND created_at > now() - interval '1 hour';
+
+    IF current_usage > 1000 THEN
+      -- Log potential abuse
+      PERFORM log_audit_event(
+        user_id,
+        'potential_abuse_detected',
+        jsonb_build_object(
+          'action', action,
+          'usage_count', current_usage,
+          'window', '1 hour'
+        ),
+        ip_address
+      );
+      RETURN false;
+    END IF;
+  END IF;
+
+  CASE action
+    WHEN 'create_qr_code' THEN
+      SELECT COUNT(*) INTO current_usage
+      FROM qr_codes
+      WHERE qr_codes.user_id = check_usage_limits.user_id
+      AND NOT qr_codes.is_ad_space_default;
+
+      is_allowed := user_tier IN ('Pro', 'Premium') OR current_usage < 1;
+
+    WHEN 'send_sms' THEN
+      SELECT sms_count INTO current_usage
+      FROM user_usage_limits
+      WHERE user_usage_limits.user_id = check_usage_limits.user_id;
+
+      is_allowed := COALESCE(current_usage, 0) < 100;
+
+    ELSE
+      is_allowed := false;
+  END CASE;
+
+  -- Log the usage attempt
+  INSERT INTO usage_logs (user_id, action)
+  VALUES (check_usage_limits.user_id, action);
+
+  -- Update usage count if allowed
+  IF is_allowed THEN
+    UPDATE user_usage_limits
+    SET
+      qr_codes_count = CASE
+        WHEN action = 'create_qr_code'
+        THEN qr_codes_count + 1
+        ELSE qr_codes_count
+      END,
+      sms_count = CASE
+        WHEN action = 'send_sms'
+        THEN sms_count + 1
+        ELSE sms_count
+      END,
+      updated_at = now()
+    WHERE user_usage_limits.user_id = check_usage_limits.user_id;
+
+    -- Log successful action
+    PERFORM log_audit_event(
+      user_id,
+      action || '_success',
+      jsonb_build_object(
+        'current_usage', COALESCE(current_usage, 0) + 1
+      ),
+      ip_address
+    );
+  ELSE
+    -- Log failed attempt
+    PERFORM log_audit_event(
+      user_id,
+      action || '_limit_exceeded',
+      jsonb_build_object(
+        'current_usage', current_usage
+      ),
+      ip_address
+    );
+  END IF;
+
+  RETURN is_allowed;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION scan_qr_code(text, text, text, jsonb) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION ensure_ad_space_qr_code(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION ensure_ad_space_qr_code(uuid) TO authenticated;
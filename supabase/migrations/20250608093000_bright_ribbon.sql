@@ -0,0 +1,74 @@
+/*
+  # Branded QR codes
+
+  1. Changes
+    - `profiles.logo_url`: the business's uploaded logo, shown in the center
+      of branded QR codes
+    - `qr_codes.design` holds the QR code style (colors, module style, logo,
+      caption), so downloads match what the dashboard shows
+
+  2. Functions
+    - `has_custom_branding(user_id)`: whether the user's plan includes custom
+      branding (Pro)
+    - `check_qr_code_design`: trigger that only lets Pro users save a design,
+      resetting it to the default is always allowed
+
+  3. Security
+    - Users can already update their own profile and QR codes, the trigger
+      checks the plan
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS logo_url text;
+
+UPDATE qr_codes
+SET design = '{}'::jsonb
+WHERE design IS NULL;
+
+ALTER TABLE qr_codes
+  ALTER COLUMN design SET DEFAULT '{}'::jsonb,
+  ALTER COLUMN design SET NOT NULL;
+
+CREATE OR REPLACE FUNCTION has_custom_branding(p_user_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM user_subscriptions us
+    JOIN subscription_tiers st ON st.id = us.tier_id
+    WHERE us.user_id = p_user_id
+    AND us.status = 'active'
+    AND st.name IN ('Pro', 'Premium')
+  );
+END;
+$$;
+
+-- Custom branding is a Pro feature
+CREATE OR REPLACE FUNCTION check_qr_code_design()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.design <> '{}'::jsonb
+    AND (TG_OP = 'INSERT' OR NEW.design IS DISTINCT FROM OLD.design)
+    AND NOT has_custom_branding(NEW.user_id)
+  THEN
+    RAISE EXCEPTION 'Custom branding is available on the Pro plan';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_qr_code_design
+  BEFORE INSERT OR UPDATE OF design ON qr_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION check_qr_code_design();
+
+REVOKE EXECUTE ON FUNCTION has_custom_branding(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION has_custom_branding(uuid) TO authenticated;
@@ -0,0 +1,284 @@
+/*
+  # Bulk QR code batches
+
+  1. New Tables
+    - `qr_code_batches`: a set of codes created together for one campaign,
+      e.g. one code per flyer, table tent or store location, all opening the
+      same ad space
+
+  2. Changes
+    - `qr_codes.batch_id`: the batch a code belongs to, deleting a batch
+      deletes its codes
+    - `qr_codes.batch_sequence` and `qr_codes.tracking_id`: position in the
+      batch and a printable ID built from it (e.g. SPRING-007), so scans can
+      be attributed to one flyer or location
+
+  3. Functions
+    - `create_qr_code_batch(name, ad_space_id, labels, prefix, design)`:
+      creates one code per label within the plan's QR code limit
+    - `get_qr_batch_performance(days)`: scans per batch for the current and
+      previous period, with the code that was scanned most
+
+  4. Security
+    - Enable RLS on `qr_code_batches`, users can view, rename and delete their
+      own batches. Batches are only created through `create_qr_code_batch`
+*/
+
+CREATE TABLE IF NOT EXISTS qr_code_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  ad_space_id uuid REFERENCES ad_spaces(id) ON DELETE SET NULL,
+  tracking_prefix text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS qr_code_batches_user_idx
+  ON qr_code_batches(user_id, created_at DESC);
+
+ALTER TABLE qr_codes
+  ADD COLUMN IF NOT EXISTS batch_id uuid REFERENCES qr_code_batches(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS batch_sequence integer,
+  ADD COLUMN IF NOT EXISTS tracking_id text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS qr_codes_batch_sequence_idx
+  ON qr_codes(batch_id, batch_sequence)
+  WHERE batch_id IS NOT NULL;
+
+ALTER TABLE qr_code_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own QR code batches"
+  ON qr_code_batches FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own QR code batches"
+  ON qr_code_batches FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own QR code batches"
+  ON qr_code_batches FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_qr_code_batches_updated_at
+  BEFORE UPDATE ON qr_code_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Batch codes keep their place in the batch
+CREATE OR REPLACE FUNCTION protect_qr_code_batch()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.batch_id := OLD.batch_id;
+  NEW.batch_sequence := OLD.batch_sequence;
+  NEW.tracking_id := OLD.tracking_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_qr_code_batch
+  BEFORE UPDATE ON qr_codes
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_qr_code_batch();
+
+-- Create one code per label, all opening the same ad space
+CREATE OR REPLACE FUNCTION create_qr_code_batch(
+  p_name text,
+  p_ad_space_id uuid,
+  p_labels text[],
+  p_tracking_prefix text DEFAULT NULL,
+  p_design jsonb DEFAULT '{}'::jsonb
+)
+RETURNS qr_code_batches
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  label_count integer;
+  user_tier text;
+  existing_count integer;
+  prefix text;
+  digits integer;
+  new_batch qr_code_batches;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Batch name is required';
+  END IF;
+
+  label_count := COALESCE(array_length(p_labels, 1), 0);
+
+  IF label_count = 0 THEN
+    RAISE EXCEPTION 'Add at least one label';
+  END IF;
+
+  IF label_count > 1000 THEN
+    RAISE EXCEPTION 'A batch can have at most 1000 codes';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(p_labels) AS label WHERE COALESCE(trim(label), '') = '') THEN
+    RAISE EXCEPTION 'Labels cannot be empty';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM ad_spaces
+    WHERE id = p_ad_space_id
+    AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Ad space not found';
+  END IF;
+
+  IF NOT check_usage_limits(auth.uid(), 'create_qr_code') THEN
+    RAISE EXCEPTION 'QR code limit reached for your plan';
+  END IF;
+
+  -- check_usage_limits allows one more code, the whole batch has to fit
+  SELECT st.name INTO user_tier
+  FROM subscription_tiers st
+  JOIN user_subscriptions us ON us.tier_id = st.id
+  WHERE us.user_id = auth.uid()
+  AND us.status = 'active';
+
+  IF user_tier IS NULL OR user_tier NOT IN ('Pro', 'Premium') THEN
+    SELECT COUNT(*) INTO existing_count
+    FROM qr_codes
+    WHERE user_id = auth.uid()
+    AND NOT is_ad_space_default;
+
+    IF existing_count + label_count > 1 THEN
+      RAISE EXCEPTION 'QR code limit reached for your plan';
+    END IF;
+  END IF;
+
+  prefix := left(regexp_replace(upper(COALESCE(NULLIF(trim(p_tracking_prefix), ''), p_name)), '[^A-Z0-9]+', '', 'g'), 12);
+  IF prefix = '' THEN
+    prefix := 'QR';
+  END IF;
+  digits := greatest(3, length(label_count::text));
+
+  INSERT INTO qr_code_batches (user_id, name, ad_space_id, tracking_prefix)
+  VALUES (auth.uid(), trim(p_name), p_ad_space_id, prefix)
+  RETURNING * INTO new_batch;
+
+  INSERT INTO qr_codes (user_id, name, ad_space_id, design, batch_id, batch_sequence, tracking_id)
+  SELECT
+    auth.uid(),
+    trim(label),
+    p_ad_space_id,
+    COALESCE(p_design, '{}'::jsonb),
+    new_batch.id,
+    seq,
+    prefix || '-' || lpad(seq::text, digits, '0')
+  FROM unnest(p_labels) WITH ORDINALITY AS labels(label, seq);
+
+  RETURN new_batch;
+END;
+$$;
+
+-- Scans per batch for the current and the previous period
+CREATE OR REPLACE FUNCTION get_qr_batch_performance(p_days integer DEFAULT 30)
+RETURNS TABLE (
+  batch_id uuid,
+  name text,
+  ad_space_id uuid,
+  code_count bigint,
+  total_scans bigint,
+  scans bigint,
+  prev_scans bigint,
+  unique_scanners bigint,
+  top_tracking_id text,
+  top_label text,
+  top_scans bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  period_start timestamptz;
+  prev_start timestamptz;
+BEGIN
+  IF p_days IS NULL OR p_days < 1 OR p_days > 366 THEN
+    RAISE EXCEPTION 'Days must be between 1 and 366';
+  END IF;
+
+  period_start := now() - make_interval(days => p_days);
+  prev_start := now() - make_interval(days => p_days * 2);
+
+  RETURN QUERY
+  WITH batch_scans AS (
+    SELECT
+      q.batch_id,
+      q.id AS qr_code_id,
+      s.scanned_at >= period_start AS is_current,
+      scan_visitor_key(s.ip_address, s.user_agent) AS visitor
+    FROM qr_code_scans s
+    JOIN qr_codes q ON q.id = s.qr_code_id
+    WHERE q.user_id = auth.uid()
+    AND q.batch_id IS NOT NULL
+    AND s.scanned_at >= prev_start
+  ),
+  batch_totals AS (
+    SELECT
+      bs.batch_id,
+      COUNT(*) FILTER (WHERE bs.is_current) AS scans,
+      COUNT(*) FILTER (WHERE NOT bs.is_current) AS prev_scans,
+      COUNT(DISTINCT bs.visitor) FILTER (WHERE bs.is_current) AS unique_scanners
+    FROM batch_scans bs
+    GROUP BY bs.batch_id
+  ),
+  code_scans AS (
+    SELECT DISTINCT ON (bs.batch_id)
+      bs.batch_id,
+      bs.qr_code_id,
+      COUNT(*) AS scans
+    FROM batch_scans bs
+    WHERE bs.is_current
+    GROUP BY bs.batch_id, bs.qr_code_id
+    ORDER BY bs.batch_id, COUNT(*) DESC
+  ),
+  code_counts AS (
+    SELECT q.batch_id, COUNT(*) AS code_count, COALESCE(SUM(q.scans), 0)::bigint AS total_scans
+    FROM qr_codes q
+    WHERE q.user_id = auth.uid()
+    AND q.batch_id IS NOT NULL
+    GROUP BY q.batch_id
+  )
+  SELECT
+    b.id,
+    b.name,
+    b.ad_space_id,
+    COALESCE(cc.code_count, 0),
+    COALESCE(cc.total_scans, 0),
+    COALESCE(bt.scans, 0),
+    COALESCE(bt.prev_scans, 0),
+    COALESCE(bt.unique_scanners, 0),
+    top.tracking_id,
+    top.name,
+    COALESCE(cs.scans, 0)
+  FROM qr_code_batches b
+  LEFT JOIN code_counts cc ON cc.batch_id = b.id
+  LEFT JOIN batch_totals bt ON bt.batch_id = b.id
+  LEFT JOIN code_scans cs ON cs.batch_id = b.id
+  LEFT JOIN qr_codes top ON top.id = cs.qr_code_id
+  WHERE b.user_id = auth.uid()
+  ORDER BY COALESCE(bt.scans, 0) DESC, b.created_at DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_qr_code_batch(text, uuid, text[], text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_qr_code_batch(text, uuid, text[], text, jsonb) TO authenticated;
+REVOKE EXECUTE ON FUNCTION get_qr_batch_performance(integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_qr_batch_performance(integer) TO authenticated;
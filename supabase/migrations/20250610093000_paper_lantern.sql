@@ -0,0 +1,14 @@
+/*
+  # Print layouts
+
+  1. Changes
+    - `ad_designs.print_layout`: the saved flyer, postcard or table tent layout
+      for an ad (page template, where the image, headline and QR code sit),
+      so it can be printed again without redoing it
+
+  2. Security
+    - Users can already update their own ad designs
+*/
+
+ALTER TABLE ad_designs
+  ADD COLUMN IF NOT EXISTS print_layout jsonb;
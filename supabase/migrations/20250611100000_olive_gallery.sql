@@ -0,0 +1,166 @@
+/*
+  # Ad templates
+
+  1. New Tables
+    - `ad_templates`: ready-made ads (sale announcement, event, menu special,
+      coupon) with placeholder artwork and text layers, copied into a new ad
+      design when picked in the Ad Builder. `is_premium` templates are part of
+      the Pro plan
+
+  2. Changes
+    - `ad_designs.template`: the template an ad was started from
+    - Tier feature lists mention the template sets
+
+  3. Functions
+    - `check_ad_design_template`: trigger that only lets Pro users start an
+      ad from a premium template. Ads keep their template after a downgrade
+
+  4. Security
+    - Enable RLS on `ad_templates`, anyone can view the catalog
+*/
+
+CREATE TABLE IF NOT EXISTS ad_templates (
+  id text PRIMARY KEY,
+  name text NOT NULL,
+  category text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  is_premium boolean NOT NULL DEFAULT false,
+  background text NOT NULL DEFAULT '#FFFFFF',
+  image_url text,
+  content jsonb NOT NULL DEFAULT '{}'::jsonb,
+  sort_order integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE ad_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view ad templates"
+  ON ad_templates FOR SELECT
+  TO public
+  USING (true);
+
+CREATE TRIGGER update_ad_templates_updated_at
+  BEFORE UPDATE ON ad_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Layer positions are fractions of the artwork, font sizes percent of its width
+INSERT INTO ad_templates (id, name, category, description, is_premium, background, image_url, content, sort_order) VALUES
+  ('sale-announcement', 'Sale Announcement', 'Sale', 'Announce a storewide sale or discount', false, '#B91C1C', '/templates/sale.svg', '{
+    "layers": [
+      {"text": "BIG SALE", "x": 0.08, "y": 0.1, "width": 0.84, "fontSize": 15, "color": "#FFFFFF", "align": "center", "bold": true},
+      {"text": "Up to 50% off everything", "x": 0.1, "y": 0.3, "width": 0.8, "fontSize": 6, "color": "#FEF3C7", "align": "center", "bold": false},
+      {"text": "This weekend only", "x": 0.1, "y": 0.42, "width": 0.8, "fontSize": 4.5, "color": "#FFFFFF", "align": "center", "bold": false}
+    ]
+  }', 10),
+  ('event', 'Event', 'Event', 'Invite customers to an event, with date and place', false, '#312E81', '/templates/event.svg', '{
+    "layers": [
+      {"text": "Live Music Night", "x": 0.08, "y": 0.14, "width": 0.84, "fontSize": 10, "color": "#FFFFFF", "align": "center", "bold": true},
+      {"text": "Friday, 8 PM", "x": 0.1, "y": 0.4, "width": 0.8, "fontSize": 6, "color": "#DDD6FE", "align": "center", "bold": false},
+      {"text": "Free entry - bring a friend", "x": 0.1, "y": 0.5, "width": 0.8, "fontSize": 4.5, "color": "#FFFFFF", "align": "center", "bold": false}
+    ]
+  }', 20),
+  ('menu-special', 'Menu Special', 'Menu', 'Feature a dish or a daily special with its price', false, '#1C1917', '/templates/menu.svg', '{
+    "layers": [
+      {"text": "Today''s Special", "x": 0.08, "y": 0.08, "width": 0.84, "fontSize": 10, "color": "#FAFAF9", "align": "center", "bold": true},
+      {"text": "Garden pasta with fresh basil", "x": 0.1, "y": 0.24, "width": 0.8, "fontSize": 5.5, "color": "#E7E5E4", "align": "center", "bold": false},
+      {"text": "$12.99", "x": 0.3, "y": 0.34, "width": 0.4, "fontSize": 8, "color": "#FACC15", "align": "center", "bold": true}
+    ]
+  }', 30),
+  ('coupon', 'Coupon', 'Coupon', 'A discount code customers show at the counter', false, '#0F766E', '/templates/coupon.svg', '{
+    "layers": [
+      {"text": "Show this coupon", "x": 0.1, "y": 0.08, "width": 0.8, "fontSize": 6, "color": "#CCFBF1", "align": "center", "bold": false},
+      {"text": "20% OFF", "x": 0.15, "y": 0.36, "width": 0.7, "fontSize": 16, "color": "#FFFFFF", "align": "center", "bold": true},
+      {"text": "Code: SAVE20 - valid this month", "x": 0.15, "y": 0.6, "width": 0.7, "fontSize": 4.5, "color": "#FFFFFF", "align": "center", "bold": false}
+    ]
+  }', 40),
+  ('flash-sale', 'Flash Sale', 'Sale', 'A countdown-style sale for a few hours only', true, '#111827', '/templates/flash-sale.svg', '{
+    "layers": [
+      {"text": "FLASH SALE", "x": 0.06, "y": 0.08, "width": 0.88, "fontSize": 14, "color": "#FDE047", "align": "center", "bold": true},
+      {"text": "Today only, 2 PM - 6 PM", "x": 0.1, "y": 0.26, "width": 0.8, "fontSize": 5.5, "color": "#FFFFFF", "align": "center", "bold": false},
+      {"text": "40% OFF", "x": 0.1, "y": 0.88, "width": 0.8, "fontSize": 7, "color": "#F97316", "align": "center", "bold": true}
+    ]
+  }', 50),
+  ('grand-opening', 'Grand Opening', 'Event', 'Celebrate a new location or a reopening', true, '#F59E0B', '/templates/grand-opening.svg', '{
+    "layers": [
+      {"text": "Grand Opening", "x": 0.06, "y": 0.2, "width": 0.88, "fontSize": 12, "color": "#7C2D12", "align": "center", "bold": true},
+      {"text": "Join us Saturday at 10 AM", "x": 0.1, "y": 0.42, "width": 0.8, "fontSize": 5.5, "color": "#7C2D12", "align": "center", "bold": false},
+      {"text": "Free treats for the first 50 guests", "x": 0.08, "y": 0.75, "width": 0.84, "fontSize": 4.2, "color": "#FFFFFF", "align": "center", "bold": true}
+    ]
+  }', 60),
+  ('chefs-special', 'Chef''s Special', 'Menu', 'An elegant menu card for a signature dish', true, '#FAFAF9', '/templates/chefs-special.svg', '{
+    "layers": [
+      {"text": "Chef''s Special", "x": 0.1, "y": 0.1, "width": 0.8, "fontSize": 9, "color": "#44403C", "align": "center", "bold": true},
+      {"text": "Slow-roasted short rib, root vegetables, red wine jus", "x": 0.14, "y": 0.25, "width": 0.72, "fontSize": 4.5, "color": "#57534E", "align": "center", "bold": false},
+      {"text": "$24", "x": 0.35, "y": 0.4, "width": 0.3, "fontSize": 7, "color": "#B45309", "align": "center", "bold": true}
+    ]
+  }', 70),
+  ('loyalty-card', 'Loyalty Card', 'Coupon', 'A stamp card that rewards repeat visits', true, '#DB2777', '/templates/loyalty.svg', '{
+    "layers": [
+      {"text": "Buy 7, get 1 free", "x": 0.08, "y": 0.12, "width": 0.84, "fontSize": 10, "color": "#FFFFFF", "align": "center", "bold": true},
+      {"text": "Scan on every visit to collect a stamp", "x": 0.1, "y": 0.34, "width": 0.8, "fontSize": 4.5, "color": "#FCE7F3", "align": "center", "bold": false}
+    ]
+  }', 80)
+ON CONFLICT (id) DO UPDATE SET
+  name = EXCLUDED.name,
+  category = EXCLUDED.category,
+  description = EXCLUDED.description,
+  is_premium = EXCLUDED.is_premium,
+  background = EXCLUDED.background,
+  image_url = EXCLUDED.image_url,
+  content = EXCLUDED.content,
+  sort_order = EXCLUDED.sort_order;
+
+-- Premium templates are a Pro feature, checked when an ad is started from one
+CREATE OR REPLACE FUNCTION check_ad_design_template()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  template_is_premium boolean;
+BEGIN
+  IF NEW.template IS NULL
+    OR (TG_OP = 'UPDATE' AND NEW.template IS NOT DISTINCT FROM OLD.template)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT is_premium INTO template_is_premium
+  FROM ad_templates
+  WHERE id = NEW.template;
+
+  IF template_is_premium IS NULL THEN
+    RAISE EXCEPTION 'Template not found';
+  END IF;
+
+  IF template_is_premium AND NOT EXISTS (
+    SELECT 1
+    FROM user_subscriptions us
+    JOIN subscription_tiers st ON st.id = us.tier_id
+    WHERE us.user_id = NEW.user_id
+    AND us.status = 'active'
+    AND st.name IN ('Pro', 'Premium')
+  ) THEN
+    RAISE EXCEPTION 'Premium templates are available on the Pro plan';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_ad_design_template
+  BEFORE INSERT OR UPDATE OF template ON ad_designs
+  FOR EACH ROW
+  EXECUTE FUNCTION check_ad_design_template();
+
+UPDATE subscription_tiers
+SET features = features || '["Basic ad templates"]'::jsonb
+WHERE name = 'Free'
+AND NOT features @> '["Basic ad templates"]'::jsonb;
+
+UPDATE subscription_tiers
+SET features = features || '["Premium ad templates"]'::jsonb
+WHERE name IN ('Pro', 'Premium')
+AND NOT features @> '["Premium ad templates"]'::jsonb;
@@ -0,0 +1,160 @@
+/*
+  # AI copywriting limits
+
+  1. Changes
+    - `check_usage_limits`: new `api_call` action, used by the copywriting
+      assistant (POST /api/ai/copy). Free plans get 25 requests a month, Pro
+      and Premium 1000. Allowed calls increment
+      `user_usage_limits.api_calls_count`, which `reset_monthly_limits` clears
+    - Plan feature lists mention the AI copywriting assistant
+
+  2. Security
+    - No changes to grants or policies
+*/
+
+CREATE OR REPLACE FUNCTION check_usage_limits(
+  user_id uuid,
+  action text,
+  ip_address text DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  user_tier text;
+  current_usage integer;
+  is_allowed boolean;
+BEGIN
+  -- Check IP rate limit
+  IF ip_address IS NOT NULL AND NOT check_ip_rate_limit(ip_address) THEN
+    RETURN false;
+  END IF;
+
+  -- Check for suspicious activity
+  IF check_suspicious_activity(user_id, action) THEN
+    RETURN false;
+  END IF;
+
+  -- Get user's subscription tier
+  SELECT name INTO user_tier
+  FROM subscription_tiers st
+  JOIN user_subscriptions us ON us.tier_id = st.id
+  WHERE us.user_id = check_usage_limits.user_id
+  AND us.status = 'active';
+
+  -- Paid users still have limits to prevent abuse
+  IF user_tier IN ('Pro', 'Premium') THEN
+    -- Check for abnormal usage
+    SELECT COUNT(*) INTO current_usage
+    FROM usage_logs
+    WHERE usage_logs.user_id = check_usage_limits.user_id
+    AND created_at > now() - interval '1 hour';
+
+    IF current_usage > 1000 THEN
+      -- Log potential abuse
+      PERFORM log_audit_event(
+        user_id,
+        'potential_abuse_detected',
+        jsonb_build_object(
+          'action', action,
+          'usage_count', current_usage,
+          'window', '1 hour'
+        ),
+        ip_address
+      );
+      RETURN false;
+    END IF;
+  END IF;
+
+  CASE action
+    WHEN 'create_qr_code' THEN
+      SELECT COUNT(*) INTO current_usage
+      FROM qr_codes
+      WHERE qr_codes.user_id = check_usage_limits.user_id
+      AND NOT qr_codes.is_ad_space_default;
+
+      is_allowed := user_tier IN ('Pro', 'Premium') OR current_usage < 1;
+
+    WHEN 'send_sms' THEN
+      SELECT sms_count INTO current_usage
+      FROM user_usage_limits
+      WHERE user_usage_limits.user_id = check_usage_limits.user_id;
+
+      is_allowed := COALESCE(current_usage, 0) < 100;
+
+    WHEN 'api_call' THEN
+      SELECT api_calls_count INTO current_usage
+      FROM user_usage_limits
+      WHERE user_usage_limits.user_id = check_usage_limits.user_id;
+
+      is_allowed := COALESCE(current_usage, 0) < CASE
+        WHEN user_tier IN ('Pro', 'Premium') THEN 1000
+        ELSE 25
+      END;
+
+    ELSE
+      is_allowed := false;
+  END CASE;
+
+  -- Log the usage attempt
+  INSERT INTO usage_logs (user_id, action)
+  VALUES (check_usage_limits.user_id, action);
+
+  -- Update usage count if allowed
+  IF is_allowed THEN
+    UPDATE user_usage_limits
+    SET
+      qr_codes_count = CASE
+        WHEN action = 'create_qr_code'
+        THEN qr_codes_count + 1
+        ELSE qr_codes_count
+      END,
+      sms_count = CASE
+        WHEN action = 'send_sms'
+        THEN sms_count + 1
+        ELSE sms_count
+      END,
+      api_calls_count = CASE
+        WHEN action = 'api_call'
+        THEN api_calls_count + 1
+        ELSE api_calls_count
+      END,
+      updated_at = now()
+    WHERE user_usage_limits.user_id = check_usage_limits.user_id;
+
+    -- Log successful action
+    PERFORM log_audit_event(
+      user_id,
+      action || '_success',
+      jsonb_build_object(
+        'current_usage', COALESCE(current_usage, 0) + 1
+      ),
+      ip_address
+    );
+  ELSE
+    -- Log failed attempt
+    PERFORM log_audit_event(
+      user_id,
+      action || '_limit_exceeded',
+      jsonb_build_object(
+        'current_usage', current_usage
+      ),
+      ip_address
+    );
+  END IF;
+
+  RETURN is_allowed;
+END;
+$$;
+
+UPDATE subscription_tiers
+SET features = features || '["AI copywriting (25 requests/month)"]'::jsonb
+WHERE name = 'Free'
+AND NOT features @> '["AI copywriting (25 requests/month)"]'::jsonb;
+
+UPDATE subscription_tiers
+SET features = features || '["AI copywriting (1,000 requests/month)"]'::jsonb
+WHERE name IN ('Pro', 'Premium')
+AND NOT features @> '["AI copywriting (1,000 requests/month)"]'::jsonb;
@@ -0,0 +1,49 @@
+/*
+  # Subscription billing
+
+  1. Changes
+    - `user_subscriptions.provider`: billing provider that manages the
+      subscription (`stripe` or `mock`)
+    - `user_subscriptions.provider_customer_id`, `provider_subscription_id`:
+      the provider's IDs, the subscription ID is only set while the plan is paid
+    - `user_subscriptions.cancel_at_period_end`: the plan was cancelled and
+      moves to Free when `current_period_end` is reached
+    - `user_subscriptions.status` can be `past_due` while the provider retries
+      a failed payment
+
+  2. New Tables
+    - `billing_events`: webhook events that were processed, so repeated
+      deliveries are skipped
+
+  3. Security
+    - Enable RLS on `billing_events` without policies, only the Express server
+      (service role) reads and writes it
+    - Subscriptions stay read-only for users, the server changes them from
+      checkout and webhook events
+*/
+
+ALTER TABLE user_subscriptions
+  ADD COLUMN IF NOT EXISTS provider text,
+  ADD COLUMN IF NOT EXISTS provider_customer_id text,
+  ADD COLUMN IF NOT EXISTS provider_subscription_id text,
+  ADD COLUMN IF NOT EXISTS cancel_at_period_end boolean NOT NULL DEFAULT false;
+
+CREATE UNIQUE INDEX IF NOT EXISTS user_subscriptions_provider_subscription_id_key
+  ON user_subscriptions(provider_subscription_id)
+  WHERE provider_subscription_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS user_subscriptions_provider_customer_id_idx
+  ON user_subscriptions(provider_customer_id);
+
+ALTER TABLE user_subscriptions DROP CONSTRAINT IF EXISTS user_subscriptions_status_check;
+ALTER TABLE user_subscriptions ADD CONSTRAINT user_subscriptions_status_check
+  CHECK (status IN ('active', 'past_due', 'cancelled', 'expired'));
+
+CREATE TABLE IF NOT EXISTS billing_events (
+  id text PRIMARY KEY,
+  type text NOT NULL,
+  user_id uuid REFERENCES auth.users ON DELETE SET NULL,
+  processed_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE billing_events ENABLE ROW LEVEL SECURITY;
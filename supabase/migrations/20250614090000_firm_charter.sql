@@ -0,0 +1,497 @@
+/*
+  # Plan entitlements
+
+  1. Changes
+    - `subscription_tiers.limits`: how many of each resource a plan allows,
+      `null` means unlimited and a missing key means none:
+        ad_spaces, ad_designs, qr_codes (Ad Builder codes are not counted),
+        sms_per_month, api_calls_per_month
+    - `subscription_tiers.flags`: features that are on or off, `sms`,
+      `custom_branding` and `premium_templates`
+    - Plans are no longer recognised by name, everything below reads the
+      user's tier row. A subscription that is `active` or `past_due` gets its
+      tier, anyone else gets Free
+
+  2. Functions
+    - `get_user_tier(user_id)`, `entitlement_limit(user_id, key)` and
+      `has_entitlement(user_id, flag)`: the plan rules for a user
+    - `get_entitlements()`: tier, limits, flags and current usage of the
+      signed in user, read by the dashboard
+    - `enforce_entitlement_limit`: trigger that stops inserts into
+      `ad_spaces` and `ad_designs` past the plan's limit
+    - `check_usage_limits`, `create_qr_code_batch`, `has_custom_branding` and
+      `check_ad_design_template` use the entitlements. SMS needs the `sms` flag
+
+  3. Security
+    - Users can only read `user_subscriptions` and `user_usage_limits`, any
+      other policy on them is dropped. The server changes them
+*/
+
+ALTER TABLE subscription_tiers
+  ADD COLUMN IF NOT EXISTS limits jsonb NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS flags jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+UPDATE subscription_tiers
+SET
+  limits = '{
+    "ad_spaces": 1,
+    "ad_designs": 1,
+    "qr_codes": 1,
+    "sms_per_month": 0,
+    "api_calls_per_month": 25
+  }'::jsonb,
+  flags = '[]'::jsonb
+WHERE name = 'Free';
+
+UPDATE subscription_tiers
+SET
+  limits = '{
+    "ad_spaces": null,
+    "ad_designs": null,
+    "qr_codes": null,
+    "sms_per_month": 1000,
+    "api_calls_per_month": 1000
+  }'::jsonb,
+  flags = '["sms", "custom_branding", "premium_templates"]'::jsonb
+WHERE name IN ('Pro', 'Premium');
+
+-- Subscriptions and usage counters are written by the server only
+DO $$
+DECLARE
+  policy record;
+BEGIN
+  FOR policy IN
+    SELECT policyname, tablename
+    FROM pg_policies
+    WHERE schemaname = 'public'
+    AND tablename IN ('user_subscriptions', 'user_usage_limits')
+    AND cmd <> 'SELECT'
+  LOOP
+    EXECUTE format('DROP POLICY %I ON %I', policy.policyname, policy.tablename);
+  END LOOP;
+END;
+$$;
+
+-- The tier whose entitlements apply to a user
+CREATE OR REPLACE FUNCTION get_user_tier(p_user_id uuid)
+RETURNS subscription_tiers
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT st.*
+  FROM subscription_tiers st
+  WHERE st.id = COALESCE(
+    (
+      SELECT us.tier_id
+      FROM user_subscriptions us
+      WHERE us.user_id = p_user_id
+      AND us.status IN ('active', 'past_due')
+    ),
+    (
+      SELECT id
+      FROM subscription_tiers
+      WHERE name = 'Free'
+      ORDER BY created_at
+      LIMIT 1
+    )
+  );
+$$;
+
+-- A limit from a tier's limits, null for unlimited and 0 when the key is missing
+CREATE OR REPLACE FUNCTION tier_limit(p_limits jsonb, p_key text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN NOT COALESCE(p_limits ? p_key, false) THEN 0
+    ELSE (p_limits ->> p_key)::integer
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION entitlement_limit(p_user_id uuid, p_key text)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT tier_limit(t.limits, p_key)
+  FROM get_user_tier(p_user_id) t;
+$$;
+
+CREATE OR REPLACE FUNCTION has_entitlement(p_user_id uuid, p_flag text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT t.flags ? p_flag FROM get_user_tier(p_user_id) t), false);
+$$;
+
+-- Everything the dashboard needs to show and gate features
+CREATE OR REPLACE FUNCTION get_entitlements()
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tier subscription_tiers;
+  subscription user_subscriptions;
+  usage_limits user_usage_limits;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO tier FROM get_user_tier(auth.uid());
+  SELECT * INTO subscription FROM user_subscriptions WHERE user_id = auth.uid();
+  SELECT * INTO usage_limits FROM user_usage_limits WHERE user_id = auth.uid();
+
+  RETURN jsonb_build_object(
+    'tier', tier.name,
+    'features', tier.features,
+    'limits', tier.limits,
+    'flags', tier.flags,
+    'status', subscription.status,
+    'current_period_end', subscription.current_period_end,
+    'cancel_at_period_end', COALESCE(subscription.cancel_at_period_end, false),
+    'reset_date', usage_limits.reset_date,
+    'usage', jsonb_build_object(
+      'ad_spaces', (SELECT COUNT(*) FROM ad_spaces WHERE user_id = auth.uid()),
+      'ad_designs', (SELECT COUNT(*) FROM ad_designs WHERE user_id = auth.uid()),
+      'qr_codes', (
+        SELECT COUNT(*) FROM qr_codes
+        WHERE user_id = auth.uid()
+        AND NOT is_ad_space_default
+      ),
+      'sms_per_month', COALESCE(usage_limits.sms_count, 0),
+      'api_calls_per_month', COALESCE(usage_limits.api_calls_count, 0)
+    )
+  );
+END;
+$$;
+
+-- Inserts past the plan's limit, TG_ARGV: limit key, error message
+CREATE OR REPLACE FUNCTION enforce_entitlement_limit()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  max_count integer;
+  current_count integer;
+BEGIN
+  -- Two inserts at once must not both take the last slot
+  PERFORM pg_advisory_xact_lock(hashtext(TG_TABLE_NAME || ':' || NEW.user_id::text));
+
+  max_count := entitlement_limit(NEW.user_id, TG_ARGV[0]);
+  IF max_count IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  EXECUTE format('SELECT COUNT(*) FROM %I WHERE user_id = $1', TG_TABLE_NAME)
+  INTO current_count
+  USING NEW.user_id;
+
+  IF current_count >= max_count THEN
+    RAISE EXCEPTION '%', TG_ARGV[1];
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_ad_space_limit ON ad_spaces;
+CREATE TRIGGER enforce_ad_space_limit
+  BEFORE INSERT ON ad_spaces
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_entitlement_limit('ad_spaces', 'Ad space limit reached for your plan');
+
+DROP TRIGGER IF EXISTS enforce_ad_design_limit ON ad_designs;
+CREATE TRIGGER enforce_ad_design_limit
+  BEFORE INSERT ON ad_designs
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_entitlement_limit('ad_designs', 'Ad design limit reached for your plan');
+
+CREATE OR REPLACE FUNCTION has_custom_branding(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_entitlement(p_user_id, 'custom_branding');
+$$;
+
+CREATE OR REPLACE FUNCTION check_ad_design_template()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  template_is_premium boolean;
+BEGIN
+  IF NEW.template IS NULL
+    OR (TG_OP = 'UPDATE' AND NEW.template IS NOT DISTINCT FROM OLD.template)
+  THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT is_premium INTO template_is_premium
+  FROM ad_templates
+  WHERE id = NEW.template;
+
+  IF template_is_premium IS NULL THEN
+    RAISE EXCEPTION 'Template not found';
+  END IF;
+
+  IF template_is_premium AND NOT has_entitlement(NEW.user_id, 'premium_templates') THEN
+    RAISE EXCEPTION 'Premium templates are available on the Pro plan';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_usage_limits(
+  user_id uuid,
+  action text,
+  ip_address text DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tier subscription_tiers;
+  max_usage integer;
+  current_usage integer;
+  is_allowed boolean;
+BEGIN
+  -- Check IP rate limit
+  IF ip_address IS NOT NULL AND NOT check_ip_rate_limit(ip_address) THEN
+    RETURN false;
+  END IF;
+
+  -- Check for suspicious activity
+  IF check_suspicious_activity(user_id, action) THEN
+    RETURN false;
+  END IF;
+
+  SELECT * INTO tier FROM get_user_tier(check_usage_limits.user_id);
+
+  -- Paid users still have limits to prevent abuse
+  IF tier.price > 0 THEN
+    -- Check for abnormal usage
+    SELECT COUNT(*) INTO current_usage
+    FROM usage_logs
+    WHERE usage_logs.user_id = check_usage_limits.user_id
+    AND created_at > now() - interval '1 hour';
+
+    IF current_usage > 1000 THEN
+      -- Log potential abuse
+      PERFORM log_audit_event(
+        user_id,
+        'potential_abuse_detected',
+        jsonb_build_object(
+          'action', action,
+          'usage_count', current_usage,
+          'window', '1 hour'
+        ),
+        ip_address
+      );
+      RETURN false;
+    END IF;
+  END IF;
+
+  CASE action
+    WHEN 'create_qr_code' THEN
+      SELECT COUNT(*) INTO current_usage
+      FROM qr_codes
+      WHERE qr_codes.user_id = check_usage_limits.user_id
+      AND NOT qr_codes.is_ad_space_default;
+
+      max_usage := tier_limit(tier.limits, 'qr_codes');
+      is_allowed := max_usage IS NULL OR current_usage < max_usage;
+
+    WHEN 'send_sms' THEN
+      SELECT sms_count INTO current_usage
+      FROM user_usage_limits
+      WHERE user_usage_limits.user_id = check_usage_limits.user_id;
+
+      max_usage := tier_limit(tier.limits, 'sms_per_month');
+      is_allowed := tier.flags ? 'sms'
+        AND (max_usage IS NULL OR COALESCE(current_usage, 0) < max_usage);
+
+    WHEN 'api_call' THEN
+      SELECT api_calls_count INTO current_usage
+      FROM user_usage_limits
+      WHERE user_usage_limits.user_id = check_usage_limits.user_id;
+
+      max_usage := tier_limit(tier.limits, 'api_calls_per_month');
+      is_allowed := max_usage IS NULL OR COALESCE(current_usage, 0) < max_usage;
+
+    ELSE
+      is_allowed := false;
+  END CASE;
+
+  -- Log the usage attempt
+  INSERT INTO usage_logs (user_id, action)
+  VALUES (check_usage_limits.user_id, action);
+
+  -- Update usage count if allowed
+  IF is_allowed THEN
+    UPDATE user_usage_limits
+    SET
+      qr_codes_count = CASE
+        WHEN action = 'create_qr_code'
+        THEN qr_codes_count + 1
+        ELSE qr_codes_count
+      END,
+      sms_count = CASE
+        WHEN action = 'send_sms'
+        THEN sms_count + 1
+        ELSE sms_count
+      END,
+      api_calls_count = CASE
+        WHEN action = 'api_call'
+        THEN api_calls_count + 1
+        ELSE api_calls_count
+      END,
+      updated_at = now()
+    WHERE user_usage_limits.user_id = check_usage_limits.user_id;
+
+    -- Log successful action
+    PERFORM log_audit_event(
+      user_id,
+      action || '_success',
+      jsonb_build_object(
+        'current_usage', COALESCE(current_usage, 0) + 1
+      ),
+      ip_address
+    );
+  ELSE
+    -- Log failed attempt
+    PERFORM log_audit_event(
+      user_id,
+      action || '_limit_exceeded',
+      jsonb_build_object(
+        'current_usage', current_usage
+      ),
+      ip_address
+    );
+  END IF;
+
+  RETURN is_allowed;
+END;
+$$;
+
+-- Create one code per label, all opening the same ad space
+CREATE OR REPLACE FUNCTION create_qr_code_batch(
+  p_name text,
+  p_ad_space_id uuid,
+  p_labels text[],
+  p_tracking_prefix text DEFAULT NULL,
+  p_design jsonb DEFAULT '{}'::jsonb
+)
+RETURNS qr_code_batches
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  label_count integer;
+  max_codes integer;
+  existing_count integer;
+  prefix text;
+  digits integer;
+  new_batch qr_code_batches;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Batch name is required';
+  END IF;
+
+  label_count := COALESCE(array_length(p_labels, 1), 0);
+
+  IF label_count = 0 THEN
+    RAISE EXCEPTION 'Add at least one label';
+  END IF;
+
+  IF label_count > 1000 THEN
+    RAISE EXCEPTION 'A batch can have at most 1000 codes';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(p_labels) AS label WHERE COALESCE(trim(label), '') = '') THEN
+    RAISE EXCEPTION 'Labels cannot be empty';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM ad_spaces
+    WHERE id = p_ad_space_id
+    AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Ad space not found';
+  END IF;
+
+  IF NOT check_usage_limits(auth.uid(), 'create_qr_code') THEN
+    RAISE EXCEPTION 'QR code limit reached for your plan';
+  END IF;
+
+  -- check_usage_limits allows one more code, the whole batch has to fit
+  max_codes := entitlement_limit(auth.uid(), 'qr_codes');
+
+  IF max_codes IS NOT NULL THEN
+    SELECT COUNT(*) INTO existing_count
+    FROM qr_codes
+    WHERE user_id = auth.uid()
+    AND NOT is_ad_space_default;
+
+    IF existing_count + label_count > max_codes THEN
+      RAISE EXCEPTION 'QR code limit reached for your plan';
+    END IF;
+  END IF;
+
+  prefix := left(regexp_replace(upper(COALESCE(NULLIF(trim(p_tracking_prefix), ''), p_name)), '[^A-Z0-9]+', '', 'g'), 12);
+  IF prefix = '' THEN
+    prefix := 'QR';
+  END IF;
+  digits := greatest(3, length(label_count::text));
+
+  INSERT INTO qr_code_batches (user_id, name, ad_space_id, tracking_prefix)
+  VALUES (auth.uid(), trim(p_name), p_ad_space_id, prefix)
+  RETURNING * INTO new_batch;
+
+  INSERT INTO qr_codes (user_id, name, ad_space_id, design, batch_id, batch_sequence, tracking_id)
+  SELECT
+    auth.uid(),
+    trim(label),
+    p_ad_space_id,
+    COALESCE(p_design, '{}'::jsonb),
+    new_batch.id,
+    seq,
+    prefix || '-' || lpad(seq::text, digits, '0')
+  FROM unnest(p_labels) WITH ORDINALITY AS labels(label, seq);
+
+  RETURN new_batch;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_user_tier(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_user_tier(uuid) TO authenticated;
+REVOKE EXECUTE ON FUNCTION entitlement_limit(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION entitlement_limit(uuid, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION has_entitlement(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION has_entitlement(uuid, text) TO authenticated;
+REVOKE EXECUTE ON FUNCTION get_entitlements() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_entitlements() TO authenticated;
@@ -0,0 +1,114 @@
+/*
+  # Account settings
+
+  1. Changes
+    - `profiles.brand_primary_color`, `profiles.brand_secondary_color`: the
+      business's colors (`#RRGGBB`), offered when designing ads and QR codes
+    - `verification_codes` keeps one code per user and type again, which
+      `create_verification_code` relies on
+    - `verify_code` only accepts a code for the phone or email it was sent to
+
+  2. New Functions
+    - `get_user_storage_objects(user_id)`: every uploaded file of a user, so
+      they can be removed when the account is deleted
+
+  3. Security
+    - Verification codes are created and checked by the Express server, which
+      sends the code by SMS. `create_verification_code` returns the code and
+      both functions take any user ID, so users cannot call them directly
+    - `get_user_storage_objects` is only available to the service role
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS brand_primary_color text,
+  ADD COLUMN IF NOT EXISTS brand_secondary_color text;
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_brand_primary_color_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_brand_primary_color_check
+  CHECK (brand_primary_color IS NULL OR brand_primary_color ~ '^#[0-9A-Fa-f]{6}$');
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_brand_secondary_color_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_brand_secondary_color_check
+  CHECK (brand_secondary_color IS NULL OR brand_secondary_color ~ '^#[0-9A-Fa-f]{6}$');
+
+-- Keep the newest code when a user has several of one type
+DELETE FROM verification_codes a
+USING verification_codes b
+WHERE a.user_id = b.user_id
+AND a.type = b.type
+AND (a.created_at, a.id) < (b.created_at, b.id);
+
+ALTER TABLE verification_codes DROP CONSTRAINT IF EXISTS verification_codes_user_id_type_key;
+ALTER TABLE verification_codes ADD CONSTRAINT verification_codes_user_id_type_key UNIQUE (user_id, type);
+
+CREATE OR REPLACE FUNCTION verify_code(
+  user_id uuid,
+  verification_code text,
+  type text,
+  identifier text
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  code_record record;
+BEGIN
+  IF NOT check_verification_attempts(identifier) THEN
+    RAISE EXCEPTION 'Too many verification attempts. Please try again later.';
+  END IF;
+
+  SELECT * INTO code_record
+  FROM verification_codes
+  WHERE verification_codes.user_id = verify_code.user_id
+    AND verification_codes.type = verify_code.type
+    AND verification_codes.identifier = verify_code.identifier
+    AND verification_codes.code = verify_code.verification_code
+    AND verification_codes.expires_at > now();
+
+  IF code_record IS NULL THEN
+    RETURN false;
+  END IF;
+
+  CASE type
+    WHEN 'email' THEN
+      INSERT INTO verified_emails (user_id, email)
+      VALUES (user_id, identifier)
+      ON CONFLICT (email) DO NOTHING;
+
+    WHEN 'phone' THEN
+      INSERT INTO verified_phones (user_id, phone)
+      VALUES (user_id, identifier)
+      ON CONFLICT (user_id, phone) DO UPDATE SET verified_at = now();
+  END CASE;
+
+  DELETE FROM verification_codes
+  WHERE verification_codes.id = code_record.id;
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_verification_code(uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION verify_code(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION check_verification_attempts(text, integer, interval) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_verification_code(uuid, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION verify_code(uuid, text, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION check_verification_attempts(text, integer, interval) TO service_role;
+
+CREATE OR REPLACE FUNCTION get_user_storage_objects(p_user_id uuid)
+RETURNS TABLE (bucket_id text, name text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, storage
+AS $$
+  SELECT o.bucket_id, o.name
+  FROM storage.objects o
+  WHERE o.owner = p_user_id
+  ORDER BY o.bucket_id, o.name;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_user_storage_objects(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_user_storage_objects(uuid) TO service_role;
@@ -0,0 +1,197 @@
+/*
+  # Deterministic ad resolution
+
+  1. Changes
+    - `ad_spaces.design_id`: the design an ad space shows. Set when a design is
+      first linked to the ad space, existing ad spaces get their most recent
+      linked design
+    - A design can only be linked to an ad space of the same user, and an ad
+      space can only show one of its own designs
+    - Viewers that are not signed in cannot change ad spaces or designs
+
+  2. New Functions
+    - `resolve_ad_space(ad_space_id)`: the ad space and its design for the
+      public ad page, as `{ status: 'ok', ad_space, design }`, or
+      `{ status: 'not_found' }` / `{ status: 'unpublished' }`. There is no
+      fallback to other designs
+
+  3. Security
+    - `resolve_ad_space` is available to everyone and only returns what the ad
+      page displays, never the owner
+*/
+
+ALTER TABLE ad_spaces
+  ADD COLUMN IF NOT EXISTS design_id uuid REFERENCES ad_designs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS ad_designs_ad_space_id_idx ON ad_designs(ad_space_id);
+
+-- Links to another user's ad space cannot be resolved safely, drop them
+UPDATE ad_designs d
+SET ad_space_id = NULL
+FROM ad_spaces s
+WHERE s.id = d.ad_space_id
+AND s.user_id IS DISTINCT FROM d.user_id;
+
+UPDATE ad_spaces s
+SET design_id = (
+  SELECT d.id
+  FROM ad_designs d
+  WHERE d.ad_space_id = s.id
+  ORDER BY d.created_at DESC, d.id DESC
+  LIMIT 1
+)
+WHERE s.design_id IS NULL;
+
+-- A design belongs to an ad space of the same user
+CREATE OR REPLACE FUNCTION check_ad_design_ad_space()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.ad_space_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM ad_spaces
+    WHERE id = NEW.ad_space_id
+    AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Ad space not found';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_ad_design_ad_space ON ad_designs;
+CREATE TRIGGER check_ad_design_ad_space
+  BEFORE INSERT OR UPDATE OF ad_space_id, user_id ON ad_designs
+  FOR EACH ROW
+  EXECUTE FUNCTION check_ad_design_ad_space();
+
+-- An ad space shows one of its own designs
+CREATE OR REPLACE FUNCTION check_ad_space_design()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.design_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM ad_designs
+    WHERE id = NEW.design_id
+    AND ad_space_id = NEW.id
+    AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'The design does not belong to this ad space';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_ad_space_design ON ad_spaces;
+CREATE TRIGGER check_ad_space_design
+  BEFORE INSERT OR UPDATE OF design_id, user_id ON ad_spaces
+  FOR EACH ROW
+  EXECUTE FUNCTION check_ad_space_design();
+
+-- The first design linked to an ad space is the one it shows
+CREATE OR REPLACE FUNCTION link_ad_space_design()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.ad_space_id IS NOT NULL THEN
+    UPDATE ad_spaces
+    SET design_id = NEW.id
+    WHERE id = NEW.ad_space_id
+    AND (design_id IS NULL OR design_id = OLD.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS link_ad_space_design ON ad_designs;
+CREATE TRIGGER link_ad_space_design
+  AFTER INSERT OR UPDATE OF ad_space_id ON ad_designs
+  FOR EACH ROW
+  EXECUTE FUNCTION link_ad_space_design();
+
+-- A design moved to another ad space is no longer shown by the old one
+CREATE OR REPLACE FUNCTION unlink_ad_space_design()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE ad_spaces
+  SET design_id = NULL
+  WHERE id = OLD.ad_space_id
+  AND design_id = OLD.id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS unlink_ad_space_design ON ad_designs;
+CREATE TRIGGER unlink_ad_space_design
+  AFTER UPDATE OF ad_space_id ON ad_designs
+  FOR EACH ROW
+  WHEN (OLD.ad_space_id IS NOT NULL AND OLD.ad_space_id IS DISTINCT FROM NEW.ad_space_id)
+  EXECUTE FUNCTION unlink_ad_space_design();
+
+CREATE OR REPLACE FUNCTION resolve_ad_space(p_ad_space_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  space ad_spaces%ROWTYPE;
+  design ad_designs%ROWTYPE;
+BEGIN
+  SELECT * INTO space
+  FROM ad_spaces
+  WHERE id = p_ad_space_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  SELECT * INTO design
+  FROM ad_designs
+  WHERE id = space.design_id
+  AND ad_space_id = space.id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'unpublished');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'ok',
+    'ad_space', jsonb_build_object(
+      'id', space.id,
+      'title', space.title,
+      'description', space.description,
+      'content', COALESCE(space.content, '{}'::jsonb),
+      'theme', COALESCE(space.theme, '{}'::jsonb)
+    ),
+    'design', jsonb_build_object(
+      'id', design.id,
+      'name', design.name,
+      'background', design.background,
+      'image_url', design.image_url,
+      'video_url', design.video_url,
+      'content', COALESCE(design.content, '{}'::jsonb)
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION resolve_ad_space(uuid) TO anon, authenticated;
+
+REVOKE INSERT, UPDATE, DELETE ON ad_spaces FROM anon;
+REVOKE INSERT, UPDATE, DELETE ON ad_designs FROM anon;
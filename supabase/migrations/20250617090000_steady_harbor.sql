@@ -0,0 +1,115 @@
+/*
+  # One lookup for the public ad pages
+
+  1. Changes
+    - The View page, the `/qr-redirect` pages and the `ad-space` and
+      `qr-redirect` edge functions all resolve QR codes and ad spaces through
+      `resolve_ad` instead of their own queries
+
+  2. New Functions
+    - `resolve_ad(qr_id, ad_space_id, record, ip, agent, location)` returns
+      `{ status, qr_code_id, ad_space, design, redirect_url }`
+      - `status`: `ok`, `invalid` (no or malformed ids), `not_found` or
+        `unpublished` (the ad space has no design, or the QR code points
+        nowhere)
+      - `ad_space` and `design` are set together, as returned by
+        `resolve_ad_space`
+      - `redirect_url`: the design's redirect, else the ad space's url, else
+        the QR code's url
+    - `record` is `none`, `visit` (record the scan and, when the ad is shown,
+      the view) or `redirect` (the same, but only when there is a
+      `redirect_url`, redirect pages send everything else to the View page
+      which records it)
+
+  3. Security
+    - `resolve_ad` is available to everyone and returns nothing
+      `resolve_ad_space` does not already return
+*/
+
+CREATE OR REPLACE FUNCTION resolve_ad(
+  p_qr_id text DEFAULT NULL,
+  p_ad_space_id text DEFAULT NULL,
+  p_record text DEFAULT 'none',
+  p_ip text DEFAULT NULL,
+  p_agent text DEFAULT NULL,
+  p_location jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  uuid_pattern constant text := '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+  code qr_codes%ROWTYPE;
+  space_id uuid;
+  space jsonb;
+  status text := 'ok';
+  redirect_url text;
+BEGIN
+  IF p_record NOT IN ('none', 'visit', 'redirect') THEN
+    RAISE EXCEPTION 'Unknown record mode: %', p_record;
+  END IF;
+
+  p_qr_id := NULLIF(trim(p_qr_id), '');
+  p_ad_space_id := NULLIF(trim(p_ad_space_id), '');
+
+  IF (p_qr_id IS NULL AND p_ad_space_id IS NULL)
+    OR p_qr_id !~* uuid_pattern
+    OR p_ad_space_id !~* uuid_pattern THEN
+    RETURN jsonb_build_object('status', 'invalid');
+  END IF;
+
+  IF p_qr_id IS NOT NULL THEN
+    SELECT * INTO code
+    FROM qr_codes
+    WHERE id = p_qr_id::uuid;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+
+    redirect_url := NULLIF(code.url, '');
+  END IF;
+
+  -- An ad space in the link wins over the code's own
+  space_id := COALESCE(p_ad_space_id::uuid, code.ad_space_id);
+
+  IF space_id IS NOT NULL THEN
+    space := resolve_ad_space(space_id);
+    status := space->>'status';
+
+    IF status = 'ok' THEN
+      redirect_url := COALESCE(
+        NULLIF(space->'design'->'content'->>'redirectUrl', ''),
+        NULLIF(space->'ad_space'->'content'->>'url', ''),
+        redirect_url
+      );
+    ELSIF status = 'not_found' THEN
+      space_id := NULL;
+    END IF;
+  ELSIF redirect_url IS NULL THEN
+    status := 'unpublished';
+  END IF;
+
+  IF p_record = 'visit' OR (p_record = 'redirect' AND redirect_url IS NOT NULL) THEN
+    IF code.id IS NOT NULL THEN
+      PERFORM increment_qr_code_scans(code.id, space_id, p_ip, p_agent, COALESCE(p_location, '{}'::jsonb));
+    END IF;
+
+    IF status = 'ok' AND space_id IS NOT NULL THEN
+      PERFORM increment_ad_space_views(space_id);
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', status,
+    'qr_code_id', code.id,
+    'ad_space', space->'ad_space',
+    'design', space->'design',
+    'redirect_url', redirect_url
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION resolve_ad(text, text, text, text, text, jsonb) TO anon, authenticated;
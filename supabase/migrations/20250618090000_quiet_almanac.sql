@@ -0,0 +1,332 @@
+/*
+  # Draft, published and archived ads
+
+  1. Changes
+    - Saving an ad in the Ad Builder only changes the draft. What scanners see
+      is a snapshot of the design and its ad space taken when it is published
+    - `ad_designs` columns
+      - `published` / `published_at`: the live snapshot
+      - `scheduled` / `scheduled_at`: a snapshot that replaces `published`
+        at `scheduled_at`
+      - `unpublish_at`: when the offer ends
+      - `archived_at`: archived designs show the offer ended page
+      - `offer_ended`: `{ headline, message, url }` for the offer ended page
+    - Ad spaces that show a design are published as they are now
+    - Ad spaces are no longer readable by everyone, the public pages use
+      `resolve_ad`
+
+  2. New Functions
+    - `publish_ad_design(design_id, publish_at)`: publishes the draft now, or
+      schedules it
+    - `publication_status(ad_designs)`: `draft`, `scheduled`, `published`,
+      `ended` or `archived`, available as a column in queries
+    - `has_unpublished_changes(ad_designs)`: the draft differs from the live or
+      scheduled snapshot
+    - `resolve_ad_space` and `resolve_ad` return the live snapshot, and
+      `{ status: 'ended', ad_space, offer_ended }` for archived or ended ads
+
+  3. Security
+    - `publish_ad_design` only publishes the caller's own designs
+*/
+
+ALTER TABLE ad_designs
+  ADD COLUMN IF NOT EXISTS published jsonb,
+  ADD COLUMN IF NOT EXISTS published_at timestamptz,
+  ADD COLUMN IF NOT EXISTS scheduled jsonb,
+  ADD COLUMN IF NOT EXISTS scheduled_at timestamptz,
+  ADD COLUMN IF NOT EXISTS unpublish_at timestamptz,
+  ADD COLUMN IF NOT EXISTS archived_at timestamptz,
+  ADD COLUMN IF NOT EXISTS offer_ended jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE ad_designs
+  DROP CONSTRAINT IF EXISTS ad_designs_scheduled_check;
+ALTER TABLE ad_designs
+  ADD CONSTRAINT ad_designs_scheduled_check CHECK ((scheduled IS NULL) = (scheduled_at IS NULL));
+
+-- What scanners would see if the design was published now, null without an ad space
+CREATE OR REPLACE FUNCTION ad_design_snapshot(d ad_designs)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'ad_space', jsonb_build_object(
+      'title', s.title,
+      'description', s.description,
+      'content', COALESCE(s.content, '{}'::jsonb),
+      'theme', COALESCE(s.theme, '{}'::jsonb)
+    ),
+    'design', jsonb_build_object(
+      'name', d.name,
+      'background', d.background,
+      'image_url', d.image_url,
+      'video_url', d.video_url,
+      'content', COALESCE(d.content, '{}'::jsonb)
+    )
+  )
+  FROM ad_spaces s
+  WHERE s.id = d.ad_space_id;
+$$;
+
+-- The snapshot scanners see right now
+CREATE OR REPLACE FUNCTION ad_design_live_snapshot(d ad_designs)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN d.scheduled IS NOT NULL AND d.scheduled_at <= now() THEN d.scheduled
+    ELSE d.published
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION publication_status(d ad_designs)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN d.archived_at IS NOT NULL THEN 'archived'
+    WHEN d.unpublish_at <= now() THEN 'ended'
+    WHEN ad_design_live_snapshot(d) IS NOT NULL THEN 'published'
+    WHEN d.scheduled IS NOT NULL THEN 'scheduled'
+    ELSE 'draft'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION has_unpublished_changes(d ad_designs)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT ad_design_snapshot(d) IS DISTINCT FROM COALESCE(d.scheduled, d.published);
+$$;
+
+-- Designs that are shown today stay shown
+UPDATE ad_designs d
+SET published = ad_design_snapshot(d),
+    published_at = now()
+FROM ad_spaces s
+WHERE s.design_id = d.id
+AND d.published IS NULL;
+
+CREATE OR REPLACE FUNCTION publish_ad_design(
+  p_design_id uuid,
+  p_publish_at timestamptz DEFAULT NULL
+)
+RETURNS ad_designs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  design ad_designs;
+  snapshot jsonb;
+  live_from timestamptz := GREATEST(COALESCE(p_publish_at, now()), now());
+BEGIN
+  SELECT * INTO design
+  FROM ad_designs
+  WHERE id = p_design_id
+  AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ad design not found';
+  END IF;
+
+  snapshot := ad_design_snapshot(design);
+  IF snapshot IS NULL THEN
+    RAISE EXCEPTION 'Save the ad before publishing it';
+  END IF;
+
+  -- A scheduled snapshot that already went live is the published one now
+  IF design.scheduled_at <= now() THEN
+    design.published := design.scheduled;
+    design.published_at := design.scheduled_at;
+  END IF;
+
+  IF live_from <= now() THEN
+    design.published := snapshot;
+    design.published_at := now();
+    design.scheduled := NULL;
+    design.scheduled_at := NULL;
+  ELSE
+    design.scheduled := snapshot;
+    design.scheduled_at := live_from;
+  END IF;
+
+  UPDATE ad_designs
+  SET published = design.published,
+      published_at = design.published_at,
+      scheduled = design.scheduled,
+      scheduled_at = design.scheduled_at,
+      archived_at = NULL,
+      -- Publishing an ended offer again starts it over
+      unpublish_at = CASE WHEN unpublish_at <= live_from THEN NULL ELSE unpublish_at END
+  WHERE id = design.id
+  RETURNING * INTO design;
+
+  -- The published design is the one its ad space shows
+  UPDATE ad_spaces
+  SET design_id = design.id
+  WHERE id = design.ad_space_id
+  AND design_id IS DISTINCT FROM design.id;
+
+  RETURN design;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION publish_ad_design(uuid, timestamptz) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION publish_ad_design(uuid, timestamptz) TO authenticated;
+
+CREATE OR REPLACE FUNCTION resolve_ad_space(p_ad_space_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  space ad_spaces%ROWTYPE;
+  design ad_designs%ROWTYPE;
+  live jsonb;
+BEGIN
+  SELECT * INTO space
+  FROM ad_spaces
+  WHERE id = p_ad_space_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  SELECT * INTO design
+  FROM ad_designs
+  WHERE id = space.design_id
+  AND ad_space_id = space.id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'unpublished');
+  END IF;
+
+  live := ad_design_live_snapshot(design);
+
+  IF design.archived_at IS NOT NULL OR design.unpublish_at <= now() THEN
+    -- Only what the ended page needs, never the unpublished draft's content
+    RETURN jsonb_build_object(
+      'status', 'ended',
+      'ad_space', jsonb_build_object(
+        'id', space.id,
+        'title', COALESCE(live->'ad_space'->>'title', space.title),
+        'description', NULL,
+        'content', '{}'::jsonb,
+        'theme', COALESCE(live->'ad_space'->'theme', '{}'::jsonb)
+      ),
+      'offer_ended', design.offer_ended
+    );
+  END IF;
+
+  IF live IS NULL THEN
+    RETURN jsonb_build_object('status', 'unpublished');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'ok',
+    'ad_space', jsonb_build_object('id', space.id) || (live->'ad_space'),
+    'design', jsonb_build_object('id', design.id) || (live->'design')
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION resolve_ad(
+  p_qr_id text DEFAULT NULL,
+  p_ad_space_id text DEFAULT NULL,
+  p_record text DEFAULT 'none',
+  p_ip text DEFAULT NULL,
+  p_agent text DEFAULT NULL,
+  p_location jsonb DEFAULT '{}'::jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  uuid_pattern constant text := '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+  code qr_codes%ROWTYPE;
+  space_id uuid;
+  space jsonb;
+  status text := 'ok';
+  redirect_url text;
+BEGIN
+  IF p_record NOT IN ('none', 'visit', 'redirect') THEN
+    RAISE EXCEPTION 'Unknown record mode: %', p_record;
+  END IF;
+
+  p_qr_id := NULLIF(trim(p_qr_id), '');
+  p_ad_space_id := NULLIF(trim(p_ad_space_id), '');
+
+  IF (p_qr_id IS NULL AND p_ad_space_id IS NULL)
+    OR p_qr_id !~* uuid_pattern
+    OR p_ad_space_id !~* uuid_pattern THEN
+    RETURN jsonb_build_object('status', 'invalid');
+  END IF;
+
+  IF p_qr_id IS NOT NULL THEN
+    SELECT * INTO code
+    FROM qr_codes
+    WHERE id = p_qr_id::uuid;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+
+    redirect_url := NULLIF(code.url, '');
+  END IF;
+
+  -- An ad space in the link wins over the code's own
+  space_id := COALESCE(p_ad_space_id::uuid, code.ad_space_id);
+
+  IF space_id IS NOT NULL THEN
+    space := resolve_ad_space(space_id);
+    status := space->>'status';
+
+    IF status = 'ok' THEN
+      redirect_url := COALESCE(
+        NULLIF(space->'design'->'content'->>'redirectUrl', ''),
+        NULLIF(space->'ad_space'->'content'->>'url', ''),
+        redirect_url
+      );
+    ELSIF status = 'ended' THEN
+      -- The offer ended page is shown instead of any redirect
+      redirect_url := NULL;
+    ELSIF status = 'not_found' THEN
+      space_id := NULL;
+    END IF;
+  ELSIF redirect_url IS NULL THEN
+    status := 'unpublished';
+  END IF;
+
+  IF p_record = 'visit' OR (p_record = 'redirect' AND redirect_url IS NOT NULL) THEN
+    IF code.id IS NOT NULL THEN
+      PERFORM increment_qr_code_scans(code.id, space_id, p_ip, p_agent, COALESCE(p_location, '{}'::jsonb));
+    END IF;
+
+    IF status = 'ok' AND space_id IS NOT NULL THEN
+      PERFORM increment_ad_space_views(space_id);
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', status,
+    'qr_code_id', code.id,
+    'ad_space', space->'ad_space',
+    'design', space->'design',
+    'offer_ended', space->'offer_ended',
+    'redirect_url', redirect_url
+  );
+END;
+$$;
+
+DROP POLICY IF EXISTS "Anyone can view ad spaces" ON ad_spaces;
@@ -0,0 +1,393 @@
+/*
+  # Revision history for ad designs
+
+  1. New Tables
+    - `ad_design_revisions`: append-only history of each design's draft,
+      together with its ad space's title, description, content and theme
+      - `revision`: 1, 2, 3... per design
+      - `action`: `create`, `save` or `restore`, `restored_from` is the
+        revision a restore went back to
+      - `changed_by`: the signed in user that made the change
+      - Recorded when a transaction that changed the design or its ad space
+        commits, unless nothing in the snapshot changed
+    - `ad_media_removals`: uploaded ad media that may no longer be needed,
+      queued when revisions are pruned or a design is deleted
+
+  2. New Functions
+    - `restore_ad_design_revision(revision_id)`: puts an earlier revision back
+      into the draft, as a new revision. Publishing stays a separate step
+    - `prune_ad_design_revisions(keep)`: drops all but the newest `keep`
+      revisions of each design and queues the media they used
+    - `claim_ad_media_removals(limit)`: takes queued media off the queue and
+      returns the files no design, published snapshot or remaining revision
+      uses, for the server to delete from storage
+
+  3. Security
+    - Owners can read their revisions, nobody can change them
+    - `restore_ad_design_revision` only restores the caller's own designs
+    - Pruning and media removal are for the service role only
+*/
+
+CREATE TABLE IF NOT EXISTS ad_design_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  design_id uuid NOT NULL REFERENCES ad_designs(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  revision integer NOT NULL,
+  action text NOT NULL CHECK (action IN ('create', 'save', 'restore')),
+  restored_from integer,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  snapshot jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (design_id, revision)
+);
+
+ALTER TABLE ad_design_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own ad design revisions"
+  ON ad_design_revisions
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+REVOKE INSERT, UPDATE, DELETE ON ad_design_revisions FROM PUBLIC, anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS ad_media_removals (
+  bucket_id text NOT NULL,
+  name text NOT NULL,
+  queued_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (bucket_id, name)
+);
+
+-- Only the service role reads the queue
+ALTER TABLE ad_media_removals ENABLE ROW LEVEL SECURITY;
+
+-- The draft as a revision stores it, the ad space part is null without an ad space
+CREATE OR REPLACE FUNCTION ad_design_revision_snapshot(d ad_designs)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'ad_space', (
+      SELECT jsonb_build_object(
+        'title', s.title,
+        'description', s.description,
+        'content', COALESCE(s.content, '{}'::jsonb),
+        'theme', COALESCE(s.theme, '{}'::jsonb)
+      )
+      FROM ad_spaces s
+      WHERE s.id = d.ad_space_id
+    ),
+    'design', jsonb_build_object(
+      'name', d.name,
+      'background', d.background,
+      'image_url', d.image_url,
+      'video_url', d.video_url,
+      'content', COALESCE(d.content, '{}'::jsonb),
+      'template', d.template
+    )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION record_ad_design_revision(
+  p_design_id uuid,
+  p_action text,
+  p_restored_from integer DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  design ad_designs;
+  snapshot jsonb;
+  last_revision ad_design_revisions;
+BEGIN
+  -- Locking the design keeps revision numbers of concurrent saves apart
+  SELECT * INTO design
+  FROM ad_designs
+  WHERE id = p_design_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  snapshot := ad_design_revision_snapshot(design);
+
+  SELECT * INTO last_revision
+  FROM ad_design_revisions
+  WHERE design_id = p_design_id
+  ORDER BY revision DESC
+  LIMIT 1;
+
+  IF last_revision.snapshot IS NOT DISTINCT FROM snapshot THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO ad_design_revisions (design_id, user_id, revision, action, restored_from, changed_by, snapshot)
+  VALUES (
+    design.id,
+    design.user_id,
+    COALESCE(last_revision.revision, 0) + 1,
+    CASE WHEN last_revision.id IS NULL AND p_action = 'save' THEN 'create' ELSE p_action END,
+    p_restored_from,
+    auth.uid(),
+    snapshot
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_ad_design_revision(uuid, text, integer) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION record_ad_design_revision_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  design_id uuid;
+BEGIN
+  IF TG_TABLE_NAME = 'ad_designs' THEN
+    PERFORM record_ad_design_revision(NEW.id, CASE WHEN TG_OP = 'INSERT' THEN 'create' ELSE 'save' END);
+  ELSE
+    FOR design_id IN SELECT id FROM ad_designs WHERE ad_space_id = NEW.id LOOP
+      PERFORM record_ad_design_revision(design_id, 'save');
+    END LOOP;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Deferred to commit, so a change made in several statements is one revision
+DROP TRIGGER IF EXISTS record_ad_design_revision ON ad_designs;
+CREATE CONSTRAINT TRIGGER record_ad_design_revision
+  AFTER INSERT OR UPDATE ON ad_designs
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION record_ad_design_revision_trigger();
+
+DROP TRIGGER IF EXISTS record_ad_space_revision ON ad_spaces;
+CREATE CONSTRAINT TRIGGER record_ad_space_revision
+  AFTER UPDATE OF title, description, content, theme ON ad_spaces
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION record_ad_design_revision_trigger();
+
+-- Existing designs start their history as they are now
+INSERT INTO ad_design_revisions (design_id, user_id, revision, action, snapshot, created_at)
+SELECT d.id, d.user_id, 1, 'create', ad_design_revision_snapshot(d), COALESCE(d.updated_at, d.created_at, now())
+FROM ad_designs d
+WHERE d.user_id IS NOT NULL
+AND NOT EXISTS (SELECT 1 FROM ad_design_revisions r WHERE r.design_id = d.id);
+
+CREATE OR REPLACE FUNCTION restore_ad_design_revision(p_revision_id uuid)
+RETURNS ad_designs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target ad_design_revisions;
+  design ad_designs;
+BEGIN
+  SELECT * INTO target
+  FROM ad_design_revisions
+  WHERE id = p_revision_id
+  AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found';
+  END IF;
+
+  UPDATE ad_designs
+  SET name = target.snapshot->'design'->>'name',
+      background = target.snapshot->'design'->>'background',
+      image_url = target.snapshot->'design'->>'image_url',
+      video_url = target.snapshot->'design'->>'video_url',
+      content = COALESCE(target.snapshot->'design'->'content', '{}'::jsonb),
+      template = target.snapshot->'design'->>'template'
+  WHERE id = target.design_id
+  RETURNING * INTO design;
+
+  IF jsonb_typeof(target.snapshot->'ad_space') = 'object' AND design.ad_space_id IS NOT NULL THEN
+    UPDATE ad_spaces
+    SET title = target.snapshot->'ad_space'->>'title',
+        description = target.snapshot->'ad_space'->>'description',
+        content = COALESCE(target.snapshot->'ad_space'->'content', '{}'::jsonb),
+        theme = COALESCE(target.snapshot->'ad_space'->'theme', '{}'::jsonb)
+    WHERE id = design.ad_space_id;
+  END IF;
+
+  -- Recorded now so it is marked as a restore, the deferred triggers then find nothing new
+  PERFORM record_ad_design_revision(design.id, 'restore', target.revision);
+
+  RETURN design;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION restore_ad_design_revision(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION restore_ad_design_revision(uuid) TO authenticated;
+
+-- Bucket and object name of an uploaded file's public URL, no row for other URLs
+CREATE OR REPLACE FUNCTION ad_media_object(p_url text)
+RETURNS TABLE (bucket_id text, name text)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT m[1], m[2]
+  FROM regexp_match(p_url, '/storage/v1/object/public/([^/]+)/([^?#]+)') AS m
+  WHERE m IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION queue_ad_media_removals(p_urls text[])
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO ad_media_removals (bucket_id, name)
+  SELECT DISTINCT o.bucket_id, o.name
+  FROM unnest(p_urls) AS u(url)
+  CROSS JOIN LATERAL ad_media_object(u.url) o
+  ON CONFLICT DO NOTHING;
+$$;
+
+-- Media URLs a design snapshot (draft, published or revision) points to
+CREATE OR REPLACE FUNCTION ad_snapshot_media(p_snapshot jsonb)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT array_remove(ARRAY[
+    NULLIF(p_snapshot->'design'->>'image_url', ''),
+    NULLIF(p_snapshot->'design'->>'video_url', '')
+  ], NULL);
+$$;
+
+CREATE OR REPLACE FUNCTION queue_deleted_ad_design_media()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM queue_ad_media_removals(
+    array_remove(ARRAY[OLD.image_url, OLD.video_url], NULL)
+    || ad_snapshot_media(OLD.published)
+    || ad_snapshot_media(OLD.scheduled)
+    || COALESCE((
+      SELECT array_agg(url)
+      FROM ad_design_revisions r
+      CROSS JOIN LATERAL unnest(ad_snapshot_media(r.snapshot)) AS url
+      WHERE r.design_id = OLD.id
+    ), ARRAY[]::text[])
+  );
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS queue_deleted_ad_design_media ON ad_designs;
+CREATE TRIGGER queue_deleted_ad_design_media
+  BEFORE DELETE ON ad_designs
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_deleted_ad_design_media();
+
+CREATE OR REPLACE FUNCTION prune_ad_design_revisions(p_keep integer DEFAULT 50)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  pruned integer;
+  urls text[];
+BEGIN
+  IF p_keep < 1 THEN
+    RAISE EXCEPTION 'At least one revision must be kept';
+  END IF;
+
+  WITH ranked AS (
+    SELECT id, row_number() OVER (PARTITION BY design_id ORDER BY revision DESC) AS position
+    FROM ad_design_revisions
+  ),
+  deleted AS (
+    DELETE FROM ad_design_revisions r
+    USING ranked
+    WHERE ranked.id = r.id
+    AND ranked.position > p_keep
+    RETURNING r.id, r.snapshot
+  )
+  SELECT count(DISTINCT deleted.id), array_agg(url)
+  INTO pruned, urls
+  FROM deleted
+  LEFT JOIN LATERAL unnest(ad_snapshot_media(deleted.snapshot)) AS url ON true;
+
+  PERFORM queue_ad_media_removals(array_remove(urls, NULL));
+
+  RETURN pruned;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION ad_media_in_use(p_bucket_id text, p_name text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH target AS (
+    SELECT '%/storage/v1/object/public/' || p_bucket_id || '/' || p_name AS pattern
+  )
+  SELECT EXISTS (
+    SELECT 1
+    FROM ad_designs d, target t
+    WHERE d.image_url LIKE t.pattern
+    OR d.video_url LIKE t.pattern
+    OR EXISTS (
+      SELECT 1
+      FROM unnest(ad_snapshot_media(d.published) || ad_snapshot_media(d.scheduled)) AS url
+      WHERE url LIKE t.pattern
+    )
+  ) OR EXISTS (
+    SELECT 1
+    FROM ad_design_revisions r, target t
+    WHERE r.snapshot->'design'->>'image_url' LIKE t.pattern
+    OR r.snapshot->'design'->>'video_url' LIKE t.pattern
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION claim_ad_media_removals(p_limit integer DEFAULT 100)
+RETURNS TABLE (bucket_id text, name text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH claimed AS (
+    DELETE FROM ad_media_removals q
+    WHERE (q.bucket_id, q.name) IN (
+      SELECT r.bucket_id, r.name
+      FROM ad_media_removals r
+      ORDER BY r.queued_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING q.bucket_id, q.name
+  )
+  SELECT c.bucket_id, c.name
+  FROM claimed c
+  WHERE NOT ad_media_in_use(c.bucket_id, c.name);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION queue_ad_media_removals(text[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION prune_ad_design_revisions(integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_ad_media_removals(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION prune_ad_design_revisions(integer) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_ad_media_removals(integer) TO service_role;
@@ -0,0 +1,627 @@
+/*
+  # A/B testing of ad designs
+
+  1. Changes
+    - Several designs of one ad space can be shown side by side with traffic
+      weights. Each visitor is assigned a variant from a hash of their visitor
+      key and the ad space, so they see the same variant on every visit while
+      the variants stay the same. The View page sends a visitor id kept in the
+      browser, other entry points use ip + user agent
+    - Only published designs take part, without any the ad space shows its
+      own design as before
+    - `ad_space_view_events.design_id`: the design that was shown
+    - `ad_spaces`
+      - `variant_test_started_at`: set when variants are added or removed,
+        results are counted from then
+      - `auto_promote_winner` / `auto_promote_min_views`: end the test once a
+        variant wins
+
+  2. New Tables
+    - `ad_space_variants`: the designs an ad space tests, with their weights
+    - `ad_space_click_events`: one row per "Continue" or redirect click
+
+  3. New Functions
+    - `pick_ad_variant(ad_space_id, visitor)`: the variant a visitor sees
+    - `resolve_ad_space` and `resolve_ad` take a visitor key and serve the
+      visitor's variant
+    - `increment_ad_space_views` records the design that was shown
+    - `record_ad_click(ad_space_id, design_id)`: counts a click through to
+      the redirect URL
+    - `get_ad_variant_performance(ad_space_id)`: views, clicks and the winner
+      per variant since the test started
+    - `promote_ad_variant(ad_space_id, design_id)`: ends the test, the ad space
+      shows the promoted design from then on
+    - `promote_ad_test_winners()`: promotes the winners of tests that have
+      auto promote on, run by the server
+
+  4. Security
+    - Owners manage the variants of their own ad spaces and read their own
+      click events
+    - `record_ad_click` only counts clicks for variants that are live
+    - `promote_ad_test_winners` is only available to the service role
+*/
+
+CREATE TABLE IF NOT EXISTS ad_space_variants (
+  ad_space_id uuid NOT NULL REFERENCES ad_spaces(id) ON DELETE CASCADE,
+  design_id uuid NOT NULL REFERENCES ad_designs(id) ON DELETE CASCADE,
+  weight integer NOT NULL DEFAULT 50 CHECK (weight BETWEEN 1 AND 100),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (ad_space_id, design_id)
+);
+
+CREATE TABLE IF NOT EXISTS ad_space_click_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ad_space_id uuid REFERENCES ad_spaces(id) ON DELETE CASCADE,
+  design_id uuid REFERENCES ad_designs(id) ON DELETE SET NULL,
+  clicked_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ad_space_click_events_space_idx
+  ON ad_space_click_events(ad_space_id, clicked_at DESC);
+
+ALTER TABLE ad_space_view_events
+  ADD COLUMN IF NOT EXISTS design_id uuid REFERENCES ad_designs(id) ON DELETE SET NULL;
+
+ALTER TABLE ad_spaces
+  ADD COLUMN IF NOT EXISTS variant_test_started_at timestamptz,
+  ADD COLUMN IF NOT EXISTS auto_promote_winner boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS auto_promote_min_views integer NOT NULL DEFAULT 100
+    CHECK (auto_promote_min_views >= 10);
+
+-- Enable RLS
+ALTER TABLE ad_space_variants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ad_space_click_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage variants of their own ad spaces"
+  ON ad_space_variants
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM ad_spaces
+      WHERE ad_spaces.id = ad_space_variants.ad_space_id
+      AND ad_spaces.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM ad_spaces
+      WHERE ad_spaces.id = ad_space_variants.ad_space_id
+      AND ad_spaces.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view their own ad space click events"
+  ON ad_space_click_events
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM ad_spaces
+      WHERE ad_spaces.id = ad_space_click_events.ad_space_id
+      AND ad_spaces.user_id = auth.uid()
+    )
+  );
+
+REVOKE INSERT, UPDATE, DELETE ON ad_space_variants FROM anon;
+
+-- A variant is one of the ad space's own designs
+CREATE OR REPLACE FUNCTION check_ad_space_variant()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM ad_designs
+    WHERE id = NEW.design_id
+    AND ad_space_id = NEW.ad_space_id
+  ) THEN
+    RAISE EXCEPTION 'The design does not belong to this ad space';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_ad_space_variant ON ad_space_variants;
+CREATE TRIGGER check_ad_space_variant
+  BEFORE INSERT OR UPDATE OF ad_space_id, design_id ON ad_space_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION check_ad_space_variant();
+
+-- Results only compare the variants that are in the test now
+CREATE OR REPLACE FUNCTION restart_ad_variant_test()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  space_id uuid := COALESCE(NEW.ad_space_id, OLD.ad_space_id);
+BEGIN
+  UPDATE ad_spaces
+  SET variant_test_started_at = CASE
+    WHEN EXISTS (SELECT 1 FROM ad_space_variants WHERE ad_space_id = space_id) THEN now()
+    ELSE NULL
+  END
+  WHERE id = space_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS restart_ad_variant_test ON ad_space_variants;
+CREATE TRIGGER restart_ad_variant_test
+  AFTER INSERT OR DELETE ON ad_space_variants
+  FOR EACH ROW
+  EXECUTE FUNCTION restart_ad_variant_test();
+
+-- A design moved to another ad space leaves the old one's test
+CREATE OR REPLACE FUNCTION leave_ad_variant_test()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM ad_space_variants
+  WHERE design_id = NEW.id
+  AND ad_space_id IS DISTINCT FROM NEW.ad_space_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS leave_ad_variant_test ON ad_designs;
+CREATE TRIGGER leave_ad_variant_test
+  AFTER UPDATE OF ad_space_id ON ad_designs
+  FOR EACH ROW
+  EXECUTE FUNCTION leave_ad_variant_test();
+
+-- The variant a visitor sees, null when the ad space has no live variants
+CREATE OR REPLACE FUNCTION pick_ad_variant(p_ad_space_id uuid, p_visitor text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH live AS (
+    SELECT
+      v.design_id,
+      SUM(v.weight) OVER (ORDER BY v.design_id) AS weight_upto,
+      SUM(v.weight) OVER () AS weight_total
+    FROM ad_space_variants v
+    JOIN ad_designs d ON d.id = v.design_id AND d.ad_space_id = v.ad_space_id
+    WHERE v.ad_space_id = p_ad_space_id
+    AND publication_status(d) = 'published'
+  )
+  SELECT design_id
+  FROM live
+  WHERE p_visitor IS NOT NULL
+  -- First 32 bits of the hash, spread over the weights
+  AND weight_upto > ('x' || substr(md5(p_visitor || ':' || p_ad_space_id::text), 1, 8))::bit(32)::bigint % weight_total
+  ORDER BY weight_upto
+  LIMIT 1;
+$$;
+
+DROP FUNCTION IF EXISTS increment_ad_space_views(uuid);
+
+-- Log every view alongside the running total
+CREATE OR REPLACE FUNCTION increment_ad_space_views(space_id uuid, p_design_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE ad_spaces
+  SET views = views + 1
+  WHERE id = space_id;
+
+  IF FOUND THEN
+    INSERT INTO ad_space_view_events (ad_space_id, design_id)
+    VALUES (space_id, p_design_id);
+  END IF;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS resolve_ad_space(uuid);
+
+CREATE OR REPLACE FUNCTION resolve_ad_space(p_ad_space_id uuid, p_visitor text DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  space ad_spaces%ROWTYPE;
+  design ad_designs%ROWTYPE;
+  live jsonb;
+BEGIN
+  SELECT * INTO space
+  FROM ad_spaces
+  WHERE id = p_ad_space_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'not_found');
+  END IF;
+
+  SELECT * INTO design
+  FROM ad_designs
+  WHERE id = COALESCE(pick_ad_variant(space.id, p_visitor), space.design_id)
+  AND ad_space_id = space.id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('status', 'unpublished');
+  END IF;
+
+  live := ad_design_live_snapshot(design);
+
+  IF design.archived_at IS NOT NULL OR design.unpublish_at <= now() THEN
+    -- Only what the ended page needs, never the unpublished draft's content
+    RETURN jsonb_build_object(
+      'status', 'ended',
+      'ad_space', jsonb_build_object(
+        'id', space.id,
+        'title', COALESCE(live->'ad_space'->>'title', space.title),
+        'description', NULL,
+        'content', '{}'::jsonb,
+        'theme', COALESCE(live->'ad_space'->'theme', '{}'::jsonb)
+      ),
+      'offer_ended', design.offer_ended
+    );
+  END IF;
+
+  IF live IS NULL THEN
+    RETURN jsonb_build_object('status', 'unpublished');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', 'ok',
+    'ad_space', jsonb_build_object('id', space.id) || (live->'ad_space'),
+    'design', jsonb_build_object('id', design.id) || (live->'design')
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION resolve_ad_space(uuid, text) TO anon, authenticated;
+
+DROP FUNCTION IF EXISTS resolve_ad(text, text, text, text, text, jsonb);
+
+CREATE OR REPLACE FUNCTION resolve_ad(
+  p_qr_id text DEFAULT NULL,
+  p_ad_space_id text DEFAULT NULL,
+  p_record text DEFAULT 'none',
+  p_ip text DEFAULT NULL,
+  p_agent text DEFAULT NULL,
+  p_location jsonb DEFAULT '{}'::jsonb,
+  p_visitor text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  uuid_pattern constant text := '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+  code qr_codes%ROWTYPE;
+  space_id uuid;
+  space jsonb;
+  status text := 'ok';
+  redirect_url text;
+BEGIN
+  IF p_record NOT IN ('none', 'visit', 'redirect') THEN
+    RAISE EXCEPTION 'Unknown record mode: %', p_record;
+  END IF;
+
+  p_qr_id := NULLIF(trim(p_qr_id), '');
+  p_ad_space_id := NULLIF(trim(p_ad_space_id), '');
+
+  IF (p_qr_id IS NULL AND p_ad_space_id IS NULL)
+    OR p_qr_id !~* uuid_pattern
+    OR p_ad_space_id !~* uuid_pattern THEN
+    RETURN jsonb_build_object('status', 'invalid');
+  END IF;
+
+  IF p_qr_id IS NOT NULL THEN
+    SELECT * INTO code
+    FROM qr_codes
+    WHERE id = p_qr_id::uuid;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+
+    redirect_url := NULLIF(code.url, '');
+  END IF;
+
+  -- An ad space in the link wins over the code's own
+  space_id := COALESCE(p_ad_space_id::uuid, code.ad_space_id);
+
+  IF space_id IS NOT NULL THEN
+    space := resolve_ad_space(
+      space_id,
+      COALESCE(NULLIF(trim(p_visitor), ''), scan_visitor_key(p_ip, p_agent))
+    );
+    status := space->>'status';
+
+    IF status = 'ok' THEN
+      redirect_url := COALESCE(
+        NULLIF(space->'design'->'content'->>'redirectUrl', ''),
+        NULLIF(space->'ad_space'->'content'->>'url', ''),
+        redirect_url
+      );
+    ELSIF status = 'ended' THEN
+      -- The offer ended page is shown instead of any redirect
+      redirect_url := NULL;
+    ELSIF status = 'not_found' THEN
+      space_id := NULL;
+    END IF;
+  ELSIF redirect_url IS NULL THEN
+    status := 'unpublished';
+  END IF;
+
+  IF p_record = 'visit' OR (p_record = 'redirect' AND redirect_url IS NOT NULL) THEN
+    IF code.id IS NOT NULL THEN
+      PERFORM increment_qr_code_scans(code.id, space_id, p_ip, p_agent, COALESCE(p_location, '{}'::jsonb));
+    END IF;
+
+    IF status = 'ok' AND space_id IS NOT NULL THEN
+      PERFORM increment_ad_space_views(space_id, (space->'design'->>'id')::uuid);
+
+      -- Redirect pages send the visitor straight on, that is a click through
+      IF p_record = 'redirect' THEN
+        INSERT INTO ad_space_click_events (ad_space_id, design_id)
+        VALUES (space_id, (space->'design'->>'id')::uuid);
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', status,
+    'qr_code_id', code.id,
+    'ad_space', space->'ad_space',
+    'design', space->'design',
+    'offer_ended', space->'offer_ended',
+    'redirect_url', redirect_url
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION resolve_ad(text, text, text, text, text, jsonb, text) TO anon, authenticated;
+
+-- "Continue" clicks on the View page
+CREATE OR REPLACE FUNCTION record_ad_click(p_ad_space_id uuid, p_design_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM ad_designs d
+    WHERE d.id = p_design_id
+    AND d.ad_space_id = p_ad_space_id
+    AND publication_status(d) = 'published'
+  ) THEN
+    INSERT INTO ad_space_click_events (ad_space_id, design_id)
+    VALUES (p_ad_space_id, p_design_id);
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_ad_click(uuid, uuid) TO anon, authenticated;
+
+-- Views and clicks per variant since the test started, no ownership check
+CREATE OR REPLACE FUNCTION ad_variant_results(p_ad_space_id uuid)
+RETURNS TABLE (
+  design_id uuid,
+  name text,
+  weight integer,
+  is_live boolean,
+  views bigint,
+  clicks bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    v.design_id,
+    d.name,
+    v.weight,
+    publication_status(d) = 'published',
+    (
+      SELECT COUNT(*) FROM ad_space_view_events e
+      WHERE e.ad_space_id = v.ad_space_id
+      AND e.design_id = v.design_id
+      AND e.viewed_at >= s.variant_test_started_at
+    ),
+    (
+      SELECT COUNT(*) FROM ad_space_click_events c
+      WHERE c.ad_space_id = v.ad_space_id
+      AND c.design_id = v.design_id
+      AND c.clicked_at >= s.variant_test_started_at
+    )
+  FROM ad_space_variants v
+  JOIN ad_spaces s ON s.id = v.ad_space_id
+  JOIN ad_designs d ON d.id = v.design_id
+  WHERE v.ad_space_id = p_ad_space_id
+  ORDER BY v.created_at, d.name;
+$$;
+
+-- The live variant with the best click-through once every live variant has
+-- `p_min_views` views and it beats the runner-up at 95% confidence
+-- (two-proportion z-test), otherwise null
+CREATE OR REPLACE FUNCTION ad_variant_winner(p_ad_space_id uuid, p_min_views integer)
+RETURNS uuid
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  best record;
+  runner_up record;
+  pooled numeric;
+  std_error numeric;
+BEGIN
+  IF (
+    SELECT COUNT(*) < 2 OR MIN(r.views) < p_min_views
+    FROM ad_variant_results(p_ad_space_id) r
+    WHERE r.is_live
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT r.design_id, r.views, r.clicks, r.clicks::numeric / r.views AS rate INTO best
+  FROM ad_variant_results(p_ad_space_id) r
+  WHERE r.is_live
+  ORDER BY rate DESC, r.views DESC
+  LIMIT 1;
+
+  SELECT r.design_id, r.views, r.clicks, r.clicks::numeric / r.views AS rate INTO runner_up
+  FROM ad_variant_results(p_ad_space_id) r
+  WHERE r.is_live
+  AND r.design_id <> best.design_id
+  ORDER BY rate DESC, r.views DESC
+  LIMIT 1;
+
+  pooled := (best.clicks + runner_up.clicks)::numeric / (best.views + runner_up.views);
+  std_error := sqrt(pooled * (1 - pooled) * (1.0 / best.views + 1.0 / runner_up.views));
+
+  IF std_error = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF (best.rate - runner_up.rate) / std_error < 1.96 THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN best.design_id;
+END;
+$$;
+
+-- The test ends, the ad space shows the promoted design from now on
+CREATE OR REPLACE FUNCTION end_ad_variant_test(p_ad_space_id uuid, p_design_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE ad_spaces
+  SET design_id = p_design_id
+  WHERE id = p_ad_space_id
+  AND design_id IS DISTINCT FROM p_design_id;
+
+  DELETE FROM ad_space_variants
+  WHERE ad_space_id = p_ad_space_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_ad_variant_performance(p_ad_space_id uuid)
+RETURNS TABLE (
+  design_id uuid,
+  name text,
+  weight integer,
+  is_live boolean,
+  views bigint,
+  clicks bigint,
+  is_winner boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  space ad_spaces%ROWTYPE;
+  winner uuid;
+BEGIN
+  SELECT * INTO space
+  FROM ad_spaces
+  WHERE id = p_ad_space_id
+  AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Ad space not found';
+  END IF;
+
+  winner := ad_variant_winner(space.id, space.auto_promote_min_views);
+
+  RETURN QUERY
+  SELECT r.design_id, r.name, r.weight, r.is_live, r.views, r.clicks, COALESCE(r.design_id = winner, false)
+  FROM ad_variant_results(space.id) r;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION promote_ad_variant(p_ad_space_id uuid, p_design_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM ad_space_variants v
+    JOIN ad_spaces s ON s.id = v.ad_space_id
+    WHERE v.ad_space_id = p_ad_space_id
+    AND v.design_id = p_design_id
+    AND s.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Variant not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM ad_designs d
+    WHERE d.id = p_design_id
+    AND publication_status(d) = 'published'
+  ) THEN
+    RAISE EXCEPTION 'Publish this design before promoting it';
+  END IF;
+
+  PERFORM end_ad_variant_test(p_ad_space_id, p_design_id);
+END;
+$$;
+
+-- Promote the winners of tests with auto promote on, returns how many
+CREATE OR REPLACE FUNCTION promote_ad_test_winners()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  space record;
+  winner uuid;
+  promoted integer := 0;
+BEGIN
+  FOR space IN
+    SELECT s.id, s.auto_promote_min_views
+    FROM ad_spaces s
+    WHERE s.auto_promote_winner
+    AND EXISTS (SELECT 1 FROM ad_space_variants v WHERE v.ad_space_id = s.id)
+  LOOP
+    winner := ad_variant_winner(space.id, space.auto_promote_min_views);
+
+    IF winner IS NOT NULL THEN
+      PERFORM end_ad_variant_test(space.id, winner);
+      promoted := promoted + 1;
+    END IF;
+  END LOOP;
+
+  RETURN promoted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION ad_variant_results(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION ad_variant_winner(uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION end_ad_variant_test(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_ad_variant_performance(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION promote_ad_variant(uuid, uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION promote_ad_test_winners() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_ad_variant_performance(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION promote_ad_variant(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION promote_ad_test_winners() TO service_role;
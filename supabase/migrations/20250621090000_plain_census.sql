@@ -0,0 +1,300 @@
+/*
+  # Visitor ids in scan analytics
+
+  1. Changes
+    - `qr_code_scans.visitor_id`: the id a browser keeps for itself. Pages
+      that call `resolve_ad` from the browser cannot see their IP address, so
+      without it "unique scanners" only counted distinct user agents
+    - Unique and repeat scanners use the visitor id when there is one, ip +
+      user agent otherwise
+
+  2. Functions
+    - `scan_visitor_key(ip, agent, visitor_id)`
+    - `increment_qr_code_scans` takes the visitor id
+    - `get_scan_timeseries`, `get_ad_space_performance` and
+      `get_analytics_summary` use the new key
+
+  3. Security
+    - `increment_qr_code_scans` can no longer be called directly, scans are
+      recorded by `resolve_ad` and `scan_qr_code`
+*/
+
+ALTER TABLE qr_code_scans
+  ADD COLUMN IF NOT EXISTS visitor_id text;
+
+-- A browser's own id identifies it better than anything else we have
+CREATE OR REPLACE FUNCTION scan_visitor_key(ip text, agent text, visitor_id text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN NULLIF(visitor_id, '') IS NOT NULL THEN md5('visitor|' || visitor_id)
+    ELSE scan_visitor_key(ip, agent)
+  END;
+$$;
+
+DROP FUNCTION IF EXISTS increment_qr_code_scans(uuid, uuid, text, text, jsonb);
+
+CREATE OR REPLACE FUNCTION increment_qr_code_scans(
+  qr_id uuid,
+  ad_id uuid,
+  ip text DEFAULT NULL,
+  agent text DEFAULT NULL,
+  loc jsonb DEFAULT '{}'::jsonb,
+  visitor text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO qr_code_scans (
+    qr_code_id,
+    ad_space_id,
+    ip_address,
+    user_agent,
+    location,
+    visitor_id
+  ) VALUES (
+    qr_id,
+    ad_id,
+    ip,
+    agent,
+    loc,
+    NULLIF(visitor, '')
+  );
+
+  UPDATE qr_codes
+  SET scans = scans + 1
+  WHERE id = qr_id;
+END;
+$$;
+
+-- Scans, views and unique scanners bucketed by day or week
+CREATE OR REPLACE FUNCTION get_scan_timeseries(
+  p_ad_space_id uuid DEFAULT NULL,
+  p_days integer DEFAULT 30,
+  p_bucket text DEFAULT 'day'
+)
+RETURNS TABLE (
+  bucket timestamptz,
+  scans bigint,
+  views bigint,
+  unique_scanners bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  range_start timestamptz;
+BEGIN
+  IF p_bucket NOT IN ('day', 'week') THEN
+    RAISE EXCEPTION 'Bucket must be either day or week';
+  END IF;
+
+  IF p_days IS NULL OR p_days < 1 OR p_days > 366 THEN
+    RAISE EXCEPTION 'Days must be between 1 and 366';
+  END IF;
+
+  range_start := date_trunc(p_bucket, now() - make_interval(days => p_days - 1));
+
+  RETURN QUERY
+  WITH owned_spaces AS (
+    SELECT id FROM ad_spaces
+    WHERE user_id = auth.uid()
+    AND (p_ad_space_id IS NULL OR id = p_ad_space_id)
+  ),
+  buckets AS (
+    SELECT generate_series(
+      range_start,
+      date_trunc(p_bucket, now()),
+      ('1 ' || p_bucket)::interval
+    ) AS bucket
+  ),
+  scan_rows AS (
+    SELECT
+      date_trunc(p_bucket, s.scanned_at) AS bucket,
+      scan_visitor_key(s.ip_address, s.user_agent, s.visitor_id) AS visitor
+    FROM qr_code_scans s
+    LEFT JOIN qr_codes q ON q.id = s.qr_code_id
+    WHERE s.scanned_at >= range_start
+    AND (
+      s.ad_space_id IN (SELECT id FROM owned_spaces)
+      OR (p_ad_space_id IS NULL AND q.user_id = auth.uid())
+    )
+  ),
+  view_rows AS (
+    SELECT date_trunc(p_bucket, v.viewed_at) AS bucket
+    FROM ad_space_view_events v
+    WHERE v.viewed_at >= range_start
+    AND v.ad_space_id IN (SELECT id FROM owned_spaces)
+  )
+  SELECT
+    b.bucket,
+    (SELECT COUNT(*) FROM scan_rows sr WHERE sr.bucket = b.bucket),
+    (SELECT COUNT(*) FROM view_rows vr WHERE vr.bucket = b.bucket),
+    (SELECT COUNT(DISTINCT sr.visitor) FROM scan_rows sr WHERE sr.bucket = b.bucket)
+  FROM buckets b
+  ORDER BY b.bucket;
+END;
+$$;
+
+-- Per ad space totals for the current and the previous period
+CREATE OR REPLACE FUNCTION get_ad_space_performance(p_days integer DEFAULT 30)
+RETURNS TABLE (
+  ad_space_id uuid,
+  title text,
+  total_views integer,
+  scans bigint,
+  prev_scans bigint,
+  views bigint,
+  prev_views bigint,
+  unique_scanners bigint,
+  repeat_scanners bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  period_start timestamptz;
+  prev_start timestamptz;
+BEGIN
+  IF p_days IS NULL OR p_days < 1 OR p_days > 366 THEN
+    RAISE EXCEPTION 'Days must be between 1 and 366';
+  END IF;
+
+  period_start := now() - make_interval(days => p_days);
+  prev_start := now() - make_interval(days => p_days * 2);
+
+  RETURN QUERY
+  WITH scan_counts AS (
+    SELECT
+      s.ad_space_id,
+      COUNT(*) FILTER (WHERE s.scanned_at >= period_start) AS scans,
+      COUNT(*) FILTER (WHERE s.scanned_at < period_start) AS prev_scans
+    FROM qr_code_scans s
+    JOIN ad_spaces a ON a.id = s.ad_space_id
+    WHERE a.user_id = auth.uid()
+    AND s.scanned_at >= prev_start
+    GROUP BY s.ad_space_id
+  ),
+  visitor_counts AS (
+    SELECT
+      s.ad_space_id,
+      scan_visitor_key(s.ip_address, s.user_agent, s.visitor_id) AS visitor,
+      COUNT(*) AS visits
+    FROM qr_code_scans s
+    JOIN ad_spaces a ON a.id = s.ad_space_id
+    WHERE a.user_id = auth.uid()
+    AND s.scanned_at >= period_start
+    GROUP BY s.ad_space_id, visitor
+  ),
+  visitor_totals AS (
+    SELECT
+      vc.ad_space_id,
+      COUNT(*) AS unique_scanners,
+      COUNT(*) FILTER (WHERE vc.visits > 1) AS repeat_scanners
+    FROM visitor_counts vc
+    GROUP BY vc.ad_space_id
+  ),
+  view_counts AS (
+    SELECT
+      v.ad_space_id,
+      COUNT(*) FILTER (WHERE v.viewed_at >= period_start) AS views,
+      COUNT(*) FILTER (WHERE v.viewed_at < period_start) AS prev_views
+    FROM ad_space_view_events v
+    JOIN ad_spaces a ON a.id = v.ad_space_id
+    WHERE a.user_id = auth.uid()
+    AND v.viewed_at >= prev_start
+    GROUP BY v.ad_space_id
+  )
+  SELECT
+    a.id,
+    a.title,
+    COALESCE(a.views, 0),
+    COALESCE(sc.scans, 0),
+    COALESCE(sc.prev_scans, 0),
+    COALESCE(vw.views, 0),
+    COALESCE(vw.prev_views, 0),
+    COALESCE(vt.unique_scanners, 0),
+    COALESCE(vt.repeat_scanners, 0)
+  FROM ad_spaces a
+  LEFT JOIN scan_counts sc ON sc.ad_space_id = a.id
+  LEFT JOIN visitor_totals vt ON vt.ad_space_id = a.id
+  LEFT JOIN view_counts vw ON vw.ad_space_id = a.id
+  WHERE a.user_id = auth.uid()
+  ORDER BY COALESCE(sc.scans, 0) + COALESCE(vw.views, 0) DESC, a.created_at DESC;
+END;
+$$;
+
+-- Account wide totals for the current and the previous period
+CREATE OR REPLACE FUNCTION get_analytics_summary(p_days integer DEFAULT 30)
+RETURNS TABLE (
+  scans bigint,
+  prev_scans bigint,
+  views bigint,
+  prev_views bigint,
+  unique_scanners bigint,
+  prev_unique_scanners bigint,
+  repeat_scanners bigint,
+  prev_repeat_scanners bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  period_start timestamptz;
+  prev_start timestamptz;
+BEGIN
+  IF p_days IS NULL OR p_days < 1 OR p_days > 366 THEN
+    RAISE EXCEPTION 'Days must be between 1 and 366';
+  END IF;
+
+  period_start := now() - make_interval(days => p_days);
+  prev_start := now() - make_interval(days => p_days * 2);
+
+  RETURN QUERY
+  WITH owned_scans AS (
+    SELECT
+      s.scanned_at >= period_start AS is_current,
+      scan_visitor_key(s.ip_address, s.user_agent, s.visitor_id) AS visitor
+    FROM qr_code_scans s
+    LEFT JOIN qr_codes q ON q.id = s.qr_code_id
+    LEFT JOIN ad_spaces a ON a.id = s.ad_space_id
+    WHERE s.scanned_at >= prev_start
+    AND (q.user_id = auth.uid() OR a.user_id = auth.uid())
+  ),
+  visitors AS (
+    SELECT is_current, visitor, COUNT(*) AS visits
+    FROM owned_scans
+    GROUP BY is_current, visitor
+  ),
+  owned_views AS (
+    SELECT v.viewed_at >= period_start AS is_current
+    FROM ad_space_view_events v
+    JOIN ad_spaces a ON a.id = v.ad_space_id
+    WHERE a.user_id = auth.uid()
+    AND v.viewed_at >= prev_start
+  )
+  SELECT
+    (SELECT COUNT(*) FROM owned_scans WHERE is_current),
+    (SELECT COUNT(*) FROM owned_scans WHERE NOT is_current),
+    (SELECT COUNT(*) FROM owned_views WHERE is_current),
+    (SELECT COUNT(*) FROM owned_views WHERE NOT is_current),
+    (SELECT COUNT(*) FROM visitors WHERE is_current),
+    (SELECT COUNT(*) FROM visitors WHERE NOT is_current),
+    (SELECT COUNT(*) FROM visitors WHERE is_current AND visits > 1),
+    (SELECT COUNT(*) FROM visitors WHERE NOT is_current AND visits > 1);
+END;
+$$;
+
+-- Scans are recorded through resolve_ad and scan_qr_code only
+REVOKE EXECUTE ON FUNCTION increment_qr_code_scans(uuid, uuid, text, text, jsonb, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,103 @@
+/*
+  # Visitor ids in batch analytics
+
+  1. Changes
+    - Unique scanners per batch use the visitor id when the scan has one, ip
+      + user agent otherwise, the same as the other scan analytics
+
+  2. Functions
+    - `get_qr_batch_performance` uses `scan_visitor_key(ip, agent, visitor_id)`
+*/
+
+-- Scans per batch for the current and the previous period
+CREATE OR REPLACE FUNCTION get_qr_batch_performance(p_days integer DEFAULT 30)
+RETURNS TABLE (
+  batch_id uuid,
+  name text,
+  ad_space_id uuid,
+  code_count bigint,
+  total_scans bigint,
+  scans bigint,
+  prev_scans bigint,
+  unique_scanners bigint,
+  top_tracking_id text,
+  top_label text,
+  top_scans bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  period_start timestamptz;
+  prev_start timestamptz;
+BEGIN
+  IF p_days IS NULL OR p_days < 1 OR p_days > 366 THEN
+    RAISE EXCEPTION 'Days must be between 1 and 366';
+  END IF;
+
+  period_start := now() - make_interval(days => p_days);
+  prev_start := now() - make_interval(days => p_days * 2);
+
+  RETURN QUERY
+  WITH batch_scans AS (
+    SELECT
+      q.batch_id,
+      q.id AS qr_code_id,
+      s.scanned_at >= period_start AS is_current,
+      scan_visitor_key(s.ip_address, s.user_agent, s.visitor_id) AS visitor
+    FROM qr_code_scans s
+    JOIN qr_codes q ON q.id = s.qr_code_id
+    WHERE q.user_id = auth.uid()
+    AND q.batch_id IS NOT NULL
+    AND s.scanned_at >= prev_start
+  ),
+  batch_totals AS (
+    SELECT
+      bs.batch_id,
+      COUNT(*) FILTER (WHERE bs.is_current) AS scans,
+      COUNT(*) FILTER (WHERE NOT bs.is_current) AS prev_scans,
+      COUNT(DISTINCT bs.visitor) FILTER (WHERE bs.is_current) AS unique_scanners
+    FROM batch_scans bs
+    GROUP BY bs.batch_id
+  ),
+  code_scans AS (
+    SELECT DISTINCT ON (bs.batch_id)
+      bs.batch_id,
+      bs.qr_code_id,
+      COUNT(*) AS scans
+    FROM batch_scans bs
+    WHERE bs.is_current
+    GROUP BY bs.batch_id, bs.qr_code_id
+    ORDER BY bs.batch_id, COUNT(*) DESC
+  ),
+  code_counts AS (
+    SELECT q.batch_id, COUNT(*) AS code_count, COALESCE(SUM(q.scans), 0)::bigint AS total_scans
+    FROM qr_codes q
+    WHERE q.user_id = auth.uid()
+    AND q.batch_id IS NOT NULL
+    GROUP BY q.batch_id
+  )
+  SELECT
+    b.id,
+    b.name,
+    b.ad_space_id,
+    COALESCE(cc.code_count, 0),
+    COALESCE(cc.total_scans, 0),
+    COALESCE(bt.scans, 0),
+    COALESCE(bt.prev_scans, 0),
+    COALESCE(bt.unique_scanners, 0),
+    top.tracking_id,
+    top.name,
+    COALESCE(cs.scans, 0)
+  FROM qr_code_batches b
+  LEFT JOIN code_counts cc ON cc.batch_id = b.id
+  LEFT JOIN batch_totals bt ON bt.batch_id = b.id
+  LEFT JOIN code_scans cs ON cs.batch_id = b.id
+  LEFT JOIN qr_codes top ON top.id = cs.qr_code_id
+  WHERE b.user_id = auth.uid()
+  ORDER BY COALESCE(bt.scans, 0) DESC, b.created_at DESC;
+END;
+$$;
+
@@ -0,0 +1,115 @@
+/*
+  # Visitor ids on scans recorded by resolve_ad
+
+  1. Changes
+    - `resolve_ad` already takes the browser's visitor id to pick a variant,
+      it now also records it with the scan so analytics count the browser
+      as one scanner
+
+  2. Functions
+    - `resolve_ad` passes `p_visitor` to `increment_qr_code_scans`
+*/
+
+-- Same as before, the scan now keeps the visitor id
+CREATE OR REPLACE FUNCTION resolve_ad(
+  p_qr_id text DEFAULT NULL,
+  p_ad_space_id text DEFAULT NULL,
+  p_record text DEFAULT 'none',
+  p_ip text DEFAULT NULL,
+  p_agent text DEFAULT NULL,
+  p_location jsonb DEFAULT '{}'::jsonb,
+  p_visitor text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  uuid_pattern constant text := '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+  code qr_codes%ROWTYPE;
+  space_id uuid;
+  space jsonb;
+  status text := 'ok';
+  redirect_url text;
+BEGIN
+  IF p_record NOT IN ('none', 'visit', 'redirect') THEN
+    RAISE EXCEPTION 'Unknown record mode: %', p_record;
+  END IF;
+
+  p_qr_id := NULLIF(trim(p_qr_id), '');
+  p_ad_space_id := NULLIF(trim(p_ad_space_id), '');
+
+  IF (p_qr_id IS NULL AND p_ad_space_id IS NULL)
+    OR p_qr_id !~* uuid_pattern
+    OR p_ad_space_id !~* uuid_pattern THEN
+    RETURN jsonb_build_object('status', 'invalid');
+  END IF;
+
+  IF p_qr_id IS NOT NULL THEN
+    SELECT * INTO code
+    FROM qr_codes
+    WHERE id = p_qr_id::uuid;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+
+    redirect_url := NULLIF(code.url, '');
+  END IF;
+
+  -- An ad space in the link wins over the code's own
+  space_id := COALESCE(p_ad_space_id::uuid, code.ad_space_id);
+
+  IF space_id IS NOT NULL THEN
+    space := resolve_ad_space(
+      space_id,
+      COALESCE(NULLIF(trim(p_visitor), ''), scan_visitor_key(p_ip, p_agent))
+    );
+    status := space->>'status';
+
+    IF status = 'ok' THEN
+      redirect_url := COALESCE(
+        NULLIF(space->'design'->'content'->>'redirectUrl', ''),
+        NULLIF(space->'ad_space'->'content'->>'url', ''),
+        redirect_url
+      );
+    ELSIF status = 'ended' THEN
+      -- The offer ended page is shown instead of any redirect
+      redirect_url := NULL;
+    ELSIF status = 'not_found' THEN
+      space_id := NULL;
+    END IF;
+  ELSIF redirect_url IS NULL THEN
+    status := 'unpublished';
+  END IF;
+
+  IF p_record = 'visit' OR (p_record = 'redirect' AND redirect_url IS NOT NULL) THEN
+    IF code.id IS NOT NULL THEN
+      PERFORM increment_qr_code_scans(
+        code.id, space_id, p_ip, p_agent, COALESCE(p_location, '{}'::jsonb), NULLIF(trim(p_visitor), '')
+      );
+    END IF;
+
+    IF status = 'ok' AND space_id IS NOT NULL THEN
+      PERFORM increment_ad_space_views(space_id, (space->'design'->>'id')::uuid);
+
+      -- Redirect pages send the visitor straight on, that is a click through
+      IF p_record = 'redirect' THEN
+        INSERT INTO ad_space_click_events (ad_space_id, design_id)
+        VALUES (space_id, (space->'design'->>'id')::uuid);
+      END IF;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', status,
+    'qr_code_id', code.id,
+    'ad_space', space->'ad_space',
+    'design', space->'design',
+    'offer_ended', space->'offer_ended',
+    'redirect_url', redirect_url
+  );
+END;
+$$;
+
@@ -0,0 +1,17 @@
+/*
+  # Web addresses only for QR codes
+
+  1. Changes
+    - `qr_codes.url` must start with http:// or https://. `create_qr_code`
+      already checked this, but a code's URL can also be changed with an
+      update, which went unchecked
+    - The constraint is added NOT VALID so existing codes are not rejected,
+      the scan pages refuse to follow any URL that is not a web address
+
+  2. Security
+    - A QR code can no longer be pointed at a `javascript:` or `data:` URL
+*/
+
+ALTER TABLE qr_codes DROP CONSTRAINT IF EXISTS qr_codes_url_check;
+ALTER TABLE qr_codes ADD CONSTRAINT qr_codes_url_check
+  CHECK (url IS NULL OR url ~* '^https?://') NOT VALID;
@@ -0,0 +1,47 @@
+/*
+  # Plan checks are server only
+
+  1. Changes
+    - `check_usage_limits` could be called by anyone for any user id. It
+      logs usage and audit events, so it is now only for the server. The
+      same goes for its old two argument version where it still exists
+    - `get_user_tier`, `entitlement_limit`, `has_entitlement` and
+      `has_custom_branding` told any signed in user the plan of any other
+      user. The dashboard reads its own plan through `get_entitlements`, so
+      they are now only for the server and for other database functions
+
+  2. Functions
+    - The `enforce_entitlement_limit`, `check_ad_design_template` and
+      `check_qr_code_design` triggers run as their owner, they call the plan
+      functions for the row's user
+
+  3. Security
+    - `check_usage_limits`, `get_user_tier`, `entitlement_limit`,
+      `has_entitlement` and `has_custom_branding` can only be executed by
+      `service_role`
+*/
+
+-- The triggers fire for signed in users, who can no longer call the plan functions
+ALTER FUNCTION enforce_entitlement_limit() SECURITY DEFINER;
+ALTER FUNCTION check_ad_design_template() SECURITY DEFINER;
+ALTER FUNCTION check_qr_code_design() SECURITY DEFINER;
+
+DO $$
+BEGIN
+  IF to_regprocedure('check_usage_limits(uuid, text)') IS NOT NULL THEN
+    REVOKE EXECUTE ON FUNCTION check_usage_limits(uuid, text) FROM PUBLIC, anon, authenticated;
+    GRANT EXECUTE ON FUNCTION check_usage_limits(uuid, text) TO service_role;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION check_usage_limits(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_usage_limits(uuid, text, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION get_user_tier(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_user_tier(uuid) TO service_role;
+REVOKE EXECUTE ON FUNCTION entitlement_limit(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION entitlement_limit(uuid, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION has_entitlement(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION has_entitlement(uuid, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION has_custom_branding(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION has_custom_branding(uuid) TO service_role;
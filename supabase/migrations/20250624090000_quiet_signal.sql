@@ -0,0 +1,96 @@
+/*
+  # Limit verification code sends
+
+  1. Changes
+    - Every verification code is sent by SMS, and nothing stopped a user from
+      requesting codes over and over, to their own number or anyone else's.
+      `create_verification_code` now refuses a new code when:
+        - the user or the number got one in the last minute
+        - the user got 10 codes, or the number 5, in the last 24 hours
+
+  2. New Tables
+    - `verification_code_sends`: when each code was created, for whom and for
+      which phone or email. Rows older than a day are removed as new codes
+      are created
+
+  3. Security
+    - RLS on `verification_code_sends` without policies, only
+      `create_verification_code` reads and writes it
+*/
+
+CREATE TABLE IF NOT EXISTS verification_code_sends (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users ON DELETE CASCADE,
+  type text NOT NULL,
+  identifier text NOT NULL,
+  sent_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS verification_code_sends_user_id_sent_at_idx
+  ON verification_code_sends(user_id, sent_at);
+CREATE INDEX IF NOT EXISTS verification_code_sends_identifier_sent_at_idx
+  ON verification_code_sends(identifier, sent_at);
+
+ALTER TABLE verification_code_sends ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION create_verification_code(
+  user_id uuid,
+  type text,
+  identifier text
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  verification_code text;
+BEGIN
+  -- Two requests at once must not both get past the limits
+  PERFORM pg_advisory_xact_lock(hashtext('verification_code_sends:' || create_verification_code.user_id::text));
+  PERFORM pg_advisory_xact_lock(hashtext('verification_code_sends:' || create_verification_code.identifier));
+
+  DELETE FROM verification_code_sends
+  WHERE sent_at < now() - interval '1 day';
+
+  IF EXISTS (
+    SELECT 1 FROM verification_code_sends s
+    WHERE (s.user_id = create_verification_code.user_id OR s.identifier = create_verification_code.identifier)
+    AND s.sent_at > now() - interval '1 minute'
+  ) THEN
+    RAISE EXCEPTION 'Too many verification codes requested. Please wait a minute.';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM verification_code_sends s
+    WHERE s.user_id = create_verification_code.user_id
+  ) >= 10 OR (
+    SELECT COUNT(*) FROM verification_code_sends s
+    WHERE s.identifier = create_verification_code.identifier
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many verification codes requested. Please try again tomorrow.';
+  END IF;
+
+  -- Generate 6-digit code
+  SELECT array_to_string(ARRAY(
+    SELECT chr((48 + round(random() * 9))::integer)
+    FROM generate_series(1,6)
+  ), '') INTO verification_code;
+
+  INSERT INTO verification_codes (user_id, code, type, identifier)
+  VALUES (user_id, verification_code, type, identifier)
+  ON CONFLICT (user_id, type)
+  DO UPDATE SET
+    code = EXCLUDED.code,
+    identifier = EXCLUDED.identifier,
+    expires_at = now() + interval '15 minutes';
+
+  INSERT INTO verification_code_sends (user_id, type, identifier)
+  VALUES (user_id, type, identifier);
+
+  RETURN verification_code;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_verification_code(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_verification_code(uuid, text, text) TO service_role;
@@ -0,0 +1,205 @@
+/*
+  # Count clicks only when the visitor clicks
+
+  1. Changes
+    - Redirect pages no longer record a click for every redirect, the visitor
+      never saw the ad. Only "Continue" on the View page counts
+    - `ad_space_view_events.visitor_id`: the visitor id a view was served to
+    - `ad_space_click_events.visitor_id`, `ad_space_click_events.view_id`:
+      a click belongs to one view. Anyone can call `record_ad_click`, so it
+      only counts a click for a view of the same design by the same visitor
+      in the last day that was not clicked yet. Calling it again does
+      nothing, and clicks can no longer outnumber views
+
+  2. Functions
+    - `increment_ad_space_views(space_id, design_id, visitor)` records the
+      visitor id
+    - `resolve_ad` passes the visitor id on and records no clicks
+    - `record_ad_click(ad_space_id, design_id, visitor)`
+
+  3. Security
+    - `increment_ad_space_views` can no longer be called directly, views are
+      recorded by `resolve_ad`
+*/
+
+ALTER TABLE ad_space_view_events
+  ADD COLUMN IF NOT EXISTS visitor_id text;
+
+CREATE INDEX IF NOT EXISTS ad_space_view_events_visitor_idx
+  ON ad_space_view_events(design_id, visitor_id, viewed_at DESC)
+  WHERE visitor_id IS NOT NULL;
+
+ALTER TABLE ad_space_click_events
+  ADD COLUMN IF NOT EXISTS visitor_id text,
+  ADD COLUMN IF NOT EXISTS view_id uuid REFERENCES ad_space_view_events(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS ad_space_click_events_view_id_key
+  ON ad_space_click_events(view_id);
+
+DROP FUNCTION IF EXISTS increment_ad_space_views(uuid, uuid);
+
+-- Log every view alongside the running total
+CREATE OR REPLACE FUNCTION increment_ad_space_views(
+  space_id uuid,
+  p_design_id uuid DEFAULT NULL,
+  p_visitor text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE ad_spaces
+  SET views = views + 1
+  WHERE id = space_id;
+
+  IF FOUND THEN
+    INSERT INTO ad_space_view_events (ad_space_id, design_id, visitor_id)
+    VALUES (space_id, p_design_id, p_visitor);
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION resolve_ad(
+  p_qr_id text DEFAULT NULL,
+  p_ad_space_id text DEFAULT NULL,
+  p_record text DEFAULT 'none',
+  p_ip text DEFAULT NULL,
+  p_agent text DEFAULT NULL,
+  p_location jsonb DEFAULT '{}'::jsonb,
+  p_visitor text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  uuid_pattern constant text := '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+  code qr_codes%ROWTYPE;
+  space_id uuid;
+  space jsonb;
+  status text := 'ok';
+  redirect_url text;
+BEGIN
+  IF p_record NOT IN ('none', 'visit', 'redirect') THEN
+    RAISE EXCEPTION 'Unknown record mode: %', p_record;
+  END IF;
+
+  p_qr_id := NULLIF(trim(p_qr_id), '');
+  p_ad_space_id := NULLIF(trim(p_ad_space_id), '');
+
+  IF (p_qr_id IS NULL AND p_ad_space_id IS NULL)
+    OR p_qr_id !~* uuid_pattern
+    OR p_ad_space_id !~* uuid_pattern THEN
+    RETURN jsonb_build_object('status', 'invalid');
+  END IF;
+
+  IF p_qr_id IS NOT NULL THEN
+    SELECT * INTO code
+    FROM qr_codes
+    WHERE id = p_qr_id::uuid;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+
+    redirect_url := NULLIF(code.url, '');
+  END IF;
+
+  -- An ad space in the link wins over the code's own
+  space_id := COALESCE(p_ad_space_id::uuid, code.ad_space_id);
+
+  IF space_id IS NOT NULL THEN
+    space := resolve_ad_space(
+      space_id,
+      COALESCE(NULLIF(trim(p_visitor), ''), scan_visitor_key(p_ip, p_agent))
+    );
+    status := space->>'status';
+
+    IF status = 'ok' THEN
+      redirect_url := COALESCE(
+        NULLIF(space->'design'->'content'->>'redirectUrl', ''),
+        NULLIF(space->'ad_space'->'content'->>'url', ''),
+        redirect_url
+      );
+    ELSIF status = 'ended' THEN
+      -- The offer ended page is shown instead of any redirect
+      redirect_url := NULL;
+    ELSIF status = 'not_found' THEN
+      space_id := NULL;
+    END IF;
+  ELSIF redirect_url IS NULL THEN
+    status := 'unpublished';
+  END IF;
+
+  IF p_record = 'visit' OR (p_record = 'redirect' AND redirect_url IS NOT NULL) THEN
+    IF code.id IS NOT NULL THEN
+      PERFORM increment_qr_code_scans(
+        code.id, space_id, p_ip, p_agent, COALESCE(p_location, '{}'::jsonb), NULLIF(trim(p_visitor), '')
+      );
+    END IF;
+
+    IF status = 'ok' AND space_id IS NOT NULL THEN
+      PERFORM increment_ad_space_views(space_id, (space->'design'->>'id')::uuid, NULLIF(trim(p_visitor), ''));
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', status,
+    'qr_code_id', code.id,
+    'ad_space', space->'ad_space',
+    'design', space->'design',
+    'offer_ended', space->'offer_ended',
+    'redirect_url', redirect_url
+  );
+END;
+$$;
+
+DROP FUNCTION IF EXISTS record_ad_click(uuid, uuid);
+
+-- "Continue" clicks on the View page, one per view
+CREATE OR REPLACE FUNCTION record_ad_click(
+  p_ad_space_id uuid,
+  p_design_id uuid,
+  p_visitor text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  unclicked_view uuid;
+BEGIN
+  p_visitor := NULLIF(trim(p_visitor), '');
+  IF p_visitor IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT v.id INTO unclicked_view
+  FROM ad_space_view_events v
+  JOIN ad_designs d ON d.id = v.design_id
+  WHERE v.ad_space_id = p_ad_space_id
+  AND v.design_id = p_design_id
+  AND v.visitor_id = p_visitor
+  AND v.viewed_at > now() - interval '1 day'
+  AND publication_status(d) = 'published'
+  AND NOT EXISTS (
+    SELECT 1 FROM ad_space_click_events c
+    WHERE c.view_id = v.id
+  )
+  ORDER BY v.viewed_at DESC
+  LIMIT 1;
+
+  IF unclicked_view IS NOT NULL THEN
+    INSERT INTO ad_space_click_events (ad_space_id, design_id, visitor_id, view_id)
+    VALUES (p_ad_space_id, p_design_id, p_visitor, unclicked_view)
+    ON CONFLICT DO NOTHING;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION increment_ad_space_views(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_ad_click(uuid, uuid, text) TO anon, authenticated;
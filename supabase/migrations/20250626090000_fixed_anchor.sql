@@ -0,0 +1,51 @@
+/*
+  # Ad Builder QR codes can't be turned into URL codes
+
+  1. Changes
+    - The guard on Ad Builder codes only looked at updates that kept an ad
+      space. Setting `ad_space_id` to null together with a `url` turned the
+      code into a URL code that was still left out of the plan's QR code
+      limit, and `ensure_ad_space_qr_code` then made a new one for the ad
+      space
+    - An Ad Builder code never has a `url`, and its `ad_space_id` is only
+      cleared when the ad space is deleted
+    - `qr_codes_ad_space_default_url_check` keeps `url` empty on Ad Builder
+      codes, added NOT VALID so existing codes are not rejected
+
+  2. Functions
+    - `protect_default_qr_code_target` runs as its owner, it has to see that
+      the ad space is gone whoever deleted it
+*/
+
+CREATE OR REPLACE FUNCTION protect_default_qr_code_target()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.is_ad_space_default THEN
+    IF NEW.url IS NOT NULL OR NEW.url IS DISTINCT FROM OLD.url THEN
+      RAISE EXCEPTION 'The Ad Builder QR code always opens its ad space';
+    END IF;
+
+    -- Deleting the ad space clears ad_space_id, that is allowed
+    IF NEW.ad_space_id IS DISTINCT FROM OLD.ad_space_id
+      AND (
+        NEW.ad_space_id IS NOT NULL
+        OR EXISTS (SELECT 1 FROM ad_spaces WHERE id = OLD.ad_space_id)
+      )
+    THEN
+      RAISE EXCEPTION 'The Ad Builder QR code always opens its ad space';
+    END IF;
+  END IF;
+
+  NEW.is_ad_space_default := OLD.is_ad_space_default;
+  NEW.short_code := OLD.short_code;
+  RETURN NEW;
+END;
+$$;
+
+ALTER TABLE qr_codes DROP CONSTRAINT IF EXISTS qr_codes_ad_space_default_url_check;
+ALTER TABLE qr_codes ADD CONSTRAINT qr_codes_ad_space_default_url_check
+  CHECK (NOT is_ad_space_default OR url IS NULL) NOT VALID;
@@ -0,0 +1,130 @@
+/*
+  # Redirects only go to web addresses
+
+  1. Changes
+    - `resolve_ad` returned the redirect URL of the design or ad space as it
+      was saved, and the View and redirect pages navigate to it. A
+      `javascript:` URL ran on the app's origin, where the visitor's session
+      is kept. Only http:// and https:// URLs are redirected to now, anything
+      else is treated as no redirect URL, the same rule as `qr_codes.url`
+    - `ad_designs.content.redirectUrl` and `ad_spaces.content.url` must be
+      empty or a web address. The constraints are added NOT VALID so
+      existing ads are not rejected, `resolve_ad` skips their URLs
+
+  2. Functions
+    - `web_url(url)`: the URL when it is a web address, null otherwise
+    - `resolve_ad` only returns web addresses as `redirect_url`
+*/
+
+CREATE OR REPLACE FUNCTION web_url(url text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN url ~* '^https?://' THEN url END;
+$$;
+
+-- Same as before, redirect URLs that are not web addresses are left out
+CREATE OR REPLACE FUNCTION resolve_ad(
+  p_qr_id text DEFAULT NULL,
+  p_ad_space_id text DEFAULT NULL,
+  p_record text DEFAULT 'none',
+  p_ip text DEFAULT NULL,
+  p_agent text DEFAULT NULL,
+  p_location jsonb DEFAULT '{}'::jsonb,
+  p_visitor text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  uuid_pattern constant text := '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$';
+  code qr_codes%ROWTYPE;
+  space_id uuid;
+  space jsonb;
+  status text := 'ok';
+  redirect_url text;
+BEGIN
+  IF p_record NOT IN ('none', 'visit', 'redirect') THEN
+    RAISE EXCEPTION 'Unknown record mode: %', p_record;
+  END IF;
+
+  p_qr_id := NULLIF(trim(p_qr_id), '');
+  p_ad_space_id := NULLIF(trim(p_ad_space_id), '');
+
+  IF (p_qr_id IS NULL AND p_ad_space_id IS NULL)
+    OR p_qr_id !~* uuid_pattern
+    OR p_ad_space_id !~* uuid_pattern THEN
+    RETURN jsonb_build_object('status', 'invalid');
+  END IF;
+
+  IF p_qr_id IS NOT NULL THEN
+    SELECT * INTO code
+    FROM qr_codes
+    WHERE id = p_qr_id::uuid;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('status', 'not_found');
+    END IF;
+
+    redirect_url := web_url(code.url);
+  END IF;
+
+  -- An ad space in the link wins over the code's own
+  space_id := COALESCE(p_ad_space_id::uuid, code.ad_space_id);
+
+  IF space_id IS NOT NULL THEN
+    space := resolve_ad_space(
+      space_id,
+      COALESCE(NULLIF(trim(p_visitor), ''), scan_visitor_key(p_ip, p_agent))
+    );
+    status := space->>'status';
+
+    IF status = 'ok' THEN
+      redirect_url := COALESCE(
+        web_url(space->'design'->'content'->>'redirectUrl'),
+        web_url(space->'ad_space'->'content'->>'url'),
+        redirect_url
+      );
+    ELSIF status = 'ended' THEN
+      -- The offer ended page is shown instead of any redirect
+      redirect_url := NULL;
+    ELSIF status = 'not_found' THEN
+      space_id := NULL;
+    END IF;
+  ELSIF redirect_url IS NULL THEN
+    status := 'unpublished';
+  END IF;
+
+  IF p_record = 'visit' OR (p_record = 'redirect' AND redirect_url IS NOT NULL) THEN
+    IF code.id IS NOT NULL THEN
+      PERFORM increment_qr_code_scans(
+        code.id, space_id, p_ip, p_agent, COALESCE(p_location, '{}'::jsonb), NULLIF(trim(p_visitor), '')
+      );
+    END IF;
+
+    IF status = 'ok' AND space_id IS NOT NULL THEN
+      PERFORM increment_ad_space_views(space_id, (space->'design'->>'id')::uuid, NULLIF(trim(p_visitor), ''));
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'status', status,
+    'qr_code_id', code.id,
+    'ad_space', space->'ad_space',
+    'design', space->'design',
+    'offer_ended', space->'offer_ended',
+    'redirect_url', redirect_url
+  );
+END;
+$$;
+
+ALTER TABLE ad_designs DROP CONSTRAINT IF EXISTS ad_designs_redirect_url_check;
+ALTER TABLE ad_designs ADD CONSTRAINT ad_designs_redirect_url_check
+  CHECK (COALESCE(content->>'redirectUrl', '') = '' OR content->>'redirectUrl' ~* '^https?://') NOT VALID;
+
+ALTER TABLE ad_spaces DROP CONSTRAINT IF EXISTS ad_spaces_url_check;
+ALTER TABLE ad_spaces ADD CONSTRAINT ad_spaces_url_check
+  CHECK (COALESCE(content->>'url', '') = '' OR content->>'url' ~* '^https?://') NOT VALID;
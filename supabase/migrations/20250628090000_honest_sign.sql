@@ -0,0 +1,13 @@
+/*
+  # Offer ended links are web addresses
+
+  1. Changes
+    - `ad_designs.offer_ended.url` is shown as a link on the public offer
+      ended page, it must be empty or start with http:// or https://. Added
+      NOT VALID so existing ads are not rejected, the View page only links to
+      web addresses
+*/
+
+ALTER TABLE ad_designs DROP CONSTRAINT IF EXISTS ad_designs_offer_ended_url_check;
+ALTER TABLE ad_designs ADD CONSTRAINT ad_designs_offer_ended_url_check
+  CHECK (COALESCE(offer_ended->>'url', '') = '' OR offer_ended->>'url' ~* '^https?://') NOT VALID;
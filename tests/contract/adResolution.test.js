@@ -0,0 +1,241 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { createClient } from '@supabase/supabase-js';
+import {
+  AD_RESOLUTION_HTTP_STATUS,
+  AD_RESOLUTION_MESSAGES,
+  redirectTarget,
+  resolveAd
+} from '../../shared/adResolution.js';
+
+/**
+ * Contract tests for `resolve_ad` and the shared status mapping, run against
+ * a local Supabase with all migrations applied:
+ *
+ *   supabase start
+ *   SUPABASE_URL=... SUPABASE_ANON_KEY=... SUPABASE_SERVICE_ROLE_KEY=... npm run test:contract
+ *
+ * `supabase status` prints the URL and keys. The tests create a throwaway
+ * user with one ad space and delete it again, and are skipped when the
+ * environment is not set. They run in order, each one moves the ad on.
+ */
+
+const { SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_SERVICE_ROLE_KEY } = process.env;
+const skip = !(SUPABASE_URL && SUPABASE_ANON_KEY && SUPABASE_SERVICE_ROLE_KEY)
+  && 'SUPABASE_URL, SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY are not set';
+
+const clientOptions = { auth: { persistSession: false, autoRefreshToken: false } };
+
+const RESOLUTION_KEYS = ['ad_space', 'design', 'offer_ended', 'qr_code_id', 'redirect_url', 'status'];
+
+const unwrap = ({ data, error }) => {
+  if (error) throw error;
+  return data;
+};
+
+// Every status the database returns must be mapped for the entry points
+const assertStatus = (resolution, status) => {
+  assert.equal(resolution.status, status);
+  assert.ok(AD_RESOLUTION_HTTP_STATUS[status], `no HTTP status for ${status}`);
+  if (status !== 'ok') {
+    assert.ok(AD_RESOLUTION_MESSAGES[status], `no message for ${status}`);
+  }
+};
+
+describe('resolve_ad', { skip }, () => {
+  let admin;
+  let anon;
+  let owner;
+  let userId;
+  let adSpaceId;
+  let designId;
+  let qrId;
+
+  // What has been recorded for the ad space so far
+  const counts = async () => {
+    const space = unwrap(await admin.from('ad_spaces').select('views').eq('id', adSpaceId).single());
+    const scans = unwrap(await admin.from('qr_codes').select('scans').eq('id', qrId).single());
+    const { count: clicks, error } = await admin
+      .from('ad_space_click_events')
+      .select('id', { count: 'exact', head: true })
+      .eq('ad_space_id', adSpaceId);
+    if (error) throw error;
+
+    return { views: space.views, scans: scans.scans, clicks };
+  };
+
+  const publish = async () => {
+    unwrap(await owner.rpc('publish_ad_design', { p_design_id: designId }));
+  };
+
+  before(async () => {
+    admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, clientOptions);
+    anon = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, clientOptions);
+    owner = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, clientOptions);
+
+    const email = `contract-${randomUUID()}@example.com`;
+    const password = randomUUID();
+    const { user } = unwrap(await admin.auth.admin.createUser({ email, password, email_confirm: true }));
+    userId = user.id;
+    unwrap(await owner.auth.signInWithPassword({ email, password }));
+
+    const space = unwrap(await owner
+      .from('ad_spaces')
+      .insert({ user_id: userId, title: 'Contract test', content: {}, theme: {} })
+      .select('id')
+      .single());
+    adSpaceId = space.id;
+
+    const design = unwrap(await owner
+      .from('ad_designs')
+      .insert({ user_id: userId, name: 'Contract test', ad_space_id: adSpaceId, content: { headline: 'Hello' } })
+      .select('id')
+      .single());
+    designId = design.id;
+
+    const code = unwrap(await owner.rpc('ensure_ad_space_qr_code', { p_ad_space_id: adSpaceId }).single());
+    qrId = code.id;
+  });
+
+  after(async () => {
+    if (userId) {
+      unwrap(await admin.auth.admin.deleteUser(userId));
+    }
+  });
+
+  test('a lookup without a valid id is invalid', async () => {
+    assertStatus(await resolveAd(anon, {}), 'invalid');
+    assertStatus(await resolveAd(anon, { qrId: 'not-a-uuid' }), 'invalid');
+    assertStatus(await resolveAd(anon, { adSpaceId: 'not-a-uuid' }), 'invalid');
+  });
+
+  test('unknown codes and ad spaces are not found', async () => {
+    assertStatus(await resolveAd(anon, { qrId: randomUUID() }), 'not_found');
+    assertStatus(await resolveAd(anon, { adSpaceId: randomUUID() }), 'not_found');
+  });
+
+  test('an ad that was never published is unpublished and goes nowhere', async () => {
+    const resolution = await resolveAd(anon, { qrId });
+
+    assertStatus(resolution, 'unpublished');
+    assert.equal(redirectTarget(resolution, { qrId }), null);
+  });
+
+  test('a published ad resolves the same by code and by ad space', async () => {
+    await publish();
+
+    const byCode = await resolveAd(anon, { qrId });
+    const bySpace = await resolveAd(anon, { adSpaceId });
+
+    assertStatus(byCode, 'ok');
+    assert.deepEqual(Object.keys(byCode).sort(), RESOLUTION_KEYS);
+    assert.equal(byCode.qr_code_id, qrId);
+    assert.equal(byCode.ad_space.id, adSpaceId);
+    assert.equal(byCode.design.id, designId);
+    assert.equal(byCode.redirect_url, null);
+    assert.deepEqual(bySpace.design, byCode.design);
+    assert.equal(redirectTarget(byCode, { qrId }), `/view?qr=${qrId}`);
+  });
+
+  test('only visits are recorded when the ad is shown', async () => {
+    const visitor = { id: randomUUID(), agent: 'contract-test' };
+    const start = await counts();
+
+    await resolveAd(anon, { qrId, record: 'none', visitor });
+    assert.deepEqual(await counts(), start);
+
+    // Redirect pages send ads without a redirect URL on to the View page, which records the visit
+    await resolveAd(anon, { qrId, record: 'redirect', visitor });
+    assert.deepEqual(await counts(), start);
+
+    await resolveAd(anon, { qrId, record: 'visit', visitor });
+    assert.deepEqual(await counts(), { ...start, views: start.views + 1, scans: start.scans + 1 });
+  });
+
+  test('a click counts once per view of the visitor', async () => {
+    const visitor = randomUUID();
+    const click = () => anon.rpc('record_ad_click', {
+      p_ad_space_id: adSpaceId,
+      p_design_id: designId,
+      p_visitor: visitor
+    });
+
+    const start = await counts();
+    unwrap(await click());
+    assert.equal((await counts()).clicks, start.clicks, 'a click without a view was counted');
+
+    await resolveAd(anon, { adSpaceId, record: 'visit', visitor: { id: visitor } });
+    unwrap(await click());
+    unwrap(await click());
+    assert.equal((await counts()).clicks, start.clicks + 1);
+  });
+
+  test('a redirect records the scan and the view but no click', async () => {
+    unwrap(await owner
+      .from('ad_designs')
+      .update({ content: { redirectUrl: 'https://example.com/offer' } })
+      .eq('id', designId));
+    await publish();
+
+    const start = await counts();
+    const resolution = await resolveAd(anon, { qrId, record: 'redirect', visitor: { id: randomUUID() } });
+
+    assertStatus(resolution, 'ok');
+    assert.equal(resolution.redirect_url, 'https://example.com/offer');
+    assert.equal(redirectTarget(resolution, { qrId }), 'https://example.com/offer');
+    assert.deepEqual(await counts(), { ...start, views: start.views + 1, scans: start.scans + 1 });
+  });
+
+  test('only web addresses are redirected to', async () => {
+    const targets = ['javascript:alert(document.cookie)', 'data:text/html,<script>alert(1)</script>'];
+
+    for (const target of targets) {
+      const { error: designError } = await owner
+        .from('ad_designs')
+        .update({ content: { redirectUrl: target } })
+        .eq('id', designId);
+      assert.ok(designError, `${target} was saved as the design's redirect URL`);
+
+      const { error: spaceError } = await owner
+        .from('ad_spaces')
+        .update({ content: { url: target } })
+        .eq('id', adSpaceId);
+      assert.ok(spaceError, `${target} was saved as the ad space's URL`);
+
+      // Ads published before the checks were added can still hold one
+      const { published } = unwrap(await admin.from('ad_designs').select('published').eq('id', designId).single());
+      unwrap(await admin
+        .from('ad_designs')
+        .update({
+          published: {
+            ...published,
+            design: { ...published.design, content: { ...published.design.content, redirectUrl: target } },
+            ad_space: { ...published.ad_space, content: { url: target } }
+          }
+        })
+        .eq('id', designId));
+
+      const resolution = unwrap(await anon.rpc('resolve_ad', { p_qr_id: qrId }));
+
+      assertStatus(resolution, 'ok');
+      assert.equal(resolution.redirect_url, null);
+      assert.equal(redirectTarget({ ...resolution, redirect_url: target }, { qrId }), `/view?qr=${qrId}`);
+    }
+  });
+
+  test('an archived ad has ended and shows only the ended page', async () => {
+    unwrap(await owner
+      .from('ad_designs')
+      .update({ archived_at: new Date().toISOString() })
+      .eq('id', designId));
+
+    const resolution = await resolveAd(anon, { qrId });
+
+    assertStatus(resolution, 'ended');
+    assert.equal(resolution.design, null);
+    assert.equal(resolution.redirect_url, null);
+    assert.ok(resolution.offer_ended);
+    assert.equal(redirectTarget(resolution, { qrId }), `/view?qr=${qrId}`);
+  });
+});
@@ -0,0 +1,87 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { createClient } from '@supabase/supabase-js';
+
+/**
+ * Contract tests for the Ad Builder QR code of an ad space, run against a
+ * local Supabase the same way as adResolution.test.js. The owner must not be
+ * able to point the code anywhere else, it is left out of the plan's QR code
+ * limit.
+ */
+
+const { SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_SERVICE_ROLE_KEY } = process.env;
+const skip = !(SUPABASE_URL && SUPABASE_ANON_KEY && SUPABASE_SERVICE_ROLE_KEY)
+  && 'SUPABASE_URL, SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY are not set';
+
+const clientOptions = { auth: { persistSession: false, autoRefreshToken: false } };
+
+const unwrap = ({ data, error }) => {
+  if (error) throw error;
+  return data;
+};
+
+describe('Ad Builder QR code', { skip }, () => {
+  let admin;
+  let owner;
+  let userId;
+  let adSpaceId;
+  let qrId;
+
+  const current = async () => unwrap(await admin
+    .from('qr_codes')
+    .select('url, ad_space_id, is_ad_space_default')
+    .eq('id', qrId)
+    .single());
+
+  before(async () => {
+    admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, clientOptions);
+    owner = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, clientOptions);
+
+    const email = `contract-${randomUUID()}@example.com`;
+    const password = randomUUID();
+    const { user } = unwrap(await admin.auth.admin.createUser({ email, password, email_confirm: true }));
+    userId = user.id;
+    unwrap(await owner.auth.signInWithPassword({ email, password }));
+
+    const space = unwrap(await owner
+      .from('ad_spaces')
+      .insert({ user_id: userId, title: 'Contract test', content: {}, theme: {} })
+      .select('id')
+      .single());
+    adSpaceId = space.id;
+
+    const code = unwrap(await owner.rpc('ensure_ad_space_qr_code', { p_ad_space_id: adSpaceId }).single());
+    qrId = code.id;
+  });
+
+  after(async () => {
+    if (userId) {
+      unwrap(await admin.auth.admin.deleteUser(userId));
+    }
+  });
+
+  test('the owner cannot turn it into a URL code', async () => {
+    const changes = [
+      { ad_space_id: null, url: 'https://example.com' },
+      { url: 'https://example.com' },
+      { ad_space_id: null }
+    ];
+
+    for (const change of changes) {
+      const { error } = await owner.from('qr_codes').update(change).eq('id', qrId);
+      assert.match(error?.message ?? '', /always opens its ad space/, JSON.stringify(change));
+    }
+
+    assert.deepEqual(await current(), { url: null, ad_space_id: adSpaceId, is_ad_space_default: true });
+  });
+
+  test('deleting the ad space clears it and leaves it without a URL', async () => {
+    unwrap(await owner.from('ad_spaces').delete().eq('id', adSpaceId));
+
+    assert.deepEqual(await current(), { url: null, ad_space_id: null, is_ad_space_default: true });
+
+    const { error } = await owner.from('qr_codes').update({ url: 'https://example.com' }).eq('id', qrId);
+    assert.match(error?.message ?? '', /always opens its ad space/);
+  });
+});
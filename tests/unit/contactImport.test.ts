@@ -0,0 +1,36 @@
+import { describe, expect, test } from 'vitest';
+import { buildImportPlan, detectColumnMapping } from '../../src/lib/contactImport';
+import { parseCsv, readSpreadsheet } from '../../src/lib/spreadsheet';
+
+// Blank line 3, a quoted name over lines 5 and 6
+const CSV = [
+  'Name,Phone',
+  'Ann,(415) 555-0100',
+  '',
+  'Bob,call me',
+  '"Cara',
+  'Jones",415 555 0101',
+  'Dan,415-555-0100'
+].join('\r\n');
+
+describe('parseCsv', () => {
+  test('numbers rows by the line they start on and skips blank lines', () => {
+    expect(parseCsv(CSV).map(({ number }) => number)).toEqual([1, 2, 4, 5, 7]);
+  });
+});
+
+describe('buildImportPlan', () => {
+  test('reports the rows as numbered in the file after a blank line', async () => {
+    const sheet = await readSpreadsheet(new File([CSV], 'contacts.csv', { type: 'text/csv' }));
+    const plan = buildImportPlan(sheet, detectColumnMapping(sheet.headers), 'US');
+
+    expect(plan.contacts.map(({ row, name }) => [row, name])).toEqual([
+      [2, 'Ann'],
+      [5, 'Cara\r\nJones']
+    ]);
+    expect(plan.rejected.map(({ row, reason }) => [row, reason])).toEqual([
+      [4, 'Phone number contains letters'],
+      [7, 'Duplicate of row 2']
+    ]);
+  });
+});
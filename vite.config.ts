@@ -10,6 +10,11 @@ export default defineConfig({
   envDir: './',
   build: {
     rollupOptions: {
+      // The QR redirect page is its own entry, next to the app
+      input: {
+        main: 'index.html',
+        qrRedirect: 'qr-redirect.html',
+      },
       output: {
         manualChunks: {
           'supabase': ['@supabase/supabase-js'],
@@ -21,6 +26,10 @@ export default defineConfig({
     headers: {
       // Disable CSP during development to prevent eval issues
       'Content-Security-Policy': ''
+    },
+    proxy: {
+      // Express API (npm run server)
+      '/api': 'http://localhost:3000'
     }
   }
 });
\ No newline at end of file